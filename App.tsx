@@ -1,91 +1,584 @@
 
-import React, { useState, useCallback } from 'react';
-import type { PositiveEntry } from './types';
-import { analyzeStatement } from './services/geminiService';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import type { AnalysisCase, AnalysisErrorKind, AuditEvent, AuditSource, BoundingBox, CaseEventType, EditSnapshot, EntryFilter, ExcludedEntry, ReviewItem, ExtractionMode, ExtractorSettings, ImagePreprocessing, IncomeRule, PositiveEntry, SessionFile } from './types';
+import { createId, createSessionFiles, runSession, DEFAULT_CONCURRENCY } from './services/analysisSession';
+import { createStatementExtractor, loadExtractorSettings, saveExtractorSettings } from './services/statementExtractor';
+import { findDuplicateClusters } from './services/deduplication';
+import { reconcileSession } from './services/reconciliation';
+import { computeStatementCoverage, monthRange } from './services/statementCoverage';
+import { buildAnalysisResult } from './services/analysisPipeline';
+import { extractChunkPage, toChunkPage } from './services/pdfChunking';
+import { ANALYSIS_ERROR_INFO, createCancelledError, getErrorKind } from './services/analysisErrors';
+import { applyIncomeRules, createManualExclusion, loadIncomeRules, MANUAL_EXCLUSION_RULE_ID, saveIncomeRules } from './services/incomeRules';
+import { categorizeEntries, categorizeWithAi, getCategoryLabel, learnCategoryOverride, loadCategoryOverrides, saveCategoryOverrides, type CategoryOverrides } from './services/categorization';
+import { createCase, createCaseEvent, loadCase, saveCase } from './services/caseStore';
+import { diffSnapshots, markManualEdits, MAX_UNDO_STEPS } from './services/auditTrail';
+import { buildAnalysisDocument, exportAnalysisDocument, importAnalysisDocument, isAnalysisDocumentFile } from './services/analysisDocument';
+import { buildReportFileName } from './services/spreadsheetExport';
+import { extractCounterparty } from './services/counterparty';
+import { EMPTY_ENTRY_FILTER, filterEntries, isEntryFilterActive } from './services/entryFilters';
 import { FileUpload } from './components/FileUpload';
+import { SessionFileList } from './components/SessionFileList';
+import { ReconciliationPanel } from './components/ReconciliationPanel';
+import { CoveragePanel } from './components/CoveragePanel';
+import { PayerAnalysisPanel } from './components/PayerAnalysisPanel';
+import { IncomeStabilityPanel } from './components/IncomeStabilityPanel';
+import { ExtractorSettingsPanel } from './components/ExtractorSettingsPanel';
+import { IncomeRulesPanel } from './components/IncomeRulesPanel';
+import { ExcludedEntriesList } from './components/ExcludedEntriesList';
+import { NeedsReviewList } from './components/NeedsReviewList';
 import { ResultsTable } from './components/ResultsTable';
+import { CaseList } from './components/CaseList';
+import { AuditTrailPanel } from './components/AuditTrailPanel';
+import { StatementPreview } from './components/StatementPreview';
+import { ImageAdjustDialog } from './components/ImageAdjustDialog';
+import { preprocessSessionFiles } from './services/imagePreprocessing';
 import { MonthlyAnalysisTable } from './components/MonthlyAnalysisTable';
-import { Loader } from './components/Loader';
-import { LogoIcon, AlertTriangleIcon, FileTextIcon, EditIcon } from './components/icons';
+import { IncomeDashboard } from './components/IncomeDashboard';
+import { AnalysisProgress } from './components/AnalysisProgress';
+import { LogoIcon, AlertTriangleIcon, EditIcon } from './components/icons';
+
+// Dados do caso aberto que não estão no estado da análise; o restante é gravado junto no salvamento automático
+type CaseMeta = Omit<AnalysisCase, 'clientName' | 'files' | 'positiveEntries' | 'excludedEntries' | 'auditTrail' | 'needsReview'>;
+
+// Espera entre a última alteração e a gravação do caso no IndexedDB
+const CASE_SAVE_DELAY = 800;
+
+const toCaseMeta = ({ clientName, files, positiveEntries, excludedEntries, auditTrail, needsReview, ...meta }: AnalysisCase): CaseMeta => meta;
+
+// Tipo comum às falhas, para a caixa de erro sugerir a recuperação; tipos diferentes ficam sem sugestão
+const sharedErrorKind = (files: SessionFile[]): AnalysisErrorKind | undefined => {
+  const kinds = new Set(files.map(file => file.errorKind));
+  return kinds.size === 1 ? files[0].errorKind : undefined;
+};
 
 const App: React.FC = () => {
-  const [file, setFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [view, setView] = useState<'analysis' | 'cases'>('analysis');
+  const [currentCase, setCurrentCase] = useState<CaseMeta | null>(null);
+  const [sessionFiles, setSessionFiles] = useState<SessionFile[]>([]);
   const [positiveEntries, setPositiveEntries] = useState<PositiveEntry[]>([]);
+  const [excludedEntries, setExcludedEntries] = useState<ExcludedEntry[]>([]);
+  const [needsReview, setNeedsReview] = useState<ReviewItem[]>([]);
   const [extractedClientName, setExtractedClientName] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setErrorState] = useState<{ message: string; kind?: AnalysisErrorKind } | null>(null);
+  // O tipo do erro escolhe o título e a ação de recuperação da caixa de erro
+  const setError = useCallback((message: string | null, kind?: AnalysisErrorKind) => setErrorState(message ? { message, kind } : null), []);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('credits');
+  const [extractorSettings, setExtractorSettings] = useState<ExtractorSettings>(loadExtractorSettings);
+  const [incomeRules, setIncomeRules] = useState<IncomeRule[]>(loadIncomeRules);
+  const [categoryOverrides, setCategoryOverrides] = useState<CategoryOverrides>(loadCategoryOverrides);
+  const [isCategorizing, setIsCategorizing] = useState<boolean>(false);
+  const [auditTrail, setAuditTrail] = useState<AuditEvent[]>([]);
+  const [undoStack, setUndoStack] = useState<EditSnapshot[]>([]);
+  const [redoStack, setRedoStack] = useState<EditSnapshot[]>([]);
 
+  // Filtro do extrato detalhado (o mês vem do painel de gráficos) e se ele vale também para a análise mensal e as exportações
+  const [entryFilter, setEntryFilter] = useState<EntryFilter>(EMPTY_ENTRY_FILTER);
+  const [filterDrivesReports, setFilterDrivesReports] = useState<boolean>(false);
+  const [previewTarget, setPreviewTarget] = useState<{ file: File; page?: number; boundingBox?: BoundingBox; title?: string } | null>(null);
+  const [imageAdjustTarget, setImageAdjustTarget] = useState<SessionFile | null>(null);
+  // Fotos recém-enviadas sendo tratadas antes de entrarem na lista
+  const [isPreparingFiles, setIsPreparingFiles] = useState<boolean>(false);
   const [isEditingName, setIsEditingName] = useState<boolean>(false);
   const [editableName, setEditableName] = useState<string>('');
 
-  const handleFileSelect = (selectedFile: File) => {
-    setFile(selectedFile);
-    setPositiveEntries([]);
-    setError(null);
-    setExtractedClientName('');
-    setEditableName('');
-    setIsEditingName(false);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setPreview(reader.result as string);
+  // Registra a ação no histórico do caso; a primeira ação de uma análise nova cria o caso
+  const recordCaseEvent = (type: CaseEventType, description: string) => {
+    setCurrentCase(current => {
+      const base = current || toCaseMeta(createCase());
+      return { ...base, history: [...base.history, createCaseEvent(type, description)] };
+    });
+  };
+
+  const currentSnapshot = (): EditSnapshot => ({ positiveEntries, excludedEntries, needsReview, clientName: extractedClientName });
+
+  const restoreSnapshot = (snapshot: EditSnapshot) => {
+    setPositiveEntries(snapshot.positiveEntries);
+    setExcludedEntries(snapshot.excludedEntries);
+    setNeedsReview(snapshot.needsReview);
+    setExtractedClientName(snapshot.clientName);
+  };
+
+  // Nova base para desfazer: depois de uma análise ou ao abrir um caso, não há o que desfazer
+  const resetUndoHistory = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  /**
+   * Toda alteração dos lançamentos ou do nome do cliente passa por aqui: registra a diferença na
+   * trilha de auditoria e guarda o estado anterior para desfazer.
+   */
+  const applyEdit = (changes: Partial<EditSnapshot>, source: AuditSource = 'manual') => {
+    const before = currentSnapshot();
+    const after = { ...before, ...changes };
+    if (source === 'manual') {
+      after.positiveEntries = markManualEdits(before.positiveEntries, after.positiveEntries);
+    }
+    restoreSnapshot(after);
+    const events = diffSnapshots(before, after, source);
+    const listsChanged = before.excludedEntries.length !== after.excludedEntries.length || before.needsReview.length !== after.needsReview.length;
+    if (events.length === 0 && !listsChanged) return;
+    setAuditTrail(current => [...current, ...events]);
+    setUndoStack(current => [...current, before].slice(-MAX_UNDO_STEPS));
+    setRedoStack([]);
+  };
+
+  const handleUndo = () => {
+    const previous = undoStack[undoStack.length - 1];
+    if (!previous) return;
+    const current = currentSnapshot();
+    setUndoStack(undoStack.slice(0, -1));
+    setRedoStack([...redoStack, current]);
+    restoreSnapshot(previous);
+    setAuditTrail(trail => [...trail, ...diffSnapshots(current, previous, 'undo')]);
+  };
+
+  const handleRedo = () => {
+    const next = redoStack[redoStack.length - 1];
+    if (!next) return;
+    const current = currentSnapshot();
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack([...undoStack, current]);
+    restoreSnapshot(next);
+    setAuditTrail(trail => [...trail, ...diffSnapshots(current, next, 'redo')]);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (ou Ctrl+Y) fora de campos de texto, onde o navegador já desfaz a digitação
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isLoading) return;
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
     };
-    reader.readAsDataURL(selectedFile);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    if (!currentCase || isLoading) return;
+    const timer = setTimeout(() => {
+      saveCase({
+        ...currentCase,
+        clientName: extractedClientName,
+        files: sessionFiles,
+        positiveEntries,
+        excludedEntries,
+        auditTrail,
+        needsReview,
+      }).catch((err: any) => setError(err.message || "Não foi possível salvar o caso."));
+    }, CASE_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [currentCase, extractedClientName, sessionFiles, positiveEntries, excludedEntries, auditTrail, needsReview, isLoading]);
+
+  const handleFilesSelect = async (selectedFiles: File[]) => {
+    setError(null);
+    const documents = selectedFiles.filter(isAnalysisDocumentFile);
+    if (documents.length > 0) {
+      if (documents.length === 1 && selectedFiles.length === 1) {
+        await handleImportAnalysis(documents[0]);
+      } else {
+        setError("Envie a análise exportada (JSON) sozinha: ela substitui a análise atual e não pode ser combinada com extratos.");
+      }
+      return;
+    }
+    setIsPreparingFiles(true);
+    try {
+      const newFiles = await createSessionFiles(selectedFiles);
+      // As fotos são tratadas aqui, no navegador; a CLI manda as imagens como estão
+      setSessionFiles(current => [...current, ...newFiles]);
+      if (extractorSettings.preprocessImages) {
+        const processed = await preprocessSessionFiles(newFiles);
+        setSessionFiles(current => current.map(file => processed.find(item => item.id === file.id) || file));
+      }
+    } catch (err: any) {
+      setError(err.message || "Não foi possível preparar os arquivos selecionados.");
+    } finally {
+      setIsPreparingFiles(false);
+    }
+  };
+
+  // Reabre uma análise exportada sem chamar a IA; os arquivos originais não fazem parte do JSON
+  const handleImportAnalysis = async (file: File) => {
+    try {
+      const document = importAnalysisDocument(await file.text());
+      setSessionFiles([]);
+      setPositiveEntries(document.entries);
+      setExcludedEntries(document.excluded);
+      setNeedsReview([]);
+      setExtractedClientName(document.clientName);
+      setEditableName(document.clientName);
+      setAuditTrail(document.auditTrail);
+      resetUndoHistory();
+      setEntryFilter(EMPTY_ENTRY_FILTER);
+      setIsEditingName(false);
+      setPreviewTarget(null);
+      setCurrentCase(null);
+      recordCaseEvent('imported', `Análise importada de "${file.name}" (exportada em ${new Date(document.exportedAt).toLocaleString('pt-BR')}, ${document.sourceFiles.length} arquivo(s) de origem).`);
+      if (document.entries.length === 0) {
+        setError("A análise importada não tem lançamentos de receita.");
+      }
+    } catch (err: any) {
+      setError(err.message || "Não foi possível importar a análise.");
+    }
+  };
+
+  const handleExportAnalysis = async () => {
+    try {
+      const document = await buildAnalysisDocument({
+        clientName: extractedClientName,
+        files: sessionFiles,
+        entries: positiveEntries,
+        excluded: excludedEntries,
+        auditTrail,
+      });
+      const blob = new Blob([exportAnalysisDocument(document)], { type: 'application/json' });
+      const fileName = buildReportFileName(extractedClientName, 'json');
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      handleReportGenerated(fileName, blob);
+    } catch (err: any) {
+      setError(err.message || "Não foi possível exportar a análise.");
+    }
+  };
+
+  const handleExtractorSettingsChange = (settings: ExtractorSettings) => {
+    setExtractorSettings(settings);
+    saveExtractorSettings(settings);
+  };
+
+  const handleIncomeRulesChange = (rules: IncomeRule[]) => {
+    setIncomeRules(rules);
+    saveIncomeRules(rules);
+    // Reaplica sobre tudo o que já foi extraído, preservando as edições feitas na tabela
+    // e as exclusões manuais, que não dependem de regra
+    const manualExclusions = excludedEntries.filter(item => item.ruleId === MANUAL_EXCLUSION_RULE_ID);
+    const allEntries = [...positiveEntries, ...excludedEntries.filter(item => item.ruleId !== MANUAL_EXCLUSION_RULE_ID).map(item => item.entry)]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const result = applyIncomeRules(allEntries, rules, extractedClientName);
+    applyEdit({ positiveEntries: categorizeEntries(result.entries, categoryOverrides), excludedEntries: [...result.excluded, ...manualExclusions] }, 'rule');
+    if (allEntries.length > 0) {
+      recordCaseEvent('rules-applied', `Regras de receita reaplicadas: ${result.excluded.length} crédito(s) excluído(s).`);
+    }
+  };
+
+  const handleRestoreExcluded = (item: ExcludedEntry) => {
+    const [restored] = categorizeEntries([{ ...item.entry, exclusionOverridden: true }], categoryOverrides);
+    applyEdit({
+      positiveEntries: [...positiveEntries, restored],
+      excludedEntries: excludedEntries.filter(excluded => excluded !== item),
+    });
+    recordCaseEvent('entry-restored', `"${item.entry.description}" incluído na receita apesar da regra "${item.ruleName}".`);
+  };
+
+  const handleCategoryChange = (entry: PositiveEntry, category: string) => {
+    const result = learnCategoryOverride(positiveEntries, entry, category, categoryOverrides);
+    applyEdit({ positiveEntries: result.entries });
+    setCategoryOverrides(result.overrides);
+    saveCategoryOverrides(result.overrides);
+    recordCaseEvent('category-changed', `"${entry.description}" reclassificado como ${getCategoryLabel(category)}.`);
+  };
+
+  const handleExcludeEntries = (entries: PositiveEntry[]) => {
+    const excluded = new Set(entries);
+    applyEdit({
+      positiveEntries: positiveEntries.filter(entry => !excluded.has(entry)),
+      excludedEntries: [...excludedEntries, ...entries.map(createManualExclusion)],
+    });
+    recordCaseEvent('entries-edited', `${entries.length} lançamento(s) excluído(s) da receita manualmente.`);
+  };
+
+  const handleBulkCategoryChange = (entries: PositiveEntry[], category: string) => {
+    const selected = new Set(entries);
+    applyEdit({
+      positiveEntries: positiveEntries.map(entry => (selected.has(entry) ? { ...entry, category, categorySource: 'manual' } : entry)),
+    });
+    recordCaseEvent('category-changed', `${entries.length} lançamento(s) reclassificado(s) como ${getCategoryLabel(category)}.`);
+  };
+
+  const handleEntriesEdit = (entries: PositiveEntry[]) => {
+    applyEdit({ positiveEntries: entries });
+    recordCaseEvent('entries-edited', `Lançamentos editados na tabela (${entries.length} lançamento(s) após a edição).`);
+  };
+
+  const handleAiCategorize = async () => {
+    setIsCategorizing(true);
+    try {
+      applyEdit({ positiveEntries: await categorizeWithAi(positiveEntries) }, 'ai');
+      recordCaseEvent('category-changed', 'Lançamentos classificados pela IA.');
+    } catch (err: any) {
+      setError(err.message || "Não foi possível classificar os lançamentos com a IA.", getErrorKind(err));
+    } finally {
+      setIsCategorizing(false);
+    }
+  };
+
+  // Lançamento corrigido na revisão: passa pelas regras de receita como os demais
+  const handleResolveReview = (item: ReviewItem, entry: PositiveEntry) => {
+    const counterparty = extractCounterparty(entry.description);
+    const result = applyIncomeRules([counterparty ? { ...entry, counterparty } : entry], incomeRules, extractedClientName);
+    applyEdit({
+      positiveEntries: [...positiveEntries, ...categorizeEntries(result.entries, categoryOverrides)],
+      excludedEntries: [...excludedEntries, ...result.excluded],
+      needsReview: needsReview.filter(current => current !== item),
+    });
+  };
+
+  const handleDiscardReview = (item: ReviewItem) => {
+    applyEdit({ needsReview: needsReview.filter(current => current !== item) });
+    recordCaseEvent('entries-edited', `Linha da extração descartada na revisão ("${item.raw.description || 'sem descrição'}", valor "${item.raw.amount || '-'}").`);
+  };
+
+  const handleReviewPreview = (item: ReviewItem) => {
+    const sessionFile = sessionFiles.find(file => file.id === item.sourceFileId);
+    if (!sessionFile) return;
+    if (!sessionFile.file.type.startsWith('image/') && sessionFile.file.type !== 'application/pdf') return;
+    setPreviewTarget({ file: sessionFile.file, page: toChunkPage(sessionFile, item.page), boundingBox: item.boundingBox, title: item.raw.description });
+  };
+
+  const handleFileRemove = (id: string) => {
+    const removed = sessionFiles.find(file => file.id === id);
+    if (currentCase && removed) {
+      recordCaseEvent('files-removed', `Arquivo "${removed.name}" removido do caso.`);
+    }
+    setSessionFiles(current => current.filter(file => file.id !== id));
+    // Cada crédito do arquivo removido fica na trilha de auditoria como excluído
+    applyEdit({
+      positiveEntries: positiveEntries.filter(entry => entry.sourceFileId !== id),
+      excludedEntries: excludedEntries.filter(item => item.entry.sourceFileId !== id),
+      needsReview: needsReview.filter(item => item.sourceFileId !== id),
+    });
+    // Desfazer traria de volta lançamentos de um arquivo que não está mais na sessão
+    resetUndoHistory();
+    setEntryFilter(EMPTY_ENTRY_FILTER);
+  };
+
+  // Volta o arquivo para a fila ignorando o cache: a próxima análise chama a IA de novo
+  const handleFileReanalyze = (id: string) => {
+    setSessionFiles(current => current.map(file => (
+      file.id === id ? { ...file, status: 'pending', result: undefined, cached: undefined, bypassCache: true } : file
+    )));
+  };
+
+  // Página de um PDF dividido em que nada foi encontrado: vira um arquivo próprio, logo depois do lote,
+  // analisado sozinho na próxima análise. Se a página já foi separada antes, só volta para a fila.
+  const handlePageRetry = async (id: string, page: number) => {
+    const source = sessionFiles.find(file => file.id === id);
+    if (!source?.chunk) return;
+    const existing = sessionFiles.find(file =>
+      file.chunk?.documentId === source.chunk!.documentId && file.chunk.pageStart === page && file.chunk.pageEnd === page);
+    if (existing) {
+      handleFileReanalyze(existing.id);
+      return;
+    }
+    try {
+      const { file, chunk } = await extractChunkPage(source, page);
+      const pageFile: SessionFile = { id: createId('file'), file, name: file.name, status: 'pending', chunk, bypassCache: true };
+      setSessionFiles(current => {
+        const index = current.findIndex(item => item.id === id);
+        return [...current.slice(0, index + 1), pageFile, ...current.slice(index + 1)];
+      });
+    } catch (err: any) {
+      setError(err.message || "Não foi possível separar a página do extrato.");
+    }
+  };
+
+  // Novo recorte (ou a foto original): o arquivo volta para a fila com a imagem escolhida
+  const handleImageAdjusted = (id: string, file: File, preprocessing?: ImagePreprocessing) => {
+    setSessionFiles(current => current.map(item => (
+      item.id === id
+        ? { ...item, file, preprocessing, status: 'pending', result: undefined, error: undefined, errorKind: undefined, cached: undefined }
+        : item
+    )));
+    setImageAdjustTarget(null);
+  };
+
+  const handleFilePreview = (sessionFile: SessionFile) => {
+    setPreviewTarget({ file: sessionFile.file });
+  };
+
+  const handleEntrySelect = (entry: PositiveEntry) => {
+    const sessionFile = sessionFiles.find(file => file.id === entry.sourceFileId);
+    if (!sessionFile) return;
+    if (!sessionFile.file.type.startsWith('image/') && sessionFile.file.type !== 'application/pdf') return;
+    setPreviewTarget({ file: sessionFile.file, page: toChunkPage(sessionFile, entry.page), boundingBox: entry.boundingBox, title: entry.description });
   };
 
   const handleFileClear = () => {
-    setFile(null);
-    setPreview(null);
+    setSessionFiles([]);
     setPositiveEntries([]);
+    setExcludedEntries([]);
+    setNeedsReview([]);
+    setPreviewTarget(null);
     setExtractedClientName('');
     setError(null);
     setEditableName('');
     setIsEditingName(false);
+    setAuditTrail([]);
+    resetUndoHistory();
+    setEntryFilter(EMPTY_ENTRY_FILTER);
+    // O caso atual continua salvo; a próxima análise cria um caso novo
+    setCurrentCase(null);
   }
 
+  const handleOpenCase = async (id: string) => {
+    try {
+      const stored = await loadCase(id);
+      setSessionFiles(stored.files);
+      setPositiveEntries(stored.positiveEntries);
+      setExcludedEntries(stored.excludedEntries);
+      setNeedsReview(stored.needsReview);
+      setExtractedClientName(stored.clientName);
+      setEditableName(stored.clientName);
+      setAuditTrail(stored.auditTrail);
+      resetUndoHistory();
+      setEntryFilter(EMPTY_ENTRY_FILTER);
+      setIsEditingName(false);
+      setPreviewTarget(null);
+      setError(null);
+      setCurrentCase(toCaseMeta(stored));
+    } catch (err: any) {
+      setError(err.message || "Não foi possível abrir o caso.");
+    }
+    setView('analysis');
+  };
+
+  const handleReportGenerated = (fileName: string, blob: Blob) => {
+    setCurrentCase(current => current && {
+      ...current,
+      reports: [...current.reports, { id: createId('report'), fileName, generatedAt: new Date().toISOString(), blob }],
+      history: [...current.history, createCaseEvent('report-generated', `Relatório "${fileName}" gerado.`)],
+    });
+  };
+
   const handleAnalyzeClick = useCallback(async () => {
-    if (!file) {
+    if (sessionFiles.length === 0) {
       setError("Por favor, selecione um arquivo de extrato primeiro.");
       return;
     }
 
+    // Arquivos que voltaram para a fila (reanalisar, nova página, novo recorte) já com lançamentos na
+    // tela: o novo resultado substitui os lançamentos deles, inclusive as correções feitas à mão
+    const queuedIds = new Set(sessionFiles.filter(file => file.status !== 'done').map(file => file.id));
+    const isQueued = (sourceFileId?: string) => !!sourceFileId && queuedIds.has(sourceFileId);
+    const replacedCount = positiveEntries.filter(entry => isQueued(entry.sourceFileId)).length
+      + excludedEntries.filter(item => isQueued(item.entry.sourceFileId)).length
+      + needsReview.filter(item => isQueued(item.sourceFileId)).length;
+    if (replacedCount > 0 && !window.confirm(`${replacedCount} lançamento(s) de arquivos que voltaram para a fila serão substituídos pelo novo resultado, com as correções feitas neles. Os demais arquivos ficam como estão. Continuar?`)) {
+      return;
+    }
+    const previousEntries = positiveEntries.filter(entry => isQueued(entry.sourceFileId));
+
     setIsLoading(true);
     setError(null);
-    setPositiveEntries([]);
-    setExtractedClientName('');
-    setEditableName('');
     setIsEditingName(false);
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
 
+    // Mantém uma cópia local para juntar os resultados ao final, sem depender do estado assíncrono do React
+    let currentFiles = sessionFiles;
     try {
-      const base64String = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => {
-          const result = reader.result as string;
-          const base64 = result?.split(',')[1];
-          if (base64) {
-            resolve(base64);
-          } else {
-            reject(new Error("Não foi possível ler o conteúdo do arquivo."));
-          }
-        };
-        reader.onerror = () => {
-          reject(new Error("Ocorreu um erro ao ler o arquivo."));
-        };
+      await runSession(sessionFiles, {
+        mode: extractionMode,
+        extractor: createStatementExtractor(extractorSettings),
+        // O OCR local roda na CPU do navegador: um arquivo por vez
+        concurrency: extractorSettings.backend === 'local-ocr' ? 1 : DEFAULT_CONCURRENCY,
+        signal: controller.signal,
+        timeoutMs: extractorSettings.timeoutSeconds * 1000,
+        onUpdate: (id, changes) => {
+          currentFiles = currentFiles.map(file => (file.id === id ? { ...file, ...changes } : file));
+          setSessionFiles(currentFiles);
+        },
       });
 
-      const result = await analyzeStatement(base64String, file.type);
-      setPositiveEntries(result.positiveEntries);
-      setExtractedClientName(result.clientName);
-      setEditableName(result.clientName);
+      // Só os arquivos concluídos nesta análise entram no resultado; os lançamentos dos demais,
+      // com as edições, exclusões restauradas e revisões resolvidas, ficam como estão
+      const analyzedIds = new Set(currentFiles.filter(file => file.status === 'done' && queuedIds.has(file.id)).map(file => file.id));
+      const isAnalyzed = (sourceFileId?: string) => !!sourceFileId && analyzedIds.has(sourceFileId);
+      const result = buildAnalysisResult(currentFiles, { incomeRules, categoryOverrides, clientName: extractedClientName });
+      const entries = result.entries.filter(entry => isAnalyzed(entry.sourceFileId));
+      const excluded = result.excluded.filter(item => isAnalyzed(item.entry.sourceFileId));
+      if (analyzedIds.size > 0) {
+        setPositiveEntries(current => [...current.filter(entry => !isAnalyzed(entry.sourceFileId)), ...entries]);
+        setExcludedEntries(current => [...current.filter(item => !isAnalyzed(item.entry.sourceFileId)), ...excluded]);
+        setNeedsReview(current => [...current.filter(item => !isAnalyzed(item.sourceFileId)), ...result.needsReview.filter(item => isAnalyzed(item.sourceFileId))]);
+        setExtractedClientName(current => current || result.clientName);
+        setEditableName(current => current || result.clientName);
+        // O que a nova análise mudou nos lançamentos substituídos fica na trilha de auditoria
+        const replaced = previousEntries.filter(entry => isAnalyzed(entry.sourceFileId));
+        if (replaced.length > 0) {
+          const clientName = extractedClientName;
+          const reanalyzed = entries.filter(entry => replaced.some(old => old.sourceFileId === entry.sourceFileId));
+          const events = diffSnapshots(
+            { positiveEntries: replaced, excludedEntries: [], needsReview: [], clientName },
+            { positiveEntries: reanalyzed, excludedEntries: [], needsReview: [], clientName },
+            'ai'
+          );
+          setAuditTrail(current => [...current, ...events]);
+        }
+        // Os passos guardados para desfazer são de antes da análise e trariam de volta os lançamentos antigos
+        resetUndoHistory();
+        setEntryFilter(EMPTY_ENTRY_FILTER);
+      }
 
+      const failedCount = result.failedFiles.length;
+      const doneCount = currentFiles.filter(file => file.status === 'done').length;
+      if (analyzedIds.size > 0) {
+        const replacedFiles = new Set(previousEntries.map(entry => entry.sourceFileId).filter(isAnalyzed)).size;
+        recordCaseEvent('analyzed', `${analyzedIds.size} arquivo(s) analisado(s); ${entries.length} crédito(s) considerados receita e ${excluded.length} excluído(s).`
+          + (replacedFiles > 0 ? ` Lançamentos de ${replacedFiles} arquivo(s) reanalisado(s) substituídos pelo novo resultado.` : ''));
+      }
+      if (controller.signal.aborted) {
+        const remaining = currentFiles.filter(file => file.status === 'pending').length;
+        setError(`Análise cancelada: ${doneCount} arquivo(s) concluído(s) e ${remaining} sem analisar. Clique em "Analisar" para continuar de onde parou.`, 'cancelled');
+      } else if (failedCount === currentFiles.length) {
+        setError(
+          currentFiles.length === 1 ? currentFiles[0].error || null : "Nenhum arquivo pôde ser analisado. Verifique os erros na lista de arquivos.",
+          sharedErrorKind(result.failedFiles)
+        );
+      } else if (failedCount > 0) {
+        setError(`${failedCount} de ${currentFiles.length} arquivo(s) falharam. Clique em "Analisar" novamente para tentar só os que falharam.`, sharedErrorKind(result.failedFiles));
+      } else if (result.extractedCount === 0) {
+        setError(result.needsReview.length
+          ? "Nenhum crédito pôde ser aproveitado automaticamente. Confira os lançamentos para revisão."
+          : "Nenhuma transação de crédito foi encontrada nos arquivos.");
+      } else if (result.entries.length === 0) {
+        setError("Todos os créditos encontrados foram excluídos pelas regras de receita. Confira a lista de créditos excluídos.");
+      }
     } catch (err: any) {
-      setError(err.message || "Ocorreu um erro desconhecido ao analisar o extrato.");
-      setPositiveEntries([]);
+      setError(err.message || "Ocorreu um erro desconhecido ao analisar o extrato.", getErrorKind(err));
     } finally {
+      analysisControllerRef.current = null;
+      setIsCancelling(false);
       setIsLoading(false);
     }
-  }, [file]);
+  }, [sessionFiles, extractionMode, extractorSettings, incomeRules, categoryOverrides, positiveEntries, excludedEntries, needsReview, extractedClientName]);
+
+  // Interrompe os arquivos em andamento (eles voltam para a fila) e mantém os já concluídos
+  const handleCancelAnalysis = () => {
+    setIsCancelling(true);
+    analysisControllerRef.current?.abort(createCancelledError());
+  };
+
+  const handleUseLocalOcr = () => {
+    handleExtractorSettingsChange({ ...extractorSettings, backend: 'local-ocr' });
+    setError(null);
+  };
 
   const handleEditName = () => {
     setEditableName(extractedClientName);
@@ -94,7 +587,10 @@ const App: React.FC = () => {
 
   const handleSaveName = () => {
       if(editableName.trim()) {
-        setExtractedClientName(editableName);
+        applyEdit({ clientName: editableName });
+        if (editableName !== extractedClientName) {
+          recordCaseEvent('renamed', `Nome do cliente alterado de "${extractedClientName}" para "${editableName}".`);
+        }
       }
       setIsEditingName(false);
   };
@@ -103,6 +599,28 @@ const App: React.FC = () => {
       setIsEditingName(false);
   };
 
+  const reconciliationReports = useMemo(() => reconcileSession(sessionFiles), [sessionFiles]);
+  const duplicateClusters = useMemo(() => {
+    // Os lotes e as páginas separadas de um PDF contam como um documento só
+    const documentByFile = new Map<string, string>(sessionFiles.map(file => [file.id, file.chunk?.documentId || file.id]));
+    return findDuplicateClusters(positiveEntries, {
+      documentOf: entry => (entry.sourceFileId && documentByFile.get(entry.sourceFileId)) || entry.sourceFileId || entry.sourceFile,
+    });
+  }, [positiveEntries, sessionFiles]);
+  const coverage = useMemo(() => computeStatementCoverage(sessionFiles, positiveEntries), [sessionFiles, positiveEntries]);
+  // Com a opção ligada, a análise mensal e as exportações usam só o que o filtro da tabela mostra
+  const reportsFiltered = filterDrivesReports && isEntryFilterActive(entryFilter);
+  const reportEntries = useMemo(
+    () => (reportsFiltered ? filterEntries(positiveEntries, entryFilter) : positiveEntries),
+    [reportsFiltered, positiveEntries, entryFilter],
+  );
+  const emptyMonths = useMemo(() => {
+    const creditMonths = new Set(positiveEntries.filter(entry => entry.date).map(entry => entry.date.slice(0, 7)));
+    return monthRange([...creditMonths, ...coverage.months]).filter(month => !creditMonths.has(month));
+  }, [positiveEntries, coverage]);
+
+  const pendingCount = sessionFiles.filter(file => file.status === 'pending' || file.status === 'error').length;
+
   return (
     <div className="min-h-screen bg-slate-100/50 font-sans text-slate-800 antialiased">
       <main className="container mx-auto max-w-4xl px-4 py-8 md:py-12">
@@ -114,70 +632,136 @@ const App: React.FC = () => {
             </h1>
           </div>
           <p className="text-lg text-slate-600">
-            Envie a imagem ou PDF do seu extrato bancário e a IA irá tabular todos os valores positivos para você.
+            Envie as imagens ou PDFs dos seus extratos bancários (vários meses de uma vez) e a IA irá tabular todos os valores positivos para você. Arquivos OFX, CSV e CNAB são lidos diretamente, sem IA.
           </p>
         </header>
 
+        <div className="mb-4 flex items-center justify-between gap-3 text-sm">
+          <span className="text-slate-500">{currentCase && view === 'analysis' ? 'Caso salvo automaticamente neste navegador.' : ''}</span>
+          <button
+            onClick={() => setView(view === 'cases' ? 'analysis' : 'cases')}
+            disabled={isLoading}
+            className="rounded-md bg-white px-3 py-1.5 font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {view === 'cases' ? 'Voltar à análise' : 'Casos salvos'}
+          </button>
+        </div>
+
+        {view === 'cases' ? (
+          <div className="rounded-xl border border-slate-200 bg-white shadow-lg p-6 md:p-8">
+            <CaseList currentCaseId={currentCase?.id} onOpen={handleOpenCase} />
+          </div>
+        ) : (
+        <>
         <div className="rounded-xl border border-slate-200 bg-white shadow-lg p-6 md:p-8">
-          {!file && <FileUpload onFileSelect={handleFileSelect} />}
+          {sessionFiles.length === 0 && <FileUpload onFilesSelect={handleFilesSelect} />}
           
-          {file && (
+          {sessionFiles.length > 0 && (
             <div className="flex flex-col gap-6">
-              <div className="flex flex-col sm:flex-row gap-4 items-start">
-                {preview && (
-                  file.type.startsWith('image/') ? (
-                    <img src={preview} alt="Prévia do extrato" className="w-full sm:w-48 h-auto object-cover rounded-lg border border-slate-200" />
-                  ) : (
-                    <div className="w-full sm:w-48 h-48 flex flex-col items-center justify-center bg-slate-100 rounded-lg border border-slate-200 text-slate-500">
-                      <FileTextIcon className="w-16 h-16" />
-                      <span className="mt-2 text-sm font-medium">Arquivo PDF</span>
-                    </div>
-                  )
-                )}
-                <div className="flex-grow">
-                  <h3 className="font-semibold text-slate-800">Arquivo Selecionado:</h3>
-                  <p className="text-slate-600 break-all">{file.name}</p>
-                  <p className="text-sm text-slate-500">{Math.round(file.size / 1024)} KB</p>
-                </div>
-              </div>
+              <SessionFileList files={sessionFiles} onRemove={handleFileRemove} onPreview={handleFilePreview} onReanalyze={handleFileReanalyze} onRetryPage={handlePageRetry} onAdjustImage={setImageAdjustTarget} disabled={isLoading || isPreparingFiles} />
+              {isPreparingFiles && <p className="-mt-4 text-sm text-slate-500" role="status">Tratando as fotos (giro, recorte e contraste)...</p>}
+              {!isLoading && <FileUpload onFilesSelect={handleFilesSelect} compact />}
+
+              <ExtractorSettingsPanel settings={extractorSettings} onChange={handleExtractorSettingsChange} disabled={isLoading} />
+              <IncomeRulesPanel rules={incomeRules} onChange={handleIncomeRulesChange} disabled={isLoading} />
+
+              <label className="flex items-start gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={extractionMode === 'full'}
+                  onChange={(e) => setExtractionMode(e.target.checked ? 'full' : 'credits')}
+                  disabled={isLoading}
+                  className="mt-0.5 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <span>
+                  <span className="font-medium">Extração completa com conciliação</span>
+                  <span className="block text-slate-500">Extrai também débitos e saldos para conferir se saldo inicial + créditos − débitos = saldo final. Vale para os próximos arquivos analisados.</span>
+                </span>
+              </label>
 
               <div className="flex flex-col sm:flex-row gap-3">
                 <button
                   onClick={handleAnalyzeClick}
-                  disabled={isLoading}
+                  disabled={isLoading || isPreparingFiles || pendingCount === 0}
                   className="w-full sm:w-auto flex-grow justify-center inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
                 >
-                  {isLoading ? 'Analisando...' : 'Analisar Extrato'}
+                  {isLoading ? 'Analisando...' : pendingCount > 1 ? `Analisar ${pendingCount} Arquivos` : 'Analisar Extrato'}
                 </button>
                  <button
                   onClick={handleFileClear}
                   disabled={isLoading}
                   className="w-full sm:w-auto justify-center inline-flex items-center px-6 py-3 border border-slate-300 text-base font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 disabled:opacity-50 transition-colors"
                 >
-                  Trocar Arquivo
+                  Limpar Arquivos
                 </button>
               </div>
             </div>
           )}
         </div>
 
-        {isLoading && <Loader />}
+        {isLoading && <AnalysisProgress files={sessionFiles} onCancel={handleCancelAnalysis} cancelling={isCancelling} />}
         
         {error && (
-          <div className="mt-8 p-4 bg-red-100 border border-red-200 text-red-800 rounded-lg flex items-start gap-3">
-            <AlertTriangleIcon className="h-6 w-6 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className={`mt-8 p-4 border rounded-lg flex items-start gap-3 ${error.kind === 'cancelled' ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-red-100 border-red-200 text-red-800'}`}>
+            <AlertTriangleIcon className={`h-6 w-6 flex-shrink-0 mt-0.5 ${error.kind === 'cancelled' ? 'text-amber-600' : 'text-red-600'}`} />
             <div>
-                <h4 className="font-bold">Erro na Análise</h4>
-                <p className="whitespace-pre-wrap text-sm mt-1">{error}</p>
+                <h4 className="font-bold">{error.kind ? ANALYSIS_ERROR_INFO[error.kind].title : 'Erro na Análise'}</h4>
+                <p className="whitespace-pre-wrap text-sm mt-1">{error.message}</p>
+                {error.kind && ANALYSIS_ERROR_INFO[error.kind].recovery && (
+                  <p className="text-sm mt-2">{ANALYSIS_ERROR_INFO[error.kind].recovery}</p>
+                )}
+                {error.kind && ANALYSIS_ERROR_INFO[error.kind].action === 'retry' && pendingCount > 0 && !isLoading && (
+                  <button onClick={handleAnalyzeClick} className="mt-3 rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50">
+                    Tentar de novo
+                  </button>
+                )}
+                {error.kind && ANALYSIS_ERROR_INFO[error.kind].action === 'use-local-ocr' && extractorSettings.backend !== 'local-ocr' && !isLoading && (
+                  <button onClick={handleUseLocalOcr} className="mt-3 rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50">
+                    Usar o OCR local
+                  </button>
+                )}
             </div>
           </div>
         )}
 
+        {needsReview.length > 0 && !isLoading && (
+          <div className="mt-8">
+            <NeedsReviewList items={needsReview} onResolve={handleResolveReview} onDiscard={handleDiscardReview} onPreview={handleReviewPreview} />
+          </div>
+        )}
+
         {positiveEntries.length > 0 && !isLoading && (
           <>
             <div className="mt-8">
                <div className="mb-4">
-                <h2 className="text-2xl font-semibold text-slate-800">Análise Mensal</h2>
+                <div className="flex items-center justify-between gap-3">
+                  <h2 className="text-2xl font-semibold text-slate-800">Análise Mensal</h2>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleExportAnalysis}
+                      className="rounded-md bg-white px-3 py-1 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50"
+                      title="Baixa a análise em JSON, para integração com outros sistemas ou para reabrir depois"
+                    >
+                      Exportar JSON
+                    </button>
+                    <button
+                      onClick={handleUndo}
+                      disabled={undoStack.length === 0}
+                      className="rounded-md bg-white px-3 py-1 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-40"
+                      title="Desfazer a última alteração (Ctrl+Z)"
+                    >
+                      Desfazer
+                    </button>
+                    <button
+                      onClick={handleRedo}
+                      disabled={redoStack.length === 0}
+                      className="rounded-md bg-white px-3 py-1 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-40"
+                      title="Refazer (Ctrl+Shift+Z)"
+                    >
+                      Refazer
+                    </button>
+                  </div>
+                </div>
                  <div className="mt-1 text-slate-600">
                   {isEditingName ? (
                     <div className="flex items-center gap-2">
@@ -207,17 +791,94 @@ const App: React.FC = () => {
                   )}
                 </div>
               </div>
-              <MonthlyAnalysisTable entries={positiveEntries} clientName={extractedClientName} />
+              {duplicateClusters.length > 0 && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg flex items-center gap-2 text-sm">
+                  <AlertTriangleIcon className="h-5 w-5 text-amber-600 flex-shrink-0" />
+                  <span>Há {duplicateClusters.length} possível(is) duplicata(s) entre arquivos. Os totais abaixo podem estar inflados até que sejam revisadas no extrato detalhado.</span>
+                </div>
+              )}
+              {coverage.gaps.length > 0 && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg flex items-center gap-2 text-sm">
+                  <AlertTriangleIcon className="h-5 w-5 text-amber-600 flex-shrink-0" />
+                  <span>Os extratos enviados deixam {coverage.gaps.length} intervalo(s) de datas sem cobertura. A média mensal pode não representar o período inteiro; veja a cobertura dos extratos abaixo.</span>
+                </div>
+              )}
+              <div className="mb-8">
+                <IncomeDashboard entries={positiveEntries} coverageMonths={coverage.months} selectedMonth={entryFilter.month} onMonthSelect={month => setEntryFilter({ ...entryFilter, month })} />
+              </div>
+              {reportsFiltered && (
+                <div className="mb-4 p-3 bg-sky-50 border border-sky-200 text-sky-800 rounded-lg flex items-center justify-between gap-2 text-sm">
+                  <span>A análise mensal e as exportações consideram só os {reportEntries.length} lançamento(s) do filtro do extrato detalhado.</span>
+                  <button onClick={() => setFilterDrivesReports(false)} className="font-semibold hover:text-sky-950">Usar todos</button>
+                </div>
+              )}
+              {/* Com o filtro, a cobertura dos extratos deixa de valer: meses fora do filtro apareceriam zerados */}
+              <MonthlyAnalysisTable entries={reportEntries} clientName={extractedClientName} reconciliation={reconciliationReports} auditTrail={auditTrail} excluded={excludedEntries} coverage={reportsFiltered ? undefined : coverage} onReportGenerated={handleReportGenerated} />
+            </div>
+            {coverage.periods.length > 0 && (
+              <div className="mt-8">
+                <CoveragePanel coverage={coverage} emptyMonths={emptyMonths} />
+              </div>
+            )}
+            <div className="mt-8">
+              <IncomeStabilityPanel entries={positiveEntries} coverageMonths={coverage.months} />
             </div>
             <div className="mt-8">
-              <ResultsTable entries={positiveEntries} setEntries={setPositiveEntries} />
+              <PayerAnalysisPanel entries={positiveEntries} />
+            </div>
+            {reconciliationReports.length > 0 && (
+              <div className="mt-8">
+                <ReconciliationPanel reports={reconciliationReports} />
+              </div>
+            )}
+            <div className="mt-8">
+              <ResultsTable
+                entries={positiveEntries}
+                setEntries={handleEntriesEdit}
+                duplicateClusters={duplicateClusters}
+                onEntrySelect={handleEntrySelect}
+                onCategoryChange={handleCategoryChange}
+                onAiCategorize={handleAiCategorize}
+                isCategorizing={isCategorizing}
+                filter={entryFilter}
+                onFilterChange={setEntryFilter}
+                filterDrivesReports={filterDrivesReports}
+                onFilterDrivesReportsChange={setFilterDrivesReports}
+                onExclude={handleExcludeEntries}
+                onBulkCategoryChange={handleBulkCategoryChange}
+              />
             </div>
           </>
         )}
 
+        {excludedEntries.length > 0 && !isLoading && (
+          <div className="mt-8">
+            <ExcludedEntriesList excluded={excludedEntries} onRestore={handleRestoreExcluded} />
+          </div>
+        )}
+
+        {auditTrail.length > 0 && !isLoading && (
+          <div className="mt-8">
+            <AuditTrailPanel events={auditTrail} />
+          </div>
+        )}
+
+        {imageAdjustTarget && (
+          <ImageAdjustDialog
+            sessionFile={imageAdjustTarget}
+            onSave={(file, preprocessing) => handleImageAdjusted(imageAdjustTarget.id, file, preprocessing)}
+            onClose={() => setImageAdjustTarget(null)}
+          />
+        )}
+        {previewTarget && (
+          <StatementPreview {...previewTarget} onClose={() => setPreviewTarget(null)} />
+        )}
+        </>
+        )}
+
       </main>
        <footer className="text-center py-6 text-sm text-slate-500">
-          <p>Desenvolvido com React, Tailwind CSS e a API Google Gemini.</p>
+          <p>Desenvolvido com React, Tailwind CSS e a API Google Gemini (ou OCR local e modelos compatíveis com OpenAI).</p>
       </footer>
     </div>
   );
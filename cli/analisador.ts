@@ -0,0 +1,255 @@
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { AnalysisStage, ExtractionMode, SessionFile, StatementExtractor } from '../types';
+import { analyzeFiles } from '../services/analysisPipeline';
+import { DEFAULT_CONCURRENCY, DEFAULT_TIMEOUT_SECONDS } from '../services/analysisSession';
+import { createCancelledError } from '../services/analysisErrors';
+import { analyzeStatement } from '../services/geminiService';
+import { DEFAULT_INCOME_RULES, importIncomeRules } from '../services/incomeRules';
+import { computeStatementCoverage } from '../services/statementCoverage';
+import { buildPdfReport } from '../services/pdfReport';
+import { buildEntriesCsv, buildReportFileName, buildWorkbook } from '../services/spreadsheetExport';
+import { buildAnalysisDocument, exportAnalysisDocument } from '../services/analysisDocument';
+
+// Processamento em lote, sem tela: lê os extratos de uma pasta, roda o mesmo núcleo de análise
+// do app e grava os relatórios. A chave da IA vem de GEMINI_API_KEY (ou API_KEY).
+
+const EXIT_OK = 0;
+const EXIT_USAGE = 1;
+const EXIT_PARTIAL = 2;
+const EXIT_NOTHING_ANALYZED = 3;
+
+const OUTPUT_FORMATS = ['pdf', 'xlsx', 'csv', 'json'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const MIME_TYPES: { [extension: string]: string } = {
+    '.pdf': 'application/pdf',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.ofx': 'application/x-ofx',
+    '.csv': 'text/csv',
+    '.txt': 'text/plain',
+    '.ret': 'text/plain',
+    '.rem': 'text/plain',
+};
+
+const USAGE = `Uso: analisador analyze <pasta|arquivos...> [opções]
+
+Opções:
+  --client <nome>        Nome do cliente (padrão: o lido dos extratos)
+  --out <arquivo>        Caminho base dos relatórios; a extensão segue cada formato
+  --format <lista>       Formatos separados por vírgula: ${OUTPUT_FORMATS.join(', ')} (padrão: pdf)
+  --mode <modo>          credits (só créditos) ou full (extrato completo) (padrão: credits)
+  --concurrency <n>      Arquivos analisados ao mesmo tempo (padrão: ${DEFAULT_CONCURRENCY})
+  --timeout <segundos>   Tempo limite por arquivo (padrão: ${DEFAULT_TIMEOUT_SECONDS})
+  --rules <arquivo>      Regras de receita exportadas pelo app (JSON)
+  -h, --help             Mostra esta ajuda
+
+Ctrl+C cancela: os arquivos já concluídos entram nos relatórios.
+
+Códigos de saída: 0 sucesso, 1 uso incorreto, 2 algum arquivo falhou ou ficou sem analisar,
+3 nada foi analisado.`;
+
+class UsageError extends Error {}
+
+// A CLI roda no servidor com a chave no ambiente, então chama o Gemini direto, sem o proxy
+const geminiExtractor: StatementExtractor = {
+    backend: 'gemini',
+    extract: (base64Data, mimeType, mode, options) => analyzeStatement(base64Data, mimeType, mode, options),
+};
+
+// Os mesmos formatos aceitos na tela: PDF e imagens vão para a IA, OFX/CSV/CNAB são lidos localmente
+const isSupportedFile = (fileName: string) => path.extname(fileName).toLowerCase() in MIME_TYPES;
+
+/** Expande pastas (sem recursão) e mantém só os arquivos que o app aceita, em ordem de nome. */
+const collectInputPaths = async (inputs: string[]): Promise<string[]> => {
+    const paths: string[] = [];
+    for (const input of inputs) {
+        const info = await stat(input).catch(() => null);
+        if (!info) throw new UsageError(`Caminho não encontrado: ${input}`);
+        if (info.isDirectory()) {
+            const names = (await readdir(input)).filter(isSupportedFile).sort((a, b) => a.localeCompare(b));
+            paths.push(...names.map(name => path.join(input, name)));
+        } else if (isSupportedFile(input)) {
+            paths.push(input);
+        } else {
+            console.warn(`Ignorado (formato não suportado): ${input}`);
+        }
+    }
+    return paths;
+};
+
+const readInputFile = async (filePath: string): Promise<File> => {
+    const type = MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+    return new File([await readFile(filePath)], path.basename(filePath), { type });
+};
+
+const parseFormats = (value: string): OutputFormat[] => {
+    const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+    const unknown = formats.filter(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+    if (unknown.length > 0) throw new UsageError(`Formato desconhecido: ${unknown.join(', ')}`);
+    if (formats.length === 0) throw new UsageError("Informe ao menos um formato em --format.");
+    return Array.from(new Set(formats)) as OutputFormat[];
+};
+
+const outputPath = (out: string | undefined, clientName: string, format: OutputFormat): string => {
+    if (!out) return buildReportFileName(clientName, format);
+    const extension = path.extname(out);
+    return `${extension ? out.slice(0, -extension.length) : out}.${format}`;
+};
+
+const STAGE_LABELS: { [stage in AnalysisStage]: string } = {
+    reading: 'lendo o arquivo',
+    uploading: 'enviando',
+    waiting: 'aguardando a IA',
+    retrying: 'servidor ocupado',
+    validating: 'validando a resposta',
+};
+
+const describeFile = (file: SessionFile): string | null => {
+    if (file.status === 'processing') {
+        const { stage = 'reading', retryAt } = file.progress || {};
+        if (stage === 'retrying' && retryAt) {
+            const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+            return `${file.name}: servidor ocupado, tentativa ${(file.retries || 0) + 1} em ${seconds}s`;
+        }
+        return `${file.name}: ${STAGE_LABELS[stage]}...`;
+    }
+    if (file.status === 'done') return `${file.name}: concluído`;
+    if (file.status === 'error') return `${file.name}: erro - ${file.error}`;
+    return null;
+};
+
+const runAnalyze = async (inputs: string[], options: { [key: string]: string | boolean | undefined }): Promise<number> => {
+    if (inputs.length === 0) throw new UsageError("Informe a pasta ou os arquivos dos extratos.");
+    const formats = parseFormats((options.format as string) || 'pdf');
+    const mode = ((options.mode as string) || 'credits') as ExtractionMode;
+    if (mode !== 'credits' && mode !== 'full') throw new UsageError(`Modo desconhecido: ${mode}`);
+    const concurrency = options.concurrency ? Number(options.concurrency) : DEFAULT_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError("--concurrency deve ser um número inteiro maior que zero.");
+    const timeoutSeconds = options.timeout ? Number(options.timeout) : DEFAULT_TIMEOUT_SECONDS;
+    if (!(timeoutSeconds > 0)) throw new UsageError("--timeout deve ser um número de segundos maior que zero.");
+
+    let incomeRules = DEFAULT_INCOME_RULES;
+    if (options.rules) {
+        try {
+            incomeRules = importIncomeRules(await readFile(options.rules as string, 'utf-8'));
+        } catch (err: any) {
+            throw new UsageError(`Não foi possível ler as regras de receita: ${err.message}`);
+        }
+    }
+
+    const paths = await collectInputPaths(inputs);
+    if (paths.length === 0) throw new UsageError("Nenhum extrato suportado encontrado.");
+    console.log(`${paths.length} arquivo(s) para analisar.`);
+    const files = await Promise.all(paths.map(readInputFile));
+
+    // O primeiro Ctrl+C cancela a análise e ainda grava o que já foi concluído; o segundo encerra
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.error("Cancelando... (Ctrl+C de novo para sair sem gravar)");
+        controller.abort(createCancelledError());
+    });
+
+    // Cada etapa é impressa uma vez por arquivo
+    const lastLines = new Map<string, string>();
+    const { files: sessionFiles, result } = await analyzeFiles(files, {
+        mode,
+        extractor: geminiExtractor,
+        concurrency,
+        signal: controller.signal,
+        timeoutMs: timeoutSeconds * 1000,
+        incomeRules,
+        clientName: options.client as string | undefined,
+        onUpdate: file => {
+            const line = describeFile(file);
+            if (line && lastLines.get(file.id) !== line) console.log(line);
+            if (line) lastLines.set(file.id, line);
+        },
+    });
+    const skippedFiles = sessionFiles.filter(file => file.status === 'pending');
+
+    if (result.extractedCount === 0) {
+        console.error("Nenhum crédito foi extraído dos arquivos.");
+        return EXIT_NOTHING_ANALYZED;
+    }
+
+    const coverage = computeStatementCoverage(sessionFiles, result.entries);
+    for (const format of formats) {
+        const target = outputPath(options.out as string | undefined, result.clientName, format);
+        let content: Uint8Array | string;
+        if (format === 'pdf') {
+            const doc = buildPdfReport({ entries: result.entries, clientName: result.clientName, excluded: result.excluded, coverage });
+            content = new Uint8Array(doc.output('arraybuffer'));
+        } else if (format === 'xlsx') {
+            content = new Uint8Array(await buildWorkbook(result.entries, result.clientName, coverage.months).arrayBuffer());
+        } else if (format === 'csv') {
+            // Os bytes vão como estão: decodificar o Blob tiraria o BOM que o Excel usa para reconhecer o UTF-8
+            content = new Uint8Array(await buildEntriesCsv(result.entries).arrayBuffer());
+        } else {
+            content = exportAnalysisDocument(await buildAnalysisDocument({
+                clientName: result.clientName,
+                files: sessionFiles,
+                entries: result.entries,
+                excluded: result.excluded,
+                auditTrail: [],
+            }));
+        }
+        await mkdir(path.dirname(path.resolve(target)), { recursive: true });
+        await writeFile(target, content);
+        console.log(`Gravado: ${target}`);
+    }
+
+    const total = result.entries.reduce((sum, entry) => sum + entry.amount, 0);
+    console.log(`${result.entries.length} crédito(s) de receita, total ${total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}; ${result.excluded.length} excluído(s).`);
+    result.emptyPages.forEach(({ documentName, pages }) => {
+        console.log(`${documentName}: nenhum lançamento na(s) página(s) ${pages.join(', ')}. Confira se elas só têm débitos ou reanalise o extrato.`);
+    });
+    if (result.needsReview.length > 0) console.log(`${result.needsReview.length} linha(s) para revisão manual (veja o JSON da análise).`);
+    if (skippedFiles.length > 0) {
+        console.error(`${skippedFiles.length} arquivo(s) não analisado(s) por causa do cancelamento: ${skippedFiles.map(file => file.name).join(', ')}`);
+    }
+    if (result.failedFiles.length > 0) {
+        console.error(`${result.failedFiles.length} arquivo(s) com erro: ${result.failedFiles.map(file => file.name).join(', ')}`);
+    }
+    if (result.failedFiles.length > 0 || skippedFiles.length > 0) return EXIT_PARTIAL;
+    return EXIT_OK;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            client: { type: 'string' },
+            out: { type: 'string' },
+            format: { type: 'string' },
+            mode: { type: 'string' },
+            concurrency: { type: 'string' },
+            timeout: { type: 'string' },
+            rules: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command, ...inputs] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return values.help ? EXIT_OK : EXIT_USAGE;
+    }
+    if (command !== 'analyze') throw new UsageError(`Comando desconhecido: ${command}`);
+    return runAnalyze(inputs, values);
+};
+
+main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(err => {
+        if (err instanceof UsageError || err?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+            console.error(`${err.message}\n\n${USAGE}`);
+            process.exit(EXIT_USAGE);
+        }
+        console.error(err?.message || err);
+        process.exit(EXIT_NOTHING_ANALYZED);
+    });
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { SessionFile } from '../types';
+
+interface AnalysisProgressProps {
+  files: SessionFile[];
+  onCancel: () => void;
+  // Cancelamento pedido, esperando os arquivos em andamento pararem
+  cancelling?: boolean;
+}
+
+// Andamento da análise em curso; a etapa de cada arquivo aparece na lista de arquivos
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ files, onCancel, cancelling }) => {
+  const finishedCount = files.filter(file => file.status === 'done' || file.status === 'error').length;
+  const processingCount = files.filter(file => file.status === 'processing').length;
+  const retryingCount = files.filter(file => file.progress?.stage === 'retrying').length;
+  const percent = files.length ? Math.round((finishedCount / files.length) * 100) : 0;
+
+  return (
+    <div className="my-8 rounded-lg border border-slate-200 p-4" role="status" aria-live="polite">
+      <div className="flex items-center gap-3">
+        <div className="h-6 w-6 flex-shrink-0 animate-spin rounded-full border-4 border-solid border-emerald-500 border-t-transparent"></div>
+        <div className="min-w-0 flex-grow">
+          <p className="font-medium text-slate-700">
+            {cancelling ? 'Cancelando a análise...' : `Analisando: ${finishedCount} de ${files.length} arquivo(s) concluído(s)`}
+          </p>
+          <p className="text-xs text-slate-500">
+            {processingCount} em andamento
+            {retryingCount > 0 && ` · ${retryingCount} aguardando nova tentativa (IA ocupada)`}
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          disabled={cancelling}
+          className="flex-shrink-0 rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Cancelar
+        </button>
+      </div>
+      <div className="mt-3 h-2 w-full overflow-hidden rounded bg-slate-200">
+        <div className="h-2 bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { AuditEvent } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, AUDIT_SOURCE_LABELS, formatAuditValue, isManualCorrection } from '../services/auditTrail';
+
+interface AuditTrailPanelProps {
+  events: AuditEvent[];
+}
+
+const formatDateTime = (value: string) =>
+    new Intl.DateTimeFormat('pt-BR', { dateStyle: 'short', timeStyle: 'medium' }).format(new Date(value));
+
+export const AuditTrailPanel: React.FC<AuditTrailPanelProps> = ({ events }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [onlyManual, setOnlyManual] = useState(true);
+  const manualCount = events.filter(isManualCorrection).length;
+  const visibleEvents = (onlyManual ? events.filter(isManualCorrection) : events).slice().reverse();
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <span>
+          <span className="text-lg font-semibold text-slate-800">Trilha de Auditoria</span>
+          <span className="block text-sm text-slate-500">{manualCount} correção(ões) manual(is) · {events.length} alteração(ões) no total</span>
+        </span>
+        <span className="text-slate-500">{isOpen ? '▲' : '▼'}</span>
+      </button>
+      {isOpen && (
+        <div className="border-t border-slate-200">
+          <label className="flex items-center gap-2 p-3 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={onlyManual}
+              onChange={(e) => setOnlyManual(e.target.checked)}
+              className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Mostrar só correções manuais
+          </label>
+          {visibleEvents.length === 0 ? (
+            <p className="px-4 pb-4 text-sm text-slate-500">Nenhuma alteração registrada.</p>
+          ) : (
+            <div className="max-h-96 overflow-auto">
+              <table className="min-w-full divide-y divide-slate-200 text-sm">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Quando</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Origem</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Alteração</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Antes</th>
+                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Depois</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 bg-white">
+                  {visibleEvents.map(event => (
+                    <tr key={event.id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-slate-500">{formatDateTime(event.at)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-slate-600">{AUDIT_SOURCE_LABELS[event.source]}</td>
+                      <td className="px-4 py-2 text-slate-800">
+                        <span className="font-medium">{AUDIT_ACTION_LABELS[event.action]}{event.field ? ` · ${AUDIT_FIELD_LABELS[event.field]}` : ''}</span>
+                        {event.entryLabel && <span className="block text-xs text-slate-500">{event.entryLabel}{event.sourceFile ? ` · ${event.sourceFile}` : ''}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-slate-500 line-through decoration-slate-300">{formatAuditValue(event.field || 'amount', event.before)}</td>
+                      <td className="px-4 py-2 font-medium text-slate-800">{formatAuditValue(event.field || 'amount', event.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CaseSummary } from '../types';
+import { deleteCase, duplicateCase, listCases, loadCase } from '../services/caseStore';
+import { normalizeText } from '../services/parsers/parseUtils';
+import { DownloadIcon, TrashIcon } from './icons';
+
+interface CaseListProps {
+  currentCaseId?: string;
+  onOpen: (id: string) => void;
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const formatDateTime = (value: string) =>
+    new Intl.DateTimeFormat('pt-BR', { dateStyle: 'short', timeStyle: 'short' }).format(new Date(value));
+
+export const CaseList: React.FC<CaseListProps> = ({ currentCaseId, onOpen }) => {
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setCases(await listCases());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Não foi possível carregar os casos salvos.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const filteredCases = useMemo(() => {
+    const terms = normalizeText(query).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return cases;
+    return cases.filter(item => {
+      const haystack = normalizeText([item.clientName, ...item.fileNames].join(' '));
+      return terms.every(term => haystack.includes(term));
+    });
+  }, [cases, query]);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateCase(id);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || "Não foi possível duplicar o caso.");
+    }
+  };
+
+  const handleDelete = async (item: CaseSummary) => {
+    if (!window.confirm(`Excluir o caso "${item.clientName || 'Sem nome'}"? Os arquivos e relatórios salvos serão apagados.`)) return;
+    try {
+      await deleteCase(item.id);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || "Não foi possível excluir o caso.");
+    }
+  };
+
+  const handleDownloadReport = async (caseId: string, reportId: string) => {
+    try {
+      const report = (await loadCase(caseId)).reports.find(item => item.id === reportId);
+      if (!report) return;
+      const url = URL.createObjectURL(report.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = report.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || "Não foi possível baixar o relatório.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h2 className="text-2xl font-semibold text-slate-800">Casos Salvos</h2>
+        <p className="text-sm text-slate-500">As análises ficam salvas neste navegador e podem ser reabertas sem analisar os extratos de novo.</p>
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Buscar por cliente ou nome de arquivo"
+        className="w-full rounded-md border-slate-300 p-2 text-sm shadow-sm focus:border-emerald-500 focus:ring-emerald-500"
+      />
+      {error && <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</p>}
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Carregando casos...</p>
+      ) : filteredCases.length === 0 ? (
+        <p className="text-sm text-slate-500">{cases.length === 0 ? 'Nenhum caso salvo ainda. Os casos são criados ao analisar extratos.' : 'Nenhum caso encontrado para a busca.'}</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200">
+          {filteredCases.map(item => (
+            <li key={item.id} className={`flex flex-col gap-2 p-4 sm:flex-row sm:items-start sm:justify-between ${item.id === currentCaseId ? 'bg-emerald-50' : ''}`}>
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-800">{item.clientName || 'Sem nome'}</p>
+                <p className="text-xs text-slate-500">
+                  Atualizado em {formatDateTime(item.updatedAt)} · {item.fileNames.length} arquivo(s) · {item.entryCount} lançamento(s) · {formatCurrency(item.totalIncome)}
+                </p>
+                {item.reports.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {item.reports.map(report => (
+                      <button
+                        key={report.id}
+                        onClick={() => handleDownloadReport(item.id, report.id)}
+                        className="inline-flex items-center gap-1 text-xs text-emerald-700 hover:text-emerald-900"
+                        title={`Gerado em ${formatDateTime(report.generatedAt)}`}
+                      >
+                        <DownloadIcon className="h-3 w-3" />
+                        {report.fileName}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                <button onClick={() => onOpen(item.id)} className="rounded-md bg-emerald-600 px-3 py-1 text-sm font-semibold text-white shadow-sm hover:bg-emerald-500">Abrir</button>
+                <button onClick={() => handleDuplicate(item.id)} className="rounded-md bg-white px-3 py-1 text-sm font-semibold text-slate-900 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50">Duplicar</button>
+                <button onClick={() => handleDelete(item)} className="p-1 text-slate-400 hover:text-red-600" aria-label="Excluir caso">
+                  <TrashIcon className="h-5 w-5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { StatementCoverage } from '../types';
+import { AlertTriangleIcon, CheckCircleIcon } from './icons';
+
+interface CoveragePanelProps {
+  coverage: StatementCoverage;
+  // Meses do período sem nenhum crédito, em AAAA-MM
+  emptyMonths: string[];
+}
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const formatMonth = (monthYear: string) => {
+  const [year, month] = monthYear.split('-');
+  return `${month}/${year}`;
+};
+
+export const CoveragePanel: React.FC<CoveragePanelProps> = ({ coverage, emptyMonths }) => {
+  const hasWarnings = coverage.gaps.length > 0;
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+      <div className={`flex flex-wrap items-center gap-2 border-b p-4 ${hasWarnings ? 'border-amber-200 bg-amber-50' : 'border-slate-200 bg-white'}`}>
+        {hasWarnings
+          ? <AlertTriangleIcon className="h-5 w-5 text-amber-600" />
+          : <CheckCircleIcon className="h-5 w-5 text-emerald-600" />}
+        <h3 className="text-lg font-semibold text-slate-800">Cobertura dos Extratos</h3>
+        <span className={`ml-auto text-sm font-medium ${hasWarnings ? 'text-amber-800' : 'text-slate-500'}`}>
+          {coverage.start && coverage.end && `${formatDate(coverage.start)} a ${formatDate(coverage.end)} · ${coverage.months.length} mês(es)`}
+          {hasWarnings && ` · ${coverage.gaps.length} lacuna(s) de datas`}
+        </span>
+      </div>
+      {(hasWarnings || emptyMonths.length > 0) && (
+        <div className="space-y-1 border-b border-slate-200 p-4 text-sm">
+          {coverage.gaps.map(gap => (
+            <p key={gap.start} className="text-amber-800">
+              Nenhum extrato enviado cobre de <strong>{formatDate(gap.start)}</strong> a <strong>{formatDate(gap.end)}</strong> ({gap.days} dia(s)). Envie o extrato desse intervalo ou considere o impacto na média mensal.
+            </p>
+          ))}
+          {emptyMonths.length > 0 && (
+            <p className="text-slate-600">
+              Meses sem nenhum crédito, mostrados com total zero e contados na média mensal: {emptyMonths.map(formatMonth).join(', ')}.
+            </p>
+          )}
+        </div>
+      )}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Extrato</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Conta</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Período</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 bg-white">
+            {coverage.periods.map(period => (
+              <tr key={`${period.sourceFile}-${period.start}`}>
+                <td className="px-4 py-2 text-slate-700">{period.sourceFile}</td>
+                <td className="px-4 py-2 text-slate-600">
+                  {[period.bankName, period.agency && `Ag. ${period.agency}`, period.accountNumber && `C/C ${period.accountNumber}`].filter(Boolean).join(' · ') || '-'}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-slate-700">
+                  {formatDate(period.start)} a {formatDate(period.end)}
+                  {!period.declared && <span className="ml-2 text-xs text-slate-500">(deduzido dos lançamentos)</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
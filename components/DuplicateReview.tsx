@@ -0,0 +1,77 @@
+import React from 'react';
+import type { DuplicateCluster, DuplicateResolution, PositiveEntry } from '../types';
+import { AlertTriangleIcon } from './icons';
+
+interface DuplicateReviewProps {
+  clusters: DuplicateCluster[];
+  entries: PositiveEntry[];
+  onResolve: (cluster: DuplicateCluster, resolution: DuplicateResolution) => void;
+  onResolveAll: (resolution: DuplicateResolution) => void;
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const formatDate = (dateString: string) => {
+    if (!dateString || !dateString.includes('-')) return 'N/A';
+    const [year, month, day] = dateString.split('-');
+    return `${day}/${month}/${year}`;
+};
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ clusters, entries, onResolve, onResolveAll }) => {
+  const entriesById = new Map<string, PositiveEntry>(entries.filter(entry => entry.id).map(entry => [entry.id!, entry]));
+
+  return (
+    <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-start gap-2">
+          <AlertTriangleIcon className="mt-0.5 h-5 w-5 flex-shrink-0 text-amber-600" />
+          <div>
+            <h3 className="font-semibold text-amber-900">{clusters.length} possível(is) duplicata(s) entre arquivos</h3>
+            <p className="text-sm text-amber-800">Mesma data, valor e descrição semelhante em extratos diferentes. Revise antes de usar os totais mensais.</p>
+          </div>
+        </div>
+        <button
+          onClick={() => onResolveAll('merge')}
+          className="rounded-md bg-amber-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-amber-700"
+        >
+          Fundir todas
+        </button>
+      </div>
+      <ul className="mt-4 space-y-3">
+        {clusters.map(cluster => (
+          <li key={cluster.id} className="rounded-md border border-amber-200 bg-white p-3">
+            <table className="min-w-full text-sm">
+              <tbody>
+                {cluster.entryIds.map(id => {
+                  const entry = entriesById.get(id);
+                  if (!entry) return null;
+                  return (
+                    <tr key={id}>
+                      <td className="py-1 pr-4 whitespace-nowrap text-slate-600">{formatDate(entry.date)}</td>
+                      <td className="py-1 pr-4 text-slate-900">{entry.description}</td>
+                      <td className="py-1 pr-4 whitespace-nowrap text-right font-semibold text-emerald-600">{formatCurrency(entry.amount)}</td>
+                      <td className="py-1 text-xs text-slate-500">{entry.sourceFile || '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="mt-2 flex items-center justify-between">
+              <span className="text-xs text-slate-500">Similaridade da descrição: {Math.round(cluster.similarity * 100)}%</span>
+              <div className="flex gap-2">
+                <button onClick={() => onResolve(cluster, 'merge')} className="rounded-md bg-emerald-600 px-3 py-1 text-xs font-semibold text-white shadow-sm hover:bg-emerald-500">Fundir</button>
+                <button onClick={() => onResolve(cluster, 'keep')} className="rounded-md bg-white px-3 py-1 text-xs font-semibold text-slate-900 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50">Manter todos</button>
+                <button onClick={() => onResolve(cluster, 'discard')} className="rounded-md bg-white px-3 py-1 text-xs font-semibold text-red-700 shadow-sm ring-1 ring-inset ring-red-200 hover:bg-red-50" title="Mantém um lançamento do grupo e remove as cópias, sem juntar a origem dos arquivos.">Descartar cópias</button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import type { ExcludedEntry } from '../types';
+
+interface ExcludedEntriesListProps {
+  excluded: ExcludedEntry[];
+  onRestore: (item: ExcludedEntry) => void;
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+export const ExcludedEntriesList: React.FC<ExcludedEntriesListProps> = ({ excluded, onRestore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const total = excluded.reduce((sum, item) => sum + item.entry.amount, 0);
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <span>
+          <span className="text-lg font-semibold text-slate-800">Créditos Excluídos da Receita</span>
+          <span className="block text-sm text-slate-500">{excluded.length} lançamento(s) · {formatCurrency(total)} removidos pelas regras de receita</span>
+        </span>
+        <span className="text-slate-500">{isOpen ? '▲' : '▼'}</span>
+      </button>
+      {isOpen && (
+        <div className="overflow-x-auto border-t border-slate-200">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Data</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Descrição</th>
+                <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Valor</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Regra</th>
+                <th scope="col" className="px-4 py-2"><span className="sr-only">Ações</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 bg-white">
+              {excluded.map(item => (
+                <tr key={item.entry.id || `${item.entry.date}-${item.entry.description}-${item.entry.amount}`} className="text-slate-600">
+                  <td className="px-4 py-2 whitespace-nowrap">{item.entry.date.split('-').reverse().join('/')}</td>
+                  <td className="px-4 py-2">
+                    {item.entry.description}
+                    {item.entry.sourceFile && <span className="block text-xs text-slate-400">{item.entry.sourceFile}</span>}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right">{formatCurrency(item.entry.amount)}</td>
+                  <td className="px-4 py-2">
+                    <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">{item.ruleName}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button onClick={() => onRestore(item)} className="text-sm font-semibold text-emerald-700 hover:text-emerald-900">
+                      Incluir na receita
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import type { ExtractorSettings } from '../types';
+import { EXTRACTOR_BACKENDS } from '../services/statementExtractor';
+import { clearResponseCache, countCachedResponses, RESPONSE_CACHE_TTL_MS } from '../services/responseCache';
+
+interface ExtractorSettingsPanelProps {
+  settings: ExtractorSettings;
+  onChange: (settings: ExtractorSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "mt-1 w-full rounded-md border border-slate-300 p-2 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm";
+
+export const ExtractorSettingsPanel: React.FC<ExtractorSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeBackend = EXTRACTOR_BACKENDS.find(backend => backend.id === settings.backend);
+
+  const update = (changes: Partial<ExtractorSettings>) => onChange({ ...settings, ...changes });
+
+  // Quantidade de respostas guardadas no cache deste navegador; lida ao abrir o painel
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const [cacheError, setCacheError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    countCachedResponses().then(count => !cancelled && setCachedCount(count));
+    return () => { cancelled = true; };
+  }, [isOpen]);
+
+  const handleClearCache = async () => {
+    if (!window.confirm("Apagar as respostas da IA guardadas neste navegador? Os próximos arquivos serão analisados (e cobrados) de novo.")) return;
+    try {
+      await clearResponseCache();
+      setCachedCount(0);
+      setCacheError(null);
+    } catch (err: any) {
+      setCacheError(err.message || "Não foi possível limpar o cache.");
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between p-3 text-left text-sm"
+        aria-expanded={isOpen}
+      >
+        <span className="font-medium text-slate-700">Configurações de extração</span>
+        <span className="text-slate-500">{activeBackend?.label} {isOpen ? '▲' : '▼'}</span>
+      </button>
+      {isOpen && (
+        <fieldset disabled={disabled} className="flex flex-col gap-4 border-t border-slate-200 p-4">
+          <div className="flex flex-col gap-2">
+            {EXTRACTOR_BACKENDS.map(backend => (
+              <label key={backend.id} className="flex items-start gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="extractor-backend"
+                  checked={settings.backend === backend.id}
+                  onChange={() => update({ backend: backend.id })}
+                  className="mt-0.5 text-emerald-600 focus:ring-emerald-500"
+                />
+                <span>
+                  <span className="font-medium text-slate-800">{backend.label}</span>
+                  <span className="block text-slate-500">{backend.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {settings.backend === 'openai-compatible' && (
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <label className="text-sm text-slate-700 sm:col-span-2">
+                URL base
+                <input type="url" value={settings.openAiBaseUrl} onChange={(e) => update({ openAiBaseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClassName} />
+              </label>
+              <label className="text-sm text-slate-700">
+                Modelo
+                <input type="text" value={settings.openAiModel} onChange={(e) => update({ openAiModel: e.target.value })} placeholder="llama3.2-vision" className={inputClassName} />
+              </label>
+              <label className="text-sm text-slate-700">
+                Chave de API (opcional)
+                <input type="password" value={settings.openAiApiKey} onChange={(e) => update({ openAiApiKey: e.target.value })} className={inputClassName} autoComplete="off" />
+              </label>
+            </div>
+          )}
+
+          {settings.backend === 'local-ocr' && (
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <label className="text-sm text-slate-700">
+                Idioma do OCR
+                <input type="text" value={settings.ocrLanguage} onChange={(e) => update({ ocrLanguage: e.target.value })} placeholder="por" className={inputClassName} />
+              </label>
+              <label className="text-sm text-slate-700">
+                Pasta local dos arquivos do OCR (opcional)
+                <input type="text" value={settings.ocrAssetsPath} onChange={(e) => update({ ocrAssetsPath: e.target.value })} placeholder="/tesseract" className={inputClassName} />
+              </label>
+              <p className="text-xs text-slate-500 sm:col-span-2">
+                Sem uma pasta local, os arquivos do Tesseract (WASM e idioma) são baixados de um CDN na primeira utilização. Para uso totalmente offline, publique-os junto com a aplicação e informe a pasta aqui.
+              </p>
+            </div>
+          )}
+
+          <label className="flex items-start gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.preprocessImages}
+              onChange={(e) => update({ preprocessImages: e.target.checked })}
+              className="mt-0.5 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            <span>
+              <span className="font-medium">Tratar fotos de extratos</span>
+              <span className="block text-slate-500">Ao enviar uma foto, endireita, recorta nas bordas do papel, tira sombras, converte para tons de cinza e reduz a resolução antes da análise. Use "Ajustar imagem" na lista para conferir e corrigir o recorte. Vale para as próximas fotos enviadas.</span>
+            </span>
+          </label>
+
+          <label className="text-sm text-slate-700">
+            Tempo limite por arquivo (segundos)
+            <input
+              type="number"
+              min={10}
+              step={10}
+              value={settings.timeoutSeconds}
+              onChange={(e) => Number(e.target.value) > 0 && update({ timeoutSeconds: Number(e.target.value) })}
+              className={`${inputClassName} sm:w-40`}
+            />
+            <span className="mt-1 block text-xs text-slate-500">Inclui as novas tentativas quando a IA está ocupada. Ao passar do limite, o arquivo fica com erro e pode ser analisado de novo.</span>
+          </label>
+
+          {settings.backend !== 'local-ocr' && (
+            <div className="flex flex-wrap items-center justify-between gap-2 border-t border-slate-200 pt-3 text-sm text-slate-600">
+              <span>
+                Cache de respostas: {cachedCount === null ? '...' : `${cachedCount} análise(s) guardada(s)`}, válidas por {Math.round(RESPONSE_CACHE_TTL_MS / (24 * 60 * 60 * 1000))} dias.
+                <span className="block text-xs text-slate-500">O mesmo arquivo no mesmo modo não é enviado de novo à IA. Use "Reanalisar" na lista de arquivos para ignorar o cache.</span>
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={!cachedCount}
+                className="rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Limpar cache
+              </button>
+              {cacheError && <p className="w-full text-xs text-red-700">{cacheError}</p>}
+            </div>
+          )}
+        </fieldset>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,18 @@
 
 import React, { useCallback, useState } from 'react';
 import { UploadCloudIcon } from './icons';
+import { isLocalStatementFile, LOCAL_STATEMENT_EXTENSIONS } from '../services/statementParser';
+import { ANALYSIS_DOCUMENT_EXTENSION, isAnalysisDocumentFile } from '../services/analysisDocument';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
+  compact?: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+const isSupportedFile = (file: File) =>
+  file.type.startsWith('image/') || file.type === 'application/pdf' || isLocalStatementFile(file) || isAnalysisDocumentFile(file);
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, compact = false }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleDrag = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -23,27 +29,30 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('image/') || file.type === 'application/pdf') {
-        onFileSelect(file);
-      } else {
-        alert("Por favor, envie um arquivo de imagem (PNG, JPG) ou PDF.");
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      const files = Array.from(e.dataTransfer.files);
+      const supported = files.filter(isSupportedFile);
+      if (supported.length < files.length) {
+        alert("Alguns arquivos foram ignorados. Envie apenas imagens (PNG, JPG), PDF, OFX, CSV, retorno CNAB ou uma análise exportada (JSON).");
+      }
+      if (supported.length > 0) {
+        onFilesSelect(supported);
       }
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-       const file = e.target.files[0];
-       onFileSelect(file);
+    if (e.target.files && e.target.files.length > 0) {
+       onFilesSelect(Array.from(e.target.files));
+       // Permite selecionar o mesmo arquivo novamente depois de removê-lo da lista
+       e.target.value = '';
     }
   };
 
   return (
     <div 
-        className={`relative flex flex-col items-center justify-center w-full p-12 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-200 ${isDragging ? 'border-emerald-500 bg-emerald-50' : 'border-slate-300 bg-slate-50 hover:bg-slate-100'}`}
+        className={`relative flex flex-col items-center justify-center w-full ${compact ? 'p-4' : 'p-12'} border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-200 ${isDragging ? 'border-emerald-500 bg-emerald-50' : 'border-slate-300 bg-slate-50 hover:bg-slate-100'}`}
         onDragEnter={handleDrag}
         onDragOver={handleDrag}
         onDragLeave={handleDrag}
@@ -53,16 +62,17 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
             type="file"
             id="file-upload"
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            accept="image/*,application/pdf"
+            accept={['image/*', 'application/pdf', ...LOCAL_STATEMENT_EXTENSIONS, ANALYSIS_DOCUMENT_EXTENSION].join(',')}
             onChange={handleChange}
+            multiple
         />
       <div className="text-center pointer-events-none">
-        <UploadCloudIcon className="mx-auto h-12 w-12 text-slate-400" />
-        <p className="mt-2 text-lg font-semibold text-slate-700">
-          Clique para enviar ou arraste e solte
+        <UploadCloudIcon className={`mx-auto text-slate-400 ${compact ? 'h-8 w-8' : 'h-12 w-12'}`} />
+        <p className={`mt-2 font-semibold text-slate-700 ${compact ? 'text-sm' : 'text-lg'}`}>
+          {compact ? 'Adicionar mais arquivos' : 'Clique para enviar ou arraste e solte'}
         </p>
         <p className="text-sm text-slate-500">
-          PDF, PNG, JPG, GIF ou WEBP
+          Um ou vários arquivos: PDF, PNG, JPG, GIF ou WEBP — ou OFX, CSV e CNAB 240/400 (lidos sem IA). Para reabrir uma análise exportada, envie o arquivo JSON.
         </p>
       </div>
     </div>
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { ImagePreprocessing, ImageRotation, NormalizedPoint, SessionFile } from '../types';
+import { drawOrientedImage, FULL_FRAME_CORNERS, preprocessImage, rotateCorners, type PreprocessedImage, type PreprocessOptions } from '../services/imagePreprocessing';
+import { XIcon } from './icons';
+
+interface ImageAdjustDialogProps {
+  sessionFile: SessionFile;
+  // Sem `preprocessing`, a foto original vai para a análise sem tratamento
+  onSave: (file: File, preprocessing?: ImagePreprocessing) => void;
+  onClose: () => void;
+}
+
+// Resolução da foto original desenhada para o ajuste dos cantos
+const EDITOR_MAX_SIDE = 1200;
+
+const CORNER_LABELS = ['superior esquerdo', 'superior direito', 'inferior direito', 'inferior esquerdo'];
+
+const buttonClassName = "rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-50";
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Antes e depois do tratamento de uma foto, com os cantos do recorte ajustáveis
+export const ImageAdjustDialog: React.FC<ImageAdjustDialogProps> = ({ sessionFile, onSave, onClose }) => {
+  const originalFile = sessionFile.preprocessing?.originalFile || sessionFile.file;
+  const [result, setResult] = useState<PreprocessedImage | null>(
+    sessionFile.preprocessing ? { file: sessionFile.file, preprocessing: sessionFile.preprocessing } : null
+  );
+  const [rotation, setRotation] = useState<ImageRotation>(sessionFile.preprocessing?.rotation || 0);
+  const [corners, setCorners] = useState<NormalizedPoint[] | null>(sessionFile.preprocessing?.corners || null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultUrl, setResultUrl] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<number | null>(null);
+  // Só a resposta do pedido mais recente vale (o usuário pode mexer de novo antes do fim)
+  const requestRef = useRef(0);
+
+  const runPreprocessing = useCallback((options: PreprocessOptions) => {
+    const request = ++requestRef.current;
+    setIsProcessing(true);
+    setError(null);
+    preprocessImage(originalFile, options)
+      .then(processed => {
+        if (request !== requestRef.current) return;
+        setResult(processed);
+        setRotation(processed.preprocessing.rotation);
+        setCorners(processed.preprocessing.corners);
+      })
+      .catch((err: any) => request === requestRef.current && setError(err.message || "Não foi possível tratar a imagem."))
+      .finally(() => request === requestRef.current && setIsProcessing(false));
+  }, [originalFile]);
+
+  // Foto ainda sem tratamento: começa pela detecção automática
+  useEffect(() => {
+    if (!sessionFile.preprocessing) runPreprocessing({});
+  }, []);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    drawOrientedImage(originalFile, rotation, canvasRef.current, EDITOR_MAX_SIDE).catch(err => {
+      console.warn("Não foi possível desenhar a foto original.", err);
+      setError("Não foi possível abrir a foto original.");
+    });
+  }, [originalFile, rotation]);
+
+  useEffect(() => {
+    if (!result) return;
+    const url = URL.createObjectURL(result.file);
+    setResultUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [result]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const pointFromEvent = (e: React.PointerEvent): NormalizedPoint => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingRef.current = index;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const index = draggingRef.current;
+    if (index === null || !corners) return;
+    const point = pointFromEvent(e);
+    setCorners(corners.map((corner, i) => (i === index ? point : corner)));
+  };
+
+  // Ao soltar um canto, a imagem é tratada de novo com o recorte escolhido
+  const handlePointerUp = () => {
+    if (draggingRef.current === null || !corners) return;
+    draggingRef.current = null;
+    runPreprocessing({ rotation, corners });
+  };
+
+  const handleRotate = (clockwise: boolean) => {
+    const rotated = rotateCorners(rotation, corners || FULL_FRAME_CORNERS, clockwise);
+    setRotation(rotated.rotation);
+    setCorners(rotated.corners);
+    runPreprocessing(rotated);
+  };
+
+  const handleFullFrame = () => {
+    setCorners(FULL_FRAME_CORNERS);
+    runPreprocessing({ rotation, corners: FULL_FRAME_CORNERS });
+  };
+
+  const skewAngle = result?.preprocessing.skewAngle || 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/70 p-4" onClick={onClose}>
+      <div className="flex max-h-[90vh] w-full max-w-5xl flex-col overflow-hidden rounded-xl bg-white shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 border-b border-slate-200 p-3">
+          <div className="min-w-0 flex-grow">
+            <h3 className="truncate font-semibold text-slate-800">Ajustar imagem</h3>
+            <p className="truncate text-xs text-slate-500">{sessionFile.name}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800" aria-label="Fechar ajuste">
+            <XIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 border-b border-slate-200 p-3">
+          <button onClick={() => handleRotate(false)} disabled={isProcessing} className={buttonClassName}>↺ Girar</button>
+          <button onClick={() => handleRotate(true)} disabled={isProcessing} className={buttonClassName}>↻ Girar</button>
+          <button onClick={() => runPreprocessing({ rotation })} disabled={isProcessing} className={buttonClassName}>Detectar bordas</button>
+          <button onClick={handleFullFrame} disabled={isProcessing} className={buttonClassName}>Imagem inteira</button>
+          <span className="ml-auto text-xs text-slate-500">
+            {isProcessing ? 'Tratando a imagem...' : result && `Giro de ${result.preprocessing.rotation}° · inclinação corrigida em ${skewAngle.toLocaleString('pt-BR')}°`}
+          </span>
+        </div>
+
+        <div className="grid flex-grow grid-cols-1 gap-4 overflow-auto bg-slate-100 p-4 md:grid-cols-2">
+          <div className="flex flex-col items-center gap-2">
+            <p className="text-sm font-medium text-slate-700">Antes <span className="font-normal text-slate-500">(arraste os cantos até as bordas do papel)</span></p>
+            <div ref={frameRef} className="relative inline-block select-none shadow-md">
+              <canvas ref={canvasRef} className="block h-auto max-h-[60vh] max-w-full bg-white" />
+              {corners && (
+                <>
+                  <svg className="pointer-events-none absolute inset-0 h-full w-full" viewBox="0 0 1 1" preserveAspectRatio="none">
+                    <polygon
+                      points={corners.map(({ x, y }) => `${x},${y}`).join(' ')}
+                      className="fill-emerald-400/20 stroke-emerald-500"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
+                  {corners.map((corner, index) => (
+                    <div
+                      key={index}
+                      role="slider"
+                      aria-label={`Canto ${CORNER_LABELS[index]}`}
+                      aria-valuetext={`${Math.round(corner.x * 100)}%, ${Math.round(corner.y * 100)}%`}
+                      onPointerDown={handlePointerDown(index)}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      className="absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 cursor-move touch-none rounded-full border-2 border-white bg-emerald-500 shadow"
+                      style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                    />
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col items-center gap-2">
+            <p className="text-sm font-medium text-slate-700">Depois <span className="font-normal text-slate-500">(o que vai para a análise)</span></p>
+            {resultUrl
+              ? <img src={resultUrl} alt="Imagem tratada" className={`block h-auto max-h-[60vh] max-w-full bg-white shadow-md ${isProcessing ? 'opacity-50' : ''}`} />
+              : <p className="text-sm text-slate-500">{isProcessing ? 'Tratando a imagem...' : 'Sem prévia.'}</p>}
+          </div>
+        </div>
+
+        {error && <p className="border-t border-slate-200 px-3 pt-3 text-sm text-red-700">{error}</p>}
+        <div className="flex flex-wrap items-center justify-end gap-2 border-t border-slate-200 p-3">
+          <button onClick={() => onSave(originalFile)} className={`${buttonClassName} mr-auto`}>Enviar a foto original</button>
+          <button onClick={onClose} className={buttonClassName}>Cancelar</button>
+          <button
+            onClick={() => result && onSave(result.file, result.preprocessing)}
+            disabled={!result || isProcessing}
+            className="rounded-md bg-emerald-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-emerald-700 disabled:opacity-50"
+          >
+            Usar imagem tratada
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
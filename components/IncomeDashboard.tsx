@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import type { PositiveEntry } from '../types';
+import { buildDashboardData, formatAxisValue, niceMaximum, shortMonthLabel, type ChartSeries, type StackMode } from '../services/chartData';
+
+interface IncomeDashboardProps {
+  entries: PositiveEntry[];
+  coverageMonths?: string[];
+  // Mês (AAAA-MM) usado para filtrar o extrato detalhado; null mostra todos
+  selectedMonth: string | null;
+  onMonthSelect: (month: string | null) => void;
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+// Área de desenho comum aos gráficos de eixo mensal, em unidades do viewBox
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 10, bottom: 26, left: 64 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+interface MonthAxisProps {
+  months: string[];
+  maxValue: number;
+}
+
+// Grade horizontal com os valores à esquerda e os meses embaixo (no máximo 12 rótulos)
+const MonthAxis: React.FC<MonthAxisProps> = ({ months, maxValue }) => {
+  const labelEvery = Math.ceil(months.length / 12);
+  const band = PLOT_WIDTH / Math.max(months.length, 1);
+  return (
+    <g className="text-slate-500">
+      {[0, 0.25, 0.5, 0.75, 1].map(fraction => {
+        const y = PADDING.top + PLOT_HEIGHT * (1 - fraction);
+        return (
+          <g key={fraction}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="#e2e8f0" strokeWidth={1} />
+            <text x={PADDING.left - 6} y={y + 3} textAnchor="end" fontSize={10} fill="currentColor">{formatAxisValue(maxValue * fraction)}</text>
+          </g>
+        );
+      })}
+      {months.map((month, index) => index % labelEvery === 0 && (
+        <text key={month} x={PADDING.left + band * (index + 0.5)} y={HEIGHT - 8} textAnchor="middle" fontSize={10} fill="currentColor">
+          {shortMonthLabel(month)}
+        </text>
+      ))}
+    </g>
+  );
+};
+
+const scaleY = (value: number, maxValue: number) => PADDING.top + PLOT_HEIGHT * (1 - value / maxValue);
+const bandCenter = (index: number, count: number) => PADDING.left + (PLOT_WIDTH / Math.max(count, 1)) * (index + 0.5);
+
+const ChartCard: React.FC<{ title: string; subtitle?: string; actions?: React.ReactNode; children: React.ReactNode }> = ({ title, subtitle, actions, children }) => (
+  <div className="rounded-lg border border-slate-200 p-4">
+    <div className="mb-2 flex items-start justify-between gap-2">
+      <div>
+        <h4 className="text-sm font-semibold text-slate-800">{title}</h4>
+        {subtitle && <p className="text-xs text-slate-500">{subtitle}</p>}
+      </div>
+      {actions}
+    </div>
+    {children}
+  </div>
+);
+
+const Legend: React.FC<{ series: { label: string; color: string }[] }> = ({ series }) => (
+  <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+    {series.map(item => (
+      <span key={item.label} className="inline-flex items-center gap-1.5">
+        <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: item.color }} />
+        <span className="max-w-[14rem] truncate" title={item.label}>{item.label}</span>
+      </span>
+    ))}
+  </div>
+);
+
+export const IncomeDashboard: React.FC<IncomeDashboardProps> = ({ entries, coverageMonths = [], selectedMonth, onMonthSelect }) => {
+  const [stackMode, setStackMode] = useState<StackMode>('category');
+  const data = useMemo(() => buildDashboardData(entries, coverageMonths), [entries, coverageMonths]);
+  const { months, monthlyTotals, trend, cumulative, heatmap } = data;
+
+  if (months.length === 0) return null;
+
+  const band = PLOT_WIDTH / months.length;
+  const barMax = niceMaximum(Math.max(...monthlyTotals, ...trend));
+  const stacked: ChartSeries[] = data.stacked[stackMode];
+  const cumulativeMax = niceMaximum(cumulative[cumulative.length - 1]);
+  const heatmapMax = Math.max(...heatmap.flat(), 0);
+  const dayTotals = Array.from({ length: 31 }, (_, day) => heatmap.reduce((sum, row) => sum + row[day], 0));
+  const busiestDay = dayTotals.indexOf(Math.max(...dayTotals)) + 1;
+
+  const toggleMonth = (month: string) => onMonthSelect(selectedMonth === month ? null : month);
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-200 p-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Painel de Receitas</h3>
+          <p className="text-sm text-slate-500">Clique em uma barra para ver só os lançamentos daquele mês no extrato detalhado.</p>
+        </div>
+        {selectedMonth && (
+          <button onClick={() => onMonthSelect(null)} className="rounded-md bg-emerald-50 px-3 py-1 text-sm font-semibold text-emerald-800 ring-1 ring-inset ring-emerald-200 hover:bg-emerald-100">
+            Filtro: {shortMonthLabel(selectedMonth)} ✕
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 gap-4 p-4 lg:grid-cols-2">
+        <ChartCard title="Receita mensal" subtitle={trend.length ? 'Barras: total do mês · linha tracejada: tendência' : undefined}>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Gráfico de barras da receita mensal">
+            <MonthAxis months={months} maxValue={barMax} />
+            {monthlyTotals.map((total, index) => {
+              const y = scaleY(total, barMax);
+              const isDimmed = selectedMonth !== null && selectedMonth !== months[index];
+              return (
+                <rect
+                  key={months[index]}
+                  x={PADDING.left + band * index + band * 0.15}
+                  y={y}
+                  width={band * 0.7}
+                  height={PADDING.top + PLOT_HEIGHT - y}
+                  fill={selectedMonth === months[index] ? '#047857' : '#10b981'}
+                  opacity={isDimmed ? 0.35 : 1}
+                  className="cursor-pointer"
+                  onClick={() => toggleMonth(months[index])}
+                >
+                  <title>{`${shortMonthLabel(months[index])}: ${formatCurrency(total)}`}</title>
+                </rect>
+              );
+            })}
+            {trend.length > 0 && (
+              <polyline
+                points={trend.map((value, index) => `${bandCenter(index, months.length)},${scaleY(Math.max(value, 0), barMax)}`).join(' ')}
+                fill="none"
+                stroke="#f59e0b"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                pointerEvents="none"
+              />
+            )}
+          </svg>
+        </ChartCard>
+
+        <ChartCard
+          title={stackMode === 'category' ? 'Receita por categoria' : 'Receita por descrição'}
+          actions={
+            <div className="flex rounded-md text-xs ring-1 ring-inset ring-slate-300">
+              {(['category', 'description'] as StackMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setStackMode(mode)}
+                  className={`px-2 py-1 ${stackMode === mode ? 'bg-slate-700 text-white' : 'text-slate-600 hover:bg-slate-50'} first:rounded-l-md last:rounded-r-md`}
+                >
+                  {mode === 'category' ? 'Categoria' : 'Descrição'}
+                </button>
+              ))}
+            </div>
+          }
+        >
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Gráfico de barras empilhadas da receita">
+            <MonthAxis months={months} maxValue={barMax} />
+            {months.map((month, index) => {
+              let base = 0;
+              return (
+                <g key={month} className="cursor-pointer" opacity={selectedMonth !== null && selectedMonth !== month ? 0.35 : 1} onClick={() => toggleMonth(month)}>
+                  {stacked.map(series => {
+                    const value = series.values[index];
+                    if (!value) return null;
+                    const top = scaleY(base + value, barMax);
+                    const height = scaleY(base, barMax) - top;
+                    base += value;
+                    return (
+                      <rect key={series.key} x={PADDING.left + band * index + band * 0.15} y={top} width={band * 0.7} height={height} fill={series.color}>
+                        <title>{`${shortMonthLabel(month)} · ${series.label}: ${formatCurrency(value)}`}</title>
+                      </rect>
+                    );
+                  })}
+                </g>
+              );
+            })}
+          </svg>
+          <Legend series={stacked} />
+        </ChartCard>
+
+        <ChartCard title="Receita acumulada" subtitle={`Total no período: ${formatCurrency(cumulative[cumulative.length - 1])}`}>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Gráfico de linha da receita acumulada">
+            <MonthAxis months={months} maxValue={cumulativeMax} />
+            <polyline
+              points={cumulative.map((value, index) => `${bandCenter(index, months.length)},${scaleY(value, cumulativeMax)}`).join(' ')}
+              fill="none"
+              stroke="#0ea5e9"
+              strokeWidth={2.5}
+            />
+            {cumulative.map((value, index) => (
+              <circle key={months[index]} cx={bandCenter(index, months.length)} cy={scaleY(value, cumulativeMax)} r={3.5} fill="#0ea5e9">
+                <title>{`Até ${shortMonthLabel(months[index])}: ${formatCurrency(value)}`}</title>
+              </circle>
+            ))}
+          </svg>
+        </ChartCard>
+
+        <ChartCard title="Dia do mês em que o dinheiro entra" subtitle={heatmapMax > 0 ? `Cor mais forte = mais receita no dia · dia com mais entradas: ${busiestDay}` : undefined}>
+          <svg viewBox={`0 0 ${WIDTH} ${Math.max(months.length * 16 + 24, 60)}`} className="w-full" role="img" aria-label="Mapa de calor da receita por dia do mês">
+            {[1, 5, 10, 15, 20, 25, 31].map(day => (
+              <text key={day} x={PADDING.left + ((WIDTH - PADDING.left - PADDING.right) / 31) * (day - 0.5)} y={10} textAnchor="middle" fontSize={10} fill="#64748b">{day}</text>
+            ))}
+            {heatmap.map((row, monthIndex) => (
+              <g key={months[monthIndex]}>
+                <text x={PADDING.left - 6} y={16 + monthIndex * 16 + 11} textAnchor="end" fontSize={10} fill="#64748b">{shortMonthLabel(months[monthIndex])}</text>
+                {row.map((value, dayIndex) => {
+                  const cellWidth = (WIDTH - PADDING.left - PADDING.right) / 31;
+                  return (
+                    <rect
+                      key={dayIndex}
+                      x={PADDING.left + cellWidth * dayIndex + 1}
+                      y={16 + monthIndex * 16 + 1}
+                      width={cellWidth - 2}
+                      height={14}
+                      rx={2}
+                      fill={value > 0 ? '#10b981' : '#f1f5f9'}
+                      fillOpacity={value > 0 ? 0.2 + 0.8 * (value / heatmapMax) : 1}
+                    >
+                      <title>{`${String(dayIndex + 1).padStart(2, '0')}/${shortMonthLabel(months[monthIndex])}: ${formatCurrency(value)}`}</title>
+                    </rect>
+                  );
+                })}
+              </g>
+            ))}
+          </svg>
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import type { IncomeRule } from '../types';
+import {
+  DEFAULT_INCOME_RULES,
+  INCOME_RULE_ACTIONS,
+  compileRulePattern,
+  createIncomeRule,
+  exportIncomeRules,
+  importIncomeRules,
+} from '../services/incomeRules';
+import { INCOME_CATEGORIES, getCategoryLabel } from '../services/categorization';
+import { EditIcon, TrashIcon } from './icons';
+
+interface IncomeRulesPanelProps {
+  rules: IncomeRule[];
+  onChange: (rules: IncomeRule[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "mt-1 w-full rounded-md border border-slate-300 p-2 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm";
+const secondaryButtonClassName = "rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-50";
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const describeRule = (rule: IncomeRule): string => {
+  const conditions: string[] = [];
+  if (rule.descriptionPattern) conditions.push(`descrição casa com /${rule.descriptionPattern}/`);
+  if (rule.counterparty) conditions.push(`contraparte "${rule.counterparty}"`);
+  if (rule.matchClientName) conditions.push('remetente é o próprio titular');
+  if (rule.minAmount != null) conditions.push(`valor ≥ ${formatCurrency(rule.minAmount)}`);
+  if (rule.maxAmount != null) conditions.push(`valor ≤ ${formatCurrency(rule.maxAmount)}`);
+  if (rule.startDate) conditions.push(`a partir de ${rule.startDate.split('-').reverse().join('/')}`);
+  if (rule.endDate) conditions.push(`até ${rule.endDate.split('-').reverse().join('/')}`);
+  return conditions.length > 0 ? conditions.join(' · ') : 'todos os créditos';
+};
+
+const actionLabel = (rule: IncomeRule): string => {
+  const label = INCOME_RULE_ACTIONS.find(action => action.id === rule.action)?.label || rule.action;
+  if (!rule.value) return label;
+  return `${label}: ${rule.action === 'recategorize' ? getCategoryLabel(rule.value) : rule.value}`;
+};
+
+const toOptionalNumber = (value: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const RuleEditor: React.FC<{ rule: IncomeRule; onSave: (rule: IncomeRule) => void; onCancel: () => void }> = ({ rule, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<IncomeRule>(rule);
+  const update = (changes: Partial<IncomeRule>) => setDraft(current => ({ ...current, ...changes }));
+
+  const patternError = draft.descriptionPattern && !compileRulePattern(draft.descriptionPattern)
+    ? 'Expressão regular inválida.'
+    : null;
+  const needsValue = draft.action !== 'exclude';
+  const canSave = draft.name.trim() && !patternError && (!needsValue || draft.value?.trim());
+
+  return (
+    <div className="grid grid-cols-1 gap-3 rounded-md border border-emerald-200 bg-emerald-50/40 p-3 sm:grid-cols-2">
+      <label className="text-sm text-slate-700 sm:col-span-2">
+        Nome da regra
+        <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClassName} autoFocus />
+      </label>
+      <label className="text-sm text-slate-700">
+        Ação
+        <select value={draft.action} onChange={(e) => update({ action: e.target.value as IncomeRule['action'] })} className={inputClassName}>
+          {INCOME_RULE_ACTIONS.map(action => <option key={action.id} value={action.id}>{action.label}</option>)}
+        </select>
+      </label>
+      {draft.action === 'recategorize' ? (
+        <label className="text-sm text-slate-700">
+          Categoria
+          <select value={draft.value || ''} onChange={(e) => update({ value: e.target.value || undefined })} className={inputClassName}>
+            <option value="">Selecione...</option>
+            {INCOME_CATEGORIES.map(category => <option key={category.id} value={category.id}>{category.label}</option>)}
+            {draft.value && !INCOME_CATEGORIES.some(category => category.id === draft.value) && <option value={draft.value}>{draft.value}</option>}
+          </select>
+        </label>
+      ) : (
+        <label className="text-sm text-slate-700">
+          Etiqueta
+          <input type="text" value={draft.value || ''} onChange={(e) => update({ value: e.target.value || undefined })} disabled={!needsValue} className={`${inputClassName} disabled:bg-slate-100`} />
+        </label>
+      )}
+      <label className="text-sm text-slate-700 sm:col-span-2">
+        Descrição (expressão regular)
+        <input type="text" value={draft.descriptionPattern || ''} onChange={(e) => update({ descriptionPattern: e.target.value || undefined })} placeholder="RESGATE|APLIC" className={`${inputClassName} font-mono`} />
+        {patternError && <span className="mt-1 block text-xs text-red-700">{patternError}</span>}
+      </label>
+      <label className="text-sm text-slate-700">
+        Contraparte (nome na descrição)
+        <input type="text" value={draft.counterparty || ''} onChange={(e) => update({ counterparty: e.target.value || undefined })} className={inputClassName} />
+      </label>
+      <label className="flex items-center gap-2 self-end pb-2 text-sm text-slate-700">
+        <input type="checkbox" checked={!!draft.matchClientName} onChange={(e) => update({ matchClientName: e.target.checked || undefined })} className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500" />
+        Remetente é o próprio titular
+      </label>
+      <label className="text-sm text-slate-700">
+        Valor mínimo (R$)
+        <input type="text" inputMode="decimal" defaultValue={draft.minAmount ?? ''} onChange={(e) => update({ minAmount: toOptionalNumber(e.target.value) })} className={inputClassName} />
+      </label>
+      <label className="text-sm text-slate-700">
+        Valor máximo (R$)
+        <input type="text" inputMode="decimal" defaultValue={draft.maxAmount ?? ''} onChange={(e) => update({ maxAmount: toOptionalNumber(e.target.value) })} className={inputClassName} />
+      </label>
+      <label className="text-sm text-slate-700">
+        A partir de
+        <input type="date" value={draft.startDate || ''} onChange={(e) => update({ startDate: e.target.value || undefined })} className={inputClassName} />
+      </label>
+      <label className="text-sm text-slate-700">
+        Até
+        <input type="date" value={draft.endDate || ''} onChange={(e) => update({ endDate: e.target.value || undefined })} className={inputClassName} />
+      </label>
+      <div className="flex justify-end gap-2 sm:col-span-2">
+        <button onClick={onCancel} className={secondaryButtonClassName}>Cancelar</button>
+        <button onClick={() => onSave({ ...draft, name: draft.name.trim() })} disabled={!canSave} className="rounded-md bg-emerald-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-emerald-500 disabled:bg-slate-400">
+          Salvar regra
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const IncomeRulesPanel: React.FC<IncomeRulesPanelProps> = ({ rules, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<IncomeRule | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeCount = rules.filter(rule => rule.enabled).length;
+
+  const handleSave = (rule: IncomeRule) => {
+    const exists = rules.some(current => current.id === rule.id);
+    onChange(exists ? rules.map(current => (current.id === rule.id ? rule : current)) : [...rules, rule]);
+    setEditing(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportIncomeRules(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'regras_de_receita.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(importIncomeRules(await file.text()));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || "Não foi possível importar as regras.");
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between p-3 text-left text-sm"
+        aria-expanded={isOpen}
+      >
+        <span className="font-medium text-slate-700">Regras de receita</span>
+        <span className="text-slate-500">{activeCount} ativa(s) {isOpen ? '▲' : '▼'}</span>
+      </button>
+      {isOpen && (
+        <fieldset disabled={disabled} className="flex flex-col gap-3 border-t border-slate-200 p-4">
+          <p className="text-xs text-slate-500">
+            Aplicadas aos créditos depois da extração, na ordem abaixo. Lançamentos excluídos continuam visíveis na lista de excluídos, com a regra que os removeu.
+          </p>
+          <ul className="divide-y divide-slate-200 rounded-md border border-slate-200">
+            {rules.map(rule => (
+              <li key={rule.id} className="flex items-start gap-3 p-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => onChange(rules.map(current => (current.id === rule.id ? { ...current, enabled: e.target.checked } : current)))}
+                  className="mt-0.5 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                  aria-label={`Ativar regra ${rule.name}`}
+                />
+                <div className="min-w-0 flex-grow">
+                  <p className={`font-medium ${rule.enabled ? 'text-slate-800' : 'text-slate-400 line-through'}`}>{rule.name}</p>
+                  <p className="break-words text-xs text-slate-500">{describeRule(rule)}</p>
+                </div>
+                <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${rule.action === 'exclude' ? 'bg-red-100 text-red-700' : 'bg-sky-100 text-sky-700'}`}>
+                  {actionLabel(rule)}
+                </span>
+                <button onClick={() => setEditing(rule)} className="flex-shrink-0 text-slate-500 hover:text-slate-800" aria-label={`Editar regra ${rule.name}`}>
+                  <EditIcon className="h-4 w-4" />
+                </button>
+                <button onClick={() => onChange(rules.filter(current => current.id !== rule.id))} className="flex-shrink-0 text-slate-400 hover:text-red-600" aria-label={`Remover regra ${rule.name}`}>
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+            {rules.length === 0 && <li className="p-3 text-sm text-slate-500">Nenhuma regra: todos os créditos entram na receita.</li>}
+          </ul>
+
+          {editing && <RuleEditor key={editing.id} rule={editing} onSave={handleSave} onCancel={() => setEditing(null)} />}
+
+          {importError && <p className="text-sm text-red-700">{importError}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setEditing(createIncomeRule())} className={secondaryButtonClassName}>Nova regra</button>
+            <button onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>Importar</button>
+            <button onClick={handleExport} className={secondaryButtonClassName}>Exportar</button>
+            <button onClick={() => onChange(DEFAULT_INCOME_RULES)} className={secondaryButtonClassName}>Restaurar padrão</button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </div>
+        </fieldset>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import type { PositiveEntry } from '../types';
+import { computeIncomeStability } from '../services/incomeStability';
+
+interface IncomeStabilityPanelProps {
+  entries: PositiveEntry[];
+  // Meses cobertos pelos extratos, para contar os meses sem crédito
+  coverageMonths?: string[];
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const formatMonthYear = (monthYear: string) => {
+    const [year, month] = monthYear.split('-');
+    return `${month}/${year}`;
+};
+
+export const IncomeStabilityPanel: React.FC<IncomeStabilityPanelProps> = ({ entries, coverageMonths = [] }) => {
+  const report = useMemo(() => computeIncomeStability(entries, coverageMonths), [entries, coverageMonths]);
+  const presumed = report.metrics.find(metric => metric.id === 'presumed');
+  const otherMetrics = report.metrics.filter(metric => metric.id !== 'presumed');
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+      <div className="border-b border-slate-200 p-4">
+        <h3 className="text-lg font-semibold text-slate-800">Estabilidade e Renda Presumida</h3>
+        <p className="text-sm text-slate-500">Indicadores para comprovação de renda, cada um com a explicação do cálculo.</p>
+      </div>
+      {presumed && (
+        <div className="border-b border-emerald-200 bg-emerald-50 p-4">
+          <p className="text-xs font-medium uppercase text-emerald-800">{presumed.label}</p>
+          <p className="text-2xl font-bold text-emerald-900">{presumed.display}</p>
+          <p className="mt-1 text-sm text-emerald-800">{presumed.explanation}</p>
+        </div>
+      )}
+      <dl className="grid grid-cols-1 gap-px bg-slate-200 sm:grid-cols-2">
+        {otherMetrics.map(metric => (
+          <div key={metric.id} className="bg-white p-4">
+            <dt className="text-xs font-medium uppercase text-slate-500">{metric.label}</dt>
+            <dd className="text-lg font-semibold text-slate-900">{metric.display}</dd>
+            <dd className="mt-1 text-xs text-slate-500">{metric.explanation}</dd>
+          </div>
+        ))}
+      </dl>
+      {report.recurringIncomes.length > 0 && (
+        <div className="border-t border-slate-200 p-4">
+          <h4 className="mb-2 text-sm font-semibold text-slate-700">Rendas recorrentes detectadas</h4>
+          <ul className="flex flex-col gap-1 text-sm">
+            {report.recurringIncomes.map(income => (
+              <li key={income.key} className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-slate-800">{income.payer}</span>
+                {income.isSalary && <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700">Salário</span>}
+                {!income.active && (
+                  <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-600" title="Sem pagamento nos últimos meses do período: fica fora da renda presumida.">
+                    Encerrada em {formatMonthYear(income.months[income.months.length - 1])}
+                  </span>
+                )}
+                <span className="text-slate-500">
+                  {formatCurrency(income.typicalAmount)} · por volta do dia {income.typicalDay} · {income.months.length} mês(es)
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,24 @@
-import React from 'react';
-import type { PositiveEntry } from '../types';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import React, { useState } from 'react';
+import type { AuditEvent, ExcludedEntry, PositiveEntry, ReconciliationReport, ReportDetails, StatementCoverage } from '../types';
+import { getCategoryLabel } from '../services/categorization';
+import { buildEntriesCsv, buildReportFileName, buildWorkbook } from '../services/spreadsheetExport';
+import { buildMonthlyPivot } from '../services/monthlyPivot';
+import { buildPdfReport } from '../services/pdfReport';
+import { DEFAULT_REPORT_TEMPLATE, EMPTY_REPORT_DETAILS, loadReportTemplates, saveReportTemplates, type ReportTemplateStore } from '../services/reportTemplates';
+import { ReportTemplatePanel } from './ReportTemplatePanel';
 import { DownloadIcon } from './icons';
 
 interface MonthlyAnalysisTableProps {
   entries: PositiveEntry[];
   clientName: string;
+  reconciliation?: ReconciliationReport[];
+  auditTrail?: AuditEvent[];
+  // Créditos fora da receita, listados no relatório PDF
+  excluded?: ExcludedEntry[];
+  // Período coberto pelos extratos: meses sem crédito viram colunas zeradas
+  coverage?: StatementCoverage;
+  // Recebe uma cópia de cada relatório gerado, para guardar no caso
+  onReportGenerated?: (fileName: string, blob: Blob) => void;
 }
 
 const formatCurrency = (value: number) => {
@@ -22,218 +34,115 @@ const monthNames: { [key: string]: string } = {
   '09': 'Setembro', '10': 'Outubro', '11': 'Novembro', '12': 'Dezembro'
 };
 
-export const MonthlyAnalysisTable: React.FC<MonthlyAnalysisTableProps> = ({ entries, clientName }) => {
-  const analysis: {
-    [description: string]: { [monthYear: string]: number; total: number };
-  } = {};
-  const monthlyTotals: { [monthYear: string]: number } = {};
-  const allMonths = new Set<string>();
+export const MonthlyAnalysisTable: React.FC<MonthlyAnalysisTableProps> = ({ entries, clientName, reconciliation = [], auditTrail = [], excluded = [], coverage, onReportGenerated }) => {
+  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
 
-  entries.forEach(entry => {
-    if (!entry.date || !entry.description) return;
-    const [year, month] = entry.date.split('-');
-    const monthYear = `${year}-${month}`;
-    allMonths.add(monthYear);
+  const [templateStore, setTemplateStore] = useState<ReportTemplateStore>(loadReportTemplates);
+  const [reportDetails, setReportDetails] = useState<ReportDetails>(EMPTY_REPORT_DETAILS);
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+  const activeTemplate = templateStore.templates.find(template => template.id === templateStore.activeId) || DEFAULT_REPORT_TEMPLATE;
 
-    if (!analysis[entry.description]) {
-      analysis[entry.description] = { total: 0 };
-    }
-    if (!analysis[entry.description][monthYear]) {
-      analysis[entry.description][monthYear] = 0;
-    }
-    analysis[entry.description][monthYear] += entry.amount;
-    analysis[entry.description].total += entry.amount;
+  // Pivô por categoria, com as descrições de cada categoria para o detalhamento
+  const coverageMonths = coverage?.months || [];
+  const pivot = buildMonthlyPivot(entries, coverageMonths);
+  const { months: sortedMonths, monthlyTotals } = pivot;
 
-    if (!monthlyTotals[monthYear]) {
-      monthlyTotals[monthYear] = 0;
-    }
-    monthlyTotals[monthYear] += entry.amount;
-  });
+  const toggleCategory = (category: string) => {
+    const next = new Set(expandedCategories);
+    if (next.has(category)) next.delete(category);
+    else next.add(category);
+    setExpandedCategories(next);
+  };
 
-  const sortedMonths = Array.from(allMonths).sort();
-  const sortedDescriptions = Object.keys(analysis).sort();
-  
+  const handleTemplateStoreChange = (store: ReportTemplateStore) => {
+    setTemplateStore(store);
+    saveReportTemplates(store);
+  };
 
   const handleGeneratePdf = () => {
-    const doc = new jsPDF({ orientation: 'landscape' });
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const generationDate = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'long', timeStyle: 'short' }).format(new Date());
-
-    // --- Calculations for Summary ---
-    const grandTotal = Object.values(monthlyTotals).reduce((sum, total) => sum + total, 0);
-    const transactionCount = entries.length;
-    const numberOfMonths = sortedMonths.length;
-    const monthlyAverage = numberOfMonths > 0 ? grandTotal / numberOfMonths : 0;
-    
-    const bestMonth = Object.entries(monthlyTotals).reduce((best, current) => {
-        return current[1] > best[1] ? current : best;
-    }, ['', 0]);
-
-    const [bestMonthYear, bestMonthValue] = bestMonth;
-    const [year, month] = bestMonthYear ? bestMonthYear.split('-') : ['', ''];
-    const bestMonthFormatted = month ? `${monthNames[month]}/${year.slice(2)}` : 'N/A';
-    
-    const firstMonthStr = sortedMonths[0];
-    const lastMonthStr = sortedMonths[sortedMonths.length - 1];
-    const firstMonth = firstMonthStr ? `${monthNames[firstMonthStr.split('-')[1]]}/${firstMonthStr.split('-')[0].slice(2)}` : '';
-    const lastMonth = lastMonthStr ? `${monthNames[lastMonthStr.split('-')[1]]}/${lastMonthStr.split('-')[0].slice(2)}` : '';
-    const period = firstMonth && lastMonth ? (firstMonth === lastMonth ? firstMonth : `${firstMonth} a ${lastMonth}`) : 'N/A';
-
-    // --- PDF Header ---
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(20);
-    doc.setTextColor(15, 23, 42); // slate-900
-    doc.text("Relatório de Análise de Créditos", 14, 20);
-
-    doc.setFont('helvetica', 'normal');
-    doc.setFontSize(10);
-    doc.setTextColor(100, 116, 139); // slate-500
-    doc.text("Gerado pelo Analisador de Extratos com IA", 14, 26);
-    
-    doc.setFontSize(11);
-    doc.setTextColor(48, 59, 72); // slate-700
-    if (clientName.trim()) {
-      doc.text(`Cliente: ${clientName.trim()}`, 14, 35);
-    }
-    doc.text(`Período Analisado: ${period}`, 14, 41);
-    doc.text(`Gerado em: ${generationDate}`, pageWidth - 14, 35, { align: 'right' });
-    
-    doc.setLineWidth(0.2);
-    doc.setDrawColor(226, 232, 240); // slate-200
-    doc.line(14, 48, pageWidth - 14, 48);
-
-    // --- Summary Section ---
-    const summaryStartY = 55;
-    const boxWidth = (pageWidth - 28 - 30) / 4; // 28 for margins, 30 for gaps
-    const boxHeight = 25;
-
-    const drawSummaryBox = (x: number, title: string, value: string) => {
-        doc.setFillColor(248, 250, 252); // slate-50
-        doc.setDrawColor(226, 232, 240); // slate-200
-        doc.roundedRect(x, summaryStartY, boxWidth, boxHeight, 3, 3, 'FD');
-        doc.setFontSize(9);
-        doc.setFont('helvetica', 'bold');
-        doc.setTextColor(100, 116, 139); // slate-500
-        doc.text(title.toUpperCase(), x + 8, summaryStartY + 7);
-        doc.setFontSize(14);
-        doc.setFont('helvetica', 'bold');
-        doc.setTextColor(15, 23, 42); // slate-900
-        doc.text(value, x + 8, summaryStartY + 18);
-    };
-
-    drawSummaryBox(14, "Total de Créditos", formatCurrency(grandTotal));
-    drawSummaryBox(14 + boxWidth + 10, "Nº de Transações", transactionCount.toString());
-    drawSummaryBox(14 + (boxWidth + 10) * 2, "Média Mensal", formatCurrency(monthlyAverage));
-    drawSummaryBox(14 + (boxWidth + 10) * 3, "Mês de Maior Receita", `${bestMonthFormatted}`);
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.setTextColor(100, 116, 139); // slate-500
-    doc.text(`(${formatCurrency(bestMonthValue)})`, 14 + (boxWidth + 10) * 3 + 8, summaryStartY + 23);
-
-
-    // --- Monthly Analysis Table ---
-    const monthlyTableHead = [
-      'Análise Mensal por Descrição',
-      ...sortedMonths.map(monthYear => {
-        const [year, month] = monthYear.split('-');
-        return `${monthNames[month]}/${year.slice(2)}`;
-      }),
-      'Total'
-    ];
-    const monthlyTableBody = sortedDescriptions.map(description => [
-      description,
-      ...sortedMonths.map(monthYear => analysis[description][monthYear] ? formatCurrency(analysis[description][monthYear]) : '-'),
-      formatCurrency(analysis[description].total)
-    ]);
-    const monthlyTableFoot = [['Total Mensal', ...sortedMonths.map(monthYear => formatCurrency(monthlyTotals[monthYear])), formatCurrency(grandTotal)]];
-
-    autoTable(doc, {
-      startY: summaryStartY + boxHeight + 15,
-      head: [monthlyTableHead],
-      body: monthlyTableBody,
-      foot: monthlyTableFoot,
-      theme: 'grid',
-      headStyles: { fillColor: [34, 197, 94], textColor: 255, fontStyle: 'bold' },
-      footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: 'bold', lineWidth: 0.2 },
-      alternateRowStyles: { fillColor: [248, 250, 252] },
-    });
-
-    // --- Detailed Transactions Table ---
-    let detailedTableStartY = (doc as any).lastAutoTable.finalY + 15;
-    if (detailedTableStartY > pageHeight - 40) {
-        doc.addPage();
-        detailedTableStartY = 20;
-    }
-    
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(16);
-    doc.setTextColor(15, 23, 42);
-    doc.text("Extrato Detalhado de Créditos", 14, detailedTableStartY);
-
-    const detailedTableHead = ['Data', 'Descrição', 'Valor (R$)'];
-    const sortedEntries = [...entries].sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    const formatDate = (dateString: string) => {
-        if (!dateString || !dateString.includes('-')) return 'N/A';
-        const [year, month, day] = dateString.split('-');
-        return `${day}/${month}/${year}`;
-    };
-    const detailedTableBody = sortedEntries.map(entry => [
-        formatDate(entry.date),
-        entry.description,
-        { content: formatCurrency(entry.amount), styles: { halign: 'right' } }
-    ]);
-    
-    autoTable(doc, {
-      startY: detailedTableStartY + 7,
-      head: [detailedTableHead],
-      body: detailedTableBody,
-      theme: 'striped',
-      headStyles: { fillColor: [71, 85, 105], textColor: 255, fontStyle: 'bold' },
-      columnStyles: { 2: { halign: 'right' } },
-    });
-
-    // --- Add Page Footers ---
-    const pageCount = (doc as any).internal.getNumberOfPages();
-    for (let i = 1; i <= pageCount; i++) {
-      doc.setPage(i);
-      doc.setFontSize(9);
-      doc.setTextColor(150);
-      doc.text(`Página ${i} de ${pageCount}`, 14, pageHeight - 8);
-      doc.text('Relatório gerado pelo Analisador de Extratos com IA', pageWidth - 14, pageHeight - 8, { align: 'right' });
-    }
-
-    // --- Save File ---
-    const safeFileName = clientName.trim().toLowerCase().replace(/[^a-z0-9]/g, '_').replace(/_{2,}/g, '_');
-    const fileName = safeFileName ? `relatorio_creditos_${safeFileName}.pdf` : 'relatorio_analise_creditos.pdf';
+    const doc = buildPdfReport({ entries, clientName, reconciliation, auditTrail, excluded, coverage }, activeTemplate, reportDetails);
+    const fileName = buildReportFileName(clientName, 'pdf');
     doc.save(fileName);
+    onReportGenerated?.(fileName, doc.output('blob'));
+  };
+
+  const downloadExport = (blob: Blob, extension: string) => {
+    const fileName = buildReportFileName(clientName, extension);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    onReportGenerated?.(fileName, blob);
   };
 
   return (
     <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
       <div className="flex items-center justify-between border-b border-slate-200 bg-white p-4">
           <h3 className="text-lg font-semibold text-slate-800">Resumo Mensal</h3>
-          <button
-            onClick={handleGeneratePdf}
-            className="inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2"
-            aria-label="Gerar PDF da análise mensal"
-          >
-            <DownloadIcon className="h-4 w-4" />
-            <span>Gerar Relatório PDF</span>
-          </button>
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <button
+              onClick={() => downloadExport(buildWorkbook(entries, clientName, coverageMonths), 'xlsx')}
+              className="inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2"
+              aria-label="Exportar a análise para Excel"
+            >
+              <DownloadIcon className="h-4 w-4" />
+              <span>Excel</span>
+            </button>
+            <button
+              onClick={() => downloadExport(buildEntriesCsv(entries), 'csv')}
+              className="inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2"
+              aria-label="Exportar os lançamentos em CSV"
+            >
+              <DownloadIcon className="h-4 w-4" />
+              <span>CSV</span>
+            </button>
+            <button
+              onClick={handleGeneratePdf}
+              className="inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2"
+              aria-label="Gerar PDF da análise mensal"
+            >
+              <DownloadIcon className="h-4 w-4" />
+              <span>Gerar Relatório PDF</span>
+            </button>
+            <button
+              onClick={() => setIsTemplateOpen(!isTemplateOpen)}
+              className="rounded-md px-2 py-2 text-sm font-medium text-slate-600 hover:text-slate-900"
+              aria-expanded={isTemplateOpen}
+              title="Modelo, identidade visual e seções do relatório PDF"
+            >
+              Modelo: {activeTemplate.name} {isTemplateOpen ? '▲' : '▼'}
+            </button>
+          </div>
       </div>
+      {isTemplateOpen && (
+        <ReportTemplatePanel
+          store={templateStore}
+          onStoreChange={handleTemplateStoreChange}
+          details={reportDetails}
+          onDetailsChange={setReportDetails}
+        />
+      )}
       <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-slate-200">
             <thead className="bg-slate-50">
               <tr>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-slate-500">
-                  Descrição
+                  Categoria
                 </th>
                 {sortedMonths.map(monthYear => {
                     const [year, month] = monthYear.split('-');
+                    const isEmpty = !monthlyTotals[monthYear];
+                    const isPartial = coverage?.partialMonths.includes(monthYear);
                     return (
-                        <th key={monthYear} scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-slate-500">
-                            {monthNames[month]}/{year.slice(2)}
+                        <th
+                          key={monthYear}
+                          scope="col"
+                          className={`px-6 py-3 text-right text-xs font-medium uppercase tracking-wider ${isEmpty ? 'text-amber-600' : 'text-slate-500'}`}
+                          title={isEmpty ? 'Mês coberto pelos extratos sem nenhum crédito' : isPartial ? 'Mês coberto só em parte pelos extratos' : undefined}
+                        >
+                            {monthNames[month]}/{year.slice(2)}{isPartial ? '*' : ''}
                         </th>
                     );
                 })}
@@ -243,35 +152,62 @@ export const MonthlyAnalysisTable: React.FC<MonthlyAnalysisTableProps> = ({ entr
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200 bg-white">
-              {sortedDescriptions.map(description => (
-                <tr key={description} className="hover:bg-slate-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{description}</td>
-                  {sortedMonths.map(monthYear => (
-                    <td key={monthYear} className="px-6 py-4 whitespace-nowrap text-right text-sm text-slate-600">
-                      {analysis[description][monthYear] ? formatCurrency(analysis[description][monthYear]) : '-'}
-                    </td>
-                  ))}
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-slate-800">
-                    {formatCurrency(analysis[description].total)}
-                  </td>
-                </tr>
-              ))}
+              {pivot.categories.map(category => {
+                const isExpanded = expandedCategories.has(category);
+                return (
+                  <React.Fragment key={category}>
+                    <tr className="cursor-pointer hover:bg-slate-50" onClick={() => toggleCategory(category)}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-slate-900">
+                        <span className="mr-2 inline-block w-3 text-slate-400">{isExpanded ? '▼' : '▶'}</span>
+                        {getCategoryLabel(category)}
+                        <span className="ml-2 text-xs font-normal text-slate-500">({pivot.descriptions[category].length})</span>
+                      </td>
+                      {sortedMonths.map(monthYear => (
+                        <td key={monthYear} className="px-6 py-4 whitespace-nowrap text-right text-sm text-slate-700">
+                          {pivot.byCategory[category][monthYear] ? formatCurrency(pivot.byCategory[category][monthYear]) : '-'}
+                        </td>
+                      ))}
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-slate-800">
+                        {formatCurrency(pivot.byCategory[category].total)}
+                      </td>
+                    </tr>
+                    {isExpanded && pivot.descriptions[category].map(description => (
+                      <tr key={description} className="bg-slate-50/60">
+                        <td className="py-2 pl-12 pr-6 text-sm text-slate-600">{description}</td>
+                        {sortedMonths.map(monthYear => (
+                          <td key={monthYear} className="px-6 py-2 whitespace-nowrap text-right text-xs text-slate-500">
+                            {pivot.byDescription[category][description][monthYear] ? formatCurrency(pivot.byDescription[category][description][monthYear]) : '-'}
+                          </td>
+                        ))}
+                        <td className="px-6 py-2 whitespace-nowrap text-right text-xs font-medium text-slate-600">
+                          {formatCurrency(pivot.byDescription[category][description].total)}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
             </tbody>
             <tfoot className="bg-slate-100 border-t-2 border-slate-300">
               <tr>
                 <td className="px-6 py-4 text-left text-sm font-bold uppercase text-slate-800">Total Mensal</td>
                 {sortedMonths.map(monthYear => (
-                  <td key={monthYear} className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-slate-800">
+                  <td key={monthYear} className={`px-6 py-4 whitespace-nowrap text-right text-sm font-bold ${monthlyTotals[monthYear] ? 'text-slate-800' : 'text-amber-600'}`}>
                     {formatCurrency(monthlyTotals[monthYear])}
                   </td>
                 ))}
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-emerald-700">
-                  {formatCurrency(Object.values(monthlyTotals).reduce((sum, total) => sum + total, 0))}
+                  {formatCurrency(pivot.grandTotal)}
                 </td>
               </tr>
             </tfoot>
           </table>
       </div>
+      {coverage && coverage.partialMonths.length > 0 && (
+        <p className="border-t border-slate-200 px-6 py-2 text-xs text-slate-500">
+          * Mês coberto só em parte pelos extratos enviados; o total pode não representar o mês inteiro.
+        </p>
+      )}
     </div>
   );
 };
\ No newline at end of file
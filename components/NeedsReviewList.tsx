@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { PositiveEntry, ReviewItem } from '../types';
+import { REVIEW_REASON_LABELS } from '../services/responseValidation';
+import { parseBrazilianAmount, parseStatementDate } from '../services/parsers/parseUtils';
+import { AlertTriangleIcon, TrashIcon } from './icons';
+
+interface NeedsReviewListProps {
+  items: ReviewItem[];
+  onResolve: (item: ReviewItem, entry: PositiveEntry) => void;
+  onDiscard: (item: ReviewItem) => void;
+  onPreview?: (item: ReviewItem) => void;
+}
+
+const ReviewRow: React.FC<{ item: ReviewItem } & Omit<NeedsReviewListProps, 'items'>> = ({ item, onResolve, onDiscard, onPreview }) => {
+  const parsedAmount = parseBrazilianAmount(item.raw.amount);
+  const [description, setDescription] = useState(item.raw.description.trim());
+  const [date, setDate] = useState(parseStatementDate(item.raw.date) || '');
+  const [amount, setAmount] = useState(parsedAmount && parsedAmount > 0 ? String(parsedAmount) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResolve = () => {
+    const value = Number(amount);
+    if (!description.trim()) return setError("Informe a descrição.");
+    if (!parseStatementDate(date)) return setError("Informe uma data válida.");
+    if (!Number.isFinite(value) || value <= 0) return setError("Informe um valor maior que zero.");
+    onResolve(item, {
+      id: item.id,
+      description: description.trim(),
+      date,
+      amount: value,
+      sourceFile: item.sourceFile,
+      sourceFileId: item.sourceFileId,
+      page: item.page,
+      boundingBox: item.boundingBox,
+    });
+  };
+
+  return (
+    <li className="flex flex-col gap-2 p-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {item.reasons.map(reason => (
+          <span key={reason} className="rounded-full bg-amber-100 px-2 py-0.5 font-medium text-amber-800">{REVIEW_REASON_LABELS[reason]}</span>
+        ))}
+        {item.sourceFile && <span className="text-slate-500">{item.sourceFile}{item.page ? ` · pág. ${item.page}` : ''}</span>}
+        {onPreview && item.sourceFileId && (
+          <button onClick={() => onPreview(item)} className="font-semibold text-emerald-700 hover:text-emerald-900">Ver no documento</button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500">
+        Extraído: "{item.raw.description || '-'}" · data "{item.raw.date || '-'}" · valor "{item.raw.amount || '-'}"
+      </p>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Descrição"
+          className="flex-grow rounded-md border-slate-300 text-sm shadow-sm focus:border-emerald-500 focus:ring-emerald-500"
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="rounded-md border-slate-300 text-sm shadow-sm focus:border-emerald-500 focus:ring-emerald-500"
+        />
+        <input
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Valor"
+          step="0.01"
+          className="w-32 rounded-md border-slate-300 text-right text-sm shadow-sm focus:border-emerald-500 focus:ring-emerald-500"
+        />
+        <button onClick={handleResolve} className="rounded-md bg-emerald-600 px-3 py-1 text-sm font-semibold text-white shadow-sm hover:bg-emerald-500">
+          Incluir
+        </button>
+        <button onClick={() => onDiscard(item)} className="p-1 text-slate-400 hover:text-red-600" aria-label="Descartar lançamento">
+          <TrashIcon className="h-5 w-5" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </li>
+  );
+};
+
+export const NeedsReviewList: React.FC<NeedsReviewListProps> = ({ items, ...handlers }) => (
+  <div className="overflow-hidden rounded-lg border border-amber-200 bg-white shadow-md">
+    <div className="flex items-start gap-3 border-b border-amber-200 bg-amber-50 p-4">
+      <AlertTriangleIcon className="mt-0.5 h-5 w-5 flex-shrink-0 text-amber-600" />
+      <div>
+        <h3 className="text-lg font-semibold text-amber-900">Lançamentos para Revisão</h3>
+        <p className="text-sm text-amber-800">
+          {items.length} linha(s) da extração com data, valor ou descrição que não puderam ser corrigidos automaticamente. Elas ainda não entram nos totais: corrija e inclua, ou descarte.
+        </p>
+      </div>
+    </div>
+    <ul className="divide-y divide-slate-200">
+      {items.map(item => <ReviewRow key={item.id} item={item} {...handlers} />)}
+    </ul>
+  </div>
+);
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import type { PayerRecurrence, PositiveEntry } from '../types';
+import { analyzePayers, CONCENTRATION_LABELS, PAYER_RECURRENCE_LABELS } from '../services/payerAnalysis';
+
+interface PayerAnalysisPanelProps {
+  entries: PositiveEntry[];
+}
+
+// Quantos pagadores aparecem antes do "ver todos"
+const TOP_PAYERS_LIMIT = 10;
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1).replace('.', ',')}%`;
+
+const recurrenceStyles: { [key in PayerRecurrence]: string } = {
+  recurring: 'bg-emerald-100 text-emerald-700',
+  occasional: 'bg-slate-100 text-slate-600',
+  'one-off': 'bg-amber-100 text-amber-700',
+};
+
+const concentrationStyles = {
+  low: 'text-emerald-700',
+  moderate: 'text-amber-700',
+  high: 'text-red-700',
+};
+
+export const PayerAnalysisPanel: React.FC<PayerAnalysisPanelProps> = ({ entries }) => {
+  const [showAll, setShowAll] = useState(false);
+  const analysis = useMemo(() => analyzePayers(entries), [entries]);
+  const visiblePayers = showAll ? analysis.payers : analysis.payers.slice(0, TOP_PAYERS_LIMIT);
+  const recurringCount = analysis.payers.filter(payer => payer.recurrence === 'recurring').length;
+  const oneOffCount = analysis.payers.filter(payer => payer.recurrence === 'one-off').length;
+
+  if (analysis.payers.length === 0) return null;
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+      <div className="border-b border-slate-200 p-4">
+        <h3 className="text-lg font-semibold text-slate-800">Análise de Pagadores</h3>
+        <p className="text-sm text-slate-500">Quem paga o cliente e quanto a receita depende de cada pagador.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-3 border-b border-slate-200 p-4 sm:grid-cols-4">
+        <div>
+          <p className="text-xs font-medium uppercase text-slate-500">Pagadores</p>
+          <p className="text-lg font-semibold text-slate-900">{analysis.payers.length}</p>
+          <p className="text-xs text-slate-500">{recurringCount} recorrente(s) · {oneOffCount} pontual(is)</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium uppercase text-slate-500">Maior pagador</p>
+          <p className="text-lg font-semibold text-slate-900">{formatPercent(analysis.topPayerShare)}</p>
+          <p className="text-xs text-slate-500">da receita</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium uppercase text-slate-500">3 maiores</p>
+          <p className="text-lg font-semibold text-slate-900">{formatPercent(analysis.top3Share)}</p>
+          <p className="text-xs text-slate-500">da receita</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium uppercase text-slate-500">Concentração (HHI)</p>
+          <p className={`text-lg font-semibold ${concentrationStyles[analysis.concentrationLevel]}`}>
+            {Math.round(analysis.concentrationIndex).toLocaleString('pt-BR')} · {CONCENTRATION_LABELS[analysis.concentrationLevel]}
+          </p>
+          <p className="text-xs text-slate-500">0 a 10.000; acima de 2.500 é alta</p>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Pagador</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Perfil</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Meses</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Créditos</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Total</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Participação</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 bg-white">
+            {visiblePayers.map(payer => (
+              <tr key={payer.key} className="hover:bg-slate-50">
+                <td className="px-4 py-2">
+                  <span className="font-medium text-slate-900">{payer.name}</span>
+                  {(payer.document || payer.bank) && (
+                    <span className="block text-xs text-slate-500">{[payer.document, payer.bank].filter(Boolean).join(' · ')}</span>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${recurrenceStyles[payer.recurrence]}`}>{PAYER_RECURRENCE_LABELS[payer.recurrence]}</span>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-slate-600">{payer.months.length} de {analysis.monthCount}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-slate-600">{payer.count}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right font-semibold text-slate-800">{formatCurrency(payer.total)}</td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 w-24 overflow-hidden rounded-full bg-slate-100">
+                      <div className="h-full bg-emerald-500" style={{ width: `${Math.min(payer.share * 100, 100)}%` }} />
+                    </div>
+                    <span className="text-slate-600">{formatPercent(payer.share)}</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between border-t border-slate-200 p-3 text-xs text-slate-500">
+        <span>
+          {analysis.unidentifiedCount > 0
+            ? `${analysis.unidentifiedCount} crédito(s) sem pagador identificável (${formatCurrency(analysis.unidentifiedTotal)}).`
+            : 'Todos os créditos têm pagador identificado.'}
+        </span>
+        {analysis.payers.length > TOP_PAYERS_LIMIT && (
+          <button onClick={() => setShowAll(!showAll)} className="font-semibold text-emerald-700 hover:text-emerald-900">
+            {showAll ? 'Mostrar só os principais' : `Ver todos os ${analysis.payers.length}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { ReconciliationReport } from '../types';
+import { AlertTriangleIcon, CheckCircleIcon } from './icons';
+
+interface ReconciliationPanelProps {
+  reports: ReconciliationReport[];
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const scopeLabels = {
+  statement: 'Extrato',
+  page: 'Página',
+  month: 'Mês',
+  line: 'Linha',
+};
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ reports }) => {
+  const mismatchCount = reports.reduce((sum, report) => sum + report.checks.filter(check => !check.ok).length, 0);
+  const allUnavailable = reports.every(report => report.status === 'unavailable');
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+      <div className={`flex items-center gap-2 border-b p-4 ${mismatchCount > 0 ? 'border-red-200 bg-red-50' : 'border-slate-200 bg-white'}`}>
+        {mismatchCount > 0
+          ? <AlertTriangleIcon className="h-5 w-5 text-red-600" />
+          : <CheckCircleIcon className={`h-5 w-5 ${allUnavailable ? 'text-slate-400' : 'text-emerald-600'}`} />}
+        <h3 className="text-lg font-semibold text-slate-800">Conciliação de Saldos</h3>
+        <span className={`ml-auto text-sm font-medium ${mismatchCount > 0 ? 'text-red-700' : 'text-slate-500'}`}>
+          {mismatchCount > 0
+            ? `${mismatchCount} divergência(s) encontrada(s)`
+            : allUnavailable ? 'Saldos insuficientes para conferir' : 'Saldo inicial + créditos − débitos confere com o saldo final'}
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Arquivo / Escopo</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Saldo Inicial</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Créditos</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Débitos</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Saldo Esperado</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Saldo no Extrato</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Diferença</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 bg-white">
+            {reports.map(report => (
+              <React.Fragment key={report.sourceFile}>
+                <tr className="bg-slate-50/50">
+                  <td colSpan={7} className="px-4 py-2 font-semibold text-slate-700">
+                    {report.sourceFile}
+                    {report.status === 'unavailable' && <span className="ml-2 text-xs font-normal text-slate-500">(sem saldos impressos para conferir)</span>}
+                  </td>
+                </tr>
+                {report.checks.map((check, index) => (
+                  <tr key={index} className={check.ok ? '' : 'bg-red-50 text-red-800'}>
+                    <td className="px-4 py-2">
+                      <span className="text-xs uppercase text-slate-500">{scopeLabels[check.scope]}</span> {check.label}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right">{formatCurrency(check.openingBalance)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right">{formatCurrency(check.credits)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right">{formatCurrency(check.debits)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right">{formatCurrency(check.expectedClosing)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right">{formatCurrency(check.actualClosing)}</td>
+                    <td className={`px-4 py-2 whitespace-nowrap text-right font-semibold ${check.ok ? 'text-emerald-700' : 'text-red-700'}`}>
+                      {check.ok ? 'OK' : formatCurrency(check.difference)}
+                    </td>
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import type { ReportDetails, ReportTemplate } from '../types';
+import { createReportTemplate, DEFAULT_REPORT_TEMPLATE, readLogoFile, REPORT_SECTIONS, type ReportTemplateStore } from '../services/reportTemplates';
+
+interface ReportTemplatePanelProps {
+  store: ReportTemplateStore;
+  onStoreChange: (store: ReportTemplateStore) => void;
+  // Analista, número do caso e parecer: valem só para o relatório deste caso
+  details: ReportDetails;
+  onDetailsChange: (details: ReportDetails) => void;
+}
+
+const inputClassName = "mt-1 w-full rounded-md border border-slate-300 p-2 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm";
+const secondaryButtonClassName = "rounded-md bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-inset ring-slate-300 hover:bg-slate-50 disabled:opacity-50";
+
+const COLOR_FIELDS: { key: 'primaryColor' | 'accentColor' | 'tableHeaderColor'; label: string }[] = [
+  { key: 'primaryColor', label: 'Títulos' },
+  { key: 'accentColor', label: 'Destaque' },
+  { key: 'tableHeaderColor', label: 'Cabeçalho das tabelas' },
+];
+
+export const ReportTemplatePanel: React.FC<ReportTemplatePanelProps> = ({ store, onStoreChange, details, onDetailsChange }) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const template = store.templates.find(item => item.id === store.activeId) || DEFAULT_REPORT_TEMPLATE;
+  // O modelo padrão fica como referência; para personalizar, duplica-se
+  const isDefault = template.id === DEFAULT_REPORT_TEMPLATE.id;
+
+  const updateTemplate = (changes: Partial<ReportTemplate>) => {
+    onStoreChange({ ...store, templates: store.templates.map(item => (item.id === template.id ? { ...item, ...changes } : item)) });
+  };
+
+  const handleDuplicate = () => {
+    const copy = createReportTemplate(template, isDefault ? 'Novo modelo' : `${template.name} (cópia)`);
+    onStoreChange({ activeId: copy.id, templates: [...store.templates, copy] });
+  };
+
+  const handleDelete = () => {
+    if (isDefault || !window.confirm(`Apagar o modelo "${template.name}"?`)) return;
+    onStoreChange({ activeId: DEFAULT_REPORT_TEMPLATE.id, templates: store.templates.filter(item => item.id !== template.id) });
+  };
+
+  const handleLogoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      updateTemplate({ logoDataUrl: await readLogoFile(file) });
+      setLogoError(null);
+    } catch (err: any) {
+      setLogoError(err.message || "Não foi possível carregar o logotipo.");
+    }
+  };
+
+  const updateDetails = (changes: Partial<ReportDetails>) => onDetailsChange({ ...details, ...changes });
+
+  return (
+    <div className="flex flex-col gap-4 border-b border-slate-200 bg-slate-50/60 p-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="text-sm text-slate-700">
+          Modelo do relatório
+          <select
+            value={template.id}
+            onChange={(e) => onStoreChange({ ...store, activeId: e.target.value })}
+            className={inputClassName}
+          >
+            {store.templates.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+          </select>
+        </label>
+        <button onClick={handleDuplicate} className={secondaryButtonClassName}>{isDefault ? 'Criar modelo a partir deste' : 'Duplicar'}</button>
+        {!isDefault && <button onClick={handleDelete} className={`${secondaryButtonClassName} text-red-700`}>Apagar</button>}
+      </div>
+
+      {isDefault && (
+        <p className="text-xs text-slate-500">O modelo padrão não pode ser alterado. Crie um modelo a partir dele para usar o logotipo, as cores e as seções da sua unidade.</p>
+      )}
+
+      <fieldset disabled={isDefault} className="grid grid-cols-1 gap-3 disabled:opacity-60 sm:grid-cols-2 lg:grid-cols-3">
+        <label className="text-sm text-slate-700">
+          Nome do modelo
+          <input type="text" value={template.name} onChange={(e) => updateTemplate({ name: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="text-sm text-slate-700">
+          Título
+          <input type="text" value={template.title} onChange={(e) => updateTemplate({ title: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="text-sm text-slate-700">
+          Subtítulo
+          <input type="text" value={template.subtitle} onChange={(e) => updateTemplate({ subtitle: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="text-sm text-slate-700 sm:col-span-2">
+          Texto do rodapé
+          <input type="text" value={template.footerText} onChange={(e) => updateTemplate({ footerText: e.target.value })} className={inputClassName} />
+        </label>
+        <div className="text-sm text-slate-700">
+          Logotipo (PNG ou JPEG)
+          <div className="mt-1 flex items-center gap-2">
+            {template.logoDataUrl && <img src={template.logoDataUrl} alt="Logotipo do relatório" className="h-9 max-w-[6rem] rounded border border-slate-200 bg-white object-contain" />}
+            <label className={`${secondaryButtonClassName} cursor-pointer`}>
+              {template.logoDataUrl ? 'Trocar' : 'Enviar'}
+              <input type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} className="sr-only" />
+            </label>
+            {template.logoDataUrl && <button onClick={() => updateTemplate({ logoDataUrl: undefined })} className="text-sm text-slate-500 hover:text-slate-800">Remover</button>}
+          </div>
+          {logoError && <p className="mt-1 text-xs text-red-700">{logoError}</p>}
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm text-slate-700 sm:col-span-2 lg:col-span-3">
+          {COLOR_FIELDS.map(field => (
+            <label key={field.key} className="inline-flex items-center gap-2">
+              <input type="color" value={template[field.key]} onChange={(e) => updateTemplate({ [field.key]: e.target.value })} className="h-8 w-10 rounded border border-slate-300" />
+              {field.label}
+            </label>
+          ))}
+        </div>
+        <div className="sm:col-span-2 lg:col-span-3">
+          <p className="text-sm font-medium text-slate-700">Seções do relatório</p>
+          <div className="mt-1 grid grid-cols-1 gap-1 sm:grid-cols-2 lg:grid-cols-3">
+            {REPORT_SECTIONS.map(section => (
+              <label key={section.id} className="inline-flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={template.sections[section.id]}
+                  onChange={(e) => updateTemplate({ sections: { ...template.sections, [section.id]: e.target.checked } })}
+                  className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                {section.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </fieldset>
+
+      <div className="grid grid-cols-1 gap-3 border-t border-slate-200 pt-4 sm:grid-cols-2">
+        <label className="text-sm text-slate-700">
+          Analista responsável
+          <input type="text" value={details.analystName} onChange={(e) => updateDetails({ analystName: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="text-sm text-slate-700">
+          Número do caso
+          <input type="text" value={details.caseNumber} onChange={(e) => updateDetails({ caseNumber: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="text-sm text-slate-700 sm:col-span-2">
+          Parecer do analista
+          <textarea
+            value={details.observations}
+            onChange={(e) => updateDetails({ observations: e.target.value })}
+            rows={4}
+            placeholder="Observações e conclusão sobre a renda analisada. Sai no relatório quando a seção “Parecer do analista” está ligada."
+            className={inputClassName}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
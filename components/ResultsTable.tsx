@@ -1,173 +1,436 @@
-import React, { useState, useEffect } from 'react';
-import type { PositiveEntry } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { DuplicateCluster, DuplicateResolution, EntryFilter, EntrySort, EntrySortKey, PositiveEntry } from '../types';
+import { createId } from '../services/analysisSession';
+import { resolveDuplicateCluster } from '../services/deduplication';
+import { DEFAULT_CATEGORY, INCOME_CATEGORIES } from '../services/categorization';
+import { extractCounterparty } from '../services/counterparty';
+import { EMPTY_ENTRY_FILTER, filterEntries, isEntryFilterActive, sortEntries } from '../services/entryFilters';
+import { DuplicateReview } from './DuplicateReview';
 import { TrashIcon, EditIcon } from './icons';
 
 interface ResultsTableProps {
   entries: PositiveEntry[];
   setEntries: (entries: PositiveEntry[]) => void;
+  duplicateClusters?: DuplicateCluster[];
+  onEntrySelect?: (entry: PositiveEntry) => void;
+  onCategoryChange?: (entry: PositiveEntry, category: string) => void;
+  onAiCategorize?: () => void;
+  isCategorizing?: boolean;
+  filter: EntryFilter;
+  onFilterChange: (filter: EntryFilter) => void;
+  // Quando ligado, a análise mensal e as exportações usam só os lançamentos filtrados
+  filterDrivesReports?: boolean;
+  onFilterDrivesReportsChange?: (value: boolean) => void;
+  onExclude?: (entries: PositiveEntry[]) => void;
+  onBulkCategoryChange?: (entries: PositiveEntry[], category: string) => void;
 }
 
-export const ResultsTable: React.FC<ResultsTableProps> = ({ entries, setEntries }) => {
-    const [isEditing, setIsEditing] = useState(false);
-    const [editedEntries, setEditedEntries] = useState<PositiveEntry[]>([]);
+// Abaixo deste valor o lançamento é destacado para conferência manual
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
 
+// Acima deste número de linhas, só as linhas visíveis na rolagem são desenhadas
+const VIRTUALIZATION_THRESHOLD = 100;
+// Altura fixa das linhas (em pixels) para calcular a janela visível sem medir o DOM
+const ROW_HEIGHT = 61;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 8;
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const formatDate = (dateString: string) => {
+    if (!dateString || !dateString.includes('-')) return 'N/A';
+    const parts = dateString.split('-');
+    if (parts.length !== 3) return dateString;
+    const [year, month, day] = parts;
+    return `${day}/${month}/${year}`;
+};
+
+// Chave estável da linha: o id do lançamento (todas as extrações atribuem um), ou a posição como último recurso
+const rowKey = (entry: PositiveEntry, index: number) => entry.id || `linha-${index}`;
+
+const inputClass = "w-full rounded-md border-slate-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm";
+const buttonClass = "inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 disabled:opacity-50";
+
+const CategorySelect: React.FC<{ value?: string; onChange: (category: string) => void; disabled?: boolean; className?: string; title?: string }> = ({ value, onChange, disabled, className = '', title }) => (
+    <select
+        value={value || DEFAULT_CATEGORY}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className={`rounded-md border-slate-300 py-1 text-sm shadow-sm focus:border-emerald-500 focus:ring-emerald-500 ${className}`}
+        title={title}
+        aria-label="Categoria do lançamento"
+    >
+        {INCOME_CATEGORIES.map(category => <option key={category.id} value={category.id}>{category.label}</option>)}
+        {value && !INCOME_CATEGORIES.some(category => category.id === value) && <option value={value}>{value}</option>}
+    </select>
+);
+
+export const ResultsTable: React.FC<ResultsTableProps> = ({
+    entries, setEntries, duplicateClusters = [], onEntrySelect, onCategoryChange, onAiCategorize, isCategorizing,
+    filter, onFilterChange, filterDrivesReports, onFilterDrivesReportsChange, onExclude, onBulkCategoryChange,
+}) => {
+    const [sort, setSort] = useState<EntrySort>({ key: 'date', direction: 'asc' });
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [bulkCategory, setBulkCategory] = useState<string>(DEFAULT_CATEGORY);
+    // Edição de uma linha por vez: a chave da linha e o rascunho; `isNew` para a linha ainda não incluída
+    const [editing, setEditing] = useState<{ key: string; draft: PositiveEntry; isNew: boolean } | null>(null);
+    const [editError, setEditError] = useState<string | null>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    const keyedEntries = useMemo(() => entries.map((entry, index) => ({ entry, key: rowKey(entry, index) })), [entries]);
+    const visibleRows = useMemo(() => {
+        const keys = new Map(keyedEntries.map(({ entry, key }) => [entry, key]));
+        return sortEntries(filterEntries(entries, filter), sort).map(entry => ({ entry, key: keys.get(entry)! }));
+    }, [entries, keyedEntries, filter, sort]);
+
+    // A seleção só guarda linhas que ainda existem (desfazer, exclusão por regra etc.)
     useEffect(() => {
-        setEditedEntries(JSON.parse(JSON.stringify(entries)));
-    }, [entries]);
+        const existing = new Set(keyedEntries.map(({ key }) => key));
+        setSelected(current => {
+            const next = new Set(Array.from(current).filter(key => existing.has(key)));
+            return next.size === current.size ? current : next;
+        });
+        setEditing(current => (current && !current.isNew && !existing.has(current.key) ? null : current));
+    }, [keyedEntries]);
 
-    const handleEditToggle = () => {
-        if (isEditing) {
-            setEditedEntries(JSON.parse(JSON.stringify(entries))); 
-        }
-        setIsEditing(!isEditing);
+    // Um filtro novo volta a lista para o topo
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollTop = 0;
+        setScrollTop(0);
+    }, [filter, sort]);
+
+    const virtualize = visibleRows.length > VIRTUALIZATION_THRESHOLD;
+    const firstIndex = virtualize ? Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN) : 0;
+    const lastIndex = virtualize ? Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN) : visibleRows.length;
+    const renderedRows = visibleRows.slice(firstIndex, lastIndex);
+
+    const selectedEntries = keyedEntries.filter(({ key }) => selected.has(key)).map(({ entry }) => entry);
+    const selectedTotal = selectedEntries.reduce((sum, entry) => sum + entry.amount, 0);
+    const visibleTotal = visibleRows.reduce((sum, { entry }) => sum + entry.amount, 0);
+    const allVisibleSelected = visibleRows.length > 0 && visibleRows.every(({ key }) => selected.has(key));
+
+    const updateFilter = (changes: Partial<EntryFilter>) => onFilterChange({ ...filter, ...changes });
+
+    const handleSort = (key: EntrySortKey) => {
+        setSort(current => (current.key === key ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' } : { key, direction: key === 'amount' ? 'desc' : 'asc' }));
+    };
+
+    const toggleSelected = (key: string) => {
+        const next = new Set(selected);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        setSelected(next);
     };
 
-    const handleSave = () => {
-        setEntries(editedEntries);
-        setIsEditing(false);
+    const toggleAllVisible = () => {
+        const next = new Set(selected);
+        visibleRows.forEach(({ key }) => (allVisibleSelected ? next.delete(key) : next.add(key)));
+        setSelected(next);
     };
-    
-    const handleEntryChange = (index: number, field: keyof PositiveEntry, value: string | number) => {
-        const newEntries = [...editedEntries];
+
+    const startEditing = (entry: PositiveEntry, key: string) => {
+        setEditing({ key, draft: { ...entry }, isNew: false });
+        setEditError(null);
+    };
+
+    const handleAddRow = () => {
+        // Com o filtro de mês ativo, a nova linha nasce no mês filtrado
+        const date = filter.month ? `${filter.month}-01` : new Date().toISOString().split('T')[0];
+        const draft: PositiveEntry = { id: createId('entry'), description: '', amount: 0, date };
+        setEditing({ key: draft.id!, draft, isNew: true });
+        setEditError(null);
+    };
+
+    const handleDraftChange = (field: 'description' | 'date' | 'amount' | 'category', value: string) => {
+        if (!editing) return;
+        const draft = { ...editing.draft };
         if (field === 'amount') {
-            const numValue = Number(value);
-            newEntries[index] = { ...newEntries[index], [field]: isNaN(numValue) ? 0 : numValue };
+            draft.amount = Number(value);
+        } else if (field === 'description') {
+            // A contraparte sai da descrição; ao corrigir o texto, ela é identificada de novo
+            draft.description = value;
+            draft.counterparty = extractCounterparty(value);
+        } else if (field === 'category') {
+            draft.category = value;
+            draft.categorySource = 'manual';
         } else {
-             newEntries[index] = { ...newEntries[index], [field]: value as string };
+            draft.date = value;
         }
-        setEditedEntries(newEntries);
+        setEditing({ ...editing, draft });
     };
 
-    const handleAddRow = () => {
-        const newEntry: PositiveEntry = { description: '', amount: 0, date: new Date().toISOString().split('T')[0] };
-        setEditedEntries([...editedEntries, newEntry]);
+    const handleSaveRow = () => {
+        if (!editing) return;
+        const { draft, key, isNew } = editing;
+        if (!draft.description.trim()) return setEditError("Informe a descrição.");
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date || '')) return setEditError("Informe uma data válida.");
+        if (!Number.isFinite(draft.amount) || draft.amount <= 0) return setEditError("Informe um valor maior que zero.");
+        const saved = { ...draft, description: draft.description.trim() };
+        setEntries(isNew ? [...entries, saved] : keyedEntries.map(item => (item.key === key ? saved : item.entry)));
+        setEditing(null);
+        setEditError(null);
+    };
+
+    const handleCancelEdit = () => {
+        setEditing(null);
+        setEditError(null);
     };
 
-    const handleDeleteRow = (index: number) => {
-        const newEntries = editedEntries.filter((_, i) => i !== index);
-        setEditedEntries(newEntries);
+    const handleDeleteRow = (key: string) => {
+        setEntries(keyedEntries.filter(item => item.key !== key).map(item => item.entry));
     };
 
-    const formatCurrency = (value: number) => {
-        return new Intl.NumberFormat('pt-BR', {
-            style: 'currency',
-            currency: 'BRL',
-        }).format(value);
+    const handleBulkDelete = () => {
+        setEntries(keyedEntries.filter(({ key }) => !selected.has(key)).map(({ entry }) => entry));
+        setSelected(new Set());
     };
 
-    const formatDate = (dateString: string) => {
-        if (!dateString || !dateString.includes('-')) return 'N/A';
-        const parts = dateString.split('-');
-        if (parts.length !== 3) return dateString;
-        const [year, month, day] = parts;
-        return `${day}/${month}/${year}`;
+    const handleBulkExclude = () => {
+        onExclude?.(selectedEntries);
+        setSelected(new Set());
+    };
+
+    const handleBulkCategory = () => {
+        onBulkCategoryChange?.(selectedEntries, bulkCategory);
+        setSelected(new Set());
+    };
+
+    const handleResolveDuplicate = (cluster: DuplicateCluster, resolution: DuplicateResolution) => {
+        setEntries(resolveDuplicateCluster(entries, cluster, resolution));
+    };
+
+    const handleResolveAllDuplicates = (resolution: DuplicateResolution) => {
+        setEntries(duplicateClusters.reduce((current, cluster) => resolveDuplicateCluster(current, cluster, resolution), entries));
+    };
+
+    const uncategorizedCount = entries.filter(entry => (entry.category || DEFAULT_CATEGORY) === DEFAULT_CATEGORY && (!entry.categorySource || entry.categorySource === 'keyword')).length;
+
+    // Só exibe a coluna de origem quando a análise juntou mais de um arquivo
+    const showSource = new Set(entries.map(entry => entry.sourceFile).filter(Boolean)).size > 1;
+    const columnCount = showSource ? 7 : 6;
+
+    const renderSortHeader = (sortKey: EntrySortKey, label: string, align: 'left' | 'right' = 'left') => (
+        <th scope="col" className={`px-4 py-3 text-xs font-medium uppercase tracking-wider text-slate-500 ${align === 'right' ? 'text-right' : 'text-left'}`} aria-sort={sort.key === sortKey ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}>
+            <button onClick={() => handleSort(sortKey)} className="inline-flex items-center gap-1 uppercase hover:text-slate-800">
+                {label}
+                <span className="w-3 text-slate-400">{sort.key === sortKey ? (sort.direction === 'asc' ? '▲' : '▼') : ''}</span>
+            </button>
+        </th>
+    );
+
+    const renderEditRow = (key: string) => {
+        const draft = editing!.draft;
+        return (
+            <tr key={key} className="bg-emerald-50/60">
+                <td className="px-4 py-3" />
+                <td className="px-4 py-3">
+                    <input type="text" value={draft.description} onChange={(e) => handleDraftChange('description', e.target.value)} placeholder="Descrição" className={inputClass} autoFocus />
+                    {editError && <p className="mt-1 text-xs text-red-700">{editError}</p>}
+                </td>
+                <td className="px-4 py-3">
+                    <input type="date" value={draft.date || ''} onChange={(e) => handleDraftChange('date', e.target.value)} className={inputClass} />
+                </td>
+                <td className="px-4 py-3">
+                    <input type="number" value={draft.amount || ''} onChange={(e) => handleDraftChange('amount', e.target.value)} className={`${inputClass} text-right`} step="0.01" />
+                </td>
+                <td className="px-4 py-3">
+                    <CategorySelect value={draft.category} onChange={(category) => handleDraftChange('category', category)} />
+                </td>
+                {showSource && <td className="px-4 py-3 text-xs text-slate-500">{draft.sourceFile || '-'}</td>}
+                <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                    <button onClick={handleSaveRow} className="font-semibold text-emerald-700 hover:text-emerald-900">Salvar</button>
+                    <button onClick={handleCancelEdit} className="ml-3 text-slate-500 hover:text-slate-800">Cancelar</button>
+                </td>
+            </tr>
+        );
+    };
+
+    const renderRow = (entry: PositiveEntry, key: string) => {
+        if (editing?.key === key && !editing.isNew) return renderEditRow(key);
+        const isLowConfidence = entry.confidence !== undefined && entry.confidence < LOW_CONFIDENCE_THRESHOLD;
+        const canSelect = !!onEntrySelect && !!entry.sourceFileId;
+        const isSelected = selected.has(key);
+        return (
+            <tr
+                key={key}
+                style={{ height: ROW_HEIGHT }}
+                onClick={canSelect ? () => onEntrySelect!(entry) : undefined}
+                className={`${isSelected ? 'bg-emerald-50' : isLowConfidence ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-slate-50'} ${canSelect ? 'cursor-pointer' : ''}`}
+                title={isLowConfidence ? `Confiança da extração: ${Math.round(entry.confidence! * 100)}% — confira no documento` : canSelect ? 'Clique para ver a linha no documento' : undefined}
+            >
+                <td className="px-4 py-2" onClick={(e) => e.stopPropagation()}>
+                    <input type="checkbox" checked={isSelected} onChange={() => toggleSelected(key)} className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500" aria-label={`Selecionar "${entry.description}"`} />
+                </td>
+                <td className="max-w-xs px-4 py-2 text-sm font-medium text-slate-900">
+                    <div className="flex items-center gap-2">
+                        <span className="truncate" title={entry.description}>{entry.description}</span>
+                        {entry.manuallyEdited && (
+                            <span className="inline-flex flex-shrink-0 items-center rounded-full bg-violet-100 px-2 py-0.5 text-xs font-medium text-violet-800" title="Alterado manualmente — veja a trilha de auditoria">
+                                Editado
+                            </span>
+                        )}
+                        {isLowConfidence && (
+                            <span className="inline-flex flex-shrink-0 items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                                {Math.round(entry.confidence! * 100)}% confiança
+                            </span>
+                        )}
+                        {entry.tags?.map(tag => (
+                            <span key={tag} className="inline-flex flex-shrink-0 items-center rounded-full bg-sky-100 px-2 py-0.5 text-xs font-medium text-sky-800">{tag}</span>
+                        ))}
+                    </div>
+                    {entry.counterparty?.name && (
+                        <span className="block truncate text-xs font-normal text-slate-500">
+                            Pagador: {[entry.counterparty.name, entry.counterparty.document, entry.counterparty.bank].filter(Boolean).join(' · ')}
+                        </span>
+                    )}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-slate-600">{formatDate(entry.date)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-sm font-semibold text-emerald-600">{formatCurrency(entry.amount)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm" onClick={(e) => e.stopPropagation()}>
+                    <CategorySelect
+                        value={entry.category}
+                        onChange={(category) => onCategoryChange?.(entry, category)}
+                        disabled={!onCategoryChange}
+                        className={entry.categorySource === 'manual' || entry.categorySource === 'override' ? 'font-semibold text-slate-800' : 'text-slate-600'}
+                        title={entry.categorySource === 'ai' ? 'Categoria sugerida pela IA' : entry.categorySource === 'rule' ? 'Categoria definida por regra de receita' : undefined}
+                    />
+                </td>
+                {showSource && (
+                    <td className="max-w-[12rem] truncate px-4 py-2 text-xs text-slate-500" title={entry.sourceFile}>
+                        {entry.sourceFile || '-'}
+                    </td>
+                )}
+                <td className="px-4 py-2 whitespace-nowrap text-right text-sm" onClick={(e) => e.stopPropagation()}>
+                    <button onClick={() => startEditing(entry, key)} disabled={!!editing} className="p-1 text-slate-400 hover:text-slate-800 disabled:opacity-40" aria-label="Editar lançamento">
+                        <EditIcon className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => handleDeleteRow(key)} disabled={!!editing} className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-40" aria-label="Apagar lançamento">
+                        <TrashIcon className="h-4 w-4" />
+                    </button>
+                </td>
+            </tr>
+        );
     };
 
     return (
         <div>
             <div className="flex items-center justify-between mb-4">
                 <h2 className="text-2xl font-semibold text-slate-800">Extrato Detalhado de Créditos</h2>
-                {!isEditing ? (
-                    <button
-                        onClick={handleEditToggle}
-                        className="inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2"
-                    >
-                        <EditIcon className="h-4 w-4" />
-                        <span>Editar Transações</span>
-                    </button>
-                ) : (
-                    <div className="flex items-center gap-2">
-                         <button
-                            onClick={handleSave}
-                            className="inline-flex items-center gap-2 rounded-md border border-transparent bg-emerald-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2"
-                        >
-                            Salvar Alterações
-                        </button>
+                <div className="flex items-center gap-2">
+                    {onAiCategorize && uncategorizedCount > 0 && (
                         <button
-                            onClick={handleEditToggle}
-                            className="inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2"
+                            onClick={onAiCategorize}
+                            disabled={isCategorizing}
+                            className={buttonClass}
+                            title="Pede à IA a categoria dos lançamentos que ficaram em Outros"
                         >
-                            Cancelar
+                            {isCategorizing ? 'Classificando...' : `Classificar ${uncategorizedCount} em "Outros" com IA`}
                         </button>
-                    </div>
-                )}
+                    )}
+                    <button onClick={handleAddRow} disabled={!!editing} className={buttonClass}>
+                        <EditIcon className="h-4 w-4" />
+                        <span>Adicionar Lançamento</span>
+                    </button>
+                </div>
             </div>
-            <div className="overflow-x-auto overflow-hidden rounded-lg border border-slate-200 bg-white shadow-md">
+            {duplicateClusters.length > 0 && (
+                <DuplicateReview
+                    clusters={duplicateClusters}
+                    entries={entries}
+                    onResolve={handleResolveDuplicate}
+                    onResolveAll={handleResolveAllDuplicates}
+                />
+            )}
+            <div className="mb-3 rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-6">
+                    <input
+                        type="search"
+                        value={filter.query}
+                        onChange={(e) => updateFilter({ query: e.target.value })}
+                        placeholder="Buscar descrição, pagador, categoria, etiqueta…"
+                        className={`${inputClass} col-span-2`}
+                        aria-label="Buscar lançamentos"
+                    />
+                    <input type="date" value={filter.dateFrom} onChange={(e) => updateFilter({ dateFrom: e.target.value })} className={inputClass} aria-label="Data inicial" title="Data inicial" />
+                    <input type="date" value={filter.dateTo} onChange={(e) => updateFilter({ dateTo: e.target.value })} className={inputClass} aria-label="Data final" title="Data final" />
+                    <input type="number" value={filter.minAmount} onChange={(e) => updateFilter({ minAmount: e.target.value })} placeholder="Valor mín." step="0.01" className={inputClass} aria-label="Valor mínimo" />
+                    <input type="number" value={filter.maxAmount} onChange={(e) => updateFilter({ maxAmount: e.target.value })} placeholder="Valor máx." step="0.01" className={inputClass} aria-label="Valor máximo" />
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-600">
+                    <span>
+                        {isEntryFilterActive(filter) ? `${visibleRows.length} de ${entries.length} lançamento(s)` : `${entries.length} lançamento(s)`} · {formatCurrency(visibleTotal)}
+                    </span>
+                    {filter.month && (
+                        <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-800">Mês: {filter.month.split('-').reverse().join('/')}</span>
+                    )}
+                    {isEntryFilterActive(filter) && (
+                        <button onClick={() => onFilterChange(EMPTY_ENTRY_FILTER)} className="font-semibold text-emerald-700 hover:text-emerald-900">Limpar filtros</button>
+                    )}
+                    {onFilterDrivesReportsChange && (
+                        <label className="ml-auto inline-flex items-center gap-2">
+                            <input type="checkbox" checked={!!filterDrivesReports} onChange={(e) => onFilterDrivesReportsChange(e.target.checked)} className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500" />
+                            Aplicar o filtro à análise mensal e às exportações
+                        </label>
+                    )}
+                </div>
+            </div>
+            {selected.size > 0 && (
+                <div className="mb-3 flex flex-wrap items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-2 text-sm text-emerald-900">
+                    <span className="font-semibold">{selected.size} selecionado(s) · {formatCurrency(selectedTotal)}</span>
+                    {onBulkCategoryChange && (
+                        <span className="inline-flex items-center gap-1">
+                            <CategorySelect value={bulkCategory} onChange={setBulkCategory} />
+                            <button onClick={handleBulkCategory} className="rounded-md bg-white px-2 py-1 font-medium text-slate-700 ring-1 ring-inset ring-slate-300 hover:bg-slate-50">Reclassificar</button>
+                        </span>
+                    )}
+                    {onExclude && (
+                        <button onClick={handleBulkExclude} className="rounded-md bg-white px-2 py-1 font-medium text-slate-700 ring-1 ring-inset ring-slate-300 hover:bg-slate-50" title="Move para os créditos excluídos da receita, de onde podem ser restaurados">
+                            Excluir da receita
+                        </button>
+                    )}
+                    <button onClick={handleBulkDelete} className="rounded-md bg-white px-2 py-1 font-medium text-red-700 ring-1 ring-inset ring-red-200 hover:bg-red-50">Apagar</button>
+                    <button onClick={() => setSelected(new Set())} className="ml-auto font-semibold text-emerald-700 hover:text-emerald-900">Limpar seleção</button>
+                </div>
+            )}
+            <div
+                ref={scrollRef}
+                onScroll={virtualize ? (e) => setScrollTop(e.currentTarget.scrollTop) : undefined}
+                style={virtualize ? { maxHeight: VIEWPORT_HEIGHT } : undefined}
+                className="overflow-auto rounded-lg border border-slate-200 bg-white shadow-md"
+            >
                 <table className="min-w-full divide-y divide-slate-200">
-                    <thead className="bg-slate-50">
+                    <thead className="sticky top-0 z-10 bg-slate-50">
                         <tr>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Descrição</th>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-slate-500">Data</th>
-                            <th scope="col" className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-slate-500">Valor (R$)</th>
-                            {isEditing && <th scope="col" className="relative px-6 py-3"><span className="sr-only">Ações</span></th>}
+                            <th scope="col" className="w-10 px-4 py-3">
+                                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500" aria-label="Selecionar todos os lançamentos exibidos" />
+                            </th>
+                            {renderSortHeader('description', 'Descrição')}
+                            {renderSortHeader('date', 'Data')}
+                            {renderSortHeader('amount', 'Valor (R$)', 'right')}
+                            {renderSortHeader('category', 'Categoria')}
+                            {showSource && renderSortHeader('sourceFile', 'Arquivo')}
+                            <th scope="col" className="relative px-4 py-3"><span className="sr-only">Ações</span></th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-200 bg-white">
-                        {(isEditing ? editedEntries : entries).map((entry, index) => (
-                            <tr key={index} className="hover:bg-slate-50">
-                                <td className="px-6 py-4 text-sm font-medium text-slate-900">
-                                    {isEditing ? (
-                                        <input 
-                                            type="text"
-                                            value={entry.description}
-                                            onChange={(e) => handleEntryChange(index, 'description', e.target.value)}
-                                            className="w-full rounded-md border-slate-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm"
-                                        />
-                                    ) : (
-                                        entry.description
-                                    )}
-                                </td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
-                                    {isEditing ? (
-                                        <input 
-                                            type="date"
-                                            value={entry.date || ''}
-                                            onChange={(e) => handleEntryChange(index, 'date', e.target.value)}
-                                            className="w-full rounded-md border-slate-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm"
-                                        />
-                                    ) : (
-                                        formatDate(entry.date)
-                                    )}
-                                </td>
-                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-emerald-600 font-semibold">
-                                    {isEditing ? (
-                                        <input 
-                                            type="number"
-                                            value={entry.amount}
-                                            onChange={(e) => handleEntryChange(index, 'amount', e.target.value)}
-                                            className="w-full rounded-md border-slate-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm text-right"
-                                            step="0.01"
-                                        />
-                                    ) : (
-                                        formatCurrency(entry.amount)
-                                    )}
-                                </td>
-                                {isEditing && (
-                                    <td className="px-6 py-4 whitespace-nowrap text-center text-sm font-medium">
-                                        <button
-                                            onClick={() => handleDeleteRow(index)}
-                                            className="text-red-600 hover:text-red-900"
-                                            aria-label="Deletar transação"
-                                        >
-                                            <TrashIcon className="h-5 w-5" />
-                                        </button>
-                                    </td>
-                                )}
+                        {editing?.isNew && renderEditRow(editing.key)}
+                        {firstIndex > 0 && <tr aria-hidden="true" style={{ height: firstIndex * ROW_HEIGHT }} />}
+                        {renderedRows.map(({ entry, key }) => renderRow(entry, key))}
+                        {lastIndex < visibleRows.length && <tr aria-hidden="true" style={{ height: (visibleRows.length - lastIndex) * ROW_HEIGHT }} />}
+                        {visibleRows.length === 0 && !editing?.isNew && (
+                            <tr>
+                                <td colSpan={columnCount} className="px-4 py-8 text-center text-sm text-slate-500">Nenhum lançamento atende aos filtros.</td>
                             </tr>
-                        ))}
+                        )}
                     </tbody>
                 </table>
             </div>
-            {isEditing && (
-                <div className="mt-4">
-                    <button
-                        onClick={handleAddRow}
-                        className="inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2"
-                    >
-                        Adicionar Transação
-                    </button>
-                </div>
-            )}
         </div>
     );
 };
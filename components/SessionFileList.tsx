@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { AnalysisStage, FileProgress, SessionFile, SessionFileStatus } from '../types';
+import { loadPdf, renderPdfPage } from '../services/pdfDocument';
+import { isLocalStatementFile } from '../services/statementParser';
+import { MAX_ATTEMPTS } from '../services/retryPolicy';
+import { findEmptyPages } from '../services/pdfChunking';
+import { canPreprocessImages, isPreprocessableImage } from '../services/imagePreprocessing';
+import { FileTextIcon, CheckCircleIcon, AlertTriangleIcon, XIcon } from './icons';
+
+interface SessionFileListProps {
+  files: SessionFile[];
+  onRemove: (id: string) => void;
+  onPreview: (file: SessionFile) => void;
+  // Analisa o arquivo de novo sem usar a resposta em cache
+  onReanalyze: (id: string) => void;
+  // Reanalisa sozinha uma página do lote em que nada foi encontrado
+  onRetryPage: (id: string, page: number) => void;
+  // Abre o ajuste de giro e recorte de uma foto
+  onAdjustImage: (file: SessionFile) => void;
+  disabled?: boolean;
+}
+
+const statusLabels: { [key in SessionFileStatus]: string } = {
+  pending: 'Aguardando',
+  processing: 'Analisando...',
+  done: 'Concluído',
+  error: 'Erro',
+};
+
+const statusStyles: { [key in SessionFileStatus]: string } = {
+  pending: 'bg-slate-100 text-slate-600',
+  processing: 'bg-amber-100 text-amber-700',
+  done: 'bg-emerald-100 text-emerald-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+const stageLabels: { [key in AnalysisStage]: string } = {
+  reading: 'Lendo arquivo',
+  uploading: 'Enviando',
+  waiting: 'Aguardando a IA',
+  retrying: 'Servidor ocupado',
+  validating: 'Validando resposta',
+};
+
+// Etapa do arquivo em análise; na espera entre tentativas, conta os segundos até a próxima
+const StageLabel: React.FC<{ progress: FileProgress; retries?: number }> = ({ progress, retries = 0 }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (progress.stage !== 'retrying' || !progress.retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [progress.stage, progress.retryAt]);
+
+  if (progress.stage === 'retrying' && progress.retryAt) {
+    const seconds = Math.max(0, Math.ceil((progress.retryAt - now) / 1000));
+    return <>Nova tentativa {retries + 1} de {MAX_ATTEMPTS} em {seconds}s</>;
+  }
+  if (progress.stage === 'uploading' && progress.uploadPercent !== undefined) {
+    return <>{stageLabels.uploading} ({progress.uploadPercent}%)</>;
+  }
+  return <>{stageLabels[progress.stage]}</>;
+};
+
+// Miniatura da primeira página do PDF
+const PdfThumbnail: React.FC<{ file: File }> = ({ file }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    file.arrayBuffer()
+      .then(buffer => loadPdf(buffer))
+      .then(async pdf => {
+        if (!cancelled && canvasRef.current) await renderPdfPage(pdf, 1, canvasRef.current, 0.25);
+        await pdf.destroy();
+      })
+      .catch(() => !cancelled && setFailed(true));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  if (failed) {
+    return (
+      <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded border border-slate-200 bg-slate-100 text-slate-500">
+        <FileTextIcon className="h-6 w-6" />
+      </div>
+    );
+  }
+  return <canvas ref={canvasRef} className="h-12 w-12 flex-shrink-0 rounded border border-slate-200 bg-white object-cover object-top" />;
+};
+
+const FileThumbnail: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  if (url) {
+    return <img src={url} alt="" className="h-12 w-12 flex-shrink-0 rounded border border-slate-200 object-cover" />;
+  }
+  if (file.type === 'application/pdf') {
+    return <PdfThumbnail file={file} />;
+  }
+  return (
+    <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded border border-slate-200 bg-slate-100 text-slate-500">
+      <FileTextIcon className="h-6 w-6" />
+    </div>
+  );
+};
+
+export const SessionFileList: React.FC<SessionFileListProps> = ({ files, onRemove, onPreview, onReanalyze, onRetryPage, onAdjustImage, disabled }) => {
+  const doneCount = files.filter(file => file.status === 'done').length;
+
+  // Cada página vazia aparece uma vez, no primeiro arquivo concluído que a contém
+  const emptyPagesByFile = useMemo(() => {
+    const byFile = new Map<string, number[]>();
+    findEmptyPages(files).forEach(({ documentId, pages }) => pages.forEach(page => {
+      const owner = files.find(file =>
+        file.status === 'done' && file.chunk?.documentId === documentId && file.chunk.pageStart <= page && page <= file.chunk.pageEnd);
+      if (owner) byFile.set(owner.id, [...(byFile.get(owner.id) || []), page]);
+    }));
+    return byFile;
+  }, [files]);
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="font-semibold text-slate-800">Arquivos da Análise</h3>
+        <span className="text-sm text-slate-500">{doneCount} de {files.length} concluído(s)</span>
+      </div>
+      <ul className="max-h-80 divide-y divide-slate-200 overflow-y-auto rounded-lg border border-slate-200">
+        {files.map(sessionFile => (
+          <li key={sessionFile.id} className="flex items-center gap-3 p-3">
+            {sessionFile.file.type.startsWith('image/') || sessionFile.file.type === 'application/pdf' ? (
+              <button onClick={() => onPreview(sessionFile)} className="flex-shrink-0 rounded hover:ring-2 hover:ring-emerald-500" aria-label={`Visualizar ${sessionFile.name}`}>
+                <FileThumbnail file={sessionFile.file} />
+              </button>
+            ) : (
+              <FileThumbnail file={sessionFile.file} />
+            )}
+            <div className="min-w-0 flex-grow">
+              <p className="truncate text-sm font-medium text-slate-800" title={sessionFile.name}>{sessionFile.name}</p>
+              <p className="text-xs text-slate-500">
+                {Math.round(sessionFile.file.size / 1024)} KB
+                {sessionFile.preprocessing && ` · foto tratada${sessionFile.preprocessing.manual ? ' (ajustada)' : ''}`}
+                {sessionFile.status === 'done' && sessionFile.result && ` · ${sessionFile.result.positiveEntries.length} crédito(s)`}
+                {sessionFile.status === 'processing' && sessionFile.progress && (
+                  <> · <span className="text-amber-700"><StageLabel progress={sessionFile.progress} retries={sessionFile.retries} /></span></>
+                )}
+              </p>
+              {sessionFile.status === 'processing' && sessionFile.progress?.stage === 'uploading' && sessionFile.progress.uploadPercent !== undefined && (
+                <div className="mt-1 h-1 w-full overflow-hidden rounded bg-slate-200">
+                  <div className="h-1 bg-amber-500 transition-all" style={{ width: `${sessionFile.progress.uploadPercent}%` }} />
+                </div>
+              )}
+              {emptyPagesByFile.has(sessionFile.id) && (
+                <p className="mt-1 text-xs text-amber-700">
+                  Nada encontrado {emptyPagesByFile.get(sessionFile.id)!.length === 1 ? 'na pág.' : 'nas págs.'}{' '}
+                  {emptyPagesByFile.get(sessionFile.id)!.map((page, index) => (
+                    <React.Fragment key={page}>
+                      {index > 0 && ', '}
+                      <button
+                        onClick={() => onRetryPage(sessionFile.id, page)}
+                        disabled={disabled}
+                        className="font-medium underline hover:text-amber-900 disabled:opacity-50"
+                        title={`Separa a página ${page} e a analisa sozinha na próxima análise. Páginas só com débitos também aparecem aqui.`}
+                      >
+                        {page}
+                      </button>
+                    </React.Fragment>
+                  ))}
+                  {' '}· clique para reanalisar a página
+                </p>
+              )}
+              {sessionFile.status === 'error' && sessionFile.error && (
+                <p className="mt-1 whitespace-pre-wrap text-xs text-red-700">{sessionFile.error}</p>
+              )}
+            </div>
+            <span className={`inline-flex flex-shrink-0 items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${statusStyles[sessionFile.status]}`}>
+              {sessionFile.status === 'done' && <CheckCircleIcon className="h-3 w-3" />}
+              {sessionFile.status === 'error' && <AlertTriangleIcon className="h-3 w-3" />}
+              {statusLabels[sessionFile.status]}
+            </span>
+            {sessionFile.cached && (
+              <span
+                className="inline-flex flex-shrink-0 items-center rounded-full bg-sky-100 px-2 py-0.5 text-xs font-medium text-sky-700"
+                title="Resposta reaproveitada de uma análise anterior deste mesmo arquivo, sem nova chamada à IA."
+              >
+                Em cache
+              </span>
+            )}
+            {canPreprocessImages() && isPreprocessableImage(sessionFile.preprocessing?.originalFile || sessionFile.file) && (
+              <button
+                onClick={() => onAdjustImage(sessionFile)}
+                disabled={disabled}
+                className="flex-shrink-0 text-xs font-medium text-slate-500 hover:text-emerald-700 disabled:opacity-50"
+                title="Mostra a foto antes e depois do tratamento e permite girar e ajustar o recorte."
+              >
+                Ajustar imagem
+              </button>
+            )}
+            {sessionFile.status === 'done' && !isLocalStatementFile(sessionFile.file) && (
+              <button
+                onClick={() => onReanalyze(sessionFile.id)}
+                disabled={disabled}
+                className="flex-shrink-0 text-xs font-medium text-slate-500 hover:text-emerald-700 disabled:opacity-50"
+                title="Marca o arquivo para ser analisado de novo pela IA, ignorando o cache."
+              >
+                Reanalisar
+              </button>
+            )}
+            <button
+              onClick={() => onRemove(sessionFile.id)}
+              disabled={disabled}
+              className="flex-shrink-0 text-slate-400 hover:text-red-600 disabled:opacity-50"
+              aria-label={`Remover ${sessionFile.name}`}
+            >
+              <XIcon className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { BoundingBox } from '../types';
+import { loadPdf, renderPdfPage, type PdfDocument } from '../services/pdfDocument';
+import { XIcon } from './icons';
+
+interface StatementPreviewProps {
+  file: File;
+  // Página (1-based) e região a destacar, quando a prévia é aberta a partir de um lançamento
+  page?: number;
+  boundingBox?: BoundingBox;
+  title?: string;
+  onClose: () => void;
+}
+
+// Resolução de renderização das páginas do PDF; o zoom apenas escala a imagem já desenhada
+const PDF_RENDER_SCALE = 2;
+
+const Highlight = React.forwardRef<HTMLDivElement, { box: BoundingBox }>(({ box }, ref) => (
+  <div
+    ref={ref}
+    className="pointer-events-none absolute rounded-sm border-2 border-amber-500 bg-amber-300/30 ring-4 ring-amber-300/40"
+    style={{
+      left: `${box.x * 100}%`,
+      top: `${box.y * 100}%`,
+      width: `${box.width * 100}%`,
+      height: `${box.height * 100}%`,
+    }}
+  />
+));
+
+const PdfPage: React.FC<{ pdf: PdfDocument; pageNumber: number; children?: React.ReactNode }> = ({ pdf, pageNumber, children }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      renderPdfPage(pdf, pageNumber, canvasRef.current, PDF_RENDER_SCALE).catch(error => {
+        console.warn(`Não foi possível renderizar a página ${pageNumber}.`, error);
+      });
+    }
+  }, [pdf, pageNumber]);
+
+  return (
+    <div className="relative w-full shadow-md">
+      <canvas ref={canvasRef} className="block h-auto w-full bg-white" />
+      <span className="absolute left-2 top-2 rounded bg-slate-900/60 px-2 py-0.5 text-xs text-white">Página {pageNumber}</span>
+      {children}
+    </div>
+  );
+};
+
+export const StatementPreview: React.FC<StatementPreviewProps> = ({ file, page, boundingBox, title, onClose }) => {
+  const [zoom, setZoom] = useState(boundingBox ? 1.75 : 1);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<PdfDocument | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const isPdf = file.type === 'application/pdf';
+
+  useEffect(() => {
+    if (!isPdf) {
+      const url = URL.createObjectURL(file);
+      setImageUrl(url);
+      return () => URL.revokeObjectURL(url);
+    }
+    let loaded: PdfDocument | null = null;
+    let cancelled = false;
+    file.arrayBuffer()
+      .then(buffer => loadPdf(buffer))
+      .then(document => {
+        loaded = document;
+        if (!cancelled) setPdf(document);
+      })
+      .catch(() => !cancelled && setLoadError("Não foi possível abrir o PDF para visualização."));
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file, isPdf]);
+
+  // Leva a linha destacada para o centro da área visível assim que a página aparece
+  useEffect(() => {
+    const timer = setTimeout(() => highlightRef.current?.scrollIntoView({ block: 'center', inline: 'center' }), 300);
+    return () => clearTimeout(timer);
+  }, [pdf, imageUrl, zoom]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const targetPage = page || 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/70 p-4" onClick={onClose}>
+      <div className="flex h-full max-h-[90vh] w-full max-w-5xl flex-col overflow-hidden rounded-xl bg-white shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 border-b border-slate-200 p-3">
+          <div className="min-w-0 flex-grow">
+            <h3 className="truncate font-semibold text-slate-800">{title || file.name}</h3>
+            {title && <p className="truncate text-xs text-slate-500">{file.name}{page ? ` · página ${page}` : ''}</p>}
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={() => setZoom(Math.max(0.5, zoom - 0.25))} className="rounded-md px-2 py-1 text-sm font-semibold text-slate-700 ring-1 ring-inset ring-slate-300 hover:bg-slate-50" aria-label="Diminuir zoom">−</button>
+            <span className="w-12 text-center text-sm text-slate-600">{Math.round(zoom * 100)}%</span>
+            <button onClick={() => setZoom(Math.min(4, zoom + 0.25))} className="rounded-md px-2 py-1 text-sm font-semibold text-slate-700 ring-1 ring-inset ring-slate-300 hover:bg-slate-50" aria-label="Aumentar zoom">+</button>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800" aria-label="Fechar prévia">
+            <XIcon className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="flex-grow overflow-auto bg-slate-100 p-4">
+          {loadError && <p className="text-sm text-red-700">{loadError}</p>}
+          <div className="mx-auto flex flex-col gap-4" style={{ width: `${zoom * 100}%` }}>
+            {imageUrl && (
+              <div className="relative w-full shadow-md">
+                <img src={imageUrl} alt="Prévia do extrato" className="block h-auto w-full" />
+                {boundingBox && <Highlight ref={highlightRef} box={boundingBox} />}
+              </div>
+            )}
+            {pdf && Array.from({ length: pdf.numPages }, (_, index) => index + 1).map(pageNumber => (
+              <PdfPage key={pageNumber} pdf={pdf} pageNumber={pageNumber}>
+                {pageNumber === targetPage && (boundingBox
+                  ? <Highlight ref={highlightRef} box={boundingBox} />
+                  : <div ref={highlightRef} className="absolute left-0 top-0" />)}
+              </PdfPage>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { createProxyHandler, DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTL_MS, DEFAULT_MAX_DOCUMENT_BYTES, DEFAULT_RATE_LIMIT } from './proxyHandler';
+
+// Servidor HTTP do proxy da IA. A chave vem de GEMINI_API_KEY; com --mock, responde com dados fixos.
+// Configuração: PORT (padrão 8787), ANALISADOR_RATE_LIMIT (análises por minuto por IP),
+// ANALISADOR_MAX_DOCUMENT_MB, ANALISADOR_CACHE_TTL_HOURS, ANALISADOR_CACHE_MAX_ENTRIES e
+// ANALISADOR_TRUST_PROXY=1 atrás de um proxy reverso (usa X-Forwarded-For).
+
+const DEFAULT_PORT = 8787;
+
+const { values } = parseArgs({
+    options: {
+        port: { type: 'string' },
+        mock: { type: 'boolean' },
+    },
+});
+
+const numberFromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const port = Number(values.port) || numberFromEnv('PORT', DEFAULT_PORT);
+const mock = Boolean(values.mock) || process.env.ANALISADOR_MOCK === '1';
+const maxDocumentBytes = numberFromEnv('ANALISADOR_MAX_DOCUMENT_MB', DEFAULT_MAX_DOCUMENT_BYTES / (1024 * 1024)) * 1024 * 1024;
+const trustProxy = process.env.ANALISADOR_TRUST_PROXY === '1';
+
+const handle = createProxyHandler({
+    mock,
+    maxDocumentBytes,
+    rateLimit: numberFromEnv('ANALISADOR_RATE_LIMIT', DEFAULT_RATE_LIMIT),
+    cacheTtlMs: numberFromEnv('ANALISADOR_CACHE_TTL_HOURS', DEFAULT_CACHE_TTL_MS / (60 * 60 * 1000)) * 60 * 60 * 1000,
+    cacheMaxEntries: numberFromEnv('ANALISADOR_CACHE_MAX_ENTRIES', DEFAULT_CACHE_MAX_ENTRIES),
+});
+
+// O documento chega em base64 (4/3 do tamanho) dentro do JSON
+const maxBodyBytes = Math.ceil(maxDocumentBytes * 4 / 3) + 64 * 1024;
+
+const getClientId = (request: IncomingMessage): string => {
+    const forwarded = request.headers['x-forwarded-for'];
+    const forwardedIp = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    return (trustProxy && forwardedIp) || request.socket.remoteAddress || 'desconhecido';
+};
+
+/** Lê o corpo respeitando o limite; `null` quando passa dele (o restante é lido e descartado). */
+const readBody = (request: IncomingMessage): Promise<Buffer | null> =>
+    new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size <= maxBodyBytes) chunks.push(chunk);
+        });
+        request.on('end', () => resolve(size > maxBodyBytes ? null : Buffer.concat(chunks)));
+        request.on('error', reject);
+    });
+
+const sendResponse = async (response: Response, res: ServerResponse) => {
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+const server = createServer(async (req, res) => {
+    try {
+        const body = req.method === 'POST' ? await readBody(req) : undefined;
+        if (body === null) {
+            await sendResponse(Response.json({ error: `A requisição passa do limite de ${Math.round(maxDocumentBytes / (1024 * 1024))} MB.`, kind: 'unsupported' }, { status: 413 }), res);
+            return;
+        }
+        const request = new Request(new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`), {
+            method: req.method,
+            headers: { 'Content-Type': req.headers['content-type'] || 'application/json' },
+            body,
+        });
+        await sendResponse(await handle(request, getClientId(req)), res);
+    } catch (error) {
+        console.error("Erro ao atender a requisição.", error);
+        if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.end(JSON.stringify({ error: "Erro interno no servidor de análise." }));
+    }
+});
+
+server.listen(port, () => {
+    console.log(`Proxy da IA em http://localhost:${port}/api${mock ? ' (modo simulado, respostas fixas)' : ''}`);
+    if (!mock && !process.env.GEMINI_API_KEY && !process.env.API_KEY) {
+        console.warn("GEMINI_API_KEY não definida: as análises vão falhar até a chave ser configurada.");
+    }
+});
@@ -0,0 +1,43 @@
+import type { CategorizeRequest, ExtractionMode } from '../types';
+
+// Respostas fixas do modo simulado (--mock): o app inteiro funciona em desenvolvimento e em testes
+// sem chave da API nem chamadas ao Gemini. O formato é o mesmo que o modelo devolve.
+
+const MOCK_CLIENT_NAME = 'CLIENTE DE DEMONSTRAÇÃO';
+
+const MOCK_STATEMENT = {
+    statementPeriodStart: '2024-01-01',
+    statementPeriodEnd: '2024-03-31',
+    bankName: 'Banco Simulado',
+    agency: '0001',
+    accountNumber: '12345-6',
+};
+
+const MOCK_CREDITS = [
+    { date: '2024-01-05', description: 'SALARIO EMPRESA EXEMPLO LTDA', amount: 4200 },
+    { date: '2024-01-18', description: 'PIX RECEBIDO MARIA SOUZA', amount: 350 },
+    { date: '2024-02-05', description: 'SALARIO EMPRESA EXEMPLO LTDA', amount: 4200 },
+    { date: '2024-02-20', description: 'TED RECEBIDA ALUGUEL IMOVEL', amount: 1500 },
+    { date: '2024-03-05', description: 'SALARIO EMPRESA EXEMPLO LTDA', amount: 4200 },
+    { date: '2024-03-12', description: 'RESGATE CDB', amount: 2000 },
+];
+
+const MOCK_DEBITS = [
+    { date: '2024-01-10', description: 'PAGAMENTO BOLETO ENERGIA', amount: -230.5 },
+    { date: '2024-02-10', description: 'PAGAMENTO BOLETO ENERGIA', amount: -245.1 },
+    { date: '2024-03-10', description: 'COMPRA CARTAO MERCADO', amount: -612.4 },
+];
+
+export const mockExtraction = (mode: ExtractionMode): unknown => {
+    if (mode === 'full') {
+        const transactions = [...MOCK_CREDITS, ...MOCK_DEBITS].sort((a, b) => a.date.localeCompare(b.date));
+        const openingBalance = 1000;
+        const closingBalance = transactions.reduce((balance, transaction) => balance + transaction.amount, openingBalance);
+        return { clientName: MOCK_CLIENT_NAME, ...MOCK_STATEMENT, openingBalance, closingBalance: Math.round(closingBalance * 100) / 100, transactions };
+    }
+    return { clientName: MOCK_CLIENT_NAME, ...MOCK_STATEMENT, positiveEntries: MOCK_CREDITS };
+};
+
+// Sem modelo para decidir, toda descrição fica na última categoria (a de "não foi possível decidir")
+export const mockCategories = ({ descriptions, categories }: CategorizeRequest): string[] =>
+    descriptions.map(() => categories[categories.length - 1].id);
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createProxyHandler } from './proxyHandler';
+
+const post = (path: string, body: unknown) =>
+    new Request(`http://localhost${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+const extractBody = (overrides: Record<string, unknown> = {}) => ({ base64Data: btoa('%PDF-1.4 extrato'), mimeType: 'application/pdf', mode: 'credits', ...overrides });
+
+const categories = [
+    { id: 'salario', label: 'Salário e benefícios' },
+    { id: 'outros', label: 'Outros' },
+];
+
+describe('createProxyHandler', () => {
+    it('responde no modo simulado sem chamar a IA e guarda a resposta no cache', async () => {
+        const handle = createProxyHandler({ mock: true });
+        const first = await handle(post('/api/extract', extractBody()), 'cliente');
+        expect(first.status).toBe(200);
+        expect(first.headers.get('X-Analisador-Cache')).toBe('miss');
+        const response = await first.json();
+        expect(response.clientName).toBe('CLIENTE DE DEMONSTRAÇÃO');
+        expect(response.positiveEntries.length).toBeGreaterThan(0);
+
+        const second = await handle(post('/api/extract', extractBody()), 'cliente');
+        expect(second.headers.get('X-Analisador-Cache')).toBe('hit');
+        const bypassed = await handle(post('/api/extract', extractBody({ bypassCache: true })), 'cliente');
+        expect(bypassed.headers.get('X-Analisador-Cache')).toBe('miss');
+    });
+
+    it('categoriza no modo simulado com a última categoria', async () => {
+        const handle = createProxyHandler({ mock: true });
+        const response = await handle(post('/api/categorize', { descriptions: ['PIX A', 'PIX B'], categories }), 'cliente');
+        expect(await response.json()).toEqual({ categories: ['outros', 'outros'] });
+    });
+
+    it('recusa tipos de arquivo fora da lista e documentos grandes demais', async () => {
+        const handle = createProxyHandler({ mock: true, maxDocumentBytes: 10 });
+        const unsupported = await handle(post('/api/extract', extractBody({ mimeType: 'text/csv', base64Data: 'YQ==' })), 'cliente');
+        expect(unsupported.status).toBe(415);
+        expect(await unsupported.json()).toMatchObject({ kind: 'unsupported' });
+
+        const tooLarge = await handle(post('/api/extract', extractBody({ base64Data: btoa('x'.repeat(30)) })), 'cliente');
+        expect(tooLarge.status).toBe(413);
+        expect(await tooLarge.json()).toMatchObject({ kind: 'unsupported' });
+    });
+
+    it('recusa corpos inválidos e contexto de páginas incoerente', async () => {
+        const handle = createProxyHandler({ mock: true });
+        const invalidJson = await handle(new Request('http://localhost/api/extract', { method: 'POST', body: '{' }), 'cliente');
+        expect(invalidJson.status).toBe(400);
+        expect((await handle(post('/api/extract', null), 'cliente')).status).toBe(400);
+        expect((await handle(post('/api/extract', extractBody({ mode: 'tudo' })), 'cliente')).status).toBe(400);
+        const context = { pageStart: 3, pageEnd: 2, pageCount: 5 };
+        expect((await handle(post('/api/extract', extractBody({ context })), 'cliente')).status).toBe(400);
+    });
+
+    it('limita o número e o tamanho das categorias', async () => {
+        const handle = createProxyHandler({ mock: true });
+        const many = Array.from({ length: 31 }, (_, index) => ({ id: `c${index}`, label: `Categoria ${index}` }));
+        expect((await handle(post('/api/categorize', { descriptions: ['PIX'], categories: many }), 'cliente')).status).toBe(413);
+        const long = [{ id: 'longa', label: 'x'.repeat(101) }];
+        expect((await handle(post('/api/categorize', { descriptions: ['PIX'], categories: long }), 'cliente')).status).toBe(413);
+        expect((await handle(post('/api/categorize', { descriptions: ['PIX'], categories: [{ id: 1 }] }), 'cliente')).status).toBe(400);
+    });
+
+    it('limita as requisições de cada usuário e informa quanto esperar', async () => {
+        const handle = createProxyHandler({ mock: true, rateLimit: 2, rateWindowMs: 60_000 });
+        const request = () => post('/api/categorize', { descriptions: ['PIX'], categories });
+        expect((await handle(request(), 'cliente')).status).toBe(200);
+        expect((await handle(request(), 'cliente')).status).toBe(200);
+        const limited = await handle(request(), 'cliente');
+        expect(limited.status).toBe(429);
+        expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+        expect(await limited.json()).toMatchObject({ kind: 'quota' });
+        // Outro usuário tem a própria janela
+        expect((await handle(request(), 'outro')).status).toBe(200);
+    });
+
+    it('responde 404 e 405 fora das rotas e métodos aceitos', async () => {
+        const handle = createProxyHandler({ mock: true });
+        expect((await handle(new Request('http://localhost/api/outra', { method: 'POST' }), 'cliente')).status).toBe(404);
+        const get = await handle(new Request('http://localhost/api/extract'), 'cliente');
+        expect(get.status).toBe(405);
+        expect(get.headers.get('Allow')).toBe('POST');
+        expect(await (await handle(new Request('http://localhost/api/health'), 'cliente')).json()).toEqual({ status: 'ok', mock: true });
+    });
+});
@@ -0,0 +1,250 @@
+import type { AnalysisErrorKind, CategorizeRequest, ExtractionContext, ExtractRequest, GeminiResponse } from '../types';
+import { analyzeStatement, suggestIncomeCategories } from '../services/geminiService';
+import { EXTRACTION_PROMPT_VERSION, extractionContextKey, GEMINI_MODEL } from '../services/extractionPrompt';
+import { validateExtractorResponse } from '../services/responseValidation';
+import { getErrorKind } from '../services/analysisErrors';
+import { isRecord } from '../services/typeGuards';
+import { mockCategories, mockExtraction } from './mockResponses';
+
+// Proxy da IA: recebe o documento do navegador, chama o Gemini com a chave do servidor e devolve
+// a resposta validada. O handler segue a Fetch API (Request → Response), então serve tanto ao
+// servidor Node de server/index.ts quanto a uma função serverless.
+
+export interface ProxyOptions {
+    // Respostas fixas, sem chamar o Gemini (desenvolvimento e testes)
+    mock?: boolean;
+    maxDocumentBytes?: number;
+    // Requisições por usuário (IP) dentro da janela
+    rateLimit?: number;
+    rateWindowMs?: number;
+    // Cache em memória das respostas, compartilhado entre os usuários do servidor
+    cacheTtlMs?: number;
+    cacheMaxEntries?: number;
+}
+
+// A API do Gemini aceita até 20 MB por requisição com o documento embutido
+export const DEFAULT_MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+export const DEFAULT_RATE_LIMIT = 30;
+export const DEFAULT_RATE_WINDOW_MS = 60 * 1000;
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+// Os formatos que o app manda para a IA; OFX, CSV e CNAB são lidos no navegador
+export const ALLOWED_MIME_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+
+const MAX_DESCRIPTIONS = 500;
+// As categorias entram no prompt: poucas e com rótulos curtos
+const MAX_CATEGORIES = 30;
+const MAX_CATEGORY_LENGTH = 100;
+
+const CACHE_HEADER = 'X-Analisador-Cache';
+
+// O tipo do erro vai junto na resposta ({ error, kind }) para o navegador decidir se repete
+class ProxyError extends Error {
+    constructor(message: string, readonly status: number, readonly kind: AnalysisErrorKind, readonly headers: Record<string, string> = {}) {
+        super(message);
+    }
+}
+
+const STATUS_BY_KIND: { [kind in AnalysisErrorKind]?: number } = {
+    quota: 429,
+    overloaded: 503,
+    safety: 422,
+    unsupported: 422,
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers } });
+
+/** Limite por janela fixa: cada usuário tem `limit` requisições a cada `windowMs`. */
+const createRateLimiter = (limit: number, windowMs: number) => {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+    return (clientId: string): void => {
+        const now = Date.now();
+        // Descarta janelas vencidas para o mapa não crescer sem limite
+        if (windows.size > 1000) {
+            windows.forEach((window, id) => {
+                if (window.resetAt <= now) windows.delete(id);
+            });
+        }
+        const window = windows.get(clientId);
+        if (!window || window.resetAt <= now) {
+            windows.set(clientId, { count: 1, resetAt: now + windowMs });
+            return;
+        }
+        if (window.count >= limit) {
+            const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+            throw new ProxyError(`Limite de análises atingido (${limit} a cada ${Math.round(windowMs / 1000)}s). Aguarde ${retryAfter}s.`, 429, 'quota', { 'Retry-After': String(retryAfter) });
+        }
+        window.count++;
+    };
+};
+
+/** Cache com validade e limite de itens; ao passar do limite, sai o usado há mais tempo. */
+const createResponseCache = (ttlMs: number, maxEntries: number) => {
+    const entries = new Map<string, { response: GeminiResponse; expiresAt: number }>();
+    return {
+        get: (key: string): GeminiResponse | null => {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            entries.delete(key);
+            if (entry.expiresAt <= Date.now()) return null;
+            // Reinserir move a chave para o fim da ordem do Map (a mais recente)
+            entries.set(key, entry);
+            return entry.response;
+        },
+        set: (key: string, response: GeminiResponse): void => {
+            entries.delete(key);
+            entries.set(key, { response, expiresAt: Date.now() + ttlMs });
+            if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+        },
+    };
+};
+
+// O mesmo arquivo sempre chega com o mesmo base64, então basta o hash do texto
+const buildCacheKey = async ({ base64Data, mode, context }: ExtractRequest, mock: boolean): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64Data));
+    const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return [hash, mode, `v${EXTRACTION_PROMPT_VERSION}`, mock ? 'mock' : GEMINI_MODEL, extractionContextKey(context)].filter(Boolean).join('|');
+};
+
+const readJsonBody = async (request: Request): Promise<unknown> => {
+    try {
+        return await request.json();
+    } catch {
+        throw new ProxyError("O corpo da requisição não é um JSON válido.", 400, 'unknown');
+    }
+};
+
+// Campos de um corpo JSON; o que não é objeto conta como vazio e cai nas mensagens de campo faltando
+const fieldsOf = (value: unknown): Record<string, unknown> => (isRecord(value) ? value : {});
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isPage = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+// O contexto vai para o prompt: só números de página coerentes, um nome curto e datas no formato AAAA-MM-DD
+const parseExtractionContext = (value: unknown): ExtractionContext | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const { pageStart, pageEnd, pageCount, clientName, statement } = fieldsOf(value);
+    if (!isPage(pageStart) || !isPage(pageEnd) || !isPage(pageCount) || pageEnd < pageStart || pageCount < pageEnd) {
+        throw new ProxyError("O contexto do lote deve trazer 'pageStart', 'pageEnd' e 'pageCount' coerentes.", 400, 'unknown');
+    }
+    const context: ExtractionContext = { pageStart, pageEnd, pageCount };
+    if (typeof clientName === 'string' && clientName.trim()) context.clientName = clientName.trim().slice(0, 200);
+    if (isRecord(statement) && isDate(statement.periodStart) && isDate(statement.periodEnd)) {
+        context.statement = { periodStart: statement.periodStart, periodEnd: statement.periodEnd };
+    }
+    return context;
+};
+
+const parseExtractRequest = (body: unknown, maxDocumentBytes: number): ExtractRequest => {
+    const { base64Data, mimeType, mode, bypassCache, context } = fieldsOf(body);
+    if (typeof base64Data !== 'string' || !base64Data || typeof mimeType !== 'string') {
+        throw new ProxyError("Envie o documento em 'base64Data' e o tipo em 'mimeType'.", 400, 'unknown');
+    }
+    if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+        throw new ProxyError(`Tipo de arquivo não aceito pela IA: ${mimeType}. Envie PDF, PNG, JPEG ou WEBP.`, 415, 'unsupported');
+    }
+    if (mode !== 'credits' && mode !== 'full') {
+        throw new ProxyError("O modo de extração deve ser 'credits' ou 'full'.", 400, 'unknown');
+    }
+    if (Math.floor(base64Data.length * 3 / 4) > maxDocumentBytes) {
+        throw new ProxyError(`O documento passa do limite de ${Math.round(maxDocumentBytes / (1024 * 1024))} MB.`, 413, 'unsupported');
+    }
+    return { base64Data, mimeType, mode, bypassCache: bypassCache === true, context: parseExtractionContext(context) };
+};
+
+const isCategory = (category: unknown): category is { id: string; label: string } =>
+    isRecord(category) && typeof category.id === 'string' && typeof category.label === 'string';
+
+const parseCategorizeRequest = (body: unknown): CategorizeRequest => {
+    const { descriptions, categories } = fieldsOf(body);
+    if (!Array.isArray(descriptions) || !descriptions.every(description => typeof description === 'string')) {
+        throw new ProxyError("Envie as descrições em 'descriptions'.", 400, 'unknown');
+    }
+    if (!Array.isArray(categories) || categories.length === 0 || !categories.every(isCategory)) {
+        throw new ProxyError("Envie as categorias em 'categories'.", 400, 'unknown');
+    }
+    if (descriptions.length > MAX_DESCRIPTIONS) {
+        throw new ProxyError(`Envie no máximo ${MAX_DESCRIPTIONS} descrições por vez.`, 413, 'unsupported');
+    }
+    if (categories.length > MAX_CATEGORIES || categories.some(({ id, label }) => id.length > MAX_CATEGORY_LENGTH || label.length > MAX_CATEGORY_LENGTH)) {
+        throw new ProxyError(`Envie no máximo ${MAX_CATEGORIES} categorias, com até ${MAX_CATEGORY_LENGTH} caracteres cada.`, 413, 'unsupported');
+    }
+    return { descriptions, categories: categories.map(({ id, label }) => ({ id, label })) };
+};
+
+// Sobrecarga vira 503 e cota 429, que o navegador repete; o resto é erro do serviço de IA (502)
+const toAiError = (error: unknown): ProxyError => {
+    const kind = getErrorKind(error);
+    return new ProxyError((error instanceof Error && error.message) || "Ocorreu um erro desconhecido ao comunicar com a IA.", STATUS_BY_KIND[kind] || 502, kind);
+};
+
+export const createProxyHandler = ({
+    mock = false,
+    maxDocumentBytes = DEFAULT_MAX_DOCUMENT_BYTES,
+    rateLimit = DEFAULT_RATE_LIMIT,
+    rateWindowMs = DEFAULT_RATE_WINDOW_MS,
+    cacheTtlMs = DEFAULT_CACHE_TTL_MS,
+    cacheMaxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+}: ProxyOptions = {}) => {
+    const checkRateLimit = createRateLimiter(rateLimit, rateWindowMs);
+    const responseCache = createResponseCache(cacheTtlMs, cacheMaxEntries);
+
+    const route = async (request: Request, clientId: string): Promise<Response> => {
+        const { pathname } = new URL(request.url);
+        if (pathname === '/api/health' && request.method === 'GET') {
+            return json({ status: 'ok', mock });
+        }
+        if (pathname !== '/api/extract' && pathname !== '/api/categorize') {
+            throw new ProxyError("Rota não encontrada.", 404, 'unknown');
+        }
+        if (request.method !== 'POST') {
+            throw new ProxyError("Use o método POST.", 405, 'unknown', { Allow: 'POST' });
+        }
+        checkRateLimit(clientId);
+        const body = await readJsonBody(request);
+
+        if (pathname === '/api/extract') {
+            const extractRequest = parseExtractRequest(body, maxDocumentBytes);
+            const { base64Data, mimeType, mode, bypassCache, context } = extractRequest;
+            const cacheKey = await buildCacheKey(extractRequest, mock);
+            // "Reanalisar" pula a leitura, e a resposta nova substitui a antiga
+            const cached = bypassCache ? null : responseCache.get(cacheKey);
+            if (cached) return json(cached, 200, { [CACHE_HEADER]: 'hit' });
+
+            let response: GeminiResponse;
+            if (mock) {
+                response = validateExtractorResponse(mockExtraction(mode), mode);
+            } else {
+                try {
+                    // Uma tentativa só: o navegador repete as falhas transitórias e mostra o progresso
+                    response = await analyzeStatement(base64Data, mimeType, mode, { context }, 1);
+                } catch (error) {
+                    throw toAiError(error);
+                }
+            }
+            responseCache.set(cacheKey, response);
+            return json(response, 200, { [CACHE_HEADER]: 'miss' });
+        }
+
+        const categorizeRequest = parseCategorizeRequest(body);
+        if (mock) return json({ categories: mockCategories(categorizeRequest) });
+        try {
+            return json({ categories: await suggestIncomeCategories(categorizeRequest.descriptions, categorizeRequest.categories) });
+        } catch (error) {
+            throw toAiError(error);
+        }
+    };
+
+    /** `clientId` identifica o usuário para o limite de requisições (o IP, atrás de um proxy reverso). */
+    return async (request: Request, clientId: string): Promise<Response> => {
+        try {
+            return await route(request, clientId);
+        } catch (error) {
+            if (error instanceof ProxyError) return json({ error: error.message, kind: error.kind }, error.status, error.headers);
+            console.error("Erro inesperado no proxy da IA.", error);
+            return json({ error: "Erro interno no servidor de análise." }, 500);
+        }
+    };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { SessionFile } from '../types';
+import { ANALYSIS_DOCUMENT_FORMAT, ANALYSIS_DOCUMENT_VERSION, buildAnalysisDocument, computeMonthlyTotals, exportAnalysisDocument, importAnalysisDocument } from './analysisDocument';
+
+const entries = [
+    { id: 'e1', description: 'SALARIO', amount: 3000, date: '2024-01-05', category: 'salario', categorySource: 'keyword' as const },
+    { id: 'e2', description: 'PIX CLIENTE', amount: 500, date: '2024-01-20' },
+    { id: 'e3', description: 'SALARIO', amount: 3100, date: '2024-02-05' },
+];
+
+describe('computeMonthlyTotals', () => {
+    it('soma os lançamentos de cada mês, em ordem', () => {
+        expect(computeMonthlyTotals([entries[2], entries[0], entries[1]])).toEqual([
+            { month: '2024-01', total: 3500, count: 2 },
+            { month: '2024-02', total: 3100, count: 1 },
+        ]);
+    });
+});
+
+describe('buildAnalysisDocument e importAnalysisDocument', () => {
+    it('exportam e importam a análise sem perder dados', async () => {
+        const file: SessionFile = { id: 'f1', file: new File(['conteudo'], 'extrato.csv', { type: 'text/csv' }), name: 'extrato.csv', status: 'done' };
+        const document = await buildAnalysisDocument({
+            clientName: 'MARIA SOUZA',
+            files: [file],
+            entries,
+            excluded: [{ entry: { id: 'x1', description: 'RESGATE CDB', amount: 100, date: '2024-01-10' }, ruleId: 'default-resgate-aplicacao', ruleName: 'Resgate' }],
+            auditTrail: [{ id: 'a1', at: '2024-03-01T10:00:00.000Z', source: 'manual', action: 'changed', entryId: 'e2', field: 'amount', before: 50, after: 500 }],
+        });
+        expect(document.sourceFiles).toEqual([{ id: 'f1', name: 'extrato.csv', mimeType: 'text/csv', size: 8, sha256: expect.stringMatching(/^[0-9a-f]{64}$/), status: 'done' }]);
+        expect(document.totalIncome).toBe(6600);
+        expect(importAnalysisDocument(exportAnalysisDocument(document))).toEqual(document);
+    });
+
+    it('migra o JSON cru da extração (versão 0)', () => {
+        const imported = importAnalysisDocument(JSON.stringify({ clientName: 'JOAO', positiveEntries: [{ description: 'PIX', amount: 10, date: '2024-05-01' }] }));
+        expect(imported).toMatchObject({
+            format: ANALYSIS_DOCUMENT_FORMAT,
+            version: ANALYSIS_DOCUMENT_VERSION,
+            clientName: 'JOAO',
+            sourceFiles: [],
+            excluded: [],
+            auditTrail: [],
+            totalIncome: 10,
+        });
+        // Sem id no arquivo, o lançamento recebe um para a edição e a auditoria
+        expect(imported.entries[0]).toMatchObject({ description: 'PIX', amount: 10, date: '2024-05-01', id: expect.any(String) });
+    });
+
+    it('descarta campos desconhecidos ou com tipo errado', () => {
+        const imported = importAnalysisDocument(JSON.stringify({
+            format: ANALYSIS_DOCUMENT_FORMAT,
+            version: 1,
+            entries: [{ id: 'e1', description: 'PIX', amount: 10, date: '2024-05-01', page: '2', categorySource: 'adivinhado', tags: ['a', 3], extra: 1 }],
+            auditTrail: [{ at: '2024-05-02T00:00:00Z', source: 'manual', action: 'added', field: 'cor', before: { x: 1 } }],
+        }));
+        expect(imported.entries).toEqual([{ id: 'e1', description: 'PIX', amount: 10, date: '2024-05-01', tags: ['a'] }]);
+        expect(imported.auditTrail).toEqual([{ id: 'audit-importado-0', at: '2024-05-02T00:00:00Z', source: 'manual', action: 'added' }]);
+    });
+
+    it('recusa arquivos inválidos ou de versões mais novas', () => {
+        expect(() => importAnalysisDocument('{')).toThrow("O arquivo de análise não é um JSON válido.");
+        expect(() => importAnalysisDocument('[]')).toThrow("O arquivo não é uma análise exportada pelo Analisador de Extratos.");
+        expect(() => importAnalysisDocument('{"clientName": "X"}')).toThrow("O arquivo não é uma análise exportada pelo Analisador de Extratos.");
+        expect(() => importAnalysisDocument(JSON.stringify({ format: ANALYSIS_DOCUMENT_FORMAT, version: 99, entries: [] }))).toThrow(/versão mais nova \(versão 99\)/);
+        expect(() => importAnalysisDocument(JSON.stringify({ format: ANALYSIS_DOCUMENT_FORMAT, version: 1, entries: [{ description: 'PIX', amount: 10, date: '01/05/2024' }] })))
+            .toThrow('O lançamento 1 ("PIX") tem uma data inválida; use AAAA-MM-DD.');
+        expect(() => importAnalysisDocument(JSON.stringify({ format: ANALYSIS_DOCUMENT_FORMAT, version: 1, entries: [], auditTrail: [{ at: 'x', source: 'robo', action: 'added' }] })))
+            .toThrow("O evento 1 da trilha de auditoria é inválido.");
+    });
+});
@@ -0,0 +1,231 @@
+import type { AnalysisDocument, AnalysisSourceFile, AuditEvent, CategorySource, ExcludedEntry, MonthlyTotal, PositiveEntry, SessionFile, SessionFileStatus } from '../types';
+import { createId, sha256 } from './analysisSession';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, AUDIT_SOURCE_LABELS } from './auditTrail';
+import { isRecord, withoutUndefined } from './typeGuards';
+
+// Formato de intercâmbio de uma análise completa, para integração com outros sistemas e
+// para reabrir a análise depois sem chamar a IA. Mudanças incompatíveis aumentam a versão
+// e ganham uma migração em MIGRATIONS.
+export const ANALYSIS_DOCUMENT_FORMAT = 'analisador-analise';
+export const ANALYSIS_DOCUMENT_VERSION = 1;
+export const ANALYSIS_DOCUMENT_EXTENSION = '.json';
+
+export const isAnalysisDocumentFile = (file: File): boolean =>
+    file.name.toLowerCase().endsWith(ANALYSIS_DOCUMENT_EXTENSION) || file.type === 'application/json';
+
+const CATEGORY_SOURCES: CategorySource[] = ['keyword', 'override', 'rule', 'ai', 'manual'];
+const FILE_STATUSES: SessionFileStatus[] = ['pending', 'processing', 'done', 'error'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Migrações, indexadas pela versão de origem. A versão 0 é o JSON "cru" da extração
+ * ({ clientName, positiveEntries }), que circulava antes do formato versionado.
+ */
+const MIGRATIONS: { [fromVersion: number]: (document: Record<string, unknown>) => Record<string, unknown> } = {
+    0: legacy => ({
+        format: ANALYSIS_DOCUMENT_FORMAT,
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        clientName: legacy.clientName || '',
+        sourceFiles: [],
+        entries: legacy.positiveEntries,
+        excluded: [],
+        auditTrail: [],
+    }),
+};
+
+export const computeMonthlyTotals = (entries: PositiveEntry[]): MonthlyTotal[] => {
+    const totals = new Map<string, MonthlyTotal>();
+    entries.forEach(entry => {
+        if (!entry.date) return;
+        const month = entry.date.slice(0, 7);
+        const current = totals.get(month) || { month, total: 0, count: 0 };
+        current.total += entry.amount;
+        current.count++;
+        totals.set(month, current);
+    });
+    return Array.from(totals.values()).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+interface AnalysisDocumentInput {
+    clientName: string;
+    files: SessionFile[];
+    entries: PositiveEntry[];
+    excluded: ExcludedEntry[];
+    auditTrail: AuditEvent[];
+}
+
+export const buildAnalysisDocument = async ({ clientName, files, entries, excluded, auditTrail }: AnalysisDocumentInput): Promise<AnalysisDocument> => {
+    const sourceFiles = await Promise.all(files.map(async (sessionFile): Promise<AnalysisSourceFile> => {
+        const sourceFile: AnalysisSourceFile = {
+            id: sessionFile.id,
+            name: sessionFile.name,
+            mimeType: sessionFile.file.type,
+            size: sessionFile.file.size,
+            sha256: await sha256(sessionFile.file),
+            status: sessionFile.status,
+        };
+        if (sessionFile.error) sourceFile.error = sessionFile.error;
+        return sourceFile;
+    }));
+    return {
+        format: ANALYSIS_DOCUMENT_FORMAT,
+        version: ANALYSIS_DOCUMENT_VERSION,
+        exportedAt: new Date().toISOString(),
+        clientName,
+        sourceFiles,
+        entries,
+        excluded,
+        auditTrail,
+        monthlyTotals: computeMonthlyTotals(entries),
+        totalIncome: entries.reduce((sum, entry) => sum + entry.amount, 0),
+    };
+};
+
+export const exportAnalysisDocument = (document: AnalysisDocument): string => JSON.stringify(document, null, 2);
+
+// --- Validação: só os campos conhecidos passam, com o tipo esperado ---
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const optionalFlag = (value: unknown) => (value === true ? true : undefined);
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T => options.some(option => option === value);
+const isLabelKey = <T extends object>(labels: T, value: unknown): value is keyof T & string => typeof value === 'string' && value in labels;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const sanitizeEntry = (value: unknown, label: string): PositiveEntry => {
+    if (!isRecord(value)) {
+        throw new Error(`${label} não é um objeto.`);
+    }
+    if (typeof value.description !== 'string') {
+        throw new Error(`${label} não tem descrição.`);
+    }
+    if (!isFiniteNumber(value.amount)) {
+        throw new Error(`${label} ("${value.description}") tem um valor inválido.`);
+    }
+    if (typeof value.date !== 'string' || !DATE_PATTERN.test(value.date)) {
+        throw new Error(`${label} ("${value.description}") tem uma data inválida; use AAAA-MM-DD.`);
+    }
+    const box = value.boundingBox;
+    const counterparty = value.counterparty;
+    return withoutUndefined<PositiveEntry>({
+        description: value.description,
+        amount: value.amount,
+        date: value.date,
+        // Revisão de duplicatas, auditoria e edição identificam o lançamento pelo id
+        id: optionalString(value.id) || createId('entry'),
+        sourceFile: optionalString(value.sourceFile),
+        sourceFileId: optionalString(value.sourceFileId),
+        page: optionalNumber(value.page),
+        boundingBox: isRecord(box) && isFiniteNumber(box.x) && isFiniteNumber(box.y) && isFiniteNumber(box.width) && isFiniteNumber(box.height)
+            ? { x: box.x, y: box.y, width: box.width, height: box.height }
+            : undefined,
+        confidence: optionalNumber(value.confidence),
+        counterparty: isRecord(counterparty) && typeof counterparty.name === 'string'
+            ? withoutUndefined({ name: counterparty.name, document: optionalString(counterparty.document), bank: optionalString(counterparty.bank) })
+            : undefined,
+        reviewedDuplicate: optionalFlag(value.reviewedDuplicate),
+        tags: Array.isArray(value.tags) ? value.tags.filter((tag: unknown): tag is string => typeof tag === 'string') : undefined,
+        category: optionalString(value.category),
+        categorySource: isOneOf(CATEGORY_SOURCES, value.categorySource) ? value.categorySource : undefined,
+        exclusionOverridden: optionalFlag(value.exclusionOverridden),
+        manuallyEdited: optionalFlag(value.manuallyEdited),
+    });
+};
+
+const sanitizeAuditEvent = (value: unknown, index: number): AuditEvent => {
+    if (!isRecord(value)) {
+        throw new Error(`O evento ${index + 1} da trilha de auditoria é inválido.`);
+    }
+    const { at, source, action, field } = value;
+    if (typeof at !== 'string' || !isLabelKey(AUDIT_SOURCE_LABELS, source) || !isLabelKey(AUDIT_ACTION_LABELS, action)) {
+        throw new Error(`O evento ${index + 1} da trilha de auditoria é inválido.`);
+    }
+    const auditValue = (item: unknown) => (typeof item === 'string' || isFiniteNumber(item) ? item : undefined);
+    return withoutUndefined<AuditEvent>({
+        id: optionalString(value.id) || `audit-importado-${index}`,
+        at,
+        source,
+        action,
+        entryId: optionalString(value.entryId),
+        entryLabel: optionalString(value.entryLabel),
+        sourceFile: optionalString(value.sourceFile),
+        field: isLabelKey(AUDIT_FIELD_LABELS, field) ? field : undefined,
+        before: auditValue(value.before),
+        after: auditValue(value.after),
+    });
+};
+
+const sanitizeSourceFile = (value: unknown, index: number): AnalysisSourceFile => {
+    if (!isRecord(value) || typeof value.name !== 'string') {
+        throw new Error(`O arquivo de origem ${index + 1} é inválido.`);
+    }
+    return withoutUndefined<AnalysisSourceFile>({
+        id: optionalString(value.id) || `arquivo-${index + 1}`,
+        name: value.name,
+        mimeType: optionalString(value.mimeType) || '',
+        size: optionalNumber(value.size) || 0,
+        sha256: optionalString(value.sha256),
+        status: isOneOf(FILE_STATUSES, value.status) ? value.status : 'done',
+        error: optionalString(value.error),
+    });
+};
+
+/** Aplica as migrações até a versão atual. */
+const migrate = (parsed: Record<string, unknown>): Record<string, unknown> => {
+    let document = parsed;
+    let version = document.format === ANALYSIS_DOCUMENT_FORMAT ? Number(document.version) : 0;
+    if (version === 0 && !Array.isArray(document.positiveEntries)) {
+        throw new Error("O arquivo não é uma análise exportada pelo Analisador de Extratos.");
+    }
+    if (!Number.isInteger(version) || version < 0) {
+        throw new Error("A versão do arquivo de análise é inválida.");
+    }
+    if (version > ANALYSIS_DOCUMENT_VERSION) {
+        throw new Error(`O arquivo de análise foi gerado por uma versão mais nova (versão ${version}). Atualize o aplicativo para importá-lo.`);
+    }
+    while (version < ANALYSIS_DOCUMENT_VERSION) {
+        document = MIGRATIONS[version](document);
+        version = Number(document.version);
+    }
+    return document;
+};
+
+/** Lê uma análise exportada (de qualquer versão conhecida), migra e valida. Os totais são recalculados. */
+export const importAnalysisDocument = (json: string): AnalysisDocument => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("O arquivo de análise não é um JSON válido.");
+    }
+    if (!isRecord(parsed)) {
+        throw new Error("O arquivo não é uma análise exportada pelo Analisador de Extratos.");
+    }
+
+    const document = migrate(parsed);
+    if (!Array.isArray(document.entries)) {
+        throw new Error("O arquivo de análise não contém a lista de lançamentos.");
+    }
+    const entries = document.entries.map((entry: unknown, index) => sanitizeEntry(entry, `O lançamento ${index + 1}`));
+    const excluded: ExcludedEntry[] = (Array.isArray(document.excluded) ? document.excluded : []).map((item: unknown, index) => {
+        if (!isRecord(item) || typeof item.ruleId !== 'string') {
+            throw new Error(`O crédito excluído ${index + 1} é inválido.`);
+        }
+        return { entry: sanitizeEntry(item.entry, `O crédito excluído ${index + 1}`), ruleId: item.ruleId, ruleName: optionalString(item.ruleName) || item.ruleId };
+    });
+
+    return {
+        format: ANALYSIS_DOCUMENT_FORMAT,
+        version: ANALYSIS_DOCUMENT_VERSION,
+        exportedAt: optionalString(document.exportedAt) || new Date().toISOString(),
+        clientName: typeof document.clientName === 'string' ? document.clientName : '',
+        sourceFiles: (Array.isArray(document.sourceFiles) ? document.sourceFiles : []).map(sanitizeSourceFile),
+        entries,
+        excluded,
+        auditTrail: (Array.isArray(document.auditTrail) ? document.auditTrail : []).map(sanitizeAuditEvent),
+        monthlyTotals: computeMonthlyTotals(entries),
+        totalIncome: entries.reduce((sum, entry) => sum + entry.amount, 0),
+    };
+};
@@ -0,0 +1,79 @@
+import type { AnalysisErrorKind } from '../types';
+
+// Erros da análise com tipo: quem detecta a falha (proxy, serviço do Gemini, tempo limite,
+// cancelamento) diz o que aconteceu, e a tela escolhe a mensagem e a ação de recuperação
+// pelo tipo, sem procurar trechos no texto do erro.
+
+export class AnalysisError extends Error {
+    constructor(message: string, readonly kind: AnalysisErrorKind) {
+        super(message);
+        this.name = 'AnalysisError';
+    }
+}
+
+export type RecoveryAction = 'retry' | 'use-local-ocr';
+
+export const ANALYSIS_ERROR_INFO: { [kind in AnalysisErrorKind]: { title: string; recovery: string; action?: RecoveryAction } } = {
+    auth: {
+        title: 'Chave da IA inválida ou ausente',
+        recovery: 'O servidor de análise não conseguiu se autenticar no Gemini. Peça ao administrador para conferir a chave GEMINI_API_KEY. Enquanto isso, o OCR local funciona sem chave.',
+        action: 'use-local-ocr',
+    },
+    quota: {
+        title: 'Limite de uso atingido',
+        recovery: 'O limite de análises foi atingido. Aguarde alguns minutos e tente de novo; se persistir, a cota diária da chave pode ter acabado.',
+        action: 'retry',
+    },
+    overloaded: {
+        title: 'IA sobrecarregada',
+        recovery: 'O serviço de IA está ocupado e não respondeu depois de várias tentativas. Aguarde um minuto e tente de novo.',
+        action: 'retry',
+    },
+    safety: {
+        title: 'Documento bloqueado pela IA',
+        recovery: 'A IA recusou o documento pelas políticas de segurança. Envie uma imagem mais nítida, recortada só no extrato, ou use o OCR local.',
+        action: 'use-local-ocr',
+    },
+    parse: {
+        title: 'Resposta da IA fora do formato',
+        recovery: 'A IA respondeu sem os dados esperados. Tente de novo; se repetir, envie o extrato em outra qualidade ou use o OCR local.',
+        action: 'retry',
+    },
+    unsupported: {
+        title: 'Arquivo não aceito',
+        recovery: 'Envie PDF, imagem (PNG, JPEG, WEBP), OFX, CSV ou CNAB dentro do limite de tamanho.',
+    },
+    network: {
+        title: 'Sem conexão com o servidor de análise',
+        recovery: 'Verifique a conexão com a internet e se o servidor de análise está no ar, e tente de novo.',
+        action: 'retry',
+    },
+    timeout: {
+        title: 'Tempo limite excedido',
+        recovery: 'A análise demorou mais que o tempo limite. Tente de novo ou aumente o tempo limite nas configurações de extração.',
+        action: 'retry',
+    },
+    cancelled: {
+        title: 'Análise cancelada',
+        recovery: 'Os arquivos já concluídos foram mantidos; os demais voltaram para a fila.',
+        action: 'retry',
+    },
+    unknown: {
+        title: 'Erro na análise',
+        recovery: '',
+    },
+};
+
+// Falhas que valem nova tentativa automática (com backoff)
+export const isRetryableError = (kind: AnalysisErrorKind): boolean => kind === 'overloaded' || kind === 'quota';
+
+export const getErrorKind = (error: unknown): AnalysisErrorKind => {
+    if (error instanceof AnalysisError) return error.kind;
+    if ((error as any)?.name === 'AbortError') return 'cancelled';
+    return 'unknown';
+};
+
+export const createCancelledError = (): AnalysisError => new AnalysisError("Análise cancelada pelo usuário.", 'cancelled');
+
+export const createTimeoutError = (seconds: number): AnalysisError =>
+    new AnalysisError(`A análise passou do tempo limite de ${seconds}s.`, 'timeout');
@@ -0,0 +1,77 @@
+import type { EmptyPages, ExcludedEntry, ExtractionMode, IncomeRule, PositiveEntry, ReviewItem, SessionFile, StatementExtractor } from '../types';
+import { createSessionFiles, DEFAULT_CONCURRENCY, mergeSessionResults, runSession } from './analysisSession';
+import { applyIncomeRules } from './incomeRules';
+import { categorizeEntries, type CategoryOverrides } from './categorization';
+import { findEmptyPages } from './pdfChunking';
+
+// Núcleo da análise, sem dependência de tela: dos arquivos enviados até os lançamentos de receita
+// com regras e categorias aplicadas. Usado pelo App e pela CLI (cli/analisador.ts).
+
+export interface AnalysisResult {
+    clientName: string;
+    entries: PositiveEntry[];
+    excluded: ExcludedEntry[];
+    needsReview: ReviewItem[];
+    // Créditos extraídos antes das regras de receita
+    extractedCount: number;
+    failedFiles: SessionFile[];
+    // Páginas de PDFs em que a extração não encontrou nada, para reanalisar uma a uma
+    emptyPages: EmptyPages[];
+}
+
+export interface AnalysisRules {
+    incomeRules: IncomeRule[];
+    categoryOverrides?: CategoryOverrides;
+    // Substitui o nome do cliente lido dos extratos (regras de mesma titularidade usam este nome)
+    clientName?: string;
+}
+
+/** Junta os arquivos concluídos e aplica as regras de receita e as categorias. */
+export const buildAnalysisResult = (files: SessionFile[], { incomeRules, categoryOverrides = {}, clientName }: AnalysisRules): AnalysisResult => {
+    const merged = mergeSessionResults(files);
+    const name = clientName?.trim() || merged.clientName;
+    const { entries, excluded } = applyIncomeRules(merged.positiveEntries, incomeRules, name);
+    return {
+        clientName: name,
+        entries: categorizeEntries(entries, categoryOverrides),
+        excluded,
+        needsReview: merged.needsReview || [],
+        extractedCount: merged.positiveEntries.length,
+        failedFiles: files.filter(file => file.status === 'error'),
+        emptyPages: findEmptyPages(files),
+    };
+};
+
+export interface AnalyzeFilesOptions extends AnalysisRules {
+    mode?: ExtractionMode;
+    extractor?: StatementExtractor;
+    concurrency?: number;
+    signal?: AbortSignal;
+    // Tempo máximo por arquivo
+    timeoutMs?: number;
+    // Recebe o arquivo da sessão a cada mudança de status ou nova tentativa
+    onUpdate?: (file: SessionFile) => void;
+}
+
+/**
+ * Analisa os arquivos do começo ao fim: divide PDFs por página, extrai com concorrência limitada
+ * e monta o resultado. Falhas em um arquivo não interrompem os demais.
+ */
+export const analyzeFiles = async (
+    files: File[],
+    { mode = 'credits', extractor, concurrency = DEFAULT_CONCURRENCY, signal, timeoutMs, onUpdate, ...rules }: AnalyzeFilesOptions
+): Promise<{ files: SessionFile[]; result: AnalysisResult }> => {
+    let sessionFiles = await createSessionFiles(files);
+    await runSession(sessionFiles, {
+        mode,
+        extractor,
+        concurrency,
+        signal,
+        timeoutMs,
+        onUpdate: (id, changes) => {
+            sessionFiles = sessionFiles.map(file => (file.id === id ? { ...file, ...changes } : file));
+            onUpdate?.(sessionFiles.find(file => file.id === id)!);
+        },
+    });
+    return { files: sessionFiles, result: buildAnalysisResult(sessionFiles, rules) };
+};
@@ -0,0 +1,230 @@
+import type { ExtractionMode, ExtractOptions, GeminiResponse, PdfChunk, PositiveEntry, SessionFile, StatementExtractor } from '../types';
+import { createGeminiExtractor } from './extractors/geminiExtractor';
+import { isLocalStatementFile, parseStatementFile, mergeResponses } from './statementParser';
+import { extractCounterparty } from './counterparty';
+import { buildResponseCacheKey, getCachedResponse, saveCachedResponse } from './responseCache';
+import { createTimeoutError, getErrorKind } from './analysisErrors';
+import { buildExtractionContext, isPartialChunk, removeOverlapDuplicates, splitPdfIntoChunks, toDocumentPages } from './pdfChunking';
+
+// Quantidade de arquivos enviados à IA ao mesmo tempo. Valores maiores aumentam os erros 429/503.
+export const DEFAULT_CONCURRENCY = 3;
+// Tempo máximo por arquivo, incluindo as novas tentativas com backoff
+export const DEFAULT_TIMEOUT_SECONDS = 180;
+
+let idCounter = 0;
+export const createId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+// Lido em blocos para não estourar a pilha em String.fromCharCode; funciona no navegador e no Node
+const BASE64_CHUNK_SIZE = 0x8000;
+
+export const readFileAsBase64 = async (file: Blob): Promise<string> => {
+    let bytes: Uint8Array;
+    try {
+        bytes = new Uint8Array(await file.arrayBuffer());
+    } catch {
+        throw new Error("Ocorreu um erro ao ler o arquivo.");
+    }
+    if (bytes.length === 0) {
+        throw new Error("Não foi possível ler o conteúdo do arquivo.");
+    }
+    let binary = '';
+    for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+        binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE));
+    }
+    return btoa(binary);
+};
+
+/** SHA-256 do conteúdo em hexadecimal; `undefined` sem Web Crypto (página fora de HTTPS). */
+export const sha256 = async (file: Blob): Promise<string | undefined> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return undefined;
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const toSessionFile = (file: File, chunk?: PdfChunk): SessionFile => {
+    const sessionFile: SessionFile = { id: createId('file'), file, name: file.name, status: 'pending' };
+    if (chunk) sessionFile.chunk = chunk;
+    return sessionFile;
+};
+
+/** Cria os arquivos da sessão; PDFs de várias páginas levam a numeração do original, e os longos são divididos em lotes. */
+export const createSessionFiles = async (files: File[]): Promise<SessionFile[]> => {
+    const expanded = await Promise.all(files.map(async (file): Promise<SessionFile[]> => {
+        const chunks = file.type === 'application/pdf' ? await splitPdfIntoChunks(file) : null;
+        if (!chunks || chunks[0].pageCount <= 1) return [toSessionFile(file)];
+        const documentId = createId('doc');
+        return chunks.map(({ file: chunkFile, pageStart, pageEnd, pageCount }) =>
+            toSessionFile(chunkFile, { documentId, documentName: file.name, pageStart, pageEnd, pageCount }));
+    }));
+    return expanded.flat();
+};
+
+/**
+ * Extrai os dados de um arquivo. Arquivos OFX/CSV/CNAB são lidos localmente; os demais vão para o
+ * extrator, passando antes pelo cache de respostas quando o extrator informa `cacheKey`.
+ * Nos lotes de PDFs, as páginas do resultado seguem a numeração do PDF original.
+ */
+export const analyzeSessionFile = async (
+    sessionFile: SessionFile,
+    mode: ExtractionMode = 'credits',
+    extractor: StatementExtractor = createGeminiExtractor(),
+    options: ExtractOptions = {}
+): Promise<{ result: GeminiResponse; cached: boolean }> => {
+    const { file } = sessionFile;
+    options.onStage?.('reading');
+    if (isLocalStatementFile(file)) {
+        return { result: await parseStatementFile(file), cached: false };
+    }
+
+    const fileHash = extractor.cacheKey ? await sha256(file) : undefined;
+    const cacheKey = fileHash ? buildResponseCacheKey(fileHash, mode, extractor.cacheKey!, options.context) : null;
+    if (cacheKey && !options.bypassCache) {
+        const cachedResult = await getCachedResponse(cacheKey);
+        if (cachedResult) return { result: toDocumentPages(cachedResult, sessionFile.chunk), cached: true };
+    }
+
+    let serverCacheHit = false;
+    const base64String = await readFileAsBase64(file);
+    options.signal?.throwIfAborted();
+    const result = await extractor.extract(base64String, file.type, mode, {
+        ...options,
+        onCacheHit: () => {
+            serverCacheHit = true;
+            options.onCacheHit?.();
+        },
+    });
+    if (cacheKey) await saveCachedResponse(cacheKey, result);
+    return { result: toDocumentPages(result, sessionFile.chunk), cached: serverCacheHit };
+};
+
+/**
+ * Executa `worker` sobre os itens com no máximo `limit` execuções simultâneas.
+ * Com `signal` cancelado, nenhum item novo é iniciado.
+ */
+export const runWithConcurrency = async <T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> => {
+    let nextIndex = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (nextIndex < items.length && !signal?.aborted) {
+            const item = items[nextIndex++];
+            await worker(item);
+        }
+    });
+    await Promise.all(runners);
+};
+
+interface RunSessionOptions {
+    concurrency?: number;
+    mode?: ExtractionMode;
+    extractor?: StatementExtractor;
+    // Cancela a sessão: arquivos em andamento voltam para a fila, sem erro
+    signal?: AbortSignal;
+    // Tempo máximo por arquivo, incluindo as novas tentativas
+    timeoutMs?: number;
+    onUpdate: (id: string, changes: Partial<SessionFile>) => void;
+}
+
+/** Sinal que dispara no cancelamento da sessão ou quando o arquivo passa do tempo limite. */
+const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number | undefined) => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = timeoutMs ? setTimeout(() => controller.abort(createTimeoutError(Math.round(timeoutMs / 1000))), timeoutMs) : undefined;
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        },
+    };
+};
+
+/**
+ * Analisa os arquivos pendentes (ou com erro) da sessão. Falhas em um arquivo não interrompem
+ * os demais; o status e a etapa de cada um são informados via `onUpdate`.
+ */
+export const runSession = async (files: SessionFile[], { concurrency = DEFAULT_CONCURRENCY, mode = 'credits', extractor, signal, timeoutMs, onUpdate }: RunSessionOptions): Promise<void> => {
+    const queue = files.filter(file => file.status === 'pending' || file.status === 'error');
+
+    // O cabeçalho (titular e período) fica no primeiro lote de cada PDF dividido; os lotes seguintes
+    // esperam por ele para recebê-lo como contexto. O primeiro lote sai antes na fila, então não há espera circular.
+    const headers = new Map<string, Promise<GeminiResponse | undefined>>();
+    const headerResolvers = new Map<string, (result?: GeminiResponse) => void>();
+    files.forEach(file => {
+        if (file.chunk?.pageStart !== 1 || headers.has(file.chunk.documentId)) return;
+        if (file.status === 'done') {
+            headers.set(file.chunk.documentId, Promise.resolve(file.result));
+        } else if (queue.includes(file)) {
+            headers.set(file.chunk.documentId, new Promise(resolve => headerResolvers.set(file.id, resolve)));
+        }
+    });
+
+    await runWithConcurrency(queue, concurrency, async sessionFile => {
+        onUpdate(sessionFile.id, { status: 'processing', error: undefined, errorKind: undefined, retries: 0, cached: undefined, progress: { stage: 'reading' } });
+        // A espera pelo primeiro lote não conta no tempo limite do arquivo
+        const { chunk } = sessionFile;
+        const header = chunk && chunk.pageStart > 1 ? await headers.get(chunk.documentId) : undefined;
+        const fileSignal = withTimeout(signal, timeoutMs);
+        let result: GeminiResponse | undefined;
+        try {
+            const analysis = await analyzeSessionFile(sessionFile, mode, extractor, {
+                context: isPartialChunk(chunk) ? buildExtractionContext(chunk, header) : undefined,
+                bypassCache: sessionFile.bypassCache,
+                signal: fileSignal.signal,
+                onStage: (stage, uploadPercent) => onUpdate(sessionFile.id, { progress: { stage, uploadPercent } }),
+                onRetry: retry => onUpdate(sessionFile.id, {
+                    retries: retry.attempt,
+                    progress: { stage: 'retrying', retryAt: Date.now() + retry.delayMs },
+                }),
+            });
+            result = analysis.result;
+            onUpdate(sessionFile.id, { status: 'done', result, cached: analysis.cached, bypassCache: undefined, progress: undefined });
+        } catch (err: any) {
+            const errorKind = getErrorKind(err);
+            if (errorKind === 'cancelled') {
+                onUpdate(sessionFile.id, { status: 'pending', retries: 0, progress: undefined });
+                return;
+            }
+            onUpdate(sessionFile.id, { status: 'error', error: err.message || "Erro desconhecido ao analisar o arquivo.", errorKind, progress: undefined });
+        } finally {
+            fileSignal.dispose();
+            headerResolvers.get(sessionFile.id)?.(result);
+        }
+    }, signal);
+};
+
+/**
+ * Junta os resultados de todos os arquivos concluídos, marcando cada lançamento com o arquivo de origem.
+ * O que os lotes de um PDF repetem entre si entra uma vez só.
+ */
+export const mergeSessionResults = (files: SessionFile[]): GeminiResponse => {
+    const responses = removeOverlapDuplicates(files)
+        .filter(file => file.status === 'done' && file.result)
+        .map(file => ({
+            clientName: file.result!.clientName,
+            positiveEntries: file.result!.positiveEntries.map((entry, index): PositiveEntry => {
+                const merged: PositiveEntry = {
+                    ...entry,
+                    id: entry.id || `${file.id}-${index}`,
+                    sourceFile: file.name,
+                    sourceFileId: file.id,
+                };
+                // Quando a extração não trouxe a contraparte, tenta identificá-la pela descrição
+                const counterparty = entry.counterparty || extractCounterparty(entry.description);
+                if (counterparty) merged.counterparty = counterparty;
+                return merged;
+            }),
+            needsReview: (file.result!.needsReview || []).map(item => ({
+                ...item,
+                id: `${file.id}-${item.id}`,
+                sourceFile: file.name,
+                sourceFileId: file.id,
+            })),
+        }));
+    return mergeResponses(responses);
+};
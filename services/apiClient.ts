@@ -0,0 +1,140 @@
+import type { AnalysisErrorKind, CategorizeRequest, ExtractionMode, ExtractOptions, ExtractRequest, GeminiResponse } from '../types';
+import { validateExtractorResponse } from './responseValidation';
+import { MAX_ATTEMPTS, retryDelay, wait } from './retryPolicy';
+import { ANALYSIS_ERROR_INFO, AnalysisError, isRetryableError } from './analysisErrors';
+import { isRecord } from './typeGuards';
+
+// Cliente do proxy da IA (server/). O navegador nunca vê a chave do Gemini: envia o documento
+// ao proxy, que chama o modelo, valida a resposta e aplica os limites de tamanho e de uso.
+
+// Mesma origem por padrão (em desenvolvimento o Vite repassa /api ao proxy local)
+const API_BASE_URL = (process.env.ANALISADOR_API_URL || '/api').replace(/\/$/, '');
+
+// Cabeçalho com que o proxy avisa que a resposta veio do cache dele
+const CACHE_HEADER = 'X-Analisador-Cache';
+
+// Tipo do erro quando a resposta não diz (servidor antigo ou proxy intermediário)
+const KIND_BY_STATUS: { [status: number]: AnalysisErrorKind } = {
+    413: 'unsupported',
+    415: 'unsupported',
+    422: 'unsupported',
+    429: 'quota',
+    503: 'overloaded',
+};
+
+interface ApiResponse {
+    status: number;
+    header: (name: string) => string | null;
+    body: unknown;
+}
+
+const parseBody = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+};
+
+const isAnalysisErrorKind = (value: unknown): value is AnalysisErrorKind =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(ANALYSIS_ERROR_INFO, value);
+
+const networkError = () =>
+    new AnalysisError("Não foi possível conectar ao servidor de análise. Verifique a conexão e se o servidor está no ar.", 'network');
+
+/**
+ * Envia o JSON ao proxy. No navegador usa XMLHttpRequest, que informa o progresso do envio e
+ * quando ele termina (a partir daí, a espera é pela IA). Fora dele (Node), usa fetch.
+ */
+const sendJson = (url: string, body: string, { signal, onStage }: ExtractOptions): Promise<ApiResponse> => {
+    if (typeof XMLHttpRequest === 'undefined') {
+        onStage?.('uploading');
+        return fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, signal })
+            .then(async response => ({ status: response.status, header: name => response.headers.get(name), body: parseBody(await response.text()) }))
+            .catch(() => {
+                throw signal?.aborted ? signal.reason : networkError();
+            });
+    }
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const xhr = new XMLHttpRequest();
+        const onAbort = () => {
+            xhr.abort();
+            reject(signal!.reason);
+        };
+        xhr.open('POST', url);
+        xhr.setRequestHeader('Content-Type', 'application/json');
+        xhr.upload.onprogress = event => onStage?.('uploading', event.lengthComputable ? Math.round((event.loaded / event.total) * 100) : undefined);
+        xhr.upload.onload = () => onStage?.('waiting');
+        xhr.onload = () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve({ status: xhr.status, header: name => xhr.getResponseHeader(name), body: parseBody(xhr.responseText) });
+        };
+        xhr.onerror = () => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(networkError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        onStage?.('uploading', 0);
+        xhr.send(body);
+    });
+};
+
+/** Chama o proxy repetindo sobrecarga e limite de requisições com backoff (ou o tempo pedido pelo servidor). */
+const postToApi = async (path: string, payload: unknown, options: ExtractOptions = {}): Promise<ApiResponse> => {
+    const body = JSON.stringify(payload);
+    for (let attempt = 1; ; attempt++) {
+        const response = await sendJson(`${API_BASE_URL}${path}`, body, options);
+        if (response.status >= 200 && response.status < 300) return response;
+
+        const { kind: bodyKind, error } = isRecord(response.body) ? response.body : {} as Record<string, unknown>;
+        // Um tipo que este cliente não conhece (servidor mais novo) vale como se não viesse
+        const kind: AnalysisErrorKind = isAnalysisErrorKind(bodyKind) ? bodyKind : KIND_BY_STATUS[response.status] || 'unknown';
+        const message = typeof error === 'string' ? error : `O servidor de análise respondeu com erro ${response.status}.`;
+        if (!isRetryableError(kind) || attempt >= MAX_ATTEMPTS) {
+            throw new AnalysisError(message, kind);
+        }
+        // No limite de requisições, o servidor diz quanto esperar
+        const retryAfter = Number(response.header('Retry-After'));
+        const delay = retryAfter > 0 ? retryAfter * 1000 : retryDelay(attempt);
+        options.onRetry?.({ attempt, maxAttempts: MAX_ATTEMPTS, delayMs: delay, reason: message });
+        await wait(delay, options.signal);
+    }
+};
+
+export const extractStatement = async (
+    base64Data: string,
+    mimeType: string,
+    mode: ExtractionMode,
+    options: ExtractOptions = {}
+): Promise<GeminiResponse> => {
+    const request: ExtractRequest = { base64Data, mimeType, mode, bypassCache: options.bypassCache, context: options.context };
+    const response = await postToApi('/extract', request, options);
+    if (response.header(CACHE_HEADER) === 'hit') options.onCacheHit?.();
+    options.onStage?.('validating');
+    try {
+        // O proxy já valida; validar de novo protege a tela de um servidor desatualizado
+        return validateExtractorResponse(response.body, mode);
+    } catch (error: any) {
+        throw new AnalysisError(error.message, 'parse');
+    }
+};
+
+export const suggestIncomeCategories = async (
+    descriptions: string[],
+    categories: { id: string; label: string }[],
+): Promise<string[]> => {
+    if (descriptions.length === 0) return [];
+    const request: CategorizeRequest = { descriptions, categories };
+    const { body } = await postToApi('/categorize', request);
+    const suggestions = isRecord(body) ? body.categories : undefined;
+    if (!Array.isArray(suggestions) || suggestions.length !== descriptions.length) {
+        throw new AnalysisError("A resposta da IA não trouxe uma categoria para cada descrição.", 'parse');
+    }
+    // Como no serviço do Gemini, o que não for um id conhecido vira a última categoria ("não foi possível decidir")
+    const categoryIds = categories.map(category => category.id);
+    return suggestions.map((category: unknown) => (typeof category === 'string' && categoryIds.includes(category) ? category : categoryIds[categoryIds.length - 1]));
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { EditSnapshot, PositiveEntry } from '../types';
+import { diffSnapshots, formatAuditValue, isManualCorrection, markManualEdits } from './auditTrail';
+
+const entry = (id: string, changes: Partial<PositiveEntry> = {}): PositiveEntry => ({
+    id,
+    description: 'PIX RECEBIDO',
+    amount: 100,
+    date: '2024-03-10',
+    sourceFile: 'extrato.pdf',
+    ...changes,
+});
+
+const snapshot = (positiveEntries: PositiveEntry[], clientName = 'MARIA'): EditSnapshot => ({ positiveEntries, excludedEntries: [], needsReview: [], clientName });
+
+describe('diffSnapshots', () => {
+    it('registra campo a campo o que mudou em cada lançamento', () => {
+        const events = diffSnapshots(
+            snapshot([entry('a')]),
+            snapshot([entry('a', { amount: 150, category: 'vendas' })]),
+            'manual'
+        );
+        expect(events).toEqual([
+            expect.objectContaining({ source: 'manual', action: 'changed', entryId: 'a', entryLabel: 'PIX RECEBIDO (10/03/2024)', field: 'amount', before: 100, after: 150 }),
+            expect.objectContaining({ action: 'changed', field: 'category', before: undefined, after: 'vendas' }),
+        ]);
+    });
+
+    it('registra inclusões e exclusões com o arquivo de origem', () => {
+        const events = diffSnapshots(
+            snapshot([entry('a'), entry('b', { sourceFile: 'outro.csv', amount: 40 })]),
+            snapshot([entry('a'), entry('c', { sourceFile: undefined, amount: 70 })]),
+            'manual'
+        );
+        expect(events.map(({ action, entryId, sourceFile, before, after }) => ({ action, entryId, sourceFile, before, after }))).toEqual([
+            { action: 'added', entryId: 'c', sourceFile: undefined, before: undefined, after: 70 },
+            { action: 'deleted', entryId: 'b', sourceFile: 'outro.csv', before: 40, after: undefined },
+        ]);
+    });
+
+    it('registra a troca do nome do cliente e nada quando não há mudança', () => {
+        expect(diffSnapshots(snapshot([entry('a')]), snapshot([entry('a')], 'MARIA SOUZA'), 'undo')).toEqual([
+            expect.objectContaining({ source: 'undo', action: 'changed', field: 'clientName', before: 'MARIA', after: 'MARIA SOUZA' }),
+        ]);
+        expect(diffSnapshots(snapshot([entry('a')]), snapshot([entry('a')]), 'manual')).toEqual([]);
+    });
+});
+
+describe('markManualEdits', () => {
+    it('marca só os lançamentos incluídos ou alterados', () => {
+        const result = markManualEdits([entry('a'), entry('b')], [entry('a'), entry('b', { description: 'PIX JOAO' }), entry('c')]);
+        expect(result.map(item => item.manuallyEdited)).toEqual([undefined, true, true]);
+    });
+});
+
+describe('isManualCorrection e formatAuditValue', () => {
+    it('contam desfazer e refazer como correção manual e formatam valores para leitura', () => {
+        const event = diffSnapshots(snapshot([entry('a')]), snapshot([]), 'redo')[0];
+        expect(isManualCorrection(event)).toBe(true);
+        expect(isManualCorrection({ ...event, source: 'rule' })).toBe(false);
+        expect(formatAuditValue('amount', 1234.5)).toBe('R$\u00a01.234,50');
+        expect(formatAuditValue('date', '2024-03-10')).toBe('10/03/2024');
+        expect(formatAuditValue('description', '')).toBe('-');
+    });
+});
@@ -0,0 +1,114 @@
+import type { AuditAction, AuditEvent, AuditField, AuditSource, EditSnapshot, PositiveEntry } from '../types';
+import { createId } from './analysisSession';
+import { getCategoryLabel } from './categorization';
+
+// Trilha de auditoria: compara o estado antes e depois de cada ação e registra, campo a campo,
+// o que mudou em relação ao que a extração trouxe. A trilha só cresce; desfazer também é registrado.
+
+// Quantos passos de desfazer ficam guardados na sessão
+export const MAX_UNDO_STEPS = 50;
+
+const ENTRY_FIELDS: Extract<AuditField, keyof PositiveEntry>[] = ['description', 'date', 'amount', 'category'];
+
+export const AUDIT_FIELD_LABELS: { [key in AuditField]: string } = {
+    description: 'Descrição',
+    date: 'Data',
+    amount: 'Valor',
+    category: 'Categoria',
+    clientName: 'Nome do cliente',
+};
+
+export const AUDIT_ACTION_LABELS: { [key in AuditAction]: string } = {
+    added: 'Incluído',
+    deleted: 'Removido',
+    changed: 'Alterado',
+};
+
+export const AUDIT_SOURCE_LABELS: { [key in AuditSource]: string } = {
+    manual: 'Manual',
+    rule: 'Regra de receita',
+    ai: 'IA',
+    undo: 'Desfeito',
+    redo: 'Refeito',
+};
+
+/** Correções feitas por uma pessoa, inclusive desfazer e refazer. */
+export const isManualCorrection = (event: AuditEvent): boolean =>
+    event.source === 'manual' || event.source === 'undo' || event.source === 'redo';
+
+const formatDate = (date: string) => {
+    const [year, month, day] = date.split('-');
+    return day ? `${day}/${month}/${year}` : date;
+};
+
+export const formatAuditValue = (field: AuditField | undefined, value: string | number | undefined): string => {
+    if (value === undefined || value === '') return '-';
+    switch (field) {
+        case 'amount':
+            return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value));
+        case 'date':
+            return formatDate(String(value));
+        case 'category':
+            return getCategoryLabel(String(value));
+        default:
+            return String(value);
+    }
+};
+
+const entryLabel = (entry: PositiveEntry) => `${entry.description || 'Sem descrição'} (${formatDate(entry.date)})`;
+
+const entryKey = (entry: PositiveEntry, index: number) => entry.id || `#${index}`;
+
+const entryDetails = (entry: PositiveEntry): Pick<AuditEvent, 'entryId' | 'entryLabel' | 'sourceFile'> => {
+    const details: Pick<AuditEvent, 'entryId' | 'entryLabel' | 'sourceFile'> = { entryId: entry.id, entryLabel: entryLabel(entry) };
+    if (entry.sourceFile) details.sourceFile = entry.sourceFile;
+    return details;
+};
+
+const createEvent = (source: AuditSource, action: AuditAction, details: Omit<AuditEvent, 'id' | 'at' | 'source' | 'action'>): AuditEvent => ({
+    id: createId('audit'),
+    at: new Date().toISOString(),
+    source,
+    action,
+    ...details,
+});
+
+/** Eventos de auditoria que levam de `before` a `after`. */
+export const diffSnapshots = (before: EditSnapshot, after: EditSnapshot, source: AuditSource): AuditEvent[] => {
+    const events: AuditEvent[] = [];
+    if (before.clientName !== after.clientName) {
+        events.push(createEvent(source, 'changed', { field: 'clientName', before: before.clientName, after: after.clientName }));
+    }
+
+    const previous = new Map(before.positiveEntries.map((entry, index) => [entryKey(entry, index), entry]));
+    const current = new Set<string>();
+    after.positiveEntries.forEach((entry, index) => {
+        const key = entryKey(entry, index);
+        current.add(key);
+        const old = previous.get(key);
+        if (!old) {
+            events.push(createEvent(source, 'added', { ...entryDetails(entry), after: entry.amount }));
+            return;
+        }
+        ENTRY_FIELDS.forEach(field => {
+            if ((old[field] ?? '') === (entry[field] ?? '')) return;
+            events.push(createEvent(source, 'changed', { ...entryDetails(old), field, before: old[field], after: entry[field] }));
+        });
+    });
+    previous.forEach((entry, key) => {
+        if (current.has(key)) return;
+        events.push(createEvent(source, 'deleted', { ...entryDetails(entry), before: entry.amount }));
+    });
+    return events;
+};
+
+/** Marca como editados manualmente os lançamentos incluídos ou com algum campo alterado. */
+export const markManualEdits = (before: PositiveEntry[], after: PositiveEntry[]): PositiveEntry[] => {
+    const previous = new Map(before.map((entry, index) => [entryKey(entry, index), entry]));
+    return after.map((entry, index) => {
+        if (entry.manuallyEdited) return entry;
+        const old = previous.get(entryKey(entry, index));
+        const changed = !old || ENTRY_FIELDS.some(field => (old[field] ?? '') !== (entry[field] ?? ''));
+        return changed ? { ...entry, manuallyEdited: true } : entry;
+    });
+};
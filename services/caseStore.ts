@@ -0,0 +1,124 @@
+import type { AnalysisCase, CaseEvent, CaseEventType, CaseSummary } from '../types';
+import { createId } from './analysisSession';
+
+// Casos ficam no IndexedDB do navegador: os arquivos originais (File) e os relatórios (Blob)
+// são gravados como estão, sem conversão para base64.
+const DB_NAME = 'analisador';
+const DB_VERSION = 1;
+const CASES_STORE = 'cases';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("Este navegador não permite salvar casos localmente (IndexedDB indisponível)."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CASES_STORE)) {
+                    db.createObjectStore(CASES_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(new Error("Não foi possível abrir o armazenamento local de casos."));
+        }).catch(error => {
+            // Permite tentar de novo na próxima chamada
+            databasePromise = null;
+            throw error;
+        });
+    }
+    return databasePromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(CASES_STORE, mode);
+        const request = action(transaction.objectStore(CASES_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(new Error(transaction.error?.name === 'QuotaExceededError'
+            ? "Sem espaço para salvar o caso. Exclua casos antigos e tente novamente."
+            : "Não foi possível acessar o armazenamento local de casos."));
+    });
+};
+
+export const createCaseEvent = (type: CaseEventType, description: string): CaseEvent => ({
+    type,
+    at: new Date().toISOString(),
+    description,
+});
+
+export const createCase = (clientName = ''): AnalysisCase => {
+    const now = new Date().toISOString();
+    return {
+        id: createId('case'),
+        clientName,
+        createdAt: now,
+        updatedAt: now,
+        files: [],
+        positiveEntries: [],
+        excludedEntries: [],
+        history: [],
+        auditTrail: [],
+        needsReview: [],
+        reports: [],
+    };
+};
+
+const toSummary = (stored: AnalysisCase): CaseSummary => ({
+    id: stored.id,
+    clientName: stored.clientName,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    fileNames: stored.files.map(file => file.name),
+    entryCount: stored.positiveEntries.length,
+    totalIncome: stored.positiveEntries.reduce((sum, entry) => sum + entry.amount, 0),
+    reports: stored.reports.map(({ blob, ...report }) => report),
+});
+
+/** Casos salvos, do mais recente para o mais antigo. */
+export const listCases = async (): Promise<CaseSummary[]> => {
+    const cases = await runRequest<AnalysisCase[]>('readonly', store => store.getAll());
+    return cases.map(toSummary).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadCase = async (id: string): Promise<AnalysisCase> => {
+    const stored = await runRequest<AnalysisCase | undefined>('readonly', store => store.get(id));
+    if (!stored) {
+        throw new Error("O caso não foi encontrado. Ele pode ter sido excluído em outra aba.");
+    }
+    return {
+        ...stored,
+        // Casos salvos antes da trilha de auditoria e da revisão de lançamentos
+        auditTrail: stored.auditTrail || [],
+        needsReview: stored.needsReview || [],
+        // Uma análise interrompida pelo fechamento da página volta para a fila
+        files: stored.files.map(file => (file.status === 'processing' ? { ...file, status: 'pending' } : file)),
+    };
+};
+
+export const saveCase = async (analysisCase: AnalysisCase): Promise<AnalysisCase> => {
+    const saved = { ...analysisCase, updatedAt: new Date().toISOString() };
+    await runRequest('readwrite', store => store.put(saved));
+    return saved;
+};
+
+export const deleteCase = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id));
+};
+
+export const duplicateCase = async (id: string): Promise<AnalysisCase> => {
+    const original = await loadCase(id);
+    const copy: AnalysisCase = {
+        ...original,
+        id: createId('case'),
+        clientName: original.clientName ? `${original.clientName} (cópia)` : '',
+        createdAt: new Date().toISOString(),
+        history: [...original.history, createCaseEvent('duplicated', `Cópia do caso criado em ${new Date(original.createdAt).toLocaleString('pt-BR')}.`)],
+    };
+    return saveCase(copy);
+};
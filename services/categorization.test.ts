@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { PositiveEntry } from '../types';
+import { categorizeByKeywords, categorizeEntries, categoryOverrideKey, learnCategoryOverride, loadCategoryOverrides } from './categorization';
+
+const entry = (description: string, fields: Partial<PositiveEntry> = {}): PositiveEntry => ({
+    id: description,
+    description,
+    amount: 100,
+    date: '2024-01-10',
+    ...fields,
+});
+
+describe('categorizeByKeywords', () => {
+    it('reconhece as categorias pelas palavras-chave, sem acentos nem caixa', () => {
+        expect(categorizeByKeywords('Crédito Salário Empresa X')).toBe('salario');
+        expect(categorizeByKeywords('CIELO ANTECIPACAO')).toBe('vendas');
+        expect(categorizeByKeywords('REND PAGO APLIC AUT')).toBe('rendimentos');
+        expect(categorizeByKeywords('ESTORNO COMPRA')).toBe('reembolsos');
+        expect(categorizeByKeywords('TED RECEBIDA')).toBe('ted-doc');
+        expect(categorizeByKeywords('DEPOSITO EM DINHEIRO')).toBe('outros');
+    });
+
+    it('segue a ordem das categorias quando mais de uma combina', () => {
+        expect(categorizeByKeywords('TRANSF PIX RECEBIDA')).toBe('pix');
+        expect(categorizeByKeywords('PIX VENDA MAQUININHA')).toBe('vendas');
+    });
+});
+
+describe('categorizeEntries', () => {
+    it('usa a correção aprendida antes das palavras-chave, ignorando números da descrição', () => {
+        const overrides = { [categoryOverrideKey('PIX RECEBIDO JOAO 12/03')]: 'vendas' };
+        const [learned, keyword] = categorizeEntries([entry('PIX RECEBIDO JOAO 15/04'), entry('PIX RECEBIDO MARIA')], overrides);
+        expect(learned).toMatchObject({ category: 'vendas', categorySource: 'override' });
+        expect(keyword).toMatchObject({ category: 'pix', categorySource: 'keyword' });
+    });
+
+    it('a correção aprendida vale mais que regra e IA, mas não que a escolha manual', () => {
+        const overrides = { [categoryOverrideKey('PIX RECEBIDO JOAO')]: 'vendas' };
+        const [rule, ai, manual] = categorizeEntries([
+            entry('PIX RECEBIDO JOAO', { id: 'r', category: 'aluguel', categorySource: 'rule' }),
+            entry('PIX RECEBIDO JOAO', { id: 'a', category: 'salario', categorySource: 'ai' }),
+            entry('PIX RECEBIDO JOAO', { id: 'm', category: 'reembolsos', categorySource: 'manual' }),
+        ], overrides);
+        expect(rule).toMatchObject({ category: 'vendas', categorySource: 'override' });
+        expect(ai).toMatchObject({ category: 'vendas', categorySource: 'override' });
+        expect(manual).toMatchObject({ category: 'reembolsos', categorySource: 'manual' });
+    });
+
+    it('mantém regra e IA sem correção aprendida e recategoriza o que veio das palavras-chave', () => {
+        const [rule, keyword] = categorizeEntries([
+            entry('PIX RECEBIDO JOAO', { category: 'aluguel', categorySource: 'rule' }),
+            entry('SALARIO', { category: 'outros', categorySource: 'keyword' }),
+        ]);
+        expect(rule).toMatchObject({ category: 'aluguel', categorySource: 'rule' });
+        expect(keyword).toMatchObject({ category: 'salario', categorySource: 'keyword' });
+    });
+});
+
+describe('learnCategoryOverride', () => {
+    it('aplica a escolha ao lançamento e às descrições equivalentes que não foram escolhidas à mão', () => {
+        const target = entry('PIX RECEBIDO JOAO 12/03', { id: 't', categorySource: 'keyword' });
+        const similar = entry('PIX RECEBIDO JOAO 15/04', { id: 's', categorySource: 'keyword' });
+        const manual = entry('PIX RECEBIDO JOAO 20/05', { id: 'm', category: 'reembolsos', categorySource: 'manual' });
+        const { entries, overrides } = learnCategoryOverride([target, similar, manual], target, 'vendas', {});
+        expect(overrides).toEqual({ 'PIX RECEBIDO JOAO': 'vendas' });
+        expect(entries.map(item => [item.category, item.categorySource])).toEqual([
+            ['vendas', 'manual'],
+            ['vendas', 'override'],
+            ['reembolsos', 'manual'],
+        ]);
+    });
+});
+
+describe('loadCategoryOverrides', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const stubStorage = (stored: string | null) => vi.stubGlobal('localStorage', { getItem: () => stored });
+
+    it('lê as correções salvas', () => {
+        stubStorage(JSON.stringify({ 'PIX RECEBIDO JOAO': 'vendas' }));
+        expect(loadCategoryOverrides()).toEqual({ 'PIX RECEBIDO JOAO': 'vendas' });
+    });
+
+    it('descarta conteúdo que não seja um objeto de textos', () => {
+        stubStorage(null);
+        expect(loadCategoryOverrides()).toEqual({});
+        stubStorage('["vendas"]');
+        expect(loadCategoryOverrides()).toEqual({});
+        stubStorage(JSON.stringify({ 'PIX RECEBIDO JOAO': 1 }));
+        expect(loadCategoryOverrides()).toEqual({});
+        stubStorage('{');
+        expect(loadCategoryOverrides()).toEqual({});
+    });
+});
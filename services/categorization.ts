@@ -0,0 +1,109 @@
+import type { CategorySource, PositiveEntry } from '../types';
+import { normalizeText } from './parsers/parseUtils';
+import { suggestIncomeCategories } from './apiClient';
+import { isRecord } from './typeGuards';
+
+// Categorização dos créditos: dicionários de palavras-chave, correções do usuário aprendidas
+// (por descrição) e, opcionalmente, sugestões da IA para o que sobrar em "Outros".
+// Precedência: manual > correção aprendida > regra de receita > IA > palavras-chave.
+
+const OVERRIDES_STORAGE_KEY = 'analisador.categoryOverrides';
+
+export const DEFAULT_CATEGORY = 'outros';
+
+// A ordem importa: "TRANSF PIX" é PIX, e "PIX" de uma maquininha é venda
+export const INCOME_CATEGORIES: { id: string; label: string; keywords?: RegExp }[] = [
+    { id: 'salario', label: 'Salário e benefícios', keywords: /SALARIO|PROVENTO|FOLHA|PAGTO SAL|CRED(ITO)? SAL|ADIANT(AMENTO)? SAL|FERIAS|13O SAL|APOSENTADORIA|BENEFICIO|INSS/ },
+    { id: 'vendas', label: 'Vendas / maquininha', keywords: /CIELO|REDECARD|\bREDE\b|GETNET|STONE|PAGSEGURO|PAGBANK|SUMUP|MERCADO ?PAGO|SAFRAPAY|VENDA|MAQUININHA|ANTECIPACAO|\bELO\b|\bVISA\b|MASTERCARD|LIQ(UIDACAO)? (DE )?COBRANCA|BOLETO REC|\bTITULO\b/ },
+    { id: 'rendimentos', label: 'Rendimentos', keywords: /RENDIMENTO|\bREND\b|JUROS|DIVIDENDO|\bJCP\b|REMUNERACAO/ },
+    { id: 'reembolsos', label: 'Reembolsos e estornos', keywords: /ESTORNO|REEMBOLSO|DEVOLUCAO|\bDEV\b|CASHBACK|RESTITUICAO|CANCELAMENTO/ },
+    { id: 'pix', label: 'PIX de terceiros', keywords: /\bPIX\b/ },
+    { id: 'ted-doc', label: 'TED / DOC', keywords: /\bTED\b|\bDOC\b|TRANSF/ },
+    { id: DEFAULT_CATEGORY, label: 'Outros' },
+];
+
+/** Rótulo para exibição; categorias personalizadas (vindas de regras) aparecem como foram escritas. */
+export const getCategoryLabel = (category: string | undefined): string =>
+    INCOME_CATEGORIES.find(item => item.id === (category || DEFAULT_CATEGORY))?.label || category!;
+
+export const categorizeByKeywords = (description: string): string => {
+    const text = normalizeText(description);
+    return INCOME_CATEGORIES.find(item => item.keywords?.test(text))?.id || DEFAULT_CATEGORY;
+};
+
+/**
+ * Chave das correções aprendidas: a descrição sem números (datas, documentos, códigos de autenticação),
+ * para que "PIX RECEBIDO JOAO 12/03" e "PIX RECEBIDO JOAO 15/04" compartilhem a mesma correção.
+ */
+export const categoryOverrideKey = (description: string): string =>
+    normalizeText(description).replace(/[^A-Z ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export type CategoryOverrides = { [key: string]: string };
+
+// Fontes que a categorização automática não sobrescreve
+const PRESERVED_SOURCES: CategorySource[] = ['manual', 'rule', 'ai'];
+
+export const categorizeEntries = (entries: PositiveEntry[], overrides: CategoryOverrides = {}): PositiveEntry[] =>
+    entries.map(entry => {
+        if (entry.category && entry.categorySource && PRESERVED_SOURCES.includes(entry.categorySource)) {
+            // Correções aprendidas valem mais que regras e IA, mas não que a escolha manual no próprio lançamento
+            const learned = entry.categorySource !== 'manual' ? overrides[categoryOverrideKey(entry.description)] : undefined;
+            return learned ? { ...entry, category: learned, categorySource: 'override' } : entry;
+        }
+        const learned = overrides[categoryOverrideKey(entry.description)];
+        if (learned) return { ...entry, category: learned, categorySource: 'override' };
+        return { ...entry, category: categorizeByKeywords(entry.description), categorySource: 'keyword' };
+    });
+
+/** Aplica a escolha do usuário a um lançamento e a aprende para descrições equivalentes. */
+export const learnCategoryOverride = (
+    entries: PositiveEntry[],
+    target: PositiveEntry,
+    category: string,
+    overrides: CategoryOverrides,
+): { entries: PositiveEntry[]; overrides: CategoryOverrides } => {
+    const key = categoryOverrideKey(target.description);
+    const nextOverrides = { ...overrides, [key]: category };
+    const nextEntries = entries.map(entry => {
+        if (entry === target) return { ...entry, category, categorySource: 'manual' as const };
+        if (entry.categorySource !== 'manual' && categoryOverrideKey(entry.description) === key) {
+            return { ...entry, category, categorySource: 'override' as const };
+        }
+        return entry;
+    });
+    return { entries: nextEntries, overrides: nextOverrides };
+};
+
+/** Etapa opcional: a IA sugere categorias para os lançamentos que as palavras-chave deixaram em "Outros". */
+export const categorizeWithAi = async (entries: PositiveEntry[]): Promise<PositiveEntry[]> => {
+    const pending = (entry: PositiveEntry) =>
+        (entry.category || DEFAULT_CATEGORY) === DEFAULT_CATEGORY && (!entry.categorySource || entry.categorySource === 'keyword');
+    const descriptions = Array.from(new Set(entries.filter(pending).map(entry => entry.description)));
+    if (descriptions.length === 0) return entries;
+
+    const suggestions = await suggestIncomeCategories(descriptions, INCOME_CATEGORIES);
+    const byDescription = new Map(descriptions.map((description, index) => [description, suggestions[index]]));
+    return entries.map(entry => {
+        const suggestion = pending(entry) ? byDescription.get(entry.description) : undefined;
+        return suggestion && suggestion !== DEFAULT_CATEGORY ? { ...entry, category: suggestion, categorySource: 'ai' as const } : entry;
+    });
+};
+
+export const loadCategoryOverrides = (): CategoryOverrides => {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(OVERRIDES_STORAGE_KEY) || '{}');
+        // Conteúdo alterado fora do app ou de outro formato é descartado inteiro
+        if (!isRecord(stored) || !Object.values(stored).every(category => typeof category === 'string')) return {};
+        return stored as CategoryOverrides;
+    } catch {
+        return {};
+    }
+};
+
+export const saveCategoryOverrides = (overrides: CategoryOverrides): void => {
+    try {
+        localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+    } catch (error) {
+        console.warn("Não foi possível salvar as correções de categoria.", error);
+    }
+};
@@ -0,0 +1,114 @@
+import type { PositiveEntry } from '../types';
+import { DEFAULT_CATEGORY, getCategoryLabel } from './categorization';
+import { linearTrend } from './incomeStability';
+import { monthRange } from './statementCoverage';
+
+// Séries dos gráficos do painel, calculadas uma vez e desenhadas tanto na tela (SVG)
+// quanto no relatório PDF (components/IncomeDashboard.tsx e services/pdfCharts.ts).
+
+export type StackMode = 'category' | 'description';
+
+// Paleta compartilhada entre tela e PDF; a última cor é a da série "Outros"
+export const CHART_COLORS = ['#10b981', '#0ea5e9', '#f59e0b', '#8b5cf6', '#ef4444', '#14b8a6', '#94a3b8'];
+
+// Descrições além destas são somadas em "Outros" no gráfico empilhado
+const MAX_STACKED_SERIES = CHART_COLORS.length - 1;
+
+export interface ChartSeries {
+    key: string;
+    label: string;
+    color: string;
+    // Um valor por mês, na ordem de `months`
+    values: number[];
+}
+
+export interface DashboardData {
+    months: string[];
+    monthlyTotals: number[];
+    trend: number[];
+    cumulative: number[];
+    stacked: { [mode in StackMode]: ChartSeries[] };
+    // Soma recebida em cada dia do mês (1 a 31), por mês: heatmap[mês][dia - 1]
+    heatmap: number[][];
+}
+
+const monthNames = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+
+/** Rótulo curto para eixos: "Mar/24". */
+export const shortMonthLabel = (monthYear: string): string => {
+    const [year, month] = monthYear.split('-');
+    return `${monthNames[Number(month) - 1]}/${year.slice(2)}`;
+};
+
+/** Cor em RGB para o jsPDF. */
+export const hexToRgb = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/** Cor clareada em direção ao branco (o jsPDF não tem opacidade simples para preenchimentos). */
+export const tintColor = (hex: string, strength: number): [number, number, number] =>
+    hexToRgb(hex).map(channel => Math.round(255 - (255 - channel) * strength)) as [number, number, number];
+
+const buildStackedSeries = (entries: PositiveEntry[], months: string[], keyOf: (entry: PositiveEntry) => string, labelOf: (key: string) => string): ChartSeries[] => {
+    const totals = new Map<string, number>();
+    entries.forEach(entry => totals.set(keyOf(entry), (totals.get(keyOf(entry)) || 0) + entry.amount));
+    const ranked = Array.from(totals.keys()).sort((a, b) => totals.get(b)! - totals.get(a)!);
+    const kept = ranked.length > MAX_STACKED_SERIES + 1 ? ranked.slice(0, MAX_STACKED_SERIES) : ranked;
+    const keptSet = new Set(kept);
+    const monthIndex = new Map(months.map((month, index) => [month, index]));
+
+    const series: ChartSeries[] = kept.map((key, index) => ({ key, label: labelOf(key), color: CHART_COLORS[index], values: months.map(() => 0) }));
+    const others: ChartSeries = { key: '__outros', label: 'Outros', color: CHART_COLORS[CHART_COLORS.length - 1], values: months.map(() => 0) };
+    entries.forEach(entry => {
+        const index = monthIndex.get(entry.date.slice(0, 7));
+        if (index === undefined) return;
+        const target = keptSet.has(keyOf(entry)) ? series[kept.indexOf(keyOf(entry))] : others;
+        target.values[index] += entry.amount;
+    });
+    return others.values.some(Boolean) ? [...series, others] : series;
+};
+
+export const buildDashboardData = (entries: PositiveEntry[], coverageMonths: string[] = []): DashboardData => {
+    const validEntries = entries.filter(entry => entry.date && entry.amount > 0);
+    const months = monthRange([...validEntries.map(entry => entry.date.slice(0, 7)), ...coverageMonths]);
+    const monthIndex = new Map(months.map((month, index) => [month, index]));
+
+    const monthlyTotals = months.map(() => 0);
+    const heatmap = months.map(() => Array.from({ length: 31 }, () => 0));
+    validEntries.forEach(entry => {
+        const index = monthIndex.get(entry.date.slice(0, 7))!;
+        monthlyTotals[index] += entry.amount;
+        heatmap[index][Number(entry.date.slice(8, 10)) - 1] += entry.amount;
+    });
+
+    let runningTotal = 0;
+    const cumulative = monthlyTotals.map(total => (runningTotal += total));
+
+    return {
+        months,
+        monthlyTotals,
+        trend: months.length > 1 ? linearTrend(monthlyTotals) : [],
+        cumulative,
+        stacked: {
+            category: buildStackedSeries(validEntries, months, entry => entry.category || DEFAULT_CATEGORY, getCategoryLabel),
+            description: buildStackedSeries(validEntries, months, entry => entry.description, key => key),
+        },
+        heatmap,
+    };
+};
+
+/** Um limite "redondo" para o eixo vertical (1, 2 ou 5 × 10^n), acima do maior valor. */
+export const niceMaximum = (value: number): number => {
+    if (value <= 0) return 1;
+    const magnitude = 10 ** Math.floor(Math.log10(value));
+    const step = [1, 2, 5, 10].find(multiplier => multiplier * magnitude >= value)!;
+    return step * magnitude;
+};
+
+/** Valor abreviado para eixos: "R$ 12,5 mil". */
+export const formatAxisValue = (value: number): string => {
+    if (value >= 1_000_000) return `R$ ${(value / 1_000_000).toFixed(1).replace('.', ',')} mi`;
+    if (value >= 1_000) return `R$ ${(value / 1_000).toFixed(value >= 10_000 ? 0 : 1).replace('.', ',')} mil`;
+    return `R$ ${Math.round(value)}`;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { counterpartyKey, extractCounterparty } from './counterparty';
+
+describe('extractCounterparty', () => {
+    it('separa o nome, o documento mascarado e o banco de origem', () => {
+        expect(extractCounterparty('PIX RECEBIDO JOAO DA SILVA ***.456.789-** NU PAGAMENTOS')).toEqual({
+            name: 'JOAO DA SILVA',
+            document: '***.456.789-**',
+            bank: 'Nubank',
+        });
+    });
+
+    it('tira datas, agência e conta e mantém o CNPJ', () => {
+        expect(extractCounterparty('TED RECEBIDA 12/03 ACME LTDA 12.345.678/0001-90 AG 1234 C/C 56789')).toEqual({
+            name: 'ACME LTDA',
+            document: '12.345.678/0001-90',
+        });
+    });
+
+    it('mantém as letras soltas que fazem parte do nome', () => {
+        expect(extractCounterparty('SALARIO EMPRESA X')?.name).toBe('EMPRESA X');
+        expect(extractCounterparty('PIX RECEBIDO JOAO E MARIA')?.name).toBe('JOAO E MARIA');
+        expect(counterpartyKey(extractCounterparty('SALARIO EMPRESA X'))).not.toBe(counterpartyKey(extractCounterparty('SALARIO EMPRESA Y')));
+    });
+
+    it('sem nome legível usa o documento ou o banco, e sem nada não identifica o pagador', () => {
+        expect(extractCounterparty('PIX RECEBIDO 123.456.789-00')).toEqual({ name: '', document: '123.456.789-00' });
+        expect(counterpartyKey(extractCounterparty('PIX RECEBIDO 123.456.789-00'))).toBe('123.456.789-00');
+        expect(extractCounterparty('PIX RECEBIDO')).toBeUndefined();
+        expect(counterpartyKey(undefined)).toBeNull();
+    });
+});
@@ -0,0 +1,84 @@
+import type { Counterparty } from '../types';
+import { normalizeText } from './parsers/parseUtils';
+
+// Extrai o pagador de descrições como "PIX RECEBIDO JOAO DA SILVA ***.456.789-** NU PAGAMENTOS":
+// a descrição mistura o tipo da transação, o nome, o documento e o banco de origem.
+
+// CNPJ e CPF completos ou mascarados (ex.: 12.345.678/0001-90, 123.456.789-00, ***.456.789-**, ***456789**)
+const DOCUMENT_PATTERN = /\d{2}\.?\d{3}\.?\d{3}\/\d{4}-?\d{2}|[\d*]{3}\.[\d*]{3}\.[\d*]{3}-[\d*]{2}|\*{2,3}\d{6}\*{2}|\b\d{14}\b|\b\d{11}\b/;
+
+const BANKS: { pattern: RegExp; name: string }[] = [
+    { pattern: /\bITAU( UNIBANCO)?\b|\bBCO 341\b/, name: 'Itaú' },
+    { pattern: /\bBRADESCO\b|\bBCO 237\b/, name: 'Bradesco' },
+    { pattern: /\bSANTANDER\b|\bBCO 033\b/, name: 'Santander' },
+    { pattern: /\bCAIXA\b|\bCEF\b|\bBCO 104\b/, name: 'Caixa' },
+    { pattern: /BANCO DO BRASIL|\bBCO 001\b/, name: 'Banco do Brasil' },
+    { pattern: /\bNUBANK\b|NU PAGAMENTOS|\bBCO 260\b/, name: 'Nubank' },
+    { pattern: /BANCO INTER\b|\bBCO 077\b/, name: 'Inter' },
+    { pattern: /\bC6 ?BANK\b|\bBCO 336\b/, name: 'C6 Bank' },
+    { pattern: /\bSICOOB\b|\bBCO 756\b/, name: 'Sicoob' },
+    { pattern: /\bSICREDI\b|\bBCO 748\b/, name: 'Sicredi' },
+    { pattern: /\bBTG\b/, name: 'BTG Pactual' },
+    { pattern: /\bPAGSEGURO\b|\bPAGBANK\b/, name: 'PagBank' },
+    { pattern: /MERCADO ?PAGO/, name: 'Mercado Pago' },
+    { pattern: /\bPICPAY\b/, name: 'PicPay' },
+    { pattern: /\bBANRISUL\b/, name: 'Banrisul' },
+    { pattern: /\bSAFRA\b/, name: 'Safra' },
+];
+
+// Palavras que descrevem a transação, não quem pagou
+const TRANSACTION_WORDS = new Set([
+    'PIX', 'TED', 'DOC', 'TEF', 'TRANSF', 'TRANSFERENCIA', 'RECEBIDO', 'RECEBIDA', 'REC', 'RECEB', 'CRED', 'CREDITO',
+    'DEP', 'DEPOSITO', 'ENTRADA', 'PAGAMENTO', 'PGTO', 'PAGTO', 'LIQUIDACAO', 'COBRANCA', 'BOLETO', 'TITULO', 'CONTA',
+    'CORRENTE', 'SALARIO', 'PROVENTO', 'PROVENTOS', 'FOLHA', 'ESTORNO', 'REEMBOLSO', 'DEVOLUCAO', 'RENDIMENTO',
+    'RENDIMENTOS', 'JUROS', 'REMUNERACAO', 'DINHEIRO', 'ONLINE', 'INTERNET', 'ELETRONICO', 'ELETRONICA', 'AUTOMATICO',
+    'POUPANCA', 'APLICACAO', 'PELO', 'PELA', 'POR', 'PARA',
+    'BCO', 'BANCO', 'AG', 'AGENCIA', 'CC', 'DE', 'DA', 'DO', 'DAS', 'DOS', 'VIA', 'CPF', 'CNPJ',
+]);
+
+/** Retira do começo e do fim as palavras que descrevem a transação; preposições no meio do nome são mantidas. */
+const trimTransactionWords = (words: string[]): string[] => {
+    let start = 0;
+    let end = words.length;
+    while (start < end && TRANSACTION_WORDS.has(words[start])) start++;
+    while (end > start && TRANSACTION_WORDS.has(words[end - 1])) end--;
+    return words.slice(start, end);
+};
+
+export const extractCounterparty = (description: string): Counterparty | undefined => {
+    let text = normalizeText(description);
+
+    const documentMatch = text.match(DOCUMENT_PATTERN);
+    const document = documentMatch ? documentMatch[0] : undefined;
+    if (documentMatch) text = text.replace(documentMatch[0], ' ');
+
+    const bank = BANKS.find(item => item.pattern.test(text));
+    if (bank) text = text.replace(bank.pattern, ' ');
+
+    // Separadores comuns entre tipo e nome ("PIX RECEBIDO - JOAO", "TED/JOAO") e restos numéricos (datas, agência, conta).
+    // Letras soltas ficam: fazem parte de nomes como "EMPRESA X" ou "JOAO E MARIA"
+    const words = text
+        .replace(/\d{2}\/\d{2}(\/\d{2,4})?/g, ' ')
+        .replace(/\bC\/C\b/g, ' CC ')
+        .replace(/[^A-Z ]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+    const nameWords = trimTransactionWords(words);
+    const name = nameWords.join(' ');
+
+    // Sem nome legível, o documento ou o banco ainda ajudam a identificar o pagador
+    const hasName = name.replace(/ /g, '').length >= 3;
+    if (!hasName && !document && !bank) return undefined;
+
+    const counterparty: Counterparty = { name: hasName ? name : '' };
+    if (document) counterparty.document = document;
+    if (bank) counterparty.bank = bank.name;
+    return counterparty;
+};
+
+/** Chave para agrupar o mesmo pagador: o nome normalizado ou, na falta dele, o documento. */
+export const counterpartyKey = (counterparty: Counterparty | undefined): string | null => {
+    if (!counterparty) return null;
+    if (counterparty.name) return normalizeText(counterparty.name).replace(/[^A-Z ]/g, ' ').replace(/\s+/g, ' ').trim();
+    return counterparty.document || null;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { PositiveEntry } from '../types';
+import { descriptionSimilarity, findDuplicateClusters, fingerprintEntry, resolveDuplicateCluster } from './deduplication';
+
+const entry = (id: string, sourceFileId: string, changes: Partial<PositiveEntry> = {}): PositiveEntry => ({
+    id,
+    sourceFileId,
+    sourceFile: `${sourceFileId}.pdf`,
+    description: 'PIX RECEBIDO JOAO DA SILVA',
+    amount: 1500,
+    date: '2024-03-10',
+    ...changes,
+});
+
+describe('descriptionSimilarity', () => {
+    it('tolera acentos, pontuação e letras trocadas pelo OCR', () => {
+        expect(descriptionSimilarity('Pix recebido - João', 'PIX RECEBIDO JOAO')).toBe(1);
+        expect(descriptionSimilarity('PIX RECEBIDO JOAO DA SILVA', 'PIX RECEBID0 JOAO DA SILVA')).toBeGreaterThan(0.75);
+        expect(descriptionSimilarity('SALARIO EMPRESA', 'PIX JOAO')).toBeLessThan(0.5);
+    });
+});
+
+describe('fingerprintEntry', () => {
+    it('combina data, valor em centavos e descrição normalizada', () => {
+        expect(fingerprintEntry(entry('a', 'f1', { description: 'Pix: João' }))).toBe('2024-03-10|1500.00|PIX JOAO');
+    });
+});
+
+describe('findDuplicateClusters', () => {
+    it('agrupa o mesmo crédito extraído de documentos diferentes, com tolerância de data', () => {
+        const entries = [
+            entry('a', 'f1'),
+            entry('b', 'f2', { date: '2024-03-11', description: 'PIX RECEBIDO JOAO DA SILV' }),
+            entry('c', 'f2', { amount: 900 }),
+        ];
+        expect(findDuplicateClusters(entries)).toEqual([{ id: 'dup-a', entryIds: ['a', 'b'], similarity: expect.any(Number) }]);
+    });
+
+    it('não sinaliza lançamentos iguais do mesmo documento nem os já revisados', () => {
+        expect(findDuplicateClusters([entry('a', 'f1'), entry('b', 'f1')])).toEqual([]);
+        expect(findDuplicateClusters([entry('a', 'f1'), entry('b', 'f2', { reviewedDuplicate: true })])).toEqual([]);
+    });
+
+    it('não junta, por meio de um terceiro, dois lançamentos do mesmo documento', () => {
+        // a e b são dois PIX distintos do extrato f1; c, de f2, parece com os dois
+        const entries = [entry('a', 'f1'), entry('b', 'f1', { date: '2024-03-11' }), entry('c', 'f2', { date: '2024-03-10' })];
+        const clusters = findDuplicateClusters(entries);
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].entryIds).toContain('c');
+        expect(clusters[0].entryIds).toHaveLength(2);
+    });
+
+    it('usa o documento informado em `documentOf`, e não o nome exibido', () => {
+        // Dois lotes do mesmo PDF com o mesmo nome de arquivo são o mesmo documento
+        const entries = [entry('a', 'lote1', { sourceFile: 'extrato.pdf' }), entry('b', 'lote2', { sourceFile: 'extrato.pdf' })];
+        expect(findDuplicateClusters(entries)).toHaveLength(1);
+        const documents: { [fileId: string]: string } = { lote1: 'doc', lote2: 'doc' };
+        expect(findDuplicateClusters(entries, { documentOf: item => documents[item.sourceFileId!] })).toEqual([]);
+    });
+});
+
+describe('resolveDuplicateCluster', () => {
+    const entries = [
+        entry('a', 'f1', { description: 'PIX JOAO' }),
+        entry('b', 'f2', { description: 'PIX RECEBIDO JOAO DA SILVA' }),
+        entry('c', 'f3', { amount: 200, description: 'OUTRO' }),
+    ];
+    const cluster = { id: 'dup-a', entryIds: ['a', 'b'], similarity: 0.8 };
+
+    it('keep: mantém todos, marcados como revisados', () => {
+        const result = resolveDuplicateCluster(entries, cluster, 'keep');
+        expect(result.map(item => [item.id, item.reviewedDuplicate])).toEqual([['a', true], ['b', true], ['c', undefined]]);
+    });
+
+    it('merge: fica o lançamento mais completo, com a origem dos dois arquivos', () => {
+        const result = resolveDuplicateCluster(entries, cluster, 'merge');
+        expect(result.map(item => item.id)).toEqual(['b', 'c']);
+        expect(result[0]).toMatchObject({ sourceFile: 'f1.pdf + f2.pdf', reviewedDuplicate: true });
+    });
+
+    it('discard: fica o mesmo lançamento da fusão, com a sua própria origem', () => {
+        const result = resolveDuplicateCluster(entries, cluster, 'discard');
+        expect(result.map(item => item.id)).toEqual(['b', 'c']);
+        expect(result[0]).toMatchObject({ sourceFile: 'f2.pdf', reviewedDuplicate: true });
+    });
+});
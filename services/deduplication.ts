@@ -0,0 +1,168 @@
+import type { DuplicateCluster, DuplicateResolution, PositiveEntry } from '../types';
+import { normalizeText } from './parsers/parseUtils';
+
+interface DuplicateOptions {
+    // Diferença máxima, em dias, entre as datas (tolera erros de OCR no dia)
+    dateToleranceDays: number;
+    // Diferença máxima entre os valores, em reais
+    amountTolerance: number;
+    // Similaridade mínima (0 a 1) entre as descrições normalizadas
+    minSimilarity: number;
+    // Só considera duplicados lançamentos vindos de documentos diferentes: no mesmo extrato,
+    // dois PIX iguais no mesmo dia normalmente são lançamentos distintos
+    crossFileOnly: boolean;
+    // Documento de origem do lançamento; os lotes e as páginas separadas de um PDF são o mesmo documento
+    documentOf: (entry: PositiveEntry) => string | undefined;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+    dateToleranceDays: 1,
+    amountTolerance: 0.01,
+    minSimilarity: 0.75,
+    crossFileOnly: true,
+    documentOf: entry => entry.sourceFileId || entry.sourceFile,
+};
+
+/** Descrição reduzida a letras e números, sem acentos, para comparar textos vindos de OCR. */
+export const normalizeDescription = (description: string): string =>
+    normalizeText(description).replace(/[^A-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const fingerprintEntry = (entry: PositiveEntry): string =>
+    `${entry.date}|${entry.amount.toFixed(2)}|${normalizeDescription(entry.description)}`;
+
+const bigrams = (value: string): Map<string, number> => {
+    const result = new Map<string, number>();
+    const compact = value.replace(/ /g, '');
+    for (let i = 0; i < compact.length - 1; i++) {
+        const pair = compact.slice(i, i + 2);
+        result.set(pair, (result.get(pair) || 0) + 1);
+    }
+    return result;
+};
+
+/** Coeficiente de Dice sobre bigramas: robusto a letras trocadas ou faltando. */
+export const descriptionSimilarity = (a: string, b: string): number => {
+    const left = normalizeDescription(a);
+    const right = normalizeDescription(b);
+    if (left === right) return 1;
+    if (left.length < 2 || right.length < 2) return 0;
+
+    const leftPairs = bigrams(left);
+    const rightPairs = bigrams(right);
+    let intersection = 0;
+    leftPairs.forEach((count, pair) => {
+        intersection += Math.min(count, rightPairs.get(pair) || 0);
+    });
+    const total = Array.from(leftPairs.values()).reduce((sum, n) => sum + n, 0)
+        + Array.from(rightPairs.values()).reduce((sum, n) => sum + n, 0);
+    return total === 0 ? 0 : (2 * intersection) / total;
+};
+
+const daysBetween = (a: string, b: string): number =>
+    Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / 86400000;
+
+/**
+ * Agrupa lançamentos que provavelmente são o mesmo crédito extraído de arquivos sobrepostos.
+ * Lançamentos já revisados (mantidos pelo usuário) não voltam a ser sinalizados. Com
+ * `crossFileOnly`, um grupo nunca reúne dois lançamentos do mesmo documento, nem por meio de um terceiro.
+ */
+export const findDuplicateClusters = (
+    entries: PositiveEntry[],
+    options: Partial<DuplicateOptions> = {}
+): DuplicateCluster[] => {
+    const { dateToleranceDays, amountTolerance, minSimilarity, crossFileOnly, documentOf } = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+    const candidates = entries.filter(entry => entry.id && !entry.reviewedDuplicate && entry.date);
+    const documentIds = candidates.map(entry => documentOf(entry) || '');
+
+    // Union-find sobre os índices dos candidatos; cada raiz guarda os documentos do seu grupo
+    const parent = candidates.map((_, index) => index);
+    const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+    const groupDocuments = documentIds.map(id => new Set([id]));
+    const pairScores = new Map<number, number[]>();
+
+    // Ordenar por valor permite comparar só vizinhos dentro da tolerância
+    const order = candidates.map((_, index) => index).sort((a, b) => candidates[a].amount - candidates[b].amount);
+    for (let i = 0; i < order.length; i++) {
+        const left = candidates[order[i]];
+        for (let j = i + 1; j < order.length; j++) {
+            const right = candidates[order[j]];
+            if (right.amount - left.amount > amountTolerance) break;
+            if (crossFileOnly && documentIds[order[i]] === documentIds[order[j]]) continue;
+            if (daysBetween(left.date, right.date) > dateToleranceDays) continue;
+
+            const similarity = descriptionSimilarity(left.description, right.description);
+            if (similarity < minSimilarity) continue;
+
+            const rootLeft = find(order[i]);
+            const rootRight = find(order[j]);
+            if (rootLeft !== rootRight) {
+                // Juntar os grupos poria dois lançamentos do mesmo documento no mesmo grupo
+                const leftDocuments = groupDocuments[rootLeft];
+                if (crossFileOnly && Array.from(groupDocuments[rootRight]).some(id => leftDocuments.has(id))) continue;
+                parent[rootRight] = rootLeft;
+                groupDocuments[rootRight].forEach(id => leftDocuments.add(id));
+            }
+            const scores = pairScores.get(order[i]) || [];
+            scores.push(similarity);
+            pairScores.set(order[i], scores);
+        }
+    }
+
+    const groups = new Map<number, number[]>();
+    candidates.forEach((_, index) => {
+        const root = find(index);
+        groups.set(root, [...(groups.get(root) || []), index]);
+    });
+
+    const clusters: DuplicateCluster[] = [];
+    groups.forEach(members => {
+        if (members.length < 2) return;
+        const scores = members.flatMap(member => pairScores.get(member) || []);
+        clusters.push({
+            id: `dup-${candidates[members[0]].id}`,
+            entryIds: members.map(member => candidates[member].id!),
+            similarity: scores.length ? Math.min(...scores) : 1,
+        });
+    });
+    return clusters;
+};
+
+// Na fusão, fica o lançamento com a descrição mais completa
+const pickSurvivor = (cluster: PositiveEntry[]): PositiveEntry =>
+    cluster.reduce((best, entry) => (entry.description.length > best.description.length ? entry : best), cluster[0]);
+
+/**
+ * Aplica a decisão do usuário sobre um grupo:
+ * - keep: todos os lançamentos são legítimos e ficam marcados como revisados;
+ * - merge: fica um único lançamento, com a origem de todos os arquivos;
+ * - discard: fica o mesmo lançamento que a fusão manteria, com a sua origem; as cópias são removidas.
+ */
+export const resolveDuplicateCluster = (
+    entries: PositiveEntry[],
+    cluster: DuplicateCluster,
+    resolution: DuplicateResolution
+): PositiveEntry[] => {
+    const ids = new Set(cluster.entryIds);
+    const members = entries.filter(entry => entry.id && ids.has(entry.id));
+    if (members.length === 0) return entries;
+
+    if (resolution === 'keep') {
+        return entries.map(entry => (entry.id && ids.has(entry.id) ? { ...entry, reviewedDuplicate: true } : entry));
+    }
+    const survivor = pickSurvivor(members);
+    if (resolution === 'discard') {
+        return entries
+            .filter(entry => !entry.id || !ids.has(entry.id) || entry.id === survivor.id)
+            .map(entry => (entry.id === survivor.id ? { ...entry, reviewedDuplicate: true } : entry));
+    }
+
+    const sources = Array.from(new Set(members.map(entry => entry.sourceFile).filter(Boolean)));
+    const merged: PositiveEntry = {
+        ...survivor,
+        sourceFile: sources.length ? sources.join(' + ') : survivor.sourceFile,
+        reviewedDuplicate: true,
+    };
+    return entries
+        .filter(entry => !entry.id || !ids.has(entry.id) || entry.id === survivor.id)
+        .map(entry => (entry.id === survivor.id ? merged : entry));
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { PositiveEntry } from '../types';
+import { EMPTY_ENTRY_FILTER, filterEntries, isEntryFilterActive, sortEntries } from './entryFilters';
+
+const entry = (id: string, description: string, amount: number, date: string, fields: Partial<PositiveEntry> = {}): PositiveEntry => ({
+    id,
+    description,
+    amount,
+    date,
+    ...fields,
+});
+
+const entries = [
+    entry('a', 'PIX RECEBIDO JOÃO SILVA', 250, '2024-01-10', { category: 'pix', sourceFile: 'janeiro.pdf' }),
+    entry('b', 'SALARIO EMPRESA X', 3000, '2024-01-05', { category: 'salario', tags: ['fixo'] }),
+    entry('c', 'TED RECEBIDA', 1200.5, '2024-02-15', { counterparty: { name: 'MARIA SOUZA', document: '123.456.789-00' } }),
+    entry('d', 'PIX RECEBIDO ANA', 250, '2024-02-20', { category: 'pix', sourceFile: 'fevereiro.pdf' }),
+];
+
+const ids = (list: PositiveEntry[]) => list.map(item => item.id);
+
+describe('filterEntries', () => {
+    it('devolve a mesma lista sem filtro ativo', () => {
+        expect(isEntryFilterActive(EMPTY_ENTRY_FILTER)).toBe(false);
+        expect(isEntryFilterActive({ ...EMPTY_ENTRY_FILTER, query: '   ' })).toBe(false);
+        expect(filterEntries(entries, EMPTY_ENTRY_FILTER)).toBe(entries);
+    });
+
+    it('busca cada palavra, sem acentos, na descrição, no pagador, na categoria, nas etiquetas e no arquivo', () => {
+        const search = (query: string) => ids(filterEntries(entries, { ...EMPTY_ENTRY_FILTER, query }));
+        expect(search('joao pix')).toEqual(['a']);
+        expect(search('maria')).toEqual(['c']);
+        expect(search('123.456')).toEqual(['c']);
+        expect(search('salário benefícios')).toEqual(['b']);
+        expect(search('FIXO')).toEqual(['b']);
+        expect(search('fevereiro')).toEqual(['d']);
+        expect(search('pix maria')).toEqual([]);
+    });
+
+    it('combina mês, datas e faixa de valor, aceitando vírgula decimal', () => {
+        expect(ids(filterEntries(entries, { ...EMPTY_ENTRY_FILTER, month: '2024-02' }))).toEqual(['c', 'd']);
+        expect(ids(filterEntries(entries, { ...EMPTY_ENTRY_FILTER, dateFrom: '2024-01-06', dateTo: '2024-02-15' }))).toEqual(['a', 'c']);
+        expect(ids(filterEntries(entries, { ...EMPTY_ENTRY_FILTER, minAmount: '250', maxAmount: '1200,50' }))).toEqual(['a', 'c', 'd']);
+        // Limite que não é número fica de fora
+        expect(ids(filterEntries(entries, { ...EMPTY_ENTRY_FILTER, minAmount: 'abc', month: '2024-01' }))).toEqual(['a', 'b']);
+    });
+});
+
+describe('sortEntries', () => {
+    it('ordena por data, valor, descrição e categoria nas duas direções', () => {
+        expect(ids(sortEntries(entries, { key: 'date', direction: 'asc' }))).toEqual(['b', 'a', 'c', 'd']);
+        expect(ids(sortEntries(entries, { key: 'amount', direction: 'desc' }))).toEqual(['b', 'c', 'a', 'd']);
+        expect(ids(sortEntries(entries, { key: 'description', direction: 'asc' }))).toEqual(['d', 'a', 'b', 'c']);
+        expect(ids(sortEntries(entries, { key: 'category', direction: 'asc' }))).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    it('mantém a ordem da extração nos empates, também na ordem decrescente', () => {
+        expect(ids(sortEntries(entries, { key: 'amount', direction: 'asc' }))).toEqual(['a', 'd', 'c', 'b']);
+        expect(ids(sortEntries(entries, { key: 'sourceFile', direction: 'desc' }))).toEqual(['a', 'd', 'b', 'c']);
+    });
+});
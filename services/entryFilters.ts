@@ -0,0 +1,73 @@
+import type { EntryFilter, EntrySort, PositiveEntry } from '../types';
+import { getCategoryLabel } from './categorization';
+import { normalizeText } from './parsers/parseUtils';
+
+// Busca, filtros e ordenação do extrato detalhado. O mesmo filtro pode limitar a análise mensal
+// e as exportações, por isso fica fora do componente da tabela.
+
+export const EMPTY_ENTRY_FILTER: EntryFilter = { query: '', dateFrom: '', dateTo: '', minAmount: '', maxAmount: '', month: null };
+
+export const isEntryFilterActive = (filter: EntryFilter): boolean =>
+    !!(filter.query.trim() || filter.dateFrom || filter.dateTo || filter.minAmount || filter.maxAmount || filter.month);
+
+const parseLimit = (value: string): number | null => {
+    if (!value.trim()) return null;
+    const number = Number(value.replace(',', '.'));
+    return Number.isFinite(number) ? number : null;
+};
+
+// Texto pesquisável: descrição, pagador, categoria, etiquetas e arquivo de origem
+const searchableText = (entry: PositiveEntry): string =>
+    normalizeText([
+        entry.description,
+        entry.counterparty?.name,
+        entry.counterparty?.document,
+        getCategoryLabel(entry.category),
+        ...(entry.tags || []),
+        entry.sourceFile,
+    ].filter(Boolean).join(' '));
+
+/** Lançamentos que atendem a todos os filtros preenchidos. Cada palavra da busca precisa aparecer. */
+export const filterEntries = (entries: PositiveEntry[], filter: EntryFilter): PositiveEntry[] => {
+    if (!isEntryFilterActive(filter)) return entries;
+    const terms = normalizeText(filter.query).split(' ').filter(Boolean);
+    const minAmount = parseLimit(filter.minAmount);
+    const maxAmount = parseLimit(filter.maxAmount);
+    return entries.filter(entry => {
+        if (filter.month && !entry.date?.startsWith(filter.month)) return false;
+        if (filter.dateFrom && entry.date < filter.dateFrom) return false;
+        if (filter.dateTo && entry.date > filter.dateTo) return false;
+        if (minAmount !== null && entry.amount < minAmount) return false;
+        if (maxAmount !== null && entry.amount > maxAmount) return false;
+        if (terms.length > 0) {
+            const text = searchableText(entry);
+            if (!terms.every(term => text.includes(term))) return false;
+        }
+        return true;
+    });
+};
+
+const compareText = (a: string | undefined, b: string | undefined) => (a || '').localeCompare(b || '', 'pt-BR', { sensitivity: 'base' });
+
+/** Ordenação estável: empates mantêm a ordem da extração. */
+export const sortEntries = (entries: PositiveEntry[], { key, direction }: EntrySort): PositiveEntry[] => {
+    const factor = direction === 'asc' ? 1 : -1;
+    const compare = (a: PositiveEntry, b: PositiveEntry): number => {
+        switch (key) {
+            case 'amount':
+                return a.amount - b.amount;
+            case 'description':
+                return compareText(a.description, b.description);
+            case 'category':
+                return compareText(getCategoryLabel(a.category), getCategoryLabel(b.category));
+            case 'sourceFile':
+                return compareText(a.sourceFile, b.sourceFile);
+            default:
+                return (a.date || '').localeCompare(b.date || '');
+        }
+    };
+    return entries
+        .map((entry, index) => ({ entry, index }))
+        .sort((a, b) => compare(a.entry, b.entry) * factor || a.index - b.index)
+        .map(({ entry }) => entry);
+};
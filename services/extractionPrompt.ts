@@ -0,0 +1,271 @@
+import { Type } from "@google/genai";
+import type { ExtractionContext, ExtractionMode } from '../types';
+
+// Prompts e schemas compartilhados por todos os backends de extração.
+// O schema usa os tipos do Gemini; `toJsonSchema` converte para JSON Schema padrão (backends compatíveis com OpenAI).
+
+// Entram na chave do cache de respostas: ao mudar prompt ou schema, incremente a versão
+// para que respostas antigas deixem de ser reaproveitadas.
+export const EXTRACTION_PROMPT_VERSION = 1;
+export const GEMINI_MODEL = "gemini-2.5-flash";
+
+// Procedência de cada linha: página, região (convenção box_2d do Gemini) e confiança
+const provenanceProperties = {
+    page: {
+        type: Type.INTEGER,
+        description: "A página do documento onde a transação aparece (começando em 1)."
+    },
+    box2d: {
+        type: Type.ARRAY,
+        description: "A região da linha da transação na página, como [ymin, xmin, ymax, xmax] normalizados de 0 a 1000.",
+        items: { type: Type.INTEGER }
+    },
+    confidence: {
+        type: Type.NUMBER,
+        description: "Sua confiança de 0 a 1 de que descrição, valor e data foram lidos corretamente. Use valores baixos para trechos ilegíveis, borrados ou ambíguos."
+    }
+};
+
+// Quem enviou o crédito, quando aparece no documento
+const counterpartyProperties = {
+    counterpartyName: {
+        type: Type.STRING,
+        nullable: true,
+        description: "O nome de quem enviou ou pagou o valor (contraparte), se aparecer na linha. Nulo se não houver."
+    },
+    counterpartyDocument: {
+        type: Type.STRING,
+        nullable: true,
+        description: "O CPF ou CNPJ da contraparte exatamente como impresso, mesmo que mascarado (ex.: ***.456.789-**). Nulo se não houver."
+    },
+    counterpartyBank: {
+        type: Type.STRING,
+        nullable: true,
+        description: "O banco ou instituição de origem da contraparte, se aparecer. Nulo se não houver."
+    }
+};
+
+// Cabeçalho do extrato: período declarado e dados da conta, usados para conferir a cobertura das datas
+const statementProperties = {
+    statementPeriodStart: {
+        type: Type.STRING,
+        nullable: true,
+        description: "A data inicial do período do extrato, como impressa no cabeçalho, no formato AAAA-MM-DD. Nulo se não houver."
+    },
+    statementPeriodEnd: {
+        type: Type.STRING,
+        nullable: true,
+        description: "A data final do período do extrato, como impressa no cabeçalho, no formato AAAA-MM-DD. Nulo se não houver."
+    },
+    bankName: {
+        type: Type.STRING,
+        nullable: true,
+        description: "O nome do banco que emitiu o extrato. Nulo se não aparecer."
+    },
+    agency: {
+        type: Type.STRING,
+        nullable: true,
+        description: "O número da agência, como impresso. Nulo se não aparecer."
+    },
+    accountNumber: {
+        type: Type.STRING,
+        nullable: true,
+        description: "O número da conta com o dígito, como impresso. Nulo se não aparecer."
+    }
+};
+
+const creditsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        clientName: {
+            type: Type.STRING,
+            description: "O nome completo do titular da conta, conforme encontrado no extrato."
+        },
+        ...statementProperties,
+        positiveEntries: {
+            type: Type.ARRAY,
+            description: "Lista de todas as transações de crédito (valores positivos) encontradas no extrato.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    description: {
+                        type: Type.STRING,
+                        description: "A descrição da transação de crédito (ex: 'SALARIO', 'TRANSF PIX', 'DEPOSITO')."
+                    },
+                    amount: {
+                        type: Type.NUMBER,
+                        description: "O valor numérico da transação de crédito."
+                    },
+                    date: {
+                        type: Type.STRING,
+                        description: "A data em que a transação ocorreu, no formato AAAA-MM-DD."
+                    },
+                    ...provenanceProperties,
+                    ...counterpartyProperties
+                },
+                required: ["description", "amount", "date", "page", "box2d", "confidence"]
+            }
+        }
+    },
+    required: ["clientName", "positiveEntries"]
+};
+
+// Schema da extração completa: todas as linhas com sinal, saldos e página de origem
+const fullSchema = {
+    type: Type.OBJECT,
+    properties: {
+        clientName: {
+            type: Type.STRING,
+            description: "O nome completo do titular da conta, conforme encontrado no extrato."
+        },
+        ...statementProperties,
+        openingBalance: {
+            type: Type.NUMBER,
+            nullable: true,
+            description: "O saldo inicial (saldo anterior) do período do extrato. Nulo se não estiver impresso."
+        },
+        closingBalance: {
+            type: Type.NUMBER,
+            nullable: true,
+            description: "O saldo final do período do extrato. Nulo se não estiver impresso."
+        },
+        pageBalances: {
+            type: Type.ARRAY,
+            description: "Saldo inicial e final impressos em cada página, quando houver.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    page: { type: Type.INTEGER, description: "Número da página (começando em 1)." },
+                    openingBalance: { type: Type.NUMBER, nullable: true, description: "Saldo no topo da página (saldo anterior / a transportar)." },
+                    closingBalance: { type: Type.NUMBER, nullable: true, description: "Saldo no final da página." }
+                },
+                required: ["page", "openingBalance", "closingBalance"]
+            }
+        },
+        transactions: {
+            type: Type.ARRAY,
+            description: "Lista de TODAS as transações do extrato, créditos e débitos, na ordem em que aparecem.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    description: {
+                        type: Type.STRING,
+                        description: "A descrição da transação, como impressa no extrato."
+                    },
+                    amount: {
+                        type: Type.NUMBER,
+                        description: "O valor da transação: positivo para créditos, negativo para débitos."
+                    },
+                    date: {
+                        type: Type.STRING,
+                        description: "A data em que a transação ocorreu, no formato AAAA-MM-DD."
+                    },
+                    balance: {
+                        type: Type.NUMBER,
+                        nullable: true,
+                        description: "O saldo impresso na mesma linha da transação. Nulo se a linha não tiver saldo."
+                    },
+                    ...provenanceProperties,
+                    ...counterpartyProperties
+                },
+                required: ["description", "amount", "date", "balance", "page", "box2d", "confidence"]
+            }
+        }
+    },
+    required: ["clientName", "openingBalance", "closingBalance", "transactions"]
+};
+
+// Resgates, transferências de mesma titularidade etc. não são filtrados pelo modelo:
+// a extração devolve todos os créditos e as regras de receita (services/incomeRules.ts) decidem o que excluir
+const debitInstructions = `
+    Ignore completamente todas as saídas (débitos), como pagamentos, saques, compras no débito ou transferências enviadas.
+    Liste TODOS os créditos, inclusive resgates de aplicações e transferências entre contas do próprio titular: a classificação do que é receita é feita depois, fora desta extração.
+`;
+
+const amountInstructions = `
+    IMPORTANTE: Para o campo 'amount', você deve fornecer um valor numérico puro. Extratos brasileiros usam vírgula como separador decimal e ponto para milhares (ex: 'R$ 1.234,56'). Você DEVE converter este formato para um número JSON válido, como 1234.56. Remova o símbolo 'R$' e qualquer formatação de moeda.
+`;
+
+const provenanceInstructions = `
+    Para cada transação, informe também a página onde ela aparece, a região da linha na página em 'box2d' ([ymin, xmin, ymax, xmax], de 0 a 1000) e a sua confiança na leitura ('confidence', de 0 a 1).
+    Quando estiverem visíveis, informe a contraparte do crédito: nome de quem pagou ('counterpartyName'), o fragmento de CPF/CNPJ ('counterpartyDocument') e o banco de origem ('counterpartyBank'). Não invente: use nulo quando a informação não aparecer.
+`;
+
+const statementInstructions = `
+    Informe também o período do extrato impresso no cabeçalho ('statementPeriodStart' e 'statementPeriodEnd', no formato AAAA-MM-DD), o banco ('bankName'), a agência ('agency') e a conta ('accountNumber'). Não deduza o período pelas datas das transações: se ele não estiver impresso, use nulo.
+`;
+
+const creditsPrompt = `
+    Você é um assistente financeiro especialista em análise de extratos bancários brasileiros.
+    Analise o documento do extrato bancário fornecido (pode ser uma imagem ou PDF).
+    Sua primeira tarefa é identificar o nome completo do titular da conta (cliente) e extraí-lo.
+    Sua segunda tarefa é identificar e extrair TODAS as transações que representam uma entrada de dinheiro (crédito), como depósitos, transferências recebidas (PIX, TED), salários, ou qualquer valor positivo.
+    Para cada transação, extraia a descrição, o valor e a data no formato AAAA-MM-DD.
+    ${statementInstructions}
+    ${provenanceInstructions}
+    ${amountInstructions}
+    ${debitInstructions}
+    Retorne os dados estritamente no formato JSON solicitado, contendo o 'clientName' e uma lista de 'positiveEntries'.
+    Se não houver transações de crédito válidas, retorne uma lista vazia para 'positiveEntries', mas ainda tente fornecer o 'clientName'. Se o nome do cliente não puder ser encontrado, retorne uma string vazia para 'clientName'.
+  `;
+
+const fullPrompt = `
+    Você é um assistente financeiro especialista em análise de extratos bancários brasileiros.
+    Analise o documento do extrato bancário fornecido (pode ser uma imagem ou PDF).
+    Sua primeira tarefa é identificar o nome completo do titular da conta (cliente) e extraí-lo.
+    Sua segunda tarefa é transcrever TODAS as transações do extrato, sem omitir nenhuma linha: créditos E débitos.
+    Para cada transação, extraia a descrição, o valor com sinal (positivo para créditos, negativo para débitos), a data no formato AAAA-MM-DD, o saldo impresso na mesma linha (ou nulo) e o número da página.
+    ${statementInstructions}
+    ${provenanceInstructions}
+    Linhas de saldo ("SALDO ANTERIOR", "SALDO DO DIA", "SALDO FINAL") NÃO são transações: use-as apenas para preencher 'openingBalance', 'closingBalance' e 'pageBalances'.
+    ${amountInstructions}
+    Os dados serão usados para conferir se saldo inicial + créditos - débitos = saldo final, então não invente nem arredonde valores. Se um saldo não estiver impresso, retorne nulo.
+    Retorne os dados estritamente no formato JSON solicitado.
+  `;
+
+// Lotes de um PDF dividido: a página vem numerada dentro do lote, e o cabeçalho do primeiro lote
+// (titular e período) supre as páginas que não o repetem, inclusive o ano de datas impressas sem ele
+const contextInstructions = ({ pageStart, pageEnd, pageCount, clientName, statement }: ExtractionContext, mode: ExtractionMode): string => {
+    const lines = [
+        `Este documento contém só as páginas ${pageStart} a ${pageEnd} de um extrato de ${pageCount} páginas, dividido em partes para a análise.`,
+        `No campo 'page', conte as páginas deste documento a partir de 1 (a página ${pageStart} do extrato é a página 1 aqui).`,
+        "Extraia todas as transações visíveis nestas páginas, inclusive as que começam em uma página e terminam na seguinte.",
+    ];
+    if (mode === 'full') {
+        lines.push("Em 'openingBalance' e 'closingBalance', informe o saldo do início e do fim destas páginas.");
+    }
+    if (clientName) {
+        lines.push(`O titular da conta, lido no cabeçalho do extrato, é "${clientName}": use esse nome em 'clientName' se o cabeçalho não aparecer nestas páginas.`);
+    }
+    if (statement?.periodStart && statement?.periodEnd) {
+        lines.push(`O período do extrato vai de ${statement.periodStart} a ${statement.periodEnd}: use-o em 'statementPeriodStart' e 'statementPeriodEnd' e para completar o ano das datas impressas sem ano.`);
+    }
+    return lines.map(line => `    ${line}`).join('\n');
+};
+
+export const getExtractionPrompt = (mode: ExtractionMode, context?: ExtractionContext): string => {
+    const prompt = mode === 'full' ? fullPrompt : creditsPrompt;
+    return context ? `${prompt}\n${contextInstructions(context, mode)}\n` : prompt;
+};
+
+/** Parte da chave do cache que distingue o mesmo lote analisado com outro contexto. */
+export const extractionContextKey = (context?: ExtractionContext): string =>
+    context
+        ? ['ctx', context.pageStart, context.pageEnd, context.pageCount, context.clientName || '', context.statement?.periodStart || '', context.statement?.periodEnd || ''].join(':')
+        : '';
+
+export const getResponseSchema = (mode: ExtractionMode) => (mode === 'full' ? fullSchema : creditsSchema);
+
+/** Converte o schema no formato do Gemini (tipos em maiúsculas, `nullable`) para JSON Schema. */
+export const toJsonSchema = (schema: any): any => {
+    const { type, nullable, properties, items, ...rest } = schema;
+    const jsonType = String(type).toLowerCase();
+    const result: any = { ...rest, type: nullable ? [jsonType, 'null'] : jsonType };
+    if (properties) {
+        result.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    }
+    if (items) {
+        result.items = toJsonSchema(items);
+    }
+    return result;
+};
@@ -0,0 +1,10 @@
+import type { StatementExtractor } from '../../types';
+import { extractStatement } from '../apiClient';
+import { GEMINI_MODEL } from '../extractionPrompt';
+
+// O Gemini é chamado pelo proxy do servidor, que guarda a chave da API
+export const createGeminiExtractor = (): StatementExtractor => ({
+    backend: 'gemini',
+    cacheKey: `gemini:${GEMINI_MODEL}`,
+    extract: (base64Data, mimeType, mode, options) => extractStatement(base64Data, mimeType, mode, options),
+});
@@ -0,0 +1,77 @@
+import { createWorker } from 'tesseract.js';
+import type { ExtractorSettings, StatementExtractor } from '../../types';
+import { base64ToBytes, extractPdfText, renderPdfPagesToImages } from '../pdfDocument';
+import { parseStatementLines, type TextLine } from '../parsers/textLineParser';
+import { validateExtractorResponse } from '../responseValidation';
+
+// Abaixo disso, consideramos que o PDF não tem camada de texto (é digitalizado) e partimos para o OCR
+const MIN_TEXT_LENGTH = 40;
+
+const getImageSize = (url: string): Promise<{ width: number; height: number }> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+        image.onerror = () => reject(new Error("Não foi possível carregar a imagem para o OCR."));
+        image.src = url;
+    });
+
+const recognizeImages = async (images: string[], settings: ExtractorSettings, signal?: AbortSignal): Promise<TextLine[][]> => {
+    const assetsPath = settings.ocrAssetsPath.replace(/\/$/, '');
+    // Com `ocrAssetsPath` definido, worker, núcleo WASM e dados de idioma são servidos localmente (uso offline)
+    const worker = await createWorker(settings.ocrLanguage || 'por', 1, assetsPath ? {
+        workerPath: `${assetsPath}/worker.min.js`,
+        corePath: assetsPath,
+        langPath: assetsPath,
+    } : {});
+    try {
+        const pages: TextLine[][] = [];
+        for (const image of images) {
+            // O OCR de uma página não pode ser interrompido; o cancelamento vale entre páginas
+            signal?.throwIfAborted();
+            const { width, height } = await getImageSize(image);
+            const { data } = await worker.recognize(image);
+            pages.push(data.lines.map(line => ({
+                text: line.text.trim(),
+                boundingBox: {
+                    x: line.bbox.x0 / width,
+                    y: line.bbox.y0 / height,
+                    width: (line.bbox.x1 - line.bbox.x0) / width,
+                    height: (line.bbox.y1 - line.bbox.y0) / height,
+                },
+                confidence: line.confidence / 100,
+            })));
+        }
+        return pages;
+    } finally {
+        await worker.terminate();
+    }
+};
+
+/**
+ * Backend totalmente local: usa a camada de texto de PDFs digitais e, para imagens e PDFs digitalizados,
+ * OCR com Tesseract (WASM) no navegador. As linhas são interpretadas por regras, sem nenhum modelo de IA.
+ */
+export const createLocalOcrExtractor = (settings: ExtractorSettings): StatementExtractor => ({
+    backend: 'local-ocr',
+    extract: async (base64Data, mimeType, _mode, options = {}) => {
+        let pages: TextLine[][];
+        if (mimeType === 'application/pdf') {
+            const bytes = base64ToBytes(base64Data);
+            pages = await extractPdfText(bytes);
+            if (pages.flat().map(line => line.text).join('').length < MIN_TEXT_LENGTH) {
+                pages = await recognizeImages(await renderPdfPagesToImages(bytes), settings, options.signal);
+            }
+        } else if (mimeType.startsWith('image/')) {
+            pages = await recognizeImages([`data:${mimeType};base64,${base64Data}`], settings, options.signal);
+        } else {
+            throw new Error(`O OCR local não suporta arquivos do tipo "${mimeType}".`);
+        }
+
+        const result = parseStatementLines(pages);
+        if (!result.transactions?.length) {
+            throw new Error("O OCR local não encontrou linhas de transação (data + valor) no documento. Tente uma imagem mais nítida ou outro backend de extração.");
+        }
+        // O parser por regras sempre produz as transações completas, então a validação é a da extração completa
+        return validateExtractorResponse(result, 'full');
+    },
+});
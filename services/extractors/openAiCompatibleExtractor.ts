@@ -0,0 +1,95 @@
+import type { ExtractorSettings, StatementExtractor } from '../../types';
+import { getExtractionPrompt, getResponseSchema, toJsonSchema } from '../extractionPrompt';
+import { base64ToBytes, extractPdfText, renderPdfPagesToImages } from '../pdfDocument';
+import { validateExtractorResponse } from '../responseValidation';
+import { AnalysisError } from '../analysisErrors';
+
+// Partes da mensagem no formato de `/v1/chat/completions`
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+// Modelos locais costumam envolver o JSON em blocos de código markdown
+const extractJson = (content: string): string => {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    return (fenced ? fenced[1] : content).trim();
+};
+
+/**
+ * Backend para qualquer endpoint compatível com `/v1/chat/completions` (Ollama, LM Studio, vLLM, llama.cpp).
+ * PDFs digitais são enviados como texto; imagens e PDFs digitalizados, como imagens.
+ */
+export const createOpenAiCompatibleExtractor = (settings: ExtractorSettings): StatementExtractor => ({
+    backend: 'openai-compatible',
+    // Cada endpoint e modelo tem suas próprias respostas em cache
+    cacheKey: `openai-compatible:${settings.openAiBaseUrl.trim()}:${settings.openAiModel.trim()}`,
+    extract: async (base64Data, mimeType, mode, { signal, onStage, context } = {}) => {
+        if (!settings.openAiBaseUrl.trim() || !settings.openAiModel.trim()) {
+            throw new Error("Configure a URL e o modelo do endpoint compatível com OpenAI nas configurações de extração.");
+        }
+
+        const documentParts: ContentPart[] = [];
+        if (mimeType === 'application/pdf') {
+            const bytes = base64ToBytes(base64Data);
+            const pages = await extractPdfText(bytes);
+            const text = pages.map((lines, index) => `--- Página ${index + 1} ---\n${lines.map(line => line.text).join('\n')}`).join('\n\n');
+            if (pages.flat().some(line => line.text.trim())) {
+                documentParts.push({ type: 'text', text: `Texto extraído do extrato:\n\n${text}` });
+            } else {
+                const images = await renderPdfPagesToImages(bytes);
+                images.forEach(url => documentParts.push({ type: 'image_url', image_url: { url } }));
+            }
+        } else {
+            documentParts.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Data}` } });
+        }
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.openAiApiKey.trim()) {
+            headers.Authorization = `Bearer ${settings.openAiApiKey.trim()}`;
+        }
+
+        onStage?.('waiting');
+        const response = await fetch(`${settings.openAiBaseUrl.trim().replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            signal,
+            headers,
+            body: JSON.stringify({
+                model: settings.openAiModel.trim(),
+                temperature: 0,
+                messages: [{ role: 'user', content: [{ type: 'text', text: getExtractionPrompt(mode, context) }, ...documentParts] }],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'extrato_bancario', schema: toJsonSchema(getResponseSchema(mode)) },
+                },
+            }),
+        }).catch(error => {
+            if (signal?.aborted) throw signal.reason;
+            throw new AnalysisError(`Não foi possível conectar ao endpoint de IA local. ${error?.message || ''}`.trim(), 'network');
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            const kind = response.status === 401 || response.status === 403 ? 'auth' : response.status === 429 ? 'quota' : 'unknown';
+            throw new AnalysisError(`O endpoint de IA local respondeu com erro ${response.status}. ${body.slice(0, 300)}`.trim(), kind);
+        }
+
+        onStage?.('validating');
+        const payload = await response.json();
+        const content = payload?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string' || !content.trim()) {
+            throw new AnalysisError("O endpoint de IA local não retornou conteúdo na resposta.", 'parse');
+        }
+
+        let parsedJson: unknown;
+        try {
+            parsedJson = JSON.parse(extractJson(content));
+        } catch {
+            throw new AnalysisError("O modelo local não retornou um JSON válido. Verifique se ele suporta saída estruturada (response_format).", 'parse');
+        }
+        try {
+            return validateExtractorResponse(parsedJson, mode);
+        } catch (error: any) {
+            throw new AnalysisError(error.message, 'parse');
+        }
+    },
+});
@@ -1,115 +1,99 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import type { GeminiResponse } from '../types';
-
-const schema = {
-    type: Type.OBJECT,
-    properties: {
-        clientName: {
-            type: Type.STRING,
-            description: "O nome completo do titular da conta, conforme encontrado no extrato."
-        },
-        positiveEntries: {
-            type: Type.ARRAY,
-            description: "Lista de todas as transações de crédito (valores positivos) encontradas no extrato que representam receita real.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    description: {
-                        type: Type.STRING,
-                        description: "A descrição da transação de crédito (ex: 'SALARIO', 'TRANSF PIX', 'DEPOSITO')."
-                    },
-                    amount: {
-                        type: Type.NUMBER,
-                        description: "O valor numérico da transação de crédito."
-                    },
-                    date: {
-                        type: Type.STRING,
-                        description: "A data em que a transação ocorreu, no formato AAAA-MM-DD."
-                    }
-                },
-                required: ["description", "amount", "date"]
-            }
-        }
-    },
-    required: ["clientName", "positiveEntries"]
-};
+import type { ExtractionMode, ExtractOptions, GeminiResponse } from '../types';
+import { GEMINI_MODEL, getExtractionPrompt, getResponseSchema } from './extractionPrompt';
+import { validateExtractorResponse } from './responseValidation';
+import { MAX_ATTEMPTS, retryDelay, wait } from './retryPolicy';
+import { AnalysisError, isRetryableError } from './analysisErrors';
+import { isRecord } from './typeGuards';
 
-// Utilitário para pausa (backoff)
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-export const analyzeStatement = async (base64Image: string, mimeType: string): Promise<GeminiResponse> => {
-  
-  // Tenta recuperar a chave de API.
-  // Prioridade: 1. import.meta.env.VITE_API_KEY (Padrão Vite)
-  //             2. process.env.VITE_API_KEY (Fallback Vercel)
-  //             3. process.env.API_KEY (Fallback genérico)
-  
-  let rawApiKey = '';
-
-  // @ts-ignore
-  if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY) {
-      // @ts-ignore
-      rawApiKey = import.meta.env.VITE_API_KEY;
-  } 
-  // @ts-ignore
-  else if (typeof process !== 'undefined' && process.env) {
-       // @ts-ignore
-       rawApiKey = process.env.VITE_API_KEY || process.env.API_KEY || '';
-  }
+// Chamadas ao Gemini. Rodam só no servidor (proxy em server/) e na CLI: a chave da API
+// vem do ambiente do processo e nunca vai para o navegador.
 
-  // Limpeza da chave: remove espaços em branco e aspas acidentais
-  const apiKey = rawApiKey ? rawApiKey.trim().replace(/^["']|["']$/g, '') : '';
+const createGeminiClient = (): GoogleGenAI => {
+  // Prioridade: 1. process.env.GEMINI_API_KEY
+  //             2. process.env.API_KEY (Fallback genérico)
+  const rawApiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
 
-  console.log("Status da API Key:", apiKey ? "Presente" : "Ausente", apiKey ? `(Começa com: ${apiKey.substring(0, 4)}...)` : "");
+  // Limpeza da chave: remove espaços em branco e aspas acidentais
+  const apiKey = rawApiKey.trim().replace(/^["']|["']$/g, '');
 
   if (!apiKey) {
-    throw new Error(
+    throw new AnalysisError(
         "CHAVE DE API NÃO ENCONTRADA.\n\n" +
-        "No Vercel:\n" +
-        "1. Defina a variável de ambiente 'VITE_API_KEY'.\n" +
-        "2. Vá em Deployments > Redeploy para aplicar."
+        "Defina a variável de ambiente 'GEMINI_API_KEY' no servidor e reinicie-o.",
+        'auth'
     );
   }
 
   // Validação básica de formato
   if (!apiKey.startsWith('AIza')) {
-      throw new Error(
-          `A chave de API configurada parece inválida (não começa com 'AIza').\n` +
-          `Valor atual detectado (início): '${apiKey.substring(0, 5)}...'\n` +
-          `Verifique no Vercel se você não copiou o 'Project ID' ou colou caracteres estranhos.`
+      throw new AnalysisError(
+          `A chave de API configurada no servidor parece inválida (não começa com 'AIza').\n` +
+          `Verifique se você não copiou o 'Project ID' ou colou caracteres estranhos.`,
+          'auth'
       );
   }
 
-  const ai = new GoogleGenAI({ apiKey: apiKey });
+  return new GoogleGenAI({ apiKey: apiKey });
+};
 
-  const prompt = `
-    Você é um assistente financeiro especialista em análise de extratos bancários brasileiros.
-    Analise o documento do extrato bancário fornecido (pode ser uma imagem ou PDF).
-    Sua primeira tarefa é identificar o nome completo do titular da conta (cliente) e extraí-lo.
-    Sua segunda tarefa é identificar e extrair TODAS as transações que representam uma entrada de dinheiro (crédito), como depósitos, transferências recebidas (PIX, TED), salários, ou qualquer valor positivo.
-    Para cada transação, extraia a descrição, o valor e a data no formato AAAA-MM-DD.
-    
-    IMPORTANTE: Para o campo 'amount', você deve fornecer um valor numérico puro. Extratos brasileiros usam vírgula como separador decimal e ponto para milhares (ex: 'R$ 1.234,56'). Você DEVE converter este formato para um número JSON válido, como 1234.56. Remova o símbolo 'R$' e qualquer formatação de moeda.
-    
-    REGRAS DE EXCLUSÃO:
-    1. Ignore completamente todas as saídas (débitos), como pagamentos, saques, compras no débito ou transferências enviadas.
-    2. Ignore especificamente transações de crédito que sejam resgates de aplicações financeiras (por exemplo, com descrições como "RESGATE APLICACAO", "RESGATE CDB", ou "resgates de aplicações financeira RBD"). Essas não são novas receitas e não devem ser incluídas na lista de 'positiveEntries'.
-    3. Ignore transações de crédito que sejam transferências da mesma titularidade (do próprio cliente para ele mesmo). Uma vez que você identificou o nome do cliente ('clientName'), ignore quaisquer transações PIX ou TED recebidas onde o remetente é o próprio titular da conta. Descrições comuns para isso incluem 'TRANSF MESMA TITULARIDADE', 'TED C', ou quando o nome do remetente na descrição da transação é o mesmo que 'clientName'. Essas não representam nova receita.
-    
-    Apenas se concentre nos valores de CRÉDITO que representam receita real de TERCEIROS.
-    Retorne os dados estritamente no formato JSON solicitado, contendo o 'clientName' e uma lista de 'positiveEntries'.
-    Se não houver transações de crédito válidas, retorne uma lista vazia para 'positiveEntries', mas ainda tente fornecer o 'clientName'. Se o nome do cliente não puder ser encontrado, retorne uma string vazia para 'clientName'.
-  `;
+/**
+ * Traduz uma falha da chamada ao Gemini em um erro com tipo. A API informa o status HTTP
+ * (`ApiError.status`); falhas de rede e bloqueios de segurança só aparecem na mensagem.
+ */
+const classifyGeminiError = (error: any): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  const msgRaw = error?.message || JSON.stringify(error);
+  const msgUpper = msgRaw.toUpperCase();
+  const status = typeof error?.status === 'number' ? error.status : 0;
+
+  if (status === 401 || status === 403 || msgUpper.includes("API_KEY_INVALID") || msgUpper.includes("PERMISSION_DENIED")) {
+    return new AnalysisError(
+        "Erro de autenticação na IA (API Key Inválida ou Bloqueada).\n\n" +
+        "Possíveis causas:\n" +
+        "1. A chave contém aspas ou espaços (ex: ' AIza... ').\n" +
+        "2. A chave tem 'Restrições de Aplicativo' (HTTP Referrer) no Google AI Studio; chamadas do servidor não enviam referrer.\n\n" +
+        "SOLUÇÃO: Vá ao console do Google (aistudio.google.com/app/apikey) e revise as restrições da chave.",
+        'auth'
+    );
+  }
+  if (status === 400) {
+    return new AnalysisError("A IA recusou o documento (Erro 400). Confira se o arquivo abre normalmente e não está protegido por senha.", 'unsupported');
+  }
+  if (msgUpper.includes("SAFETY")) {
+    return new AnalysisError("A análise foi bloqueada por políticas de segurança do Google. Tente uma imagem diferente (menos complexa ou sem dados sensíveis visíveis).", 'safety');
+  }
+  if (status === 429 || msgUpper.includes("RESOURCE_EXHAUSTED")) {
+    return new AnalysisError("A cota da API do Gemini foi atingida (Erro 429).", 'quota');
+  }
+  if (status === 503 || status === 500 || msgUpper.includes("OVERLOADED") || msgUpper.includes("UNAVAILABLE") || msgUpper.includes("FETCH FAILED")) {
+    return new AnalysisError(`O serviço de IA do Google está sobrecarregado no momento (Erro ${status || 503}).`, 'overloaded');
+  }
+  return new AnalysisError(msgRaw || "Ocorreu um erro desconhecido ao comunicar com a IA.", 'unknown');
+};
+
+export const analyzeStatement = async (
+  base64Image: string,
+  mimeType: string,
+  mode: ExtractionMode = 'credits',
+  // onRetry é chamado antes de cada espera do backoff, para a CLI mostrar as novas tentativas
+  { onRetry, onStage, signal, context }: ExtractOptions = {},
+  // O proxy faz uma tentativa só e deixa o navegador repetir, para não segurar a requisição
+  maxRetries: number = MAX_ATTEMPTS
+): Promise<GeminiResponse> => {
+  const ai = createGeminiClient();
+
+  const prompt = getExtractionPrompt(mode, context);
 
-  // Lógica de Retry para erros 503 (Overloaded), UNAVAILABLE ou falhas de rede
-  // Aumentado para 5 tentativas com tempo base maior devido à instabilidade do modelo 2.5-flash
-  const maxRetries = 5;
-  let lastError: any;
+  // Novas tentativas para sobrecarga (503) e limite de requisições (429), com backoff exponencial
+  let lastError: AnalysisError | null = null;
 
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    let jsonText: string;
     try {
+        onStage?.('waiting');
         const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
+        model: GEMINI_MODEL,
         contents: {
             parts: [
             {
@@ -123,68 +107,100 @@ export const analyzeStatement = async (base64Image: string, mimeType: string): P
         },
         config: {
             responseMimeType: "application/json",
-            responseSchema: schema,
+            responseSchema: getResponseSchema(mode),
+            abortSignal: signal,
         },
         });
-
-        const jsonText = response.text.trim();
-        const parsedJson: GeminiResponse = JSON.parse(jsonText);
-        
-        if (!parsedJson || typeof parsedJson.clientName === 'undefined' || !Array.isArray(parsedJson.positiveEntries)) {
-            throw new Error("A resposta da IA não continha a estrutura esperada (clientName e positiveEntries).");
+        if (!response.text) {
+          // Sem texto, a resposta foi bloqueada (segurança) ou cortada antes do JSON
+          const reason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+          throw String(reason).includes('SAFETY')
+            ? new AnalysisError("A análise foi bloqueada por políticas de segurança do Google. Tente uma imagem diferente (menos complexa ou sem dados sensíveis visíveis).", 'safety')
+            : new AnalysisError(`A IA não devolveu conteúdo${reason ? ` (${reason})` : ''}.`, 'parse');
         }
-        
-        return parsedJson;
+        jsonText = response.text.trim();
     } catch (error: any) {
-        lastError = error;
-        
-        // Normaliza a mensagem de erro para facilitar verificação
-        const msgRaw = error.message || JSON.stringify(error);
-        const msgUpper = msgRaw.toUpperCase();
-        
-        // Verifica se é erro 400 (Autenticação/Bad Request) - Erro fatal
-        if (msgUpper.includes("400") || msgUpper.includes("API_KEY_INVALID") || msgUpper.includes("INVALID_ARGUMENT")) {
-             throw new Error(
-                "Erro 400 (API Key Inválida ou Bloqueada).\n\n" +
-                "Possíveis causas no Vercel:\n" +
-                "1. A chave contém aspas ou espaços (ex: ' AIza... ').\n" +
-                "2. *MAIS COMUM*: Sua chave tem 'Restrições de Aplicativo' (HTTP Referrer) no Google AI Studio que bloqueiam o domínio do Vercel.\n\n" +
-                "SOLUÇÃO: Vá ao console do Google (aistudio.google.com/app/apikey), edite a chave e remova as restrições de domínio temporariamente para testar."
-            );
-        }
-        
-        // Verifica erros de segurança - Fatal
-        if (msgUpper.includes("SAFETY")) {
-             throw new Error("A análise foi bloqueada por políticas de segurança do Google. Tente uma imagem diferente (menos complexa ou sem dados sensíveis visíveis).");
-        }
+        if (signal?.aborted) throw signal.reason;
+        lastError = classifyGeminiError(error);
+        if (!isRetryableError(lastError.kind) || attempt >= maxRetries) break;
+
+        const delay = retryDelay(attempt);
+        console.warn(`Tentativa ${attempt} falhou (${error?.message}). Servidor ocupado. Retentando em ${delay/1000}s...`);
+        onRetry?.({ attempt, maxAttempts: maxRetries, delayMs: delay, reason: lastError.message });
+        await wait(delay, signal);
+        continue;
+    }
 
-        // Verifica erros transitórios (503, 429, Overloaded, Unavailable)
-        const isTransient = 
-            msgUpper.includes("503") || 
-            msgUpper.includes("OVERLOADED") || 
-            msgUpper.includes("429") || 
-            msgUpper.includes("UNAVAILABLE") ||
-            msgUpper.includes("TEMPORARILY_OVERLOADED") ||
-            msgUpper.includes("FETCH FAILED");
-        
-        if (isTransient && attempt < maxRetries - 1) {
-            // Backoff Exponencial mais agressivo: 2s, 4s, 8s, 16s, 32s
-            const delay = 2000 * Math.pow(2, attempt);
-            console.warn(`Tentativa ${attempt + 1} falhou (${msgRaw}). Servidor ocupado. Retentando em ${delay/1000}s...`);
-            await wait(delay); 
-            continue;
-        }
-        
-        // Se chegou aqui, é um erro desconhecido ou esgotou tentativas
-        break;
+    onStage?.('validating');
+    try {
+        return validateExtractorResponse(JSON.parse(jsonText), mode);
+    } catch (error: any) {
+        throw new AnalysisError(error?.message || "A resposta da IA não é um JSON válido.", 'parse');
     }
   }
 
-  // Se saiu do loop sem retornar, lança o último erro com mensagem amigável
-  const finalErrorMessage = lastError?.message || "";
-  if (finalErrorMessage.includes("503") || finalErrorMessage.toUpperCase().includes("OVERLOADED") || finalErrorMessage.toUpperCase().includes("UNAVAILABLE")) {
-      throw new Error("O serviço de IA do Google está extremamente sobrecarregado no momento (Erro 503). O sistema tentou 5 vezes sem sucesso. Por favor, aguarde 1 minuto e tente novamente.");
+  // Esgotou as tentativas (ou falha definitiva): mensagem amigável para sobrecarga
+  if (lastError?.kind === 'overloaded' && maxRetries > 1) {
+      throw new AnalysisError(`O serviço de IA do Google está extremamente sobrecarregado no momento (Erro 503). O sistema tentou ${maxRetries} vezes sem sucesso. Por favor, aguarde 1 minuto e tente novamente.`, 'overloaded');
   }
+  throw lastError || new AnalysisError("Ocorreu um erro desconhecido ao comunicar com a IA.", 'unknown');
+};
 
-  throw new Error(finalErrorMessage || "Ocorreu um erro desconhecido ao comunicar com a IA.");
-};
\ No newline at end of file
+/**
+ * Etapa opcional da categorização: pede à IA a categoria de descrições que o dicionário
+ * de palavras-chave não reconheceu. Devolve um id de categoria por descrição, na mesma ordem.
+ */
+export const suggestIncomeCategories = async (
+  descriptions: string[],
+  categories: { id: string; label: string }[],
+): Promise<string[]> => {
+  if (descriptions.length === 0) return [];
+  const ai = createGeminiClient();
+  const categoryIds = categories.map(category => category.id);
+
+  const prompt = `
+    Você é um analista de crédito classificando entradas de dinheiro em extratos bancários brasileiros.
+    Para cada descrição de crédito abaixo, escolha a categoria de receita mais provável entre:
+    ${categories.map(category => `- ${category.id}: ${category.label}`).join('\n    ')}
+    Use '${categoryIds[categoryIds.length - 1]}' quando não for possível decidir.
+    Retorne exatamente uma categoria por descrição, na mesma ordem, na lista 'categories'.
+
+    Descrições:
+    ${descriptions.map((description, index) => `${index + 1}. ${description}`).join('\n    ')}
+  `;
+
+  let response;
+  try {
+    response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            categories: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING, enum: categoryIds },
+            },
+          },
+          required: ["categories"],
+        },
+      },
+    });
+  } catch (error) {
+    throw classifyGeminiError(error);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse((response.text || '').trim());
+  } catch {
+    throw new AnalysisError("A resposta da IA não é um JSON válido.", 'parse');
+  }
+  const suggestions = isRecord(parsed) ? parsed.categories : undefined;
+  if (!Array.isArray(suggestions) || suggestions.length !== descriptions.length) {
+    throw new AnalysisError("A resposta da IA não trouxe uma categoria para cada descrição.", 'parse');
+  }
+  return suggestions.map((category: unknown) => (typeof category === 'string' && categoryIds.includes(category) ? category : categoryIds[categoryIds.length - 1]));
+};
@@ -0,0 +1,138 @@
+import type { ImagePreprocessing, ImageRotation, NormalizedPoint, SessionFile } from '../types';
+import type { PreprocessRequest, PreprocessResponse } from './imagePreprocessing.worker';
+
+// Tratamento das fotos de extratos antes da análise (giro, recorte pelas bordas do papel,
+// inclinação, contraste, tons de cinza e resolução). O trabalho roda em um Web Worker; sem
+// suporte do navegador, a foto segue como foi enviada.
+
+// Maior lado da imagem tratada: legível para a IA e para o OCR sem pesar no envio
+export const PREPROCESS_MAX_DIMENSION = 2400;
+
+export const FULL_FRAME_CORNERS: NormalizedPoint[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+export interface PreprocessOptions {
+    // Giro e cantos escolhidos pelo usuário; sem eles, o tratamento detecta
+    rotation?: ImageRotation;
+    corners?: NormalizedPoint[];
+}
+
+export interface PreprocessedImage {
+    file: File;
+    preprocessing: ImagePreprocessing;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, { resolve: (response: PreprocessResponse) => void; reject: (error: Error) => void }>();
+
+export const canPreprocessImages = (): boolean =>
+    typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/** Fotos são tratadas; PDFs e arquivos de texto (OFX, CSV, CNAB) não. */
+export const isPreprocessableImage = (file: File): boolean => file.type.startsWith('image/');
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./imagePreprocessing.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+        const request = pendingRequests.get(event.data.id);
+        pendingRequests.delete(event.data.id);
+        request?.resolve(event.data);
+    };
+    // Um worker quebrado falha os pedidos em curso e é recriado no próximo
+    worker.onerror = (event) => {
+        event.preventDefault();
+        pendingRequests.forEach(request => request.reject(new Error(event.message || "O tratamento de imagens parou.")));
+        pendingRequests.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+const toJpegName = (name: string) => `${name.replace(/\.[^.]+$/, '')}.jpg`;
+
+/** Trata a foto no worker e devolve a imagem tratada (JPEG) com o giro, os cantos e a inclinação usados. */
+export const preprocessImage = (originalFile: File, { rotation, corners }: PreprocessOptions = {}): Promise<PreprocessedImage> => {
+    const id = nextRequestId++;
+    const request: PreprocessRequest = { id, image: originalFile, rotation, corners, maxDimension: PREPROCESS_MAX_DIMENSION };
+    return new Promise<PreprocessResponse>((resolve, reject) => {
+        pendingRequests.set(id, { resolve, reject });
+        getWorker().postMessage(request);
+    }).then(response => {
+        if ('error' in response) throw new Error(response.error);
+        return {
+            file: new File([response.image], toJpegName(originalFile.name), { type: 'image/jpeg', lastModified: originalFile.lastModified }),
+            preprocessing: {
+                originalFile,
+                rotation: response.rotation,
+                corners: response.corners,
+                skewAngle: response.skewAngle,
+                manual: rotation !== undefined || corners !== undefined,
+            },
+        };
+    });
+};
+
+/**
+ * Trata as fotos da sessão, uma de cada vez no worker. Uma foto que não puder ser tratada segue
+ * como foi enviada, e a análise continua com ela.
+ */
+export const preprocessSessionFiles = async (files: SessionFile[]): Promise<SessionFile[]> => {
+    if (!canPreprocessImages()) return files;
+    const processed: SessionFile[] = [];
+    for (const sessionFile of files) {
+        if (!isPreprocessableImage(sessionFile.file) || sessionFile.preprocessing) {
+            processed.push(sessionFile);
+            continue;
+        }
+        try {
+            const { file, preprocessing } = await preprocessImage(sessionFile.file);
+            processed.push({ ...sessionFile, file, preprocessing });
+        } catch (error) {
+            console.warn(`Não foi possível tratar a imagem "${sessionFile.name}"; ela será enviada como está.`, error);
+            processed.push(sessionFile);
+        }
+    }
+    return processed;
+};
+
+/**
+ * Desenha a foto original já girada em `canvas`, com o maior lado limitado a `maxSide`, para o
+ * ajuste do recorte (os cantos são relativos a essa imagem).
+ */
+export const drawOrientedImage = async (file: File, rotation: ImageRotation, canvas: HTMLCanvasElement, maxSide: number): Promise<void> => {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+        const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+        const width = Math.round(bitmap.width * scale);
+        const height = Math.round(bitmap.height * scale);
+        const sideways = rotation === 90 || rotation === 270;
+        canvas.width = sideways ? height : width;
+        canvas.height = sideways ? width : height;
+        const context = canvas.getContext('2d')!;
+        context.translate(canvas.width / 2, canvas.height / 2);
+        context.rotate((rotation * Math.PI) / 180);
+        context.drawImage(bitmap, -width / 2, -height / 2, width, height);
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Gira a foto 90° (sentido horário ou anti-horário) levando os cantos junto, na mesma ordem
+ * (superior esquerdo primeiro) da foto girada.
+ */
+export const rotateCorners = (rotation: ImageRotation, corners: NormalizedPoint[], clockwise: boolean): { rotation: ImageRotation; corners: NormalizedPoint[] } => {
+    const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+    if (clockwise) {
+        return {
+            rotation: ((rotation + 90) % 360) as ImageRotation,
+            corners: [bottomLeft, topLeft, topRight, bottomRight].map(({ x, y }) => ({ x: 1 - y, y: x })),
+        };
+    }
+    return {
+        rotation: ((rotation + 270) % 360) as ImageRotation,
+        corners: [topRight, bottomRight, bottomLeft, topLeft].map(({ x, y }) => ({ x: y, y: 1 - x })),
+    };
+};
@@ -0,0 +1,439 @@
+import type { ImageRotation, NormalizedPoint } from '../types';
+
+// Tratamento das fotos de extratos, fora da thread da tela: gira a foto para a leitura, acha as
+// bordas do papel e corrige a perspectiva, endireita a inclinação, tira sombras, normaliza o
+// contraste e reduz a resolução. A saída é um JPEG em tons de cinza.
+
+export interface PreprocessRequest {
+    id: number;
+    image: Blob;
+    // Sem giro ou sem cantos, o worker detecta
+    rotation?: ImageRotation;
+    corners?: NormalizedPoint[];
+    // Maior lado da imagem tratada, em pixels
+    maxDimension: number;
+}
+
+export type PreprocessResponse =
+    | { id: number; image: Blob; rotation: ImageRotation; corners: NormalizedPoint[]; skewAngle: number }
+    | { id: number; error: string };
+
+interface GrayImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+// Tamanho das cópias reduzidas usadas para detectar giro, bordas e inclinação
+const ANALYSIS_SIZE = 600;
+// A imagem de origem do recorte guarda um pouco mais de resolução que a saída
+const SOURCE_SCALE = 1.25;
+// O texto deitado precisa de uma diferença clara entre colunas e linhas para girar a foto
+const ROTATION_RATIO = 1.5;
+// O papel tem de ocupar entre 20% e 97% da foto; fora disso, a foto inteira é o documento
+const MIN_DOCUMENT_AREA = 0.2;
+const MAX_DOCUMENT_AREA = 0.97;
+const MAX_SKEW_DEGREES = 8;
+const SKEW_STEP_DEGREES = 0.25;
+const JPEG_QUALITY = 0.85;
+
+const FULL_FRAME: NormalizedPoint[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+/** Desenha a foto girada em um canvas cujo maior lado não passa de `maxSide`. */
+const drawOriented = (bitmap: ImageBitmap, rotation: ImageRotation, maxSide: number): OffscreenCanvas => {
+    const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const sideways = rotation === 90 || rotation === 270;
+    const canvas = new OffscreenCanvas(sideways ? height : width, sideways ? width : height);
+    const context = canvas.getContext('2d')!;
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate((rotation * Math.PI) / 180);
+    context.drawImage(bitmap, -width / 2, -height / 2, width, height);
+    return canvas;
+};
+
+const toGray = (canvas: OffscreenCanvas): GrayImage => {
+    const { width, height } = canvas;
+    const rgba = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+    const data = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < data.length; i++) {
+        data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    }
+    return { data, width, height };
+};
+
+/** Limiar de Otsu: separa os tons em dois grupos (tinta e papel, ou papel e fundo). */
+const otsuThreshold = (data: Uint8ClampedArray): number => {
+    const histogram = new Array(256).fill(0);
+    data.forEach(value => histogram[value]++);
+    const total = data.length;
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let backgroundSum = 0;
+    let backgroundCount = 0;
+    let bestVariance = -1;
+    let threshold = 128;
+    for (let value = 0; value < 256; value++) {
+        backgroundCount += histogram[value];
+        if (backgroundCount === 0) continue;
+        const foregroundCount = total - backgroundCount;
+        if (foregroundCount === 0) break;
+        backgroundSum += value * histogram[value];
+        const meanBackground = backgroundSum / backgroundCount;
+        const meanForeground = (sum - backgroundSum) / foregroundCount;
+        const variance = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            threshold = value;
+        }
+    }
+    return threshold;
+};
+
+/** Média de cada pixel na janela (2r+1)², por imagem integral. */
+const boxBlur = ({ data, width, height }: GrayImage, radius: number): Float32Array => {
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += data[y * width + x];
+            integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+        }
+    }
+    const blurred = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const top = Math.max(0, y - radius);
+        const bottom = Math.min(height, y + radius + 1);
+        for (let x = 0; x < width; x++) {
+            const left = Math.max(0, x - radius);
+            const right = Math.min(width, x + radius + 1);
+            const area = (bottom - top) * (right - left);
+            blurred[y * width + x] = (
+                integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+                - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left]
+            ) / area;
+        }
+    }
+    return blurred;
+};
+
+const variance = (values: ArrayLike<number>): number => {
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < values.length; i++) {
+        sum += values[i];
+        sumSquares += values[i] * values[i];
+    }
+    const mean = sum / values.length;
+    return sumSquares / values.length - mean * mean;
+};
+
+const standardDeviation = (values: number[]): number => Math.sqrt(variance(values));
+
+/**
+ * Giro que deixa as linhas de texto na horizontal. Com o texto deitado, as colunas alternam tinta
+ * e espaço como as linhas fariam; o início das linhas (margem esquerda, a mais alinhada) diz para
+ * que lado girar. Uma foto de cabeça para baixo não é reconhecida: o usuário gira no ajuste.
+ */
+const detectRotation = (gray: GrayImage): ImageRotation => {
+    const { data, width, height } = gray;
+    const threshold = otsuThreshold(data);
+    const rowInk = new Float64Array(height);
+    const columnInk = new Float64Array(width);
+    const firstInk = new Array<number>(width).fill(-1);
+    const lastInk = new Array<number>(width).fill(-1);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[y * width + x] >= threshold) continue;
+            rowInk[y]++;
+            columnInk[x]++;
+            if (firstInk[x] < 0) firstInk[x] = y;
+            lastInk[x] = y;
+        }
+    }
+    if (variance(columnInk) <= variance(rowInk) * ROTATION_RATIO) return 0;
+
+    // Só as colunas com mais tinta que a média são linhas de texto
+    const meanInk = columnInk.reduce((acc, value) => acc + value, 0) / width;
+    const textColumns = Array.from({ length: width }, (_, x) => x).filter(x => columnInk[x] > meanInk);
+    const topSpread = standardDeviation(textColumns.map(x => firstInk[x]));
+    const bottomSpread = standardDeviation(textColumns.map(x => height - 1 - lastInk[x]));
+    // Linhas começando no alto: a foto foi girada no sentido horário e volta com 270°
+    return topSpread <= bottomSpread ? 270 : 90;
+};
+
+/**
+ * Cantos do papel: a maior região clara da foto borrada (o papel contra um fundo mais escuro) e
+ * seus pontos extremos nas diagonais. Sem um papel bem separado do fundo, fica a foto inteira.
+ */
+const detectCorners = (gray: GrayImage): NormalizedPoint[] => {
+    const { width, height } = gray;
+    const blurred = boxBlur(gray, Math.max(2, Math.round(Math.max(width, height) / 150)));
+    const smooth = Uint8ClampedArray.from(blurred);
+    const threshold = otsuThreshold(smooth);
+
+    // Maior região clara (vizinhança de 4), por busca com pilha
+    const labels = new Int32Array(width * height);
+    const stack = new Int32Array(width * height);
+    let bestLabel = 0;
+    let bestArea = 0;
+    let label = 0;
+    for (let start = 0; start < smooth.length; start++) {
+        if (labels[start] || smooth[start] <= threshold) continue;
+        label++;
+        let area = 0;
+        let top = 0;
+        stack[top++] = start;
+        labels[start] = label;
+        while (top > 0) {
+            const index = stack[--top];
+            area++;
+            const x = index % width;
+            const neighbours = [
+                x > 0 ? index - 1 : -1,
+                x < width - 1 ? index + 1 : -1,
+                index - width,
+                index + width,
+            ];
+            for (const next of neighbours) {
+                if (next < 0 || next >= smooth.length || labels[next] || smooth[next] <= threshold) continue;
+                labels[next] = label;
+                stack[top++] = next;
+            }
+        }
+        if (area > bestArea) {
+            bestArea = area;
+            bestLabel = label;
+        }
+    }
+    const total = width * height;
+    if (bestArea < total * MIN_DOCUMENT_AREA || bestArea > total * MAX_DOCUMENT_AREA) return FULL_FRAME;
+
+    let topLeft = { x: 0, y: 0, score: Infinity };
+    let bottomRight = { x: 0, y: 0, score: -Infinity };
+    let topRight = { x: 0, y: 0, score: -Infinity };
+    let bottomLeft = { x: 0, y: 0, score: Infinity };
+    for (let index = 0; index < labels.length; index++) {
+        if (labels[index] !== bestLabel) continue;
+        const x = index % width;
+        const y = Math.floor(index / width);
+        if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+        if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+        if (x - y > topRight.score) topRight = { x, y, score: x - y };
+        if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+    }
+    const corners = [topLeft, topRight, bottomRight, bottomLeft].map(({ x, y }) => ({ x: x / (width - 1), y: y / (height - 1) }));
+    // Um quadrilátero pequeno demais indica que as diagonais não acharam os cantos do papel
+    return polygonArea(corners) < MIN_DOCUMENT_AREA ? FULL_FRAME : corners;
+};
+
+const polygonArea = (points: Point[]): number =>
+    Math.abs(points.reduce((acc, point, i) => {
+        const next = points[(i + 1) % points.length];
+        return acc + point.x * next.y - next.x * point.y;
+    }, 0)) / 2;
+
+/** Resolve o sistema linear por eliminação de Gauss com pivoteamento parcial. */
+const solveLinear = (matrix: number[][], values: number[]): number[] => {
+    const size = values.length;
+    const rows = matrix.map((row, i) => [...row, values[i]]);
+    for (let column = 0; column < size; column++) {
+        let pivot = column;
+        for (let row = column + 1; row < size; row++) {
+            if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+        }
+        [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+        for (let row = column + 1; row < size; row++) {
+            const factor = rows[row][column] / rows[column][column];
+            for (let k = column; k <= size; k++) rows[row][k] -= factor * rows[column][k];
+        }
+    }
+    const solution = new Array<number>(size).fill(0);
+    for (let row = size - 1; row >= 0; row--) {
+        let sum = rows[row][size];
+        for (let k = row + 1; k < size; k++) sum -= rows[row][k] * solution[k];
+        solution[row] = sum / rows[row][row];
+    }
+    return solution;
+};
+
+/** Homografia que leva os quatro pontos `from` aos quatro pontos `to`. */
+const computeHomography = (from: Point[], to: Point[]): number[] => {
+    const matrix: number[][] = [];
+    const values: number[] = [];
+    from.forEach(({ x, y }, i) => {
+        const { x: u, y: v } = to[i];
+        matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+        values.push(u);
+        matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+        values.push(v);
+    });
+    return [...solveLinear(matrix, values), 1];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Recorta o quadrilátero `quad` (em pixels de `source`) para um retângulo de `width` x `height`,
+ * girando o resultado em `angle` graus para desfazer a inclinação. O que cai fora da foto fica branco.
+ */
+const warpGray = (source: GrayImage, quad: Point[], width: number, height: number, angle = 0): GrayImage => {
+    const h = computeHomography([{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }], quad);
+    const cos = Math.cos((angle * Math.PI) / 180);
+    const sin = Math.sin((angle * Math.PI) / 180);
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const data = new Uint8ClampedArray(width * height);
+    const { data: pixels, width: sourceWidth, height: sourceHeight } = source;
+    for (let v = 0; v < height; v++) {
+        for (let u = 0; u < width; u++) {
+            const x = cos * (u - centerX) - sin * (v - centerY) + centerX;
+            const y = sin * (u - centerX) + cos * (v - centerY) + centerY;
+            const w = h[6] * x + h[7] * y + h[8];
+            const sx = (h[0] * x + h[1] * y + h[2]) / w;
+            const sy = (h[3] * x + h[4] * y + h[5]) / w;
+            if (sx < 0 || sy < 0 || sx > sourceWidth - 1 || sy > sourceHeight - 1) {
+                data[v * width + u] = 255;
+                continue;
+            }
+            // Interpolação bilinear
+            const x0 = Math.floor(sx);
+            const y0 = Math.floor(sy);
+            const x1 = Math.min(x0 + 1, sourceWidth - 1);
+            const y1 = Math.min(y0 + 1, sourceHeight - 1);
+            const fx = sx - x0;
+            const fy = sy - y0;
+            const top = pixels[y0 * sourceWidth + x0] * (1 - fx) + pixels[y0 * sourceWidth + x1] * fx;
+            const bottom = pixels[y1 * sourceWidth + x0] * (1 - fx) + pixels[y1 * sourceWidth + x1] * fx;
+            data[v * width + u] = top * (1 - fy) + bottom * fy;
+        }
+    }
+    return { data, width, height };
+};
+
+/**
+ * Inclinação, em graus, que deixa as linhas de texto na horizontal: o ângulo em que a tinta se
+ * concentra em menos faixas (maior variância da soma por linha). Usa o mesmo giro de `warpGray`.
+ */
+const detectSkew = (gray: GrayImage): number => {
+    const { data, width, height } = gray;
+    const threshold = otsuThreshold(data);
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[y * width + x] < threshold) {
+                xs.push(x - width / 2);
+                ys.push(y - height / 2);
+            }
+        }
+    }
+    if (xs.length === 0) return 0;
+    let bestAngle = 0;
+    let bestScore = -1;
+    const bins = new Float64Array(height * 2);
+    for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+        const cos = Math.cos((angle * Math.PI) / 180);
+        const sin = Math.sin((angle * Math.PI) / 180);
+        bins.fill(0);
+        for (let i = 0; i < xs.length; i++) {
+            // Posição do ponto de tinta na imagem girada (inverso do giro de `warpGray`)
+            const row = Math.round(-sin * xs[i] + cos * ys[i] + height);
+            if (row >= 0 && row < bins.length) bins[row]++;
+        }
+        const score = variance(bins);
+        if (score > bestScore) {
+            bestScore = score;
+            bestAngle = angle;
+        }
+    }
+    return bestAngle;
+};
+
+/**
+ * Tira sombras e iluminação desigual (divide cada pixel pela média da vizinhança, que estima o
+ * papel sem a tinta) e estica o contraste entre os percentis 1% e 99%.
+ */
+const normalizeContrast = (gray: GrayImage): GrayImage => {
+    const { data, width, height } = gray;
+    const background = boxBlur(gray, Math.max(8, Math.round(Math.max(width, height) / 40)));
+    const flattened = new Uint8ClampedArray(data.length);
+    for (let i = 0; i < data.length; i++) {
+        flattened[i] = (data[i] / Math.max(1, background[i])) * 235;
+    }
+    const histogram = new Array(256).fill(0);
+    flattened.forEach(value => histogram[value]++);
+    const percentile = (fraction: number) => {
+        let count = 0;
+        for (let value = 0; value < 256; value++) {
+            count += histogram[value];
+            if (count >= flattened.length * fraction) return value;
+        }
+        return 255;
+    };
+    const low = percentile(0.01);
+    const high = Math.max(low + 1, percentile(0.99));
+    for (let i = 0; i < flattened.length; i++) {
+        flattened[i] = ((flattened[i] - low) / (high - low)) * 255;
+    }
+    return { data: flattened, width, height };
+};
+
+const encodeJpeg = ({ data, width, height }: GrayImage): Promise<Blob> => {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    const imageData = context.createImageData(width, height);
+    for (let i = 0; i < data.length; i++) {
+        imageData.data[i * 4] = data[i];
+        imageData.data[i * 4 + 1] = data[i];
+        imageData.data[i * 4 + 2] = data[i];
+        imageData.data[i * 4 + 3] = 255;
+    }
+    context.putImageData(imageData, 0, 0);
+    return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+};
+
+const preprocess = async ({ image, rotation, corners, maxDimension }: PreprocessRequest) => {
+    // A orientação gravada pela câmera (EXIF) é aplicada já na leitura
+    const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+    try {
+        const finalRotation = rotation ?? detectRotation(toGray(drawOriented(bitmap, 0, ANALYSIS_SIZE)));
+        const analysis = toGray(drawOriented(bitmap, finalRotation, ANALYSIS_SIZE));
+        const finalCorners = corners ?? detectCorners(analysis);
+
+        const toPixels = (gray: GrayImage) => finalCorners.map(({ x, y }) => ({ x: x * (gray.width - 1), y: y * (gray.height - 1) }));
+        const source = toGray(drawOriented(bitmap, finalRotation, maxDimension * SOURCE_SCALE));
+        const quad = toPixels(source);
+        // O retângulo de saída tem os lados mais longos do quadrilátero, limitado à resolução pedida
+        const quadWidth = Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2]));
+        const quadHeight = Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2]));
+        const scale = Math.min(1, maxDimension / Math.max(quadWidth, quadHeight));
+        const width = Math.max(1, Math.round(quadWidth * scale));
+        const height = Math.max(1, Math.round(quadHeight * scale));
+
+        // A inclinação é medida na cópia reduzida já recortada
+        const analysisScale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+        const skewAngle = detectSkew(warpGray(analysis, toPixels(analysis), Math.max(1, Math.round(width * analysisScale)), Math.max(1, Math.round(height * analysisScale))));
+
+        const processed = normalizeContrast(warpGray(source, quad, width, height, skewAngle));
+        return { image: await encodeJpeg(processed), rotation: finalRotation, corners: finalCorners, skewAngle };
+    } finally {
+        bitmap.close();
+    }
+};
+
+self.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+    const { id } = event.data;
+    let response: PreprocessResponse;
+    try {
+        response = { id, ...(await preprocess(event.data)) };
+    } catch (error: any) {
+        response = { id, error: error?.message || "Não foi possível tratar a imagem." };
+    }
+    self.postMessage(response);
+};
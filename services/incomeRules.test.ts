@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { IncomeRule, PositiveEntry } from '../types';
+import { applyIncomeRules, DEFAULT_INCOME_RULES, exportIncomeRules, importIncomeRules, matchesIncomeRule } from './incomeRules';
+
+const entry = (description: string, changes: Partial<PositiveEntry> = {}): PositiveEntry => ({ description, amount: 1000, date: '2024-03-10', ...changes });
+
+const rule = (changes: Partial<IncomeRule>): IncomeRule => ({ id: 'r', name: 'Regra', enabled: true, action: 'exclude', ...changes });
+
+describe('matchesIncomeRule', () => {
+    it('exige todas as condições preenchidas, comparando a descrição sem acentos', () => {
+        const salary = rule({ descriptionPattern: 'SALARIO', minAmount: 500, startDate: '2024-03-01', endDate: '2024-03-31' });
+        expect(matchesIncomeRule(entry('Salário março'), salary)).toBe(true);
+        expect(matchesIncomeRule(entry('Salário março', { amount: 100 }), salary)).toBe(false);
+        expect(matchesIncomeRule(entry('Salário abril', { date: '2024-04-01' }), salary)).toBe(false);
+    });
+
+    it('procura a contraparte na descrição ou no pagador identificado', () => {
+        const payer = rule({ counterparty: 'Acme' });
+        expect(matchesIncomeRule(entry('PIX RECEBIDO', { counterparty: { name: 'ACME LTDA' } }), payer)).toBe(true);
+        expect(matchesIncomeRule(entry('PIX RECEBIDO'), payer)).toBe(false);
+    });
+
+    it('ignora nomes de titular curtos demais e expressões inválidas', () => {
+        const owner = rule({ matchClientName: true });
+        expect(matchesIncomeRule(entry('TED MARIA SOUZA'), owner, 'Maria Souza')).toBe(true);
+        expect(matchesIncomeRule(entry('TED ANA'), owner, 'Ana')).toBe(false);
+        expect(matchesIncomeRule(entry('QUALQUER'), rule({ descriptionPattern: '(' }))).toBe(false);
+    });
+});
+
+describe('applyIncomeRules', () => {
+    it('exclui pela primeira regra que casar e registra qual foi', () => {
+        const { entries, excluded } = applyIncomeRules(
+            [entry('RESGATE CDB'), entry('PIX RECEBIDO CLIENTE'), entry('TED MARIA SOUZA')],
+            DEFAULT_INCOME_RULES,
+            'Maria Souza'
+        );
+        expect(entries.map(item => item.description)).toEqual(['PIX RECEBIDO CLIENTE']);
+        expect(excluded.map(item => item.ruleId)).toEqual(['default-resgate-aplicacao', 'default-proprio-titular']);
+    });
+
+    it('exclui pela regra padrão só os resgates de investimento', () => {
+        const redemptions = ['RESGATE APLICACAO', 'RESGATE DE APLICAÇÃO AUTOMÁTICA', 'RESGATE CDB', 'RESG. APLIC. FINANC.', 'RESGATE RDB', 'RESGATES DE APLICACOES FINANCEIRA RBD'];
+        const income = ['RESGATE SEGURO DE VIDA', 'RESGATE PREVIDENCIA PRIVADA PAGTO BENEFICIO', 'PIX RESGATE PREMIO'];
+        const { entries, excluded } = applyIncomeRules([...redemptions, ...income].map(description => entry(description)), DEFAULT_INCOME_RULES);
+        expect(excluded.map(item => item.entry.description)).toEqual(redemptions);
+        expect(entries.map(item => item.description)).toEqual(income);
+    });
+
+    it('acumula etiquetas, aplica a última categoria e não sobrescreve a escolha manual', () => {
+        const rules = [
+            rule({ id: 't1', action: 'tag', value: 'cliente', descriptionPattern: 'PIX' }),
+            rule({ id: 't2', action: 'tag', value: 'cliente', descriptionPattern: 'RECEBIDO' }),
+            rule({ id: 'c1', action: 'recategorize', value: 'vendas', descriptionPattern: 'PIX' }),
+            rule({ id: 'c2', action: 'recategorize', value: 'servicos', descriptionPattern: 'PIX' }),
+        ];
+        const { entries } = applyIncomeRules([entry('PIX RECEBIDO'), entry('PIX RECEBIDO', { category: 'salario', categorySource: 'manual' })], rules);
+        expect(entries[0]).toMatchObject({ tags: ['cliente'], category: 'servicos', categorySource: 'rule' });
+        expect(entries[1]).toMatchObject({ tags: ['cliente'], category: 'salario', categorySource: 'manual' });
+    });
+
+    it('pode ser reaplicada: etiquetas e categorias de regras anteriores são recalculadas', () => {
+        const tagged = entry('PIX RECEBIDO', { tags: ['antiga'], category: 'vendas', categorySource: 'rule' });
+        expect(applyIncomeRules([tagged], []).entries).toEqual([entry('PIX RECEBIDO')]);
+    });
+
+    it('mantém na receita o lançamento restaurado pelo usuário e ignora regras desativadas', () => {
+        const { entries, excluded } = applyIncomeRules(
+            [entry('RESGATE CDB', { exclusionOverridden: true }), entry('PIX')],
+            [...DEFAULT_INCOME_RULES, rule({ enabled: false, descriptionPattern: 'PIX' })]
+        );
+        expect(entries).toHaveLength(2);
+        expect(excluded).toEqual([]);
+    });
+});
+
+describe('importIncomeRules', () => {
+    it('lê o que foi exportado', () => {
+        expect(importIncomeRules(exportIncomeRules(DEFAULT_INCOME_RULES))).toEqual(DEFAULT_INCOME_RULES);
+    });
+
+    it('aceita uma lista simples e descarta campos desconhecidos ou inválidos', () => {
+        const [imported] = importIncomeRules(JSON.stringify([
+            { id: 'x', name: ' Salário ', action: 'tag', value: 'fixo', minAmount: '100', extra: true, enabled: undefined },
+        ]));
+        expect(imported).toEqual({ id: 'x', name: 'Salário', enabled: true, action: 'tag', value: 'fixo' });
+    });
+
+    it('recusa arquivos e regras inválidos', () => {
+        expect(() => importIncomeRules('{')).toThrow("O arquivo de regras não é um JSON válido.");
+        expect(() => importIncomeRules('{"rules": 1}')).toThrow("O arquivo não contém uma lista de regras.");
+        expect(() => importIncomeRules('{"version": 99, "rules": []}')).toThrow("O arquivo de regras foi gerado por uma versão mais nova (versão 99).");
+        expect(() => importIncomeRules('[null]')).toThrow("A regra 1 não é um objeto válido.");
+        expect(() => importIncomeRules('[{"name": "A", "action": "apagar"}]')).toThrow('A regra "A" tem uma ação desconhecida: apagar.');
+        expect(() => importIncomeRules('[{"name": "A", "action": "exclude", "descriptionPattern": "("}]')).toThrow('A regra "A" tem uma expressão regular inválida.');
+    });
+});
@@ -0,0 +1,222 @@
+import type { ExcludedEntry, IncomeRule, IncomeRuleAction, PositiveEntry } from '../types';
+import { normalizeText } from './parsers/parseUtils';
+import { createId } from './analysisSession';
+import { isRecord, withoutUndefined } from './typeGuards';
+
+// Regras de receita: decidem, depois da extração, quais créditos não são receita de terceiros
+// (exclusão), além de etiquetar ou recategorizar lançamentos. Todas as condições preenchidas
+// em uma regra precisam ser atendidas; as regras são avaliadas na ordem da lista.
+
+const RULES_STORAGE_KEY = 'analisador.incomeRules';
+const RULE_SET_FORMAT = 'analisador-regras-receita';
+const RULE_SET_VERSION = 1;
+
+export const INCOME_RULE_ACTIONS: { id: IncomeRuleAction; label: string }[] = [
+    { id: 'exclude', label: 'Excluir da receita' },
+    { id: 'tag', label: 'Adicionar etiqueta' },
+    { id: 'recategorize', label: 'Definir categoria' },
+];
+
+// Exclusões que antes eram texto livre no prompt da extração
+export const DEFAULT_INCOME_RULES: IncomeRule[] = [
+    {
+        id: 'default-resgate-aplicacao',
+        name: 'Resgate de aplicação financeira',
+        enabled: true,
+        // Só resgates de investimento: resgate de seguro ou de benefício é receita
+        descriptionPattern: 'RESGATE (DE )?(APLIC|CDB|RDB)|RESG\\.? APLIC|\\bRBD\\b|\\bRDB\\b',
+        action: 'exclude',
+    },
+    {
+        id: 'default-mesma-titularidade',
+        name: 'Transferência de mesma titularidade',
+        enabled: true,
+        descriptionPattern: 'MESMA TITULARIDADE|MESMA TITULAR|TED C\\b|TRANSF(ERENCIA)? ENTRE CONTAS',
+        action: 'exclude',
+    },
+    {
+        id: 'default-proprio-titular',
+        name: 'Crédito enviado pelo próprio titular',
+        enabled: true,
+        matchClientName: true,
+        action: 'exclude',
+    },
+];
+
+/** Compila o padrão da regra; devolve `null` quando a expressão regular é inválida. */
+export const compileRulePattern = (pattern: string): RegExp | null => {
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+};
+
+export const matchesIncomeRule = (entry: PositiveEntry, rule: IncomeRule, clientName = ''): boolean => {
+    const description = normalizeText(entry.description);
+
+    if (rule.descriptionPattern) {
+        const pattern = compileRulePattern(rule.descriptionPattern);
+        if (!pattern || !pattern.test(description)) return false;
+    }
+    if (rule.counterparty) {
+        const counterparty = normalizeText(rule.counterparty);
+        const payer = normalizeText(entry.counterparty?.name || '');
+        if (!counterparty || !(description.includes(counterparty) || payer.includes(counterparty))) return false;
+    }
+    if (rule.matchClientName) {
+        // Nomes muito curtos casariam com qualquer descrição
+        const name = normalizeText(clientName);
+        if (name.length <= 3 || !description.includes(name)) return false;
+    }
+    if (rule.minAmount != null && entry.amount < rule.minAmount) return false;
+    if (rule.maxAmount != null && entry.amount > rule.maxAmount) return false;
+    if (rule.startDate && entry.date < rule.startDate) return false;
+    if (rule.endDate && entry.date > rule.endDate) return false;
+    return true;
+};
+
+/**
+ * Aplica as regras ativas aos créditos. A primeira regra de exclusão que casar remove o lançamento
+ * (registrando qual regra o removeu); etiquetas se acumulam e a última categoria vale.
+ * Etiquetas e categorias de regras anteriores são recalculadas, então a função pode ser reaplicada;
+ * categorias escolhidas manualmente não são sobrescritas.
+ */
+export const applyIncomeRules = (
+    entries: PositiveEntry[],
+    rules: IncomeRule[],
+    clientName = '',
+): { entries: PositiveEntry[]; excluded: ExcludedEntry[] } => {
+    const activeRules = rules.filter(rule => rule.enabled);
+    const included: PositiveEntry[] = [];
+    const excluded: ExcludedEntry[] = [];
+
+    entries.forEach(original => {
+        // Categorias vindas de regras são recalculadas; as demais (manual, palavras-chave) são mantidas
+        const { tags: _tags, ...entry } = original;
+        if (entry.categorySource === 'rule') {
+            delete entry.category;
+            delete entry.categorySource;
+        }
+        const tags: string[] = [];
+        let category: string | undefined;
+        let excludedBy: IncomeRule | undefined;
+
+        for (const rule of activeRules) {
+            if (!matchesIncomeRule(entry, rule, clientName)) continue;
+            if (rule.action === 'exclude') {
+                if (entry.exclusionOverridden) continue;
+                excludedBy = rule;
+                break;
+            }
+            if (rule.action === 'tag' && rule.value && !tags.includes(rule.value)) tags.push(rule.value);
+            if (rule.action === 'recategorize' && rule.value) category = rule.value;
+        }
+
+        const result: PositiveEntry = { ...entry };
+        if (tags.length > 0) result.tags = tags;
+        if (category && entry.categorySource !== 'manual') {
+            result.category = category;
+            result.categorySource = 'rule';
+        }
+
+        if (excludedBy) {
+            excluded.push({ entry: result, ruleId: excludedBy.id, ruleName: excludedBy.name });
+        } else {
+            included.push(result);
+        }
+    });
+
+    return { entries: included, excluded };
+};
+
+// Exclusões feitas à mão na tabela não vêm de uma regra e sobrevivem à reaplicação das regras
+export const MANUAL_EXCLUSION_RULE_ID = 'manual';
+
+export const createManualExclusion = (entry: PositiveEntry): ExcludedEntry => ({
+    entry,
+    ruleId: MANUAL_EXCLUSION_RULE_ID,
+    ruleName: 'Excluído manualmente',
+});
+
+export const createIncomeRule = (changes: Partial<IncomeRule> = {}): IncomeRule => ({
+    id: createId('rule'),
+    name: '',
+    enabled: true,
+    action: 'exclude',
+    ...changes,
+});
+
+const isRuleAction = (value: unknown): value is IncomeRuleAction => INCOME_RULE_ACTIONS.some(action => action.id === value);
+
+/** Confere uma regra vinda de fora (arquivo importado, armazenamento local) e descarta campos desconhecidos. */
+const sanitizeIncomeRule = (value: unknown, index: number): IncomeRule => {
+    if (!isRecord(value)) {
+        throw new Error(`A regra ${index + 1} não é um objeto válido.`);
+    }
+    const { name, action } = value;
+    if (typeof name !== 'string' || !name.trim()) {
+        throw new Error(`A regra ${index + 1} não tem nome.`);
+    }
+    if (!isRuleAction(action)) {
+        throw new Error(`A regra "${name}" tem uma ação desconhecida: ${String(action)}.`);
+    }
+    if (value.descriptionPattern && !compileRulePattern(String(value.descriptionPattern))) {
+        throw new Error(`A regra "${name}" tem uma expressão regular inválida.`);
+    }
+
+    const optionalString = (field: unknown) => (typeof field === 'string' && field.trim() ? field.trim() : undefined);
+    const optionalNumber = (field: unknown) => (typeof field === 'number' && Number.isFinite(field) ? field : undefined);
+    return withoutUndefined<IncomeRule>({
+        id: optionalString(value.id) || createId('rule'),
+        name: name.trim(),
+        enabled: value.enabled !== false,
+        action,
+        descriptionPattern: optionalString(value.descriptionPattern),
+        counterparty: optionalString(value.counterparty),
+        matchClientName: value.matchClientName === true ? true : undefined,
+        minAmount: optionalNumber(value.minAmount),
+        maxAmount: optionalNumber(value.maxAmount),
+        startDate: optionalString(value.startDate),
+        endDate: optionalString(value.endDate),
+        value: optionalString(value.value),
+    });
+};
+
+export const exportIncomeRules = (rules: IncomeRule[]): string =>
+    JSON.stringify({ format: RULE_SET_FORMAT, version: RULE_SET_VERSION, rules }, null, 2);
+
+/** Lê um conjunto de regras exportado (ou uma lista simples de regras) e valida cada regra. */
+export const importIncomeRules = (json: string): IncomeRule[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("O arquivo de regras não é um JSON válido.");
+    }
+    const rules = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.rules : undefined;
+    if (!Array.isArray(rules)) {
+        throw new Error("O arquivo não contém uma lista de regras.");
+    }
+    if (isRecord(parsed) && typeof parsed.version === 'number' && parsed.version > RULE_SET_VERSION) {
+        throw new Error(`O arquivo de regras foi gerado por uma versão mais nova (versão ${parsed.version}).`);
+    }
+    return rules.map(sanitizeIncomeRule);
+};
+
+export const loadIncomeRules = (): IncomeRule[] => {
+    try {
+        const stored = localStorage.getItem(RULES_STORAGE_KEY);
+        return stored ? importIncomeRules(stored) : DEFAULT_INCOME_RULES;
+    } catch {
+        return DEFAULT_INCOME_RULES;
+    }
+};
+
+export const saveIncomeRules = (rules: IncomeRule[]): void => {
+    try {
+        localStorage.setItem(RULES_STORAGE_KEY, exportIncomeRules(rules));
+    } catch (error) {
+        console.warn("Não foi possível salvar as regras de receita.", error);
+    }
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { PositiveEntry } from '../types';
+import { computeIncomeStability, dayDistance, detectRecurringIncomes, linearTrend, median } from './incomeStability';
+
+const payment = (payer: string, date: string, amount: number): PositiveEntry => ({
+    id: `${payer}-${date}`,
+    description: `TED RECEBIDA ${payer}`,
+    counterparty: { name: payer },
+    amount,
+    date,
+});
+
+const MONTHS = ['2024-01', '2024-02', '2024-03', '2024-04', '2024-05', '2024-06'];
+
+describe('median e linearTrend', () => {
+    it('calculam a mediana e a reta de mínimos quadrados', () => {
+        expect(median([])).toBe(0);
+        expect(median([3, 1, 2])).toBe(2);
+        expect(median([4, 1, 3, 2])).toBe(2.5);
+        expect(linearTrend([1, 2, 3])).toEqual([1, 2, 3]);
+    });
+});
+
+describe('dayDistance', () => {
+    it('dá a volta no fim do mês', () => {
+        expect(dayDistance(10, 14)).toBe(4);
+        expect(dayDistance(30, 2)).toBe(3);
+        expect(dayDistance(31, 1)).toBe(1);
+    });
+});
+
+describe('detectRecurringIncomes', () => {
+    it('reconhece o pagador que paga valor parecido perto do mesmo dia, inclusive na virada do mês', () => {
+        const entries = [
+            ...['2024-01-30', '2024-03-01', '2024-04-02', '2024-05-31', '2024-06-01'].map(date => payment('EMPRESA X', date, 5000)),
+            // Adiantamento no meio do mês: fica o maior pagamento de cada mês
+            payment('EMPRESA X', '2024-03-15', 800),
+        ];
+        const [income] = detectRecurringIncomes(entries, MONTHS);
+        expect(income).toMatchObject({ payer: 'EMPRESA X', typicalAmount: 5000, months: ['2024-01', '2024-03', '2024-04', '2024-05', '2024-06'], active: true });
+        expect(income.entryIds).not.toContain('EMPRESA X-2024-03-15');
+        expect([31, 1]).toContain(income.typicalDay);
+    });
+
+    it('descarta pagadores com valores ou dias irregulares', () => {
+        const irregularAmounts = ['2024-01-05', '2024-02-05', '2024-03-05'].map((date, index) => payment('CLIENTE A', date, [1000, 3000, 500][index]));
+        const irregularDays = ['2024-01-05', '2024-02-20', '2024-03-12'].map(date => payment('CLIENTE B', date, 1000));
+        expect(detectRecurringIncomes([...irregularAmounts, ...irregularDays], ['2024-01', '2024-02', '2024-03'])).toEqual([]);
+    });
+
+    it('marca como inativa a fonte que parou de pagar nos últimos meses do período', () => {
+        const entries = ['2024-01-05', '2024-02-05', '2024-03-05', '2024-04-05'].map(date => payment('ANTIGO EMPREGADOR', date, 4000));
+        expect(detectRecurringIncomes(entries, MONTHS)[0].active).toBe(false);
+    });
+});
+
+describe('computeIncomeStability', () => {
+    it('inclui meses cobertos sem crédito e deixa fora da renda presumida a fonte que parou de pagar', () => {
+        const stopped = ['2024-01-05', '2024-02-05', '2024-03-05'].map(date => payment('ANTIGO EMPREGADOR', date, 4000));
+        const current = ['2024-02-10', '2024-03-10', '2024-04-10', '2024-05-10'].map(date => payment('NOVO EMPREGADOR', date, 3000));
+        const report = computeIncomeStability([...stopped, ...current], MONTHS);
+
+        expect(report.monthlySeries.map(item => item.total)).toEqual([4000, 7000, 7000, 3000, 3000, 0]);
+        expect(report.recurringIncomes.map(income => [income.payer, income.active])).toEqual([['ANTIGO EMPREGADOR', false], ['NOVO EMPREGADOR', true]]);
+        // Sem renda variável, a renda presumida é só a fonte ativa
+        expect(report.presumedIncome).toBe(3000);
+        expect(report.metrics.find(metric => metric.id === 'empty-months')?.display).toBe('1 de 6');
+    });
+});
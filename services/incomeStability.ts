@@ -0,0 +1,244 @@
+import type { IncomeMetric, IncomeStabilityReport, PositiveEntry, RecurringIncome } from '../types';
+import { counterpartyKey, extractCounterparty } from './counterparty';
+import { categoryOverrideKey } from './categorization';
+import { monthRange } from './statementCoverage';
+
+// Indicadores de estabilidade de renda usados na comprovação de renda. Cada número vem
+// com uma explicação em texto, para que o analista possa conferir e citar no parecer.
+
+// Variação máxima do valor em relação à mediana para uma renda ser considerada recorrente
+const RECURRING_AMOUNT_TOLERANCE = 0.15;
+// Variação máxima do dia do mês (feriados e fins de semana deslocam o pagamento)
+const RECURRING_DAY_TOLERANCE = 5;
+// Dias do ciclo mensal na comparação circular dos dias (o dia 31 fica a um dia do dia 1)
+const DAYS_IN_CYCLE = 31;
+// Uma fonte recorrente só conta na renda presumida se pagou em um destes últimos meses do período
+// (dois, porque o último mês do extrato costuma estar incompleto)
+const RECENT_MONTHS = 2;
+// Desconto máximo aplicado à renda variável na renda presumida
+const MAX_VARIABLE_HAIRCUT = 0.5;
+
+const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1).replace('.', ',')}%`;
+
+const formatMonth = (monthYear: string) => {
+    const [year, month] = monthYear.split('-');
+    return `${month}/${year}`;
+};
+
+export const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const mean = (values: number[]): number => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+/** Desvio padrão amostral (n − 1), adequado para poucos meses de extrato. */
+const standardDeviation = (values: number[]): number => {
+    if (values.length < 2) return 0;
+    const average = mean(values);
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+};
+
+/** Inclinação da reta de mínimos quadrados (R$ por mês) sobre a série mensal. */
+const linearSlope = (values: number[]): number => {
+    if (values.length < 2) return 0;
+    const xMean = (values.length - 1) / 2;
+    const yMean = mean(values);
+    let numerator = 0;
+    let denominator = 0;
+    values.forEach((value, index) => {
+        numerator += (index - xMean) * (value - yMean);
+        denominator += (index - xMean) ** 2;
+    });
+    return denominator ? numerator / denominator : 0;
+};
+
+/** Valores da reta de tendência (mínimos quadrados) para cada ponto da série, usados nos gráficos. */
+export const linearTrend = (values: number[]): number[] => {
+    const slope = linearSlope(values);
+    const intercept = mean(values) - slope * (values.length - 1) / 2;
+    return values.map((_, index) => intercept + slope * index);
+};
+
+/** Distância entre dois dias do mês, dando a volta no fim do mês: os dias 30 e 2 ficam a 3 dias. */
+export const dayDistance = (a: number, b: number): number => {
+    const difference = Math.abs(a - b) % DAYS_IN_CYCLE;
+    return Math.min(difference, DAYS_IN_CYCLE - difference);
+};
+
+/** Dia típico pela média circular: pagamentos nos dias 30, 1 e 2 ficam em torno do dia 1, não do dia 2. */
+const typicalDayOf = (days: number[]): number => {
+    const angles = days.map(day => (2 * Math.PI * (day - 1)) / DAYS_IN_CYCLE);
+    const x = mean(angles.map(Math.cos));
+    const y = mean(angles.map(Math.sin));
+    // Dias espalhados por igual não têm direção: fica a mediana
+    if (Math.hypot(x, y) < 1e-9) return Math.round(median(days));
+    const angle = (Math.atan2(y, x) + 2 * Math.PI) % (2 * Math.PI);
+    return (Math.round((angle * DAYS_IN_CYCLE) / (2 * Math.PI)) % DAYS_IN_CYCLE) + 1;
+};
+
+const payerKeyOf = (entry: PositiveEntry): string =>
+    counterpartyKey(entry.counterparty || extractCounterparty(entry.description)) || categoryOverrideKey(entry.description);
+
+/**
+ * Renda recorrente: mesmo pagador em vários meses, com valor parecido (±15% da mediana)
+ * e caindo perto do mesmo dia do mês (±5 dias, contando a virada do mês). `months` é o período
+ * analisado, em ordem; a fonte que não pagou nos últimos meses dele fica marcada como inativa.
+ */
+export const detectRecurringIncomes = (entries: PositiveEntry[], months: string[]): RecurringIncome[] => {
+    const minMonths = months.length <= 3 ? 2 : 3;
+    const firstRecentMonth = months[Math.max(0, months.length - RECENT_MONTHS)];
+    const groups = new Map<string, PositiveEntry[]>();
+    entries.forEach(entry => {
+        const key = payerKeyOf(entry);
+        if (!key) return;
+        groups.set(key, [...(groups.get(key) || []), entry]);
+    });
+
+    const result: RecurringIncome[] = [];
+    groups.forEach((groupEntries, key) => {
+        // Um pagamento por mês: o maior (adiantamentos e reembolsos do mesmo pagador ficam de fora)
+        const byMonth = new Map<string, PositiveEntry>();
+        groupEntries.forEach(entry => {
+            const month = entry.date.slice(0, 7);
+            const current = byMonth.get(month);
+            if (!current || entry.amount > current.amount) byMonth.set(month, entry);
+        });
+        if (byMonth.size < minMonths) return;
+
+        const monthly = Array.from(byMonth.values());
+        const amounts = monthly.map(entry => entry.amount);
+        const days = monthly.map(entry => Number(entry.date.slice(8, 10)));
+        const typicalAmount = median(amounts);
+        const typicalDay = typicalDayOf(days);
+        const similarAmounts = amounts.every(amount => Math.abs(amount - typicalAmount) <= typicalAmount * RECURRING_AMOUNT_TOLERANCE);
+        const regularDays = days.every(day => dayDistance(day, typicalDay) <= RECURRING_DAY_TOLERANCE);
+        if (!similarAmounts || !regularDays) return;
+
+        const sample = monthly[0];
+        const counterparty = sample.counterparty || extractCounterparty(sample.description);
+        const paidMonths = Array.from(byMonth.keys()).sort();
+        result.push({
+            key,
+            payer: counterparty?.name || sample.description,
+            typicalAmount,
+            typicalDay,
+            months: paidMonths,
+            active: !firstRecentMonth || paidMonths[paidMonths.length - 1] >= firstRecentMonth,
+            entryIds: monthly.map(entry => entry.id).filter((id): id is string => !!id),
+            isSalary: monthly.some(entry => entry.category === 'salario'),
+        });
+    });
+    return result.sort((a, b) => b.typicalAmount - a.typicalAmount);
+};
+
+/**
+ * `coverageMonths` são os meses cobertos pelos extratos (services/statementCoverage.ts): um mês
+ * coberto sem nenhum crédito entra na série com total zero, mesmo antes do primeiro crédito.
+ */
+export const computeIncomeStability = (entries: PositiveEntry[], coverageMonths: string[] = []): IncomeStabilityReport => {
+    const validEntries = entries.filter(entry => entry.date && entry.amount > 0);
+    const months = monthRange([...validEntries.map(entry => entry.date.slice(0, 7)), ...coverageMonths]);
+    const totals = new Map(months.map(month => [month, 0]));
+    validEntries.forEach(entry => totals.set(entry.date.slice(0, 7), (totals.get(entry.date.slice(0, 7)) || 0) + entry.amount));
+    const monthlySeries = months.map(month => ({ month, total: totals.get(month) || 0 }));
+    const values = monthlySeries.map(item => item.total);
+
+    const medianIncome = median(values);
+    const averageIncome = mean(values);
+    const deviation = standardDeviation(values);
+    const variation = averageIncome > 0 ? deviation / averageIncome : 0;
+    const slope = linearSlope(values);
+    const emptyMonths = monthlySeries.filter(item => item.total === 0).map(item => item.month);
+
+    const recurringIncomes = detectRecurringIncomes(validEntries, months);
+    const activeIncomes = recurringIncomes.filter(income => income.active);
+    const stoppedIncomes = recurringIncomes.filter(income => !income.active);
+    const recurringTotal = activeIncomes.reduce((sum, income) => sum + income.typicalAmount, 0);
+
+    // Renda variável: o que sobra de cada mês depois de tirar os pagamentos recorrentes (inclusive
+    // os de fontes que pararam de pagar, que não fazem parte da renda atual)
+    const recurringEntries = new Set(recurringIncomes.flatMap(income => income.entryIds));
+    const variableTotals = new Map(months.map(month => [month, 0]));
+    validEntries
+        .filter(entry => !entry.id || !recurringEntries.has(entry.id))
+        .forEach(entry => variableTotals.set(entry.date.slice(0, 7), (variableTotals.get(entry.date.slice(0, 7)) || 0) + entry.amount));
+    const variableValues = Array.from(variableTotals.values());
+    const variableMedian = median(variableValues);
+    const variableMean = mean(variableValues);
+    const variableVariation = variableMean > 0 ? standardDeviation(variableValues) / variableMean : 0;
+    const haircut = Math.min(variableVariation, MAX_VARIABLE_HAIRCUT);
+    const presumedIncome = recurringTotal + variableMedian * (1 - haircut);
+
+    const trendDirection = Math.abs(slope) < averageIncome * 0.02 ? 'estável' : slope > 0 ? 'crescente' : 'decrescente';
+    const metrics: IncomeMetric[] = [
+        {
+            id: 'median',
+            label: 'Renda mensal mediana',
+            value: medianIncome,
+            display: formatCurrency(medianIncome),
+            explanation: `Valor do meio dos totais mensais de ${months.length} mês(es), de ${months.length ? formatMonth(months[0]) : '-'} a ${months.length ? formatMonth(months[months.length - 1]) : '-'}. Menos sensível a meses atípicos que a média (${formatCurrency(averageIncome)}).`,
+        },
+        {
+            id: 'standard-deviation',
+            label: 'Desvio padrão mensal',
+            value: deviation,
+            display: formatCurrency(deviation),
+            explanation: months.length < 2
+                ? 'É preciso ao menos dois meses para medir a variação.'
+                : `Quanto os totais mensais costumam se afastar da média de ${formatCurrency(averageIncome)} (desvio padrão amostral).`,
+        },
+        {
+            id: 'coefficient-of-variation',
+            label: 'Coeficiente de variação',
+            value: variation,
+            display: formatPercent(variation),
+            explanation: `Desvio padrão dividido pela média. Até 20% indica renda estável; entre 20% e 50%, moderadamente variável; acima de 50%, muito variável. Aqui a renda é ${variation <= 0.2 ? 'estável' : variation <= 0.5 ? 'moderadamente variável' : 'muito variável'}.`,
+        },
+        {
+            id: 'trend',
+            label: 'Tendência',
+            value: slope,
+            display: `${slope >= 0 ? '+' : ''}${formatCurrency(slope)}/mês`,
+            explanation: `Inclinação da reta que melhor se ajusta aos totais mensais: a renda é ${trendDirection}${averageIncome > 0 ? ` (${slope >= 0 ? '+' : ''}${formatPercent(slope / averageIncome)} da média por mês)` : ''}.`,
+        },
+        {
+            id: 'empty-months',
+            label: 'Meses sem receita',
+            value: emptyMonths.length,
+            display: `${emptyMonths.length} de ${months.length}`,
+            explanation: emptyMonths.length > 0
+                ? `Meses do período sem nenhum crédito considerado receita: ${emptyMonths.map(formatMonth).join(', ')}.`
+                : 'Houve crédito em todos os meses do período.',
+        },
+        {
+            id: 'recurring',
+            label: 'Renda recorrente',
+            value: recurringTotal,
+            display: formatCurrency(recurringTotal),
+            explanation: (activeIncomes.length > 0
+                ? `${activeIncomes.length} fonte(s) com mesmo pagador, valor parecido (±${RECURRING_AMOUNT_TOLERANCE * 100}%), dia regular do mês (±${RECURRING_DAY_TOLERANCE} dias) e pagamento nos últimos ${RECENT_MONTHS} meses do período: ` +
+                  activeIncomes.map(income => `${income.payer} (${formatCurrency(income.typicalAmount)}, por volta do dia ${income.typicalDay}, ${income.months.length} meses)`).join('; ') + '.'
+                : 'Nenhum pagador com valor e dia do mês regulares pagou nos últimos meses do período.') +
+                (stoppedIncomes.length > 0
+                    ? ` Fora da renda presumida por terem parado de pagar: ` +
+                      stoppedIncomes.map(income => `${income.payer} (último pagamento em ${formatMonth(income.months[income.months.length - 1])})`).join('; ') + '.'
+                    : ''),
+        },
+        {
+            id: 'presumed',
+            label: 'Renda presumida',
+            value: presumedIncome,
+            display: formatCurrency(presumedIncome),
+            explanation: `Renda recorrente (${formatCurrency(recurringTotal)}) somada à mediana da renda variável (${formatCurrency(variableMedian)}) ` +
+                `com desconto igual ao coeficiente de variação dessa parcela, limitado a ${MAX_VARIABLE_HAIRCUT * 100}% (desconto aplicado: ${formatPercent(haircut)}).`,
+        },
+    ];
+
+    return { metrics, recurringIncomes, monthlySeries, presumedIncome };
+};
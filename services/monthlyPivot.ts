@@ -0,0 +1,70 @@
+import type { PositiveEntry } from '../types';
+import { DEFAULT_CATEGORY } from './categorization';
+import { monthRange } from './statementCoverage';
+
+// Pivô categoria × mês da análise mensal, com o detalhamento por descrição dentro de cada
+// categoria. Usado pela tabela da tela e pelo relatório PDF.
+
+export type MonthlyAmounts = { [monthYear: string]: number; total: number };
+
+export interface MonthlyPivot {
+    // Meses em ordem, incluindo os meses sem crédito dentro do período coberto
+    months: string[];
+    // Categorias e descrições dos maiores totais para os menores
+    categories: string[];
+    descriptions: { [category: string]: string[] };
+    byCategory: { [category: string]: MonthlyAmounts };
+    byDescription: { [category: string]: { [description: string]: MonthlyAmounts } };
+    monthlyTotals: { [monthYear: string]: number };
+    grandTotal: number;
+}
+
+const addAmount = (target: MonthlyAmounts, monthYear: string, amount: number) => {
+    target[monthYear] = (target[monthYear] || 0) + amount;
+    target.total += amount;
+};
+
+export const buildMonthlyPivot = (entries: PositiveEntry[], coverageMonths: string[] = []): MonthlyPivot => {
+    const byCategory: MonthlyPivot['byCategory'] = {};
+    const byDescription: MonthlyPivot['byDescription'] = {};
+    const monthlyTotals: MonthlyPivot['monthlyTotals'] = {};
+    const entryMonths = new Set<string>();
+
+    entries.forEach(entry => {
+        if (!entry.date || !entry.description) return;
+        const monthYear = entry.date.slice(0, 7);
+        entryMonths.add(monthYear);
+
+        const category = entry.category || DEFAULT_CATEGORY;
+        if (!byCategory[category]) {
+            byCategory[category] = { total: 0 };
+            byDescription[category] = {};
+        }
+        if (!byDescription[category][entry.description]) {
+            byDescription[category][entry.description] = { total: 0 };
+        }
+        addAmount(byCategory[category], monthYear, entry.amount);
+        addAmount(byDescription[category][entry.description], monthYear, entry.amount);
+        monthlyTotals[monthYear] = (monthlyTotals[monthYear] || 0) + entry.amount;
+    });
+
+    const months = monthRange([...entryMonths, ...coverageMonths]);
+    months.forEach(monthYear => {
+        monthlyTotals[monthYear] = monthlyTotals[monthYear] || 0;
+    });
+    const categories = Object.keys(byCategory).sort((a, b) => byCategory[b].total - byCategory[a].total);
+    const descriptions = Object.fromEntries(categories.map(category => [
+        category,
+        Object.keys(byDescription[category]).sort((a, b) => byDescription[category][b].total - byDescription[category][a].total),
+    ]));
+
+    return {
+        months,
+        categories,
+        descriptions,
+        byCategory,
+        byDescription,
+        monthlyTotals,
+        grandTotal: Object.values(monthlyTotals).reduce((sum, total) => sum + total, 0),
+    };
+};
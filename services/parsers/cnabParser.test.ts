@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { detectCnabLayout, parseCnab240, parseCnab400 } from './cnabParser';
+
+// Monta um registro de `length` posições com os campos nas posições do manual FEBRABAN (1-based)
+const record = (length: number, fields: [number, string][]): string => {
+    const line = Array<string>(length).fill(' ');
+    fields.forEach(([start, value]) => value.split('').forEach((char, offset) => { line[start - 1 + offset] = char; }));
+    return line.join('');
+};
+
+const cnab240 = (fields: [number, string][]) => record(240, fields);
+const cnab400 = (fields: [number, string][]) => record(400, fields);
+
+describe('detectCnabLayout', () => {
+    it('reconhece o layout pelo tamanho das linhas, tolerando espaços finais removidos', () => {
+        expect(detectCnabLayout([cnab240([[8, '0']]), cnab240([[8, '9']]).slice(0, 238)].join('\n'))).toBe('cnab240');
+        expect(detectCnabLayout([cnab400([[1, '0']]), cnab400([[1, '9']]).slice(0, 398)].join('\r\n'))).toBe('cnab400');
+        expect(detectCnabLayout('linha curta\noutra')).toBeNull();
+    });
+});
+
+describe('parseCnab240', () => {
+    it('lê o extrato (segmento E) com os saldos do header e do trailer de lote', () => {
+        const text = [
+            cnab240([[8, '0'], [73, 'EMPRESA EXEMPLO LTDA']]),
+            cnab240([[8, '1'], [9, 'E'], [151, '000000000000100000'], [169, 'C']]),
+            cnab240([[8, '3'], [14, 'E'], [143, '05022024'], [151, '000000000000250000'], [169, 'C'], [177, 'TED RECEBIDA']]),
+            cnab240([[8, '3'], [14, 'E'], [143, '06022024'], [151, '000000000000030000'], [169, 'D'], [177, 'TARIFA']]),
+            cnab240([[8, '5'], [151, '000000000000320000'], [169, 'C']]),
+        ].join('\n');
+        const response = parseCnab240(text);
+        expect(response.clientName).toBe('EMPRESA EXEMPLO LTDA');
+        expect(response.transactions).toEqual([
+            { description: 'TED RECEBIDA', amount: 2500, date: '2024-02-05' },
+            { description: 'TARIFA', amount: -300, date: '2024-02-06' },
+        ]);
+        expect(response.positiveEntries).toEqual([{ description: 'TED RECEBIDA', amount: 2500, date: '2024-02-05' }]);
+        expect(response.openingBalance).toBe(1000);
+        expect(response.closingBalance).toBe(3200);
+    });
+
+    it('considera do retorno de cobrança (segmentos T/U) só as liquidações', () => {
+        const text = [
+            cnab240([[8, '0'], [73, 'EMPRESA EXEMPLO LTDA']]),
+            cnab240([[8, '3'], [14, 'T'], [16, '06'], [59, 'NF123'], [149, 'JOAO PAGADOR']]),
+            cnab240([[8, '3'], [14, 'U'], [78, '000000000015000'], [146, '10022024']]),
+            cnab240([[8, '3'], [14, 'T'], [16, '02'], [59, 'NF124']]),
+            cnab240([[8, '3'], [14, 'U'], [78, '000000000009900'], [146, '11022024']]),
+        ].join('\n');
+        expect(parseCnab240(text)).toEqual({
+            clientName: 'EMPRESA EXEMPLO LTDA',
+            positiveEntries: [{ description: 'LIQUIDACAO BOLETO NF123 - JOAO PAGADOR', amount: 150, date: '2024-02-10' }],
+        });
+    });
+});
+
+describe('parseCnab400', () => {
+    it('considera as ocorrências de liquidação', () => {
+        const text = [
+            cnab400([[1, '0'], [47, 'EMPRESA EXEMPLO LTDA']]),
+            cnab400([[1, '1'], [109, '06'], [111, '150324'], [117, 'DOC001'], [254, '0000000012345']]),
+            cnab400([[1, '1'], [109, '09'], [111, '160324'], [117, 'DOC002'], [254, '0000000050000']]),
+            cnab400([[1, '9']]),
+        ].join('\n');
+        expect(parseCnab400(text)).toEqual({
+            clientName: 'EMPRESA EXEMPLO LTDA',
+            positiveEntries: [{ description: 'LIQUIDACAO BOLETO DOC001', amount: 123.45, date: '2024-03-15' }],
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import type { GeminiResponse, PositiveEntry, Transaction } from '../../types';
+import { parseStatementDate, toPositiveEntries } from './parseUtils';
+
+// Posições seguem o padrão FEBRABAN (1-based, inclusivas) para facilitar a conferência com o manual.
+const field = (line: string, start: number, end: number): string => line.slice(start - 1, end);
+
+const parseCnabAmount = (digits: string): number | null => {
+    const clean = digits.trim();
+    if (!/^\d+$/.test(clean)) return null;
+    return Number(clean) / 100;
+};
+
+// Saldo com indicador de natureza (D/C) na posição seguinte ao valor
+const parseSignedBalance = (line: string, start: number, end: number): number | null => {
+    const amount = parseCnabAmount(field(line, start, end));
+    if (amount === null) return null;
+    return field(line, end + 1, end + 1).toUpperCase() === 'D' ? -amount : amount;
+};
+
+const getRecordLines = (text: string, length: number): string[] =>
+    text
+        .split(/\r?\n/)
+        .map(line => line.replace(/\r$/, ''))
+        .filter(line => line.trim().length > 0 && line.length >= length - 2);
+
+export const detectCnabLayout = (text: string): 'cnab240' | 'cnab400' | null => {
+    const lines = text.split(/\r?\n/).map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+    if (lines.length < 2) return null;
+    // Alguns sistemas removem os espaços finais da linha; tolera até duas posições a menos
+    const matches = (length: number) => lines.every(line => line.length <= length && line.length >= length - 2);
+    if (matches(240)) return 'cnab240';
+    if (matches(400)) return 'cnab400';
+    return null;
+};
+
+/**
+ * CNAB 240: trata o extrato para conciliação bancária (segmento E) e o retorno de cobrança
+ * (segmentos T/U, considerando apenas liquidações).
+ */
+export const parseCnab240 = (text: string): GeminiResponse => {
+    const lines = getRecordLines(text, 240);
+    const fileHeader = lines.find(line => field(line, 8, 8) === '0');
+    const clientName = fileHeader ? field(fileHeader, 73, 102).trim() : '';
+
+    const statementTransactions: Transaction[] = [];
+    const titleEntries: PositiveEntry[] = [];
+    let openingBalance: number | null = null;
+    let closingBalance: number | null = null;
+    let pendingTitle: { reference: string; payer: string } | null = null;
+
+    lines.forEach(line => {
+        const recordType = field(line, 8, 8);
+        // No extrato (serviço 04), o header de lote traz o saldo inicial e o trailer, o saldo final
+        if (recordType === '1' && field(line, 9, 9) === 'E' && openingBalance === null) {
+            openingBalance = parseSignedBalance(line, 151, 168);
+            return;
+        }
+        if (recordType === '5' && openingBalance !== null) {
+            closingBalance = parseSignedBalance(line, 151, 168) ?? closingBalance;
+            return;
+        }
+        if (recordType !== '3') return;
+        const segment = field(line, 14, 14).toUpperCase();
+
+        if (segment === 'E') {
+            const nature = field(line, 169, 169).toUpperCase();
+            const date = parseStatementDate(field(line, 143, 150), 'dmy');
+            const amount = parseCnabAmount(field(line, 151, 168));
+            const description = [field(line, 177, 201).trim(), field(line, 202, 240).trim()].filter(Boolean).join(' ')
+                || (nature === 'C' ? 'CRÉDITO' : 'DÉBITO');
+            if (!date || amount === null || amount === 0) return;
+            statementTransactions.push({ description, amount: nature === 'D' ? -amount : amount, date });
+        } else if (segment === 'T') {
+            // Código de movimento 06 = liquidação, 17 = liquidação após baixa
+            const movement = field(line, 16, 17);
+            pendingTitle = movement === '06' || movement === '17'
+                ? { reference: field(line, 59, 73).trim() || field(line, 38, 57).trim(), payer: field(line, 149, 188).trim() }
+                : null;
+        } else if (segment === 'U' && pendingTitle) {
+            const amount = parseCnabAmount(field(line, 78, 92));
+            const date = parseStatementDate(field(line, 146, 153), 'dmy') || parseStatementDate(field(line, 138, 145), 'dmy');
+            const { reference, payer } = pendingTitle;
+            pendingTitle = null;
+            if (!date || amount === null || amount <= 0) return;
+            const description = `LIQUIDACAO BOLETO ${reference}${payer ? ` - ${payer}` : ''}`.trim();
+            titleEntries.push({ description, amount, date });
+        }
+    });
+
+    if (statementTransactions.length === 0) {
+        return { clientName, positiveEntries: titleEntries };
+    }
+    return {
+        clientName,
+        positiveEntries: [...toPositiveEntries(statementTransactions), ...titleEntries],
+        transactions: statementTransactions,
+        openingBalance,
+        closingBalance,
+    };
+};
+
+/** CNAB 400: retorno de cobrança, considerando as ocorrências de liquidação. */
+export const parseCnab400 = (text: string): GeminiResponse => {
+    const lines = getRecordLines(text, 400);
+    const fileHeader = lines.find(line => field(line, 1, 1) === '0');
+    const clientName = fileHeader ? field(fileHeader, 47, 76).trim() : '';
+
+    const positiveEntries: PositiveEntry[] = [];
+    lines.forEach(line => {
+        if (field(line, 1, 1) !== '1') return;
+        const occurrence = field(line, 109, 110);
+        if (occurrence !== '06' && occurrence !== '17') return;
+
+        const date = parseStatementDate(field(line, 111, 116), 'dmy');
+        const amount = parseCnabAmount(field(line, 254, 266));
+        const reference = field(line, 117, 126).trim();
+        if (!date || amount === null || amount <= 0) return;
+        positiveEntries.push({ description: `LIQUIDACAO BOLETO ${reference}`.trim(), amount, date });
+    });
+
+    return { clientName, positiveEntries };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvLayout, isCsvContent, parseCsv, splitCsvLine } from './csvParser';
+
+describe('splitCsvLine', () => {
+    it('respeita aspas e aspas duplicadas', () => {
+        expect(splitCsvLine('01/02/2024;"PIX; JOAO ""ZE""";1.234,56', ';')).toEqual(['01/02/2024', 'PIX; JOAO "ZE"', '1.234,56']);
+    });
+});
+
+describe('detectCsvLayout', () => {
+    it('identifica o banco pelo cabeçalho', () => {
+        expect(detectCsvLayout('Data,Valor,Identificador,Descrição\n01/02/2024,10.00,abc,Pix')).toBe('Nubank');
+        expect(detectCsvLayout('Data;Histórico;Docto.;Crédito (R$);Débito (R$);Saldo (R$)')).toBe('Bradesco');
+        expect(detectCsvLayout('a;b;c')).toBeNull();
+    });
+});
+
+describe('isCsvContent', () => {
+    it('aceita extratos com cabeçalho ou com data na primeira coluna', () => {
+        expect(isCsvContent('Data;Descrição;Valor\n01/02/2024;PIX;10,00')).toBe(true);
+        expect(isCsvContent('01/02/2024;PIX;10,00')).toBe(true);
+        expect(isCsvContent('texto solto sem colunas')).toBe(false);
+    });
+});
+
+describe('parseCsv', () => {
+    it('lê o layout com colunas de crédito e débito, o titular e os saldos', () => {
+        const csv = [
+            'Nome: MARIA DA SILVA',
+            'Data;Histórico;Docto.;Crédito (R$);Débito (R$);Saldo (R$)',
+            '01/02/2024;SALDO ANTERIOR;;;;1.000,00',
+            '05/02/2024;TED RECEBIDA;123;2.500,00;;3.500,00',
+            '06/02/2024;PAGAMENTO BOLETO;456;;300,00;3.200,00',
+            '29/02/2024;SALDO DO DIA;;;;3.200,00',
+        ].join('\n');
+        const response = parseCsv(csv);
+        expect(response.clientName).toBe('MARIA DA SILVA');
+        expect(response.transactions).toEqual([
+            { description: 'TED RECEBIDA', amount: 2500, date: '2024-02-05', balance: 3500 },
+            { description: 'PAGAMENTO BOLETO', amount: -300, date: '2024-02-06', balance: 3200 },
+        ]);
+        expect(response.positiveEntries).toEqual([{ description: 'TED RECEBIDA', amount: 2500, date: '2024-02-05' }]);
+        expect(response.openingBalance).toBe(1000);
+        expect(response.closingBalance).toBe(3200);
+    });
+
+    it('usa a coluna de natureza para o sinal do valor', () => {
+        const csv = 'DATA_MOV;HISTORICO;VALOR;DEB_CRED\n10/03/2024;PIX RECEBIDO;150,00;C\n11/03/2024;TARIFA;12,90;D';
+        expect(parseCsv(csv).transactions?.map(transaction => transaction.amount)).toEqual([150, -12.9]);
+    });
+
+    it('põe em ordem cronológica os extratos do mais recente para o mais antigo, com o saldo anterior no fim', () => {
+        const csv = [
+            'Data;Lançamento;Valor;Saldo',
+            '20/03/2024;PIX RECEBIDO;100,00;1.300,00',
+            '01/03/2024;SALDO ANTERIOR;;1.200,00',
+            '15/02/2024;SALARIO;1.000,00;1.200,00',
+            '01/02/2024;SALDO ANTERIOR;;200,00',
+        ].join('\n');
+        const response = parseCsv(csv);
+        expect(response.transactions?.map(transaction => transaction.date)).toEqual(['2024-02-15', '2024-03-20']);
+        expect(response.openingBalance).toBe(200);
+        expect(response.closingBalance).toBe(1300);
+    });
+
+    it('ignora a linha de saldo anterior sem data reconhecível', () => {
+        const csv = [
+            'Data;Lançamento;Valor;Saldo',
+            'sem data;SALDO ANTERIOR;;9.999,00',
+            '01/02/2024;SALDO ANTERIOR;;200,00',
+            '15/02/2024;SALARIO;1.000,00;1.200,00',
+        ].join('\n');
+        expect(parseCsv(csv).openingBalance).toBe(200);
+    });
+
+    it('lê CSVs sem cabeçalho pela primeira coluna numérica depois da descrição', () => {
+        const response = parseCsv('02/01/2024;DEPOSITO;;500,00;500,00\n03/01/2024;SAQUE;;-100,00;400,00');
+        expect(response.transactions).toEqual([
+            { description: 'DEPOSITO', amount: 500, date: '2024-01-02', balance: 500 },
+            { description: 'SAQUE', amount: -100, date: '2024-01-03', balance: 400 },
+        ]);
+    });
+
+    it('recusa faturas de cartão e arquivos vazios', () => {
+        expect(() => parseCsv('date,title,amount\n2024-01-01,Loja,10.00')).toThrow("Este CSV é uma fatura de cartão de crédito, não um extrato de conta.");
+        expect(() => parseCsv('\n\n')).toThrow("O arquivo CSV está vazio.");
+    });
+});
@@ -0,0 +1,231 @@
+import type { GeminiResponse, Transaction } from '../../types';
+import { parseBrazilianAmount, parseStatementDate, normalizeText, toPositiveEntries } from './parseUtils';
+
+interface CsvLayout {
+    bank: string;
+    // Cabeçalhos (normalizados) que identificam o layout do banco
+    signature: string[];
+}
+
+// Layouts conhecidos de exportação CSV. A leitura em si é feita pelos nomes das colunas,
+// então variações menores entre versões do internet banking continuam funcionando.
+const CSV_LAYOUTS: CsvLayout[] = [
+    { bank: 'Nubank', signature: ['DATA', 'VALOR', 'IDENTIFICADOR', 'DESCRICAO'] },
+    { bank: 'Itaú', signature: ['DATA', 'LANCAMENTO', 'AG./ORIGEM', 'VALOR'] },
+    { bank: 'Bradesco', signature: ['DATA', 'HISTORICO', 'DOCTO.', 'CREDITO', 'DEBITO'] },
+    { bank: 'Inter', signature: ['DATA LANCAMENTO', 'HISTORICO', 'DESCRICAO', 'VALOR'] },
+    { bank: 'Banco do Brasil', signature: ['DATA', 'LANCAMENTO', 'DETALHES', 'VALOR', 'TIPO LANCAMENTO'] },
+    { bank: 'Banco do Brasil', signature: ['DATA', 'DEPENDENCIA ORIGEM', 'HISTORICO', 'VALOR'] },
+    { bank: 'Caixa', signature: ['DATA_MOV', 'HISTORICO', 'VALOR', 'DEB_CRED'] },
+];
+
+const DATE_HEADERS = ['DATA', 'DATA LANCAMENTO', 'DATA MOVIMENTO', 'DATA_MOV', 'DATE', 'DT LANCAMENTO'];
+const DESCRIPTION_HEADERS = ['HISTORICO', 'LANCAMENTO', 'DESCRICAO', 'DETALHES', 'TITLE', 'HISTORICO/DESCRICAO'];
+const AMOUNT_HEADERS = ['VALOR', 'AMOUNT', 'VALOR LANCAMENTO'];
+const CREDIT_HEADERS = ['CREDITO', 'ENTRADA', 'ENTRADAS'];
+const DEBIT_HEADERS = ['DEBITO', 'SAIDA', 'SAIDAS'];
+const NATURE_HEADERS = ['DEB_CRED', 'TIPO LANCAMENTO', 'TIPO', 'D/C', 'C/D', 'NATUREZA'];
+const BALANCE_HEADERS = ['SALDO', 'SALDOS', 'SALDO DO DIA'];
+
+// Linhas de saldo e totais que aparecem no meio dos extratos e não são transações
+const SKIPPED_DESCRIPTIONS = /^(SALDO|S A L D O|TOTAL|SDO\b)/;
+const OPENING_BALANCE_DESCRIPTIONS = /^(SALDO ANTERIOR|SALDO INICIAL|SDO ANTERIOR)/;
+
+const normalizeHeader = (value: string): string =>
+    normalizeText(value).replace(/\(R\$\)/g, '').replace(/\s+/g, ' ').trim();
+
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (inQuotes && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                inQuotes = !inQuotes;
+            }
+        } else if (char === delimiter && !inQuotes) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+const detectDelimiter = (lines: string[]): string => {
+    const candidates = [';', '\t', ','];
+    const sample = lines.slice(0, 20);
+    let best = ';';
+    let bestScore = 0;
+    candidates.forEach(candidate => {
+        const score = sample.reduce((sum, line) => sum + (splitCsvLine(line, candidate).length - 1), 0);
+        if (score > bestScore) {
+            best = candidate;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+const findColumns = (headers: string[], names: string[]): number[] =>
+    headers.reduce<number[]>((found, header, index) => {
+        if (names.includes(header)) found.push(index);
+        return found;
+    }, []);
+
+const isHeaderRow = (cells: string[]): boolean => {
+    const headers = cells.map(normalizeHeader);
+    return findColumns(headers, DATE_HEADERS).length > 0
+        && (findColumns(headers, AMOUNT_HEADERS).length > 0 || findColumns(headers, CREDIT_HEADERS).length > 0);
+};
+
+export const isCsvContent = (text: string): boolean => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length === 0) return false;
+    const delimiter = detectDelimiter(lines);
+    return lines.slice(0, 30).some(line => {
+        const cells = splitCsvLine(line, delimiter);
+        return cells.length > 1 && (isHeaderRow(cells) || parseStatementDate(cells[0]) !== null);
+    });
+};
+
+/** Identifica o banco de origem pelo cabeçalho do CSV, quando for um layout conhecido. */
+export const detectCsvLayout = (text: string): string | null => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    const delimiter = detectDelimiter(lines);
+    for (const line of lines.slice(0, 30)) {
+        const headers = splitCsvLine(line, delimiter).map(normalizeHeader);
+        const layout = CSV_LAYOUTS.find(candidate => candidate.signature.every(column => headers.includes(column)));
+        if (layout) return layout.bank;
+    }
+    return null;
+};
+
+const isCreditNature = (value: string): boolean | null => {
+    const nature = normalizeText(value);
+    if (!nature) return null;
+    if (/^(C|CREDITO|ENTRADA|RECEITA)/.test(nature)) return true;
+    if (/^(D|DEBITO|SAIDA|DESPESA)/.test(nature)) return false;
+    return null;
+};
+
+const findClientName = (lines: string[], delimiter: string): string => {
+    for (const line of lines.slice(0, 15)) {
+        const cells = splitCsvLine(line, delimiter).filter(Boolean);
+        const joined = cells.join(' ');
+        const match = joined.match(/^(?:NOME|TITULAR|CLIENTE)\s*:?\s*(.+)$/i);
+        if (match && match[1].trim()) return match[1].trim();
+    }
+    return '';
+};
+
+export const parseCsv = (text: string): GeminiResponse => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length === 0) {
+        throw new Error("O arquivo CSV está vazio.");
+    }
+
+    const delimiter = detectDelimiter(lines);
+    const headerIndex = lines.findIndex(line => isHeaderRow(splitCsvLine(line, delimiter)));
+    const clientName = findClientName(headerIndex > 0 ? lines.slice(0, headerIndex) : lines, delimiter);
+
+    let dateColumn: number;
+    let descriptionColumns: number[];
+    let amountColumn: number | undefined;
+    let creditColumn: number | undefined;
+    let debitColumn: number | undefined;
+    let natureColumn: number | undefined;
+    let balanceColumn: number | undefined;
+
+    if (headerIndex >= 0) {
+        const headers = splitCsvLine(lines[headerIndex], delimiter).map(normalizeHeader);
+        if (headers.join(',') === 'DATE,TITLE,AMOUNT') {
+            throw new Error("Este CSV é uma fatura de cartão de crédito, não um extrato de conta.");
+        }
+        dateColumn = findColumns(headers, DATE_HEADERS)[0];
+        descriptionColumns = findColumns(headers, DESCRIPTION_HEADERS);
+        amountColumn = findColumns(headers, AMOUNT_HEADERS)[0];
+        creditColumn = findColumns(headers, CREDIT_HEADERS)[0];
+        debitColumn = findColumns(headers, DEBIT_HEADERS)[0];
+        natureColumn = findColumns(headers, NATURE_HEADERS)[0];
+        balanceColumn = findColumns(headers, BALANCE_HEADERS)[0];
+    } else {
+        // Sem cabeçalho (ex.: exportação simples do Itaú): data, descrição e o primeiro valor numérico
+        const sample = lines.map(line => splitCsvLine(line, delimiter)).find(cells => parseStatementDate(cells[0]) !== null);
+        if (!sample) {
+            throw new Error("Não foi possível identificar as colunas de data e valor no CSV.");
+        }
+        dateColumn = 0;
+        amountColumn = sample.findIndex((cell, index) => index > 1 && parseBrazilianAmount(cell) !== null);
+        descriptionColumns = [1];
+        if (amountColumn < 0) {
+            throw new Error("Não foi possível identificar a coluna de valor no CSV.");
+        }
+        // Um segundo valor numérico após o lançamento costuma ser o saldo
+        const nextNumeric = sample.findIndex((cell, index) => index > amountColumn! && parseBrazilianAmount(cell) !== null);
+        balanceColumn = nextNumeric >= 0 ? nextNumeric : undefined;
+    }
+
+    const rawTransactions: Transaction[] = [];
+    // Linhas de saldo anterior, onde estiverem: no fim em exportações do mais recente para o mais antigo
+    const openingBalances: { date: string; balance: number | null }[] = [];
+    lines.slice(headerIndex + 1).forEach(line => {
+        const cells = splitCsvLine(line, delimiter);
+        // Sem data reconhecível a linha fica de fora, inclusive a de saldo anterior
+        const date = parseStatementDate(cells[dateColumn]);
+        if (!date) return;
+
+        const description = descriptionColumns
+            .map(index => cells[index] || '')
+            .filter(Boolean)
+            .join(' - ');
+        const balance = balanceColumn !== undefined ? parseBrazilianAmount(cells[balanceColumn]) : null;
+        if (description && OPENING_BALANCE_DESCRIPTIONS.test(normalizeText(description))) {
+            // Na linha de saldo anterior o valor pode vir na coluna de saldo ou na de valor
+            openingBalances.push({ date, balance: balance ?? (amountColumn !== undefined ? parseBrazilianAmount(cells[amountColumn]) : null) });
+            return;
+        }
+        if (!description || SKIPPED_DESCRIPTIONS.test(normalizeText(description))) return;
+
+        let amount: number | null = null;
+        if (creditColumn !== undefined && (debitColumn !== undefined || amountColumn === undefined)) {
+            // Layout com colunas separadas (Bradesco): débitos ficam negativos
+            const credit = Math.abs(parseBrazilianAmount(cells[creditColumn]) ?? 0);
+            const debit = debitColumn !== undefined ? Math.abs(parseBrazilianAmount(cells[debitColumn]) ?? 0) : 0;
+            amount = credit - debit || null;
+        } else if (amountColumn !== undefined) {
+            amount = parseBrazilianAmount(cells[amountColumn]);
+            const isCredit = natureColumn !== undefined ? isCreditNature(cells[natureColumn] || '') : null;
+            if (amount !== null && isCredit !== null) {
+                amount = isCredit ? Math.abs(amount) : -Math.abs(amount);
+            }
+        }
+
+        if (amount === null || amount === 0) return;
+        rawTransactions.push({ description, amount, date, balance });
+    });
+
+    // Alguns bancos exportam do lançamento mais recente para o mais antigo
+    if (rawTransactions.length > 1 && rawTransactions[0].date > rawTransactions[rawTransactions.length - 1].date) {
+        rawTransactions.reverse();
+    }
+    // Com um saldo anterior por mês, vale o de data mais antiga, em qualquer ordem de exportação
+    const openingBalance = openingBalances.reduce<{ date: string; balance: number | null } | null>(
+        (oldest, candidate) => (!oldest || candidate.date < oldest.date ? candidate : oldest), null)?.balance ?? null;
+
+    const lastBalance = [...rawTransactions].reverse().find(transaction => transaction.balance != null)?.balance ?? null;
+    return {
+        clientName,
+        positiveEntries: toPositiveEntries(rawTransactions),
+        transactions: rawTransactions,
+        openingBalance,
+        closingBalance: lastBalance,
+    };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { isOfxContent, parseOfx } from './ofxParser';
+
+// OFX 1.x (SGML, tags sem fechamento), como exportam a maioria dos bancos
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM>
+<BANKID>0341
+<BRANCHID>1234
+<ACCTID>56789-0
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240101
+<DTEND>20240131
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240105120000[-3:BRT]
+<TRNAMT>3500.00
+<NAME>EMPRESA X &amp; CIA
+<MEMO>SALARIO
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240110
+<TRNAMT>-150.25
+<MEMO>CONTA DE LUZ
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240120
+<TRNAMT>0.00
+<MEMO>ESTORNO ZERADO
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>3349.75
+<DTASOF>20240131
+</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+describe('isOfxContent', () => {
+    it('reconhece o cabeçalho SGML e a tag <OFX> do XML', () => {
+        expect(isOfxContent(OFX_SGML)).toBe(true);
+        expect(isOfxContent('<?xml version="1.0"?><OFX></OFX>')).toBe(true);
+        expect(isOfxContent('Data;Valor\n01/01/2024;10,00')).toBe(false);
+    });
+});
+
+describe('parseOfx', () => {
+    it('lê créditos, débitos, saldo final, período e conta', () => {
+        const response = parseOfx(OFX_SGML);
+        expect(response.transactions).toEqual([
+            { description: 'EMPRESA X & CIA - SALARIO', amount: 3500, date: '2024-01-05' },
+            { description: 'CONTA DE LUZ', amount: -150.25, date: '2024-01-10' },
+        ]);
+        expect(response.positiveEntries).toEqual([{ description: 'EMPRESA X & CIA - SALARIO', amount: 3500, date: '2024-01-05' }]);
+        expect(response.openingBalance).toBeNull();
+        expect(response.closingBalance).toBe(3349.75);
+        expect(response.statement).toEqual({
+            periodStart: '2024-01-01',
+            periodEnd: '2024-01-31',
+            bankName: '0341',
+            agency: '1234',
+            accountNumber: '56789-0',
+        });
+    });
+
+    it('lê o OFX 2.x em XML, com tags fechadas', () => {
+        const xml = '<?xml version="1.0"?><OFX><BANKTRANLIST>'
+            + '<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20240301</DTPOSTED><TRNAMT>200.50</TRNAMT><MEMO>PIX RECEBIDO</MEMO></STMTTRN>'
+            + '</BANKTRANLIST></OFX>';
+        const response = parseOfx(xml);
+        expect(response.positiveEntries).toEqual([{ description: 'PIX RECEBIDO', amount: 200.5, date: '2024-03-01' }]);
+        expect(response.statement).toBeUndefined();
+    });
+
+    it('recusa arquivos que não são OFX', () => {
+        expect(() => parseOfx('qualquer coisa')).toThrow("O arquivo não parece ser um OFX válido.");
+    });
+});
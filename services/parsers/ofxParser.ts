@@ -0,0 +1,72 @@
+import type { GeminiResponse, StatementInfo, Transaction } from '../../types';
+import { parseBrazilianAmount, parseStatementDate, toPositiveEntries } from './parseUtils';
+
+// Lê o valor de uma tag OFX. Funciona tanto no SGML do OFX 1.x (tags sem fechamento)
+// quanto no XML do OFX 2.x (<TAG>valor</TAG>).
+const readTag = (block: string, tag: string): string => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+};
+
+const decodeEntities = (value: string): string =>
+    value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+
+export const isOfxContent = (text: string): boolean =>
+    /OFXHEADER\s*:/i.test(text) || /<OFX>/i.test(text);
+
+export const parseOfx = (text: string): GeminiResponse => {
+    if (!isOfxContent(text)) {
+        throw new Error("O arquivo não parece ser um OFX válido.");
+    }
+
+    // Alguns bancos exportam o nome do titular em <NAME> dentro de <SONRS>/<ACCTFROM>; na maioria fica vazio.
+    const ownerMatch = text.match(/<(?:OWNERNAME|ACCTNAME)>([^<\r\n]*)/i);
+    const clientName = ownerMatch ? decodeEntities(ownerMatch[1].trim()) : '';
+
+    const rawTransactions: Transaction[] = [];
+    const transactionBlocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+    transactionBlocks.forEach(block => {
+        const amount = parseBrazilianAmount(readTag(block, 'TRNAMT'));
+        const date = parseStatementDate(readTag(block, 'DTPOSTED'));
+        if (amount === null || amount === 0 || !date) return;
+
+        const memo = decodeEntities(readTag(block, 'MEMO'));
+        const name = decodeEntities(readTag(block, 'NAME'));
+        const description = [name, memo].filter(Boolean).filter((part, i, parts) => parts.indexOf(part) === i).join(' - ')
+            || readTag(block, 'TRNTYPE')
+            || (amount > 0 ? 'CRÉDITO' : 'DÉBITO');
+
+        rawTransactions.push({ description, amount, date });
+    });
+
+    // O OFX informa apenas o saldo final (LEDGERBAL); o saldo inicial não faz parte do padrão
+    const ledgerBalance = text.match(/<LEDGERBAL>[\s\S]*?<BALAMT>([^<\r\n]*)/i);
+    const closingBalance = ledgerBalance ? parseBrazilianAmount(ledgerBalance[1]) : null;
+
+    // Período declarado (DTSTART/DTEND da lista de transações) e identificação da conta
+    const transactionList = text.match(/<BANKTRANLIST>[\s\S]*?(?=<STMTTRN>|<\/BANKTRANLIST>)/i)?.[0] || '';
+    const account = text.match(/<BANKACCTFROM>[\s\S]*?(?=<\/BANKACCTFROM>|<BANKTRANLIST>)/i)?.[0] || '';
+    const statement: StatementInfo = {};
+    const periodStart = parseStatementDate(readTag(transactionList, 'DTSTART'));
+    const periodEnd = parseStatementDate(readTag(transactionList, 'DTEND'));
+    if (periodStart) statement.periodStart = periodStart;
+    if (periodEnd) statement.periodEnd = periodEnd;
+    if (readTag(account, 'BANKID')) statement.bankName = readTag(account, 'BANKID');
+    if (readTag(account, 'BRANCHID')) statement.agency = readTag(account, 'BRANCHID');
+    if (readTag(account, 'ACCTID')) statement.accountNumber = readTag(account, 'ACCTID');
+
+    return {
+        clientName,
+        statement: Object.keys(statement).length > 0 ? statement : undefined,
+        positiveEntries: toPositiveEntries(rawTransactions),
+        transactions: rawTransactions,
+        openingBalance: null,
+        closingBalance,
+    };
+};
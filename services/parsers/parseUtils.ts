@@ -0,0 +1,135 @@
+import type { PositiveEntry, Transaction } from '../../types';
+
+// Utilitários compartilhados pelos parsers locais de extrato (OFX, CSV, CNAB).
+
+/**
+ * Converte valores monetários no formato brasileiro ("R$ 1.234,56", "-1.234,56", "1.234,56 D")
+ * ou no formato internacional ("1234.56") para número. Retorna null se não for possível.
+ */
+export const parseBrazilianAmount = (raw: string | number | null | undefined): number | null => {
+    if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+    if (!raw) return null;
+
+    let value = raw.trim().toUpperCase();
+    if (!value) return null;
+
+    let sign = 1;
+    // Sufixos/prefixos de natureza usados por alguns bancos ("100,00 D", "C 100,00")
+    if (/(^|\s)D$/.test(value) || /^D\s/.test(value)) sign = -1;
+    value = value.replace(/(^|\s)[CD]$/, '').replace(/^[CD]\s/, '');
+    // Valores entre parênteses são negativos na notação contábil
+    if (/^\(.*\)$/.test(value)) {
+        sign = -1;
+        value = value.slice(1, -1);
+    }
+    value = value.replace(/R\$/g, '').replace(/\s/g, '');
+    if (value.startsWith('-')) {
+        sign = -sign;
+        value = value.slice(1);
+    } else if (value.endsWith('-')) {
+        sign = -sign;
+        value = value.slice(0, -1);
+    } else if (value.startsWith('+')) {
+        value = value.slice(1);
+    }
+
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+    if (lastComma > -1 && lastDot > -1) {
+        // O último separador é o decimal
+        value = lastComma > lastDot
+            ? value.replace(/\./g, '').replace(',', '.')
+            : value.replace(/,/g, '');
+    } else if (lastComma > -1) {
+        value = value.replace(/\./g, '').replace(',', '.');
+    } else if (lastDot > -1 && /^\d{1,3}(\.\d{3})+$/.test(value)) {
+        // "1.234" sem casas decimais: ponto como separador de milhar
+        value = value.replace(/\./g, '');
+    }
+
+    if (!/^\d+(\.\d+)?$/.test(value)) return null;
+    const parsed = Number(value) * sign;
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+    if (month < 1 || month > 12 || day < 1) return false;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return day <= lastDay;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+    if (!isValidDate(year, month, day)) return null;
+    return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const expandYear = (year: string): number => {
+    const value = Number(year);
+    return year.length === 2 ? 2000 + value : value;
+};
+
+/**
+ * Normaliza datas dos formatos usados pelos bancos brasileiros para AAAA-MM-DD:
+ * DD/MM/AAAA, DD/MM/AA, DD-MM-AAAA, AAAA-MM-DD, AAAAMMDD (OFX) e DDMMAAAA/DDMMAA (CNAB, com `compactOrder: 'dmy'`).
+ */
+export const parseStatementDate = (raw: string | null | undefined, compactOrder: 'ymd' | 'dmy' = 'ymd'): string | null => {
+    if (!raw) return null;
+    const value = raw.trim();
+
+    let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+    match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/);
+    if (match) return toIsoDate(expandYear(match[3]), Number(match[2]), Number(match[1]));
+
+    match = value.match(/^(\d{8})/);
+    if (match) {
+        const digits = match[1];
+        return compactOrder === 'ymd'
+            ? toIsoDate(Number(digits.slice(0, 4)), Number(digits.slice(4, 6)), Number(digits.slice(6, 8)))
+            : toIsoDate(Number(digits.slice(4, 8)), Number(digits.slice(2, 4)), Number(digits.slice(0, 2)));
+    }
+
+    match = value.match(/^(\d{6})$/);
+    if (match && compactOrder === 'dmy') {
+        const digits = match[1];
+        return toIsoDate(expandYear(digits.slice(4, 6)), Number(digits.slice(2, 4)), Number(digits.slice(0, 2)));
+    }
+
+    return null;
+};
+
+/** Remove acentos, caixa e espaços repetidos para comparações de texto. */
+export const normalizeText = (value: string): string =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * Decodifica os bytes do arquivo tentando UTF-8 primeiro e caindo para Windows-1252,
+ * que é a codificação padrão da maioria dos OFX/CSV exportados por bancos brasileiros.
+ */
+export const decodeStatementBytes = (bytes: ArrayBuffer | Uint8Array): string => {
+    const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(data).replace(/^\uFEFF/, '');
+    } catch {
+        return new TextDecoder('windows-1252').decode(data);
+    }
+};
+
+/** Créditos do extrato; o que é ou não receita é decidido depois pelas regras de receita. */
+export const toPositiveEntries = (transactions: Transaction[]): PositiveEntry[] =>
+    transactions
+        .filter(transaction => transaction.amount > 0)
+        .map(({ description, amount, date, page, boundingBox, confidence, counterparty }) => {
+            const entry: PositiveEntry = { description, amount, date };
+            if (page !== undefined) entry.page = page;
+            if (boundingBox) entry.boundingBox = boundingBox;
+            if (confidence !== undefined) entry.confidence = confidence;
+            if (counterparty) entry.counterparty = counterparty;
+            return entry;
+        });
@@ -0,0 +1,141 @@
+import type { BoundingBox, GeminiResponse, StatementInfo, Transaction } from '../../types';
+import { parseBrazilianAmount, parseStatementDate, normalizeText, toPositiveEntries } from './parseUtils';
+
+// Interpreta o texto de extratos (camada de texto do PDF ou saída de OCR) linha a linha:
+// uma transação é uma linha que começa com data e termina com um ou dois valores (lançamento e saldo).
+
+export interface TextLine {
+    text: string;
+    boundingBox?: BoundingBox;
+    // Confiança do OCR (0 a 1); linhas da camada de texto do PDF são exatas
+    confidence?: number;
+}
+
+const LEADING_DATE = /^(\d{2}[/.-]\d{2}(?:[/.-]\d{2,4})?)\s+/;
+const AMOUNT_TOKEN = /(?:R\$\s*)?[-+]?\d{1,3}(?:\.\d{3})*,\d{2}(?:\s?[-+]|\s[CD]\b)?/g;
+const FULL_DATE = /\b(\d{2})[/.-](\d{2})[/.-](\d{4})\b/;
+
+const CREDIT_KEYWORDS = /(RECEBID|CREDITO|CRED\b|DEPOSITO|DEP\b|SALARIO|PROVENTO|ESTORNO|REEMBOLSO|RENDIMENTO|TED C|DOC C|PIX REC|TRANSF(ERENCIA)? REC)/;
+const DEBIT_KEYWORDS = /(ENVIAD|PAGAMENTO|PAGTO|PAG\b|COMPRA|SAQUE|TARIFA|DEBITO|DEB\b|IOF|JUROS|PIX ENV|TRANSF(ERENCIA)? ENV|BOLETO PAGO)/;
+
+const OPENING_BALANCE = /^(SALDO ANTERIOR|SALDO INICIAL|SDO ANTERIOR)/;
+const BALANCE_LINE = /^(SALDO|S A L D O|SDO\b)/;
+const CLIENT_NAME = /(?:NOME|CLIENTE|TITULAR)\s*:?\s+([A-ZÀ-Ú][A-ZÀ-Ú .'-]{3,})/i;
+const PERIOD = /PER[IÍ]ODO[^\d]*(\d{2}[/.-]\d{2}[/.-]\d{2,4})\s*(?:A|AT[EÉ]|-)\s*(\d{2}[/.-]\d{2}[/.-]\d{2,4})/i;
+const AGENCY = /AG[EÊ]NCIA\s*:?\s*(\d{3,5}(?:-[\dX])?)/i;
+const ACCOUNT = /CONTA(?:\s+CORRENTE)?\s*:?\s*(\d[\d.]*-[\dX])/i;
+
+const isSigned = (token: string): boolean => /-|\sD$/.test(token.trim()) || /\sC$/.test(token.trim());
+
+/** Período e conta impressos no cabeçalho, quando o texto os traz em um formato reconhecível. */
+const findStatementInfo = (lines: string[]): StatementInfo | undefined => {
+    const statement: StatementInfo = {};
+    const period = lines.map(line => line.match(PERIOD)).find(Boolean);
+    const periodStart = period ? parseStatementDate(period[1]) : null;
+    const periodEnd = period ? parseStatementDate(period[2]) : null;
+    if (periodStart && periodEnd && periodStart <= periodEnd) {
+        statement.periodStart = periodStart;
+        statement.periodEnd = periodEnd;
+    }
+    const agency = lines.map(line => line.match(AGENCY)).find(Boolean);
+    if (agency) statement.agency = agency[1];
+    const account = lines.map(line => line.match(ACCOUNT)).find(Boolean);
+    if (account) statement.accountNumber = account[1];
+    return Object.keys(statement).length > 0 ? statement : undefined;
+};
+
+/** Ano de referência: a primeira data completa do documento (normalmente o período do extrato). */
+const findReferenceYear = (lines: string[]): number => {
+    for (const line of lines) {
+        const match = line.match(FULL_DATE);
+        if (match) return Number(match[3]);
+    }
+    return new Date().getFullYear();
+};
+
+export const parseStatementLines = (inputPages: (string | TextLine)[][]): GeminiResponse => {
+    const pages = inputPages.map(lines => lines.map(line => (typeof line === 'string' ? { text: line } : line)));
+    const allLines = pages.flat().map(line => line.text.trim()).filter(Boolean);
+    const nameMatch = allLines.map(line => line.match(CLIENT_NAME)).find(Boolean);
+    const clientName = nameMatch ? nameMatch[1].trim().replace(/\s{2,}.*$/, '') : '';
+
+    // Se o banco sinaliza débitos com "-" ou "D", valores sem sinal são créditos
+    const hasExplicitSigns = allLines.some(line => LEADING_DATE.test(line) && (line.match(AMOUNT_TOKEN) || []).some(isSigned));
+
+    let year = findReferenceYear(allLines);
+    let lastMonth = 0;
+    let openingBalance: number | null = null;
+    let closingBalance: number | null = null;
+    let previousBalance: number | null = null;
+    const rawTransactions: Transaction[] = [];
+
+    pages.forEach((lines, pageIndex) => {
+        lines.forEach(textLine => {
+            const line = textLine.text.trim();
+            const dateMatch = line.match(LEADING_DATE);
+            if (!dateMatch) return;
+
+            const rest = line.slice(dateMatch[0].length);
+            const tokens = Array.from(rest.matchAll(AMOUNT_TOKEN));
+            if (tokens.length === 0) return;
+
+            const description = rest.slice(0, tokens[0].index).trim().replace(/\s{2,}/g, ' ');
+            const normalized = normalizeText(description);
+
+            // Datas sem ano (DD/MM) usam o ano de referência, avançando na virada de dezembro para janeiro
+            let date = parseStatementDate(dateMatch[1]);
+            if (!date) {
+                const [day, month] = dateMatch[1].split(/[/.-]/).map(Number);
+                if (lastMonth === 12 && month === 1) year++;
+                date = parseStatementDate(`${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`);
+            }
+            if (!date) return;
+            lastMonth = Number(date.slice(5, 7));
+
+            const amountToken = tokens[0][0];
+            const balance = tokens.length > 1 ? parseBrazilianAmount(tokens[tokens.length - 1][0]) : null;
+
+            if (BALANCE_LINE.test(normalized) || !description) {
+                const value = balance ?? parseBrazilianAmount(amountToken);
+                if (OPENING_BALANCE.test(normalized) && rawTransactions.length === 0) openingBalance = value;
+                else if (value !== null) closingBalance = value;
+                if (value !== null) previousBalance = value;
+                return;
+            }
+
+            const parsed = parseBrazilianAmount(amountToken);
+            if (parsed === null || parsed === 0) return;
+
+            let amount = parsed;
+            if (!isSigned(amountToken)) {
+                if (balance !== null && previousBalance !== null && Math.abs(Math.abs(balance - previousBalance) - Math.abs(parsed)) < 0.01) {
+                    // O saldo da linha diz se o valor entrou ou saiu
+                    amount = balance >= previousBalance ? Math.abs(parsed) : -Math.abs(parsed);
+                } else if (!hasExplicitSigns && DEBIT_KEYWORDS.test(normalized) && !CREDIT_KEYWORDS.test(normalized)) {
+                    amount = -Math.abs(parsed);
+                }
+            }
+
+            if (balance !== null) {
+                previousBalance = balance;
+                closingBalance = balance;
+            } else if (previousBalance !== null) {
+                previousBalance += amount;
+            }
+
+            const transaction: Transaction = { description, amount, date, balance, page: pageIndex + 1 };
+            if (textLine.boundingBox) transaction.boundingBox = textLine.boundingBox;
+            if (textLine.confidence !== undefined) transaction.confidence = textLine.confidence;
+            rawTransactions.push(transaction);
+        });
+    });
+
+    return {
+        clientName,
+        statement: findStatementInfo(allLines),
+        positiveEntries: toPositiveEntries(rawTransactions),
+        transactions: rawTransactions,
+        openingBalance,
+        closingBalance,
+    };
+};
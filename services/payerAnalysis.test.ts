@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { PositiveEntry } from '../types';
+import { analyzePayers } from './payerAnalysis';
+
+const entry = (description: string, amount: number, date: string): PositiveEntry => ({ id: `${description}-${date}`, description, amount, date });
+
+describe('analyzePayers', () => {
+    it('agrupa os créditos por pagador e classifica a recorrência', () => {
+        const analysis = analyzePayers([
+            entry('SALARIO EMPRESA X', 3000, '2024-01-05'),
+            entry('SALARIO EMPRESA X', 3000, '2024-02-05'),
+            entry('SALARIO EMPRESA Y', 1000, '2024-02-20'),
+            entry('PIX RECEBIDO MARIA SOUZA', 500, '2024-01-10'),
+            entry('PIX RECEBIDO MARIA SOUZA', 500, '2024-01-25'),
+            entry('PIX RECEBIDO', 1000, '2024-02-28'),
+        ]);
+
+        expect(analysis.monthCount).toBe(2);
+        expect(analysis.totalIncome).toBe(9000);
+        expect(analysis.unidentifiedTotal).toBe(1000);
+        expect(analysis.unidentifiedCount).toBe(1);
+        expect(analysis.payers.map(payer => [payer.name, payer.total, payer.count, payer.recurrence])).toEqual([
+            ['EMPRESA X', 6000, 2, 'recurring'],
+            ['EMPRESA Y', 1000, 1, 'one-off'],
+            ['MARIA SOUZA', 1000, 2, 'occasional'],
+        ]);
+        expect(analysis.payers[0].months).toEqual(['2024-01', '2024-02']);
+        expect(analysis.topPayerShare).toBeCloseTo(6000 / 9000);
+    });
+
+    it('mede a concentração pelo índice Herfindahl-Hirschman', () => {
+        const concentrated = analyzePayers([entry('SALARIO EMPRESA X', 9000, '2024-01-05'), entry('PIX RECEBIDO MARIA SOUZA', 1000, '2024-01-10')]);
+        expect(concentrated.concentrationIndex).toBeCloseTo(90 ** 2 + 10 ** 2);
+        expect(concentrated.concentrationLevel).toBe('high');
+
+        const spread = analyzePayers(['ANA', 'BRUNO', 'CARLA', 'DANIEL', 'ELISA'].map(name => entry(`PIX RECEBIDO ${name} COSTA`, 100, '2024-01-10')));
+        expect(spread.concentrationIndex).toBeCloseTo(2000);
+        expect(spread.concentrationLevel).toBe('moderate');
+        expect(spread.top3Share).toBeCloseTo(0.6);
+    });
+
+    it('ignora créditos sem data ou sem valor positivo', () => {
+        const analysis = analyzePayers([entry('SALARIO EMPRESA X', 3000, ''), entry('SALARIO EMPRESA X', 0, '2024-01-05')]);
+        expect(analysis.payers).toEqual([]);
+        expect(analysis.concentrationLevel).toBe('low');
+    });
+});
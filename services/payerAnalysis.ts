@@ -0,0 +1,88 @@
+import type { PayerAnalysis, PayerRecurrence, PayerSummary, PositiveEntry } from '../types';
+import { counterpartyKey, extractCounterparty } from './counterparty';
+
+// Faixas usuais do índice Herfindahl-Hirschman: abaixo de 1.500 a receita é pulverizada,
+// acima de 2.500 depende de poucos pagadores
+const HHI_MODERATE = 1500;
+const HHI_HIGH = 2500;
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+/**
+ * Pagador recorrente aparece em pelo menos metade dos meses analisados (e em 2 meses ou mais);
+ * pagador pontual tem um único crédito no período.
+ */
+const classifyRecurrence = (months: number, count: number, monthCount: number): PayerRecurrence => {
+    if (months >= 2 && months >= Math.ceil(monthCount / 2)) return 'recurring';
+    if (count === 1) return 'one-off';
+    return 'occasional';
+};
+
+export const analyzePayers = (entries: PositiveEntry[]): PayerAnalysis => {
+    const validEntries = entries.filter(entry => entry.date && entry.amount > 0);
+    const monthCount = new Set(validEntries.map(entry => monthOf(entry.date))).size;
+    const totalIncome = validEntries.reduce((sum, entry) => sum + entry.amount, 0);
+
+    const groups = new Map<string, { summary: PayerSummary; months: Set<string> }>();
+    let unidentifiedTotal = 0;
+    let unidentifiedCount = 0;
+
+    validEntries.forEach(entry => {
+        const counterparty = entry.counterparty || extractCounterparty(entry.description);
+        const key = counterpartyKey(counterparty);
+        if (!counterparty || !key) {
+            unidentifiedTotal += entry.amount;
+            unidentifiedCount++;
+            return;
+        }
+
+        let group = groups.get(key);
+        if (!group) {
+            group = {
+                summary: { key, name: counterparty.name || counterparty.document || key, total: 0, share: 0, count: 0, months: [], recurrence: 'one-off' },
+                months: new Set(),
+            };
+            groups.set(key, group);
+        }
+        const { summary } = group;
+        summary.total += entry.amount;
+        summary.count++;
+        if (!summary.document && counterparty.document) summary.document = counterparty.document;
+        if (!summary.bank && counterparty.bank) summary.bank = counterparty.bank;
+        group.months.add(monthOf(entry.date));
+    });
+
+    const payers = Array.from(groups.values())
+        .map(({ summary, months }) => ({
+            ...summary,
+            share: totalIncome > 0 ? summary.total / totalIncome : 0,
+            months: Array.from(months).sort(),
+            recurrence: classifyRecurrence(months.size, summary.count, monthCount),
+        }))
+        .sort((a, b) => b.total - a.total);
+
+    const concentrationIndex = payers.reduce((sum, payer) => sum + (payer.share * 100) ** 2, 0);
+    return {
+        payers,
+        totalIncome,
+        unidentifiedTotal,
+        unidentifiedCount,
+        monthCount,
+        topPayerShare: payers[0]?.share || 0,
+        top3Share: payers.slice(0, 3).reduce((sum, payer) => sum + payer.share, 0),
+        concentrationIndex,
+        concentrationLevel: concentrationIndex > HHI_HIGH ? 'high' : concentrationIndex >= HHI_MODERATE ? 'moderate' : 'low',
+    };
+};
+
+export const PAYER_RECURRENCE_LABELS: { [key in PayerRecurrence]: string } = {
+    recurring: 'Recorrente',
+    occasional: 'Eventual',
+    'one-off': 'Pontual',
+};
+
+export const CONCENTRATION_LABELS: { [key in PayerAnalysis['concentrationLevel']]: string } = {
+    low: 'Baixa',
+    moderate: 'Moderada',
+    high: 'Alta',
+};
@@ -0,0 +1,180 @@
+import type { jsPDF } from 'jspdf';
+import { formatAxisValue, hexToRgb, niceMaximum, shortMonthLabel, tintColor, type ChartSeries, type DashboardData } from './chartData';
+
+// Os mesmos gráficos do painel (components/IncomeDashboard.tsx), desenhados em vetor no jsPDF
+// para que quem lê só o relatório também os veja.
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const AXIS_LABEL_WIDTH = 20;
+const MONTH_LABEL_HEIGHT = 6;
+const TITLE_HEIGHT = 8;
+
+const drawTitle = (doc: jsPDF, box: Box, title: string, subtitle?: string) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.setTextColor(15, 23, 42); // slate-900
+    doc.text(title, box.x, box.y + 4);
+    if (subtitle) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        doc.setTextColor(100, 116, 139); // slate-500
+        doc.text(subtitle, box.x + box.width, box.y + 4, { align: 'right' });
+    }
+};
+
+// Área útil do gráfico, descontados o título, os rótulos do eixo e os meses
+const plotArea = (box: Box): Box => ({
+    x: box.x + AXIS_LABEL_WIDTH,
+    y: box.y + TITLE_HEIGHT,
+    width: box.width - AXIS_LABEL_WIDTH,
+    height: box.height - TITLE_HEIGHT - MONTH_LABEL_HEIGHT,
+});
+
+const drawMonthAxis = (doc: jsPDF, plot: Box, months: string[], maxValue: number) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(6.5);
+    doc.setTextColor(100, 116, 139); // slate-500
+    doc.setDrawColor(226, 232, 240); // slate-200
+    doc.setLineWidth(0.2);
+    [0, 0.25, 0.5, 0.75, 1].forEach(fraction => {
+        const y = plot.y + plot.height * (1 - fraction);
+        doc.line(plot.x, y, plot.x + plot.width, y);
+        doc.text(formatAxisValue(maxValue * fraction), plot.x - 2, y + 1, { align: 'right' });
+    });
+    const band = plot.width / months.length;
+    const labelEvery = Math.ceil(months.length / 12);
+    months.forEach((month, index) => {
+        if (index % labelEvery === 0) doc.text(shortMonthLabel(month), plot.x + band * (index + 0.5), plot.y + plot.height + 4, { align: 'center' });
+    });
+};
+
+const drawPolyline = (doc: jsPDF, points: [number, number][]) => {
+    points.slice(1).forEach(([x, y], index) => doc.line(points[index][0], points[index][1], x, y));
+};
+
+const drawMonthlyBars = (doc: jsPDF, box: Box, data: DashboardData) => {
+    const { months, monthlyTotals, trend } = data;
+    drawTitle(doc, box, 'Receita mensal', trend.length ? 'Barras: total do mês · tracejado: tendência' : undefined);
+    const plot = plotArea(box);
+    const maxValue = niceMaximum(Math.max(...monthlyTotals, ...trend));
+    drawMonthAxis(doc, plot, months, maxValue);
+    const band = plot.width / months.length;
+    const scaleY = (value: number) => plot.y + plot.height * (1 - Math.max(value, 0) / maxValue);
+
+    doc.setFillColor(...hexToRgb('#10b981'));
+    monthlyTotals.forEach((total, index) => {
+        const y = scaleY(total);
+        if (total > 0) doc.rect(plot.x + band * index + band * 0.15, y, band * 0.7, plot.y + plot.height - y, 'F');
+    });
+    if (trend.length > 0) {
+        doc.setDrawColor(...hexToRgb('#f59e0b'));
+        doc.setLineWidth(0.6);
+        doc.setLineDashPattern([2, 1.5], 0);
+        drawPolyline(doc, trend.map((value, index) => [plot.x + band * (index + 0.5), scaleY(value)]));
+        doc.setLineDashPattern([], 0);
+    }
+};
+
+const drawLegend = (doc: jsPDF, box: Box, series: ChartSeries[]) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(6.5);
+    doc.setTextColor(71, 85, 105); // slate-600
+    let x = box.x + AXIS_LABEL_WIDTH;
+    let y = box.y + box.height + 3;
+    series.forEach(item => {
+        const label = item.label.length > 28 ? `${item.label.slice(0, 27)}…` : item.label;
+        const width = doc.getTextWidth(label) + 7;
+        if (x + width > box.x + box.width) {
+            x = box.x + AXIS_LABEL_WIDTH;
+            y += 3.5;
+        }
+        doc.setFillColor(...hexToRgb(item.color));
+        doc.rect(x, y - 2, 2.2, 2.2, 'F');
+        doc.text(label, x + 3, y);
+        x += width;
+    });
+};
+
+const drawStackedBars = (doc: jsPDF, box: Box, data: DashboardData) => {
+    const { months, monthlyTotals } = data;
+    const series = data.stacked.category;
+    drawTitle(doc, box, 'Receita por categoria');
+    const legendRows = 2;
+    const chartBox = { ...box, height: box.height - legendRows * 3.5 };
+    const plot = plotArea(chartBox);
+    const maxValue = niceMaximum(Math.max(...monthlyTotals));
+    drawMonthAxis(doc, plot, months, maxValue);
+    const band = plot.width / months.length;
+
+    months.forEach((_, index) => {
+        let base = 0;
+        series.forEach(item => {
+            const value = item.values[index];
+            if (!value) return;
+            const height = plot.height * (value / maxValue);
+            const top = plot.y + plot.height * (1 - base / maxValue) - height;
+            doc.setFillColor(...hexToRgb(item.color));
+            doc.rect(plot.x + band * index + band * 0.15, top, band * 0.7, height, 'F');
+            base += value;
+        });
+    });
+    drawLegend(doc, chartBox, series);
+};
+
+const drawCumulative = (doc: jsPDF, box: Box, data: DashboardData) => {
+    const { months, cumulative } = data;
+    drawTitle(doc, box, 'Receita acumulada', `Total: ${formatAxisValue(cumulative[cumulative.length - 1])}`);
+    const plot = plotArea(box);
+    const maxValue = niceMaximum(cumulative[cumulative.length - 1]);
+    drawMonthAxis(doc, plot, months, maxValue);
+    const band = plot.width / months.length;
+    const points = cumulative.map((value, index): [number, number] => [plot.x + band * (index + 0.5), plot.y + plot.height * (1 - value / maxValue)]);
+
+    doc.setDrawColor(...hexToRgb('#0ea5e9'));
+    doc.setLineWidth(0.7);
+    drawPolyline(doc, points);
+    doc.setFillColor(...hexToRgb('#0ea5e9'));
+    points.forEach(([x, y]) => doc.circle(x, y, 0.8, 'F'));
+};
+
+const drawHeatmap = (doc: jsPDF, box: Box, data: DashboardData) => {
+    const { months, heatmap } = data;
+    drawTitle(doc, box, 'Dia do mês em que o dinheiro entra', 'Cor mais forte = mais receita no dia');
+    const plot = { x: box.x + AXIS_LABEL_WIDTH, y: box.y + TITLE_HEIGHT + 4, width: box.width - AXIS_LABEL_WIDTH, height: box.height - TITLE_HEIGHT - 4 };
+    const cellWidth = plot.width / 31;
+    const cellHeight = Math.min(plot.height / months.length, 5);
+    const maxValue = Math.max(...heatmap.flat(), 0);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(6);
+    doc.setTextColor(100, 116, 139); // slate-500
+    [1, 5, 10, 15, 20, 25, 31].forEach(day => doc.text(String(day), plot.x + cellWidth * (day - 0.5), plot.y - 1.5, { align: 'center' }));
+    // Em períodos longos, os rótulos dos meses ficam a cada N linhas para não se sobreporem
+    const labelEvery = Math.ceil(2.5 / cellHeight);
+    heatmap.forEach((row, monthIndex) => {
+        const y = plot.y + cellHeight * monthIndex;
+        if (monthIndex % labelEvery === 0) doc.text(shortMonthLabel(months[monthIndex]), plot.x - 2, y + cellHeight * 0.75, { align: 'right' });
+        row.forEach((value, dayIndex) => {
+            doc.setFillColor(...(value > 0 ? tintColor('#10b981', 0.2 + 0.8 * (value / maxValue)) : tintColor('#f1f5f9', 1)));
+            doc.rect(plot.x + cellWidth * dayIndex + 0.2, y + 0.2, cellWidth - 0.4, cellHeight - 0.4, 'F');
+        });
+    });
+};
+
+/** Desenha os quatro gráficos do painel em uma grade 2 × 2 dentro da área informada. */
+export const drawDashboardCharts = (doc: jsPDF, area: Box, data: DashboardData) => {
+    if (data.months.length === 0) return;
+    const gap = 10;
+    const width = (area.width - gap) / 2;
+    const height = (area.height - gap) / 2;
+    drawMonthlyBars(doc, { x: area.x, y: area.y, width, height }, data);
+    drawStackedBars(doc, { x: area.x + width + gap, y: area.y, width, height }, data);
+    drawCumulative(doc, { x: area.x, y: area.y + height + gap, width, height }, data);
+    drawHeatmap(doc, { x: area.x + width + gap, y: area.y + height + gap, width, height }, data);
+};
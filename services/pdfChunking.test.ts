@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { GeminiResponse, PdfChunk, SessionFile } from '../types';
+import { findEmptyPages, removeOverlapDuplicates, stitchChunkResults, toChunkPage, toDocumentPages } from './pdfChunking';
+
+const chunk = (pageStart: number, pageEnd: number, pageCount = 6): PdfChunk => ({ documentId: 'doc', documentName: 'extrato.pdf', pageStart, pageEnd, pageCount });
+
+const chunkFile = (id: string, pdfChunk: PdfChunk, result: Partial<GeminiResponse>, status: SessionFile['status'] = 'done'): SessionFile => ({
+    id,
+    file: new File([], `${id}.pdf`),
+    name: id,
+    status,
+    chunk: pdfChunk,
+    result: { clientName: '', positiveEntries: [], ...result },
+});
+
+describe('toDocumentPages', () => {
+    it('converte as páginas do lote para a numeração do PDF original', () => {
+        const result = toDocumentPages({
+            clientName: '',
+            positiveEntries: [{ description: 'A', amount: 1, date: '2024-01-01', page: 1 }, { description: 'B', amount: 2, date: '2024-01-02', page: 5 }],
+            pageBalances: [{ page: 2, openingBalance: 0, closingBalance: 1 }, { page: 9, openingBalance: 0, closingBalance: 1 }],
+        }, chunk(4, 6));
+        // A página 5 já está na numeração do original; a 9 não existe no lote
+        expect(result.positiveEntries.map(entry => entry.page)).toEqual([4, 5]);
+        expect(result.pageBalances).toEqual([{ page: 5, openingBalance: 0, closingBalance: 1 }]);
+    });
+
+    it('descarta páginas fora do lote e deixa intactas as respostas de arquivos inteiros', () => {
+        const response: GeminiResponse = { clientName: '', positiveEntries: [{ description: 'A', amount: 1, date: '2024-01-01', page: 12 }] };
+        expect(toDocumentPages(response, chunk(4, 6)).positiveEntries[0]).not.toHaveProperty('page');
+        expect(toDocumentPages(response, undefined)).toBe(response);
+    });
+});
+
+describe('toChunkPage', () => {
+    it('converte a página do original para a página dentro do lote', () => {
+        expect(toChunkPage(chunkFile('a', chunk(4, 6), {}), 5)).toBe(2);
+        expect(toChunkPage({ ...chunkFile('a', chunk(1, 1), {}), chunk: undefined }, 5)).toBe(5);
+    });
+});
+
+describe('removeOverlapDuplicates', () => {
+    it('descarta o que o lote seguinte repete da página compartilhada, contando lançamentos iguais um a um', () => {
+        const pix = { description: 'PIX', amount: 10, date: '2024-01-05', page: 3 };
+        const files = [
+            chunkFile('a', chunk(1, 3), { positiveEntries: [pix] }),
+            chunkFile('b', chunk(3, 5), { positiveEntries: [pix, { ...pix, description: 'PIX (segundo)' }, { description: 'TED', amount: 20, date: '2024-01-06', page: 4 }] }),
+        ];
+        const [first, second] = removeOverlapDuplicates(files);
+        expect(first.result!.positiveEntries).toEqual([pix]);
+        expect(second.result!.positiveEntries.map(entry => entry.description)).toEqual(['PIX (segundo)', 'TED']);
+    });
+
+    it('ignora arquivos sem lote ou ainda não analisados', () => {
+        const pending = chunkFile('a', chunk(1, 3), {}, 'pending');
+        expect(removeOverlapDuplicates([pending])[0]).toBe(pending);
+    });
+});
+
+describe('stitchChunkResults', () => {
+    it('junta os lotes em ordem de página, com o saldo inicial do primeiro e o final do último', () => {
+        const files = [
+            chunkFile('b', chunk(4, 6), { closingBalance: 30, transactions: [{ description: 'B', amount: 20, date: '2024-01-10', page: 5 }] }),
+            chunkFile('a', chunk(1, 3), { clientName: 'MARIA', openingBalance: 0, closingBalance: 10, transactions: [{ description: 'A', amount: 10, date: '2024-01-01', page: 2 }] }),
+        ];
+        const stitched = stitchChunkResults(files)!;
+        expect(stitched.clientName).toBe('MARIA');
+        expect(stitched.transactions!.map(line => line.description)).toEqual(['A', 'B']);
+        expect(stitched.openingBalance).toBe(0);
+        expect(stitched.closingBalance).toBe(30);
+    });
+
+    it('devolve null enquanto falta alguma página', () => {
+        expect(stitchChunkResults([chunkFile('a', chunk(1, 3), {})])).toBeNull();
+        expect(stitchChunkResults([chunkFile('a', chunk(1, 3), {}), chunkFile('b', chunk(4, 6), {}, 'error')])).toBeNull();
+    });
+});
+
+describe('findEmptyPages', () => {
+    it('lista as páginas analisadas sem nenhuma linha', () => {
+        const files = [
+            chunkFile('a', chunk(1, 3), { positiveEntries: [{ description: 'A', amount: 1, date: '2024-01-01', page: 1 }] }),
+            chunkFile('b', chunk(4, 6), { needsReview: [{ id: 'r1', raw: { description: 'X', amount: '?', date: '01/01' }, reasons: ['invalid-amount'], page: 6 }] }),
+        ];
+        expect(findEmptyPages(files)).toEqual([{ documentId: 'doc', documentName: 'extrato.pdf', pages: [2, 3, 4, 5] }]);
+    });
+
+    it('não aponta páginas quando alguma linha veio sem página', () => {
+        const files = [chunkFile('a', chunk(1, 3, 3), { positiveEntries: [{ description: 'A', amount: 1, date: '2024-01-01' }] })];
+        expect(findEmptyPages(files)).toEqual([]);
+    });
+});
@@ -0,0 +1,233 @@
+import { PDFDocument } from 'pdf-lib';
+import type { EmptyPages, ExtractionContext, GeminiResponse, PdfChunk, PositiveEntry, ReviewItem, SessionFile, Transaction } from '../types';
+
+// Extratos longos vão para a IA em lotes de páginas: um PDF de 40 páginas numa requisição só passa
+// do limite de tamanho ou volta com lançamentos faltando nas últimas páginas. Lotes consecutivos
+// repetem uma página, para que a transação que começa numa página e termina na seguinte apareça
+// inteira em algum lote; a repetição é descontada ao juntar os resultados.
+
+export const PDF_PAGES_PER_CHUNK = 5;
+
+// Bem abaixo do limite do proxy (15 MB), já que o documento viaja em base64
+const MAX_CHUNK_BYTES = 8 * 1024 * 1024;
+
+export interface PdfChunkFile {
+    file: File;
+    pageStart: number;
+    pageEnd: number;
+    pageCount: number;
+}
+
+const copyPages = async (source: PDFDocument, pageStart: number, pageEnd: number): Promise<Uint8Array> => {
+    const chunkDoc = await PDFDocument.create();
+    const indices = Array.from({ length: pageEnd - pageStart + 1 }, (_, index) => pageStart - 1 + index);
+    const pages = await chunkDoc.copyPages(source, indices);
+    pages.forEach(page => chunkDoc.addPage(page));
+    return chunkDoc.save();
+};
+
+const chunkFileName = (documentName: string, pageStart: number, pageEnd: number): string => {
+    const baseName = documentName.replace(/\.pdf$/i, '');
+    return pageStart === pageEnd ? `${baseName} (pág. ${pageStart}).pdf` : `${baseName} (págs. ${pageStart}-${pageEnd}).pdf`;
+};
+
+/**
+ * Divide o PDF em lotes de até `pagesPerChunk` páginas, com uma página repetida entre lotes
+ * consecutivos; um lote que passe do tamanho máximo perde páginas até caber. PDFs curtos seguem
+ * inteiros. `null` para PDFs protegidos ou corrompidos, que seguem inteiros para a IA.
+ */
+export const splitPdfIntoChunks = async (file: File, pagesPerChunk = PDF_PAGES_PER_CHUNK): Promise<PdfChunkFile[] | null> => {
+    let source: PDFDocument;
+    try {
+        source = await PDFDocument.load(await file.arrayBuffer());
+    } catch (error) {
+        console.warn(`Não foi possível dividir "${file.name}" em lotes de páginas. O arquivo será enviado inteiro.`, error);
+        return null;
+    }
+    const pageCount = source.getPageCount();
+    if (pageCount <= pagesPerChunk) return [{ file, pageStart: 1, pageEnd: pageCount, pageCount }];
+
+    const chunks: PdfChunkFile[] = [];
+    let pageStart = 1;
+    while (true) {
+        let pageEnd = Math.min(pageStart + pagesPerChunk - 1, pageCount);
+        let bytes = await copyPages(source, pageStart, pageEnd);
+        while (bytes.length > MAX_CHUNK_BYTES && pageEnd > pageStart) {
+            pageEnd--;
+            bytes = await copyPages(source, pageStart, pageEnd);
+        }
+        chunks.push({ file: new File([bytes], chunkFileName(file.name, pageStart, pageEnd), { type: 'application/pdf' }), pageStart, pageEnd, pageCount });
+        if (pageEnd === pageCount) return chunks;
+        // O próximo lote começa na última página deste (sem repetir quando o lote tem uma página só)
+        pageStart = pageEnd > pageStart ? pageEnd : pageEnd + 1;
+    }
+};
+
+/** Separa uma página do lote num arquivo próprio, para reanalisá-la sozinha. */
+export const extractChunkPage = async (sessionFile: SessionFile, page: number): Promise<{ file: File; chunk: PdfChunk }> => {
+    const chunk = sessionFile.chunk!;
+    const source = await PDFDocument.load(await sessionFile.file.arrayBuffer());
+    const bytes = await copyPages(source, page - chunk.pageStart + 1, page - chunk.pageStart + 1);
+    return {
+        file: new File([bytes], chunkFileName(chunk.documentName, page, page), { type: 'application/pdf' }),
+        chunk: { ...chunk, pageStart: page, pageEnd: page },
+    };
+};
+
+/** O lote é só uma parte do PDF: a IA recebe o contexto do lote para numerar as páginas e suprir o cabeçalho. */
+export const isPartialChunk = (chunk: PdfChunk | undefined): chunk is PdfChunk =>
+    !!chunk && (chunk.pageStart > 1 || chunk.pageEnd < chunk.pageCount);
+
+export const buildExtractionContext = (chunk: PdfChunk, header?: GeminiResponse): ExtractionContext => {
+    const context: ExtractionContext = { pageStart: chunk.pageStart, pageEnd: chunk.pageEnd, pageCount: chunk.pageCount };
+    if (header?.clientName) context.clientName = header.clientName;
+    if (header?.statement?.periodStart && header.statement.periodEnd) {
+        context.statement = { periodStart: header.statement.periodStart, periodEnd: header.statement.periodEnd };
+    }
+    return context;
+};
+
+/**
+ * Converte as páginas da resposta (contadas dentro do lote) para a numeração do PDF original.
+ * Páginas fora do lote são descartadas; se o modelo já usou a numeração do original, ela é mantida.
+ */
+export const toDocumentPages = (response: GeminiResponse, chunk: PdfChunk | undefined): GeminiResponse => {
+    if (!chunk) return response;
+    const length = chunk.pageEnd - chunk.pageStart + 1;
+    const mapPage = (page: number | undefined): number | undefined => {
+        if (page === undefined) return undefined;
+        if (page >= 1 && page <= length) return page + chunk.pageStart - 1;
+        return page >= chunk.pageStart && page <= chunk.pageEnd ? page : undefined;
+    };
+    const withPage = <T extends { page?: number }>(line: T): T => {
+        const { page, ...rest } = line;
+        const mapped = mapPage(page);
+        return (mapped === undefined ? rest : { ...rest, page: mapped }) as T;
+    };
+    const result: GeminiResponse = {
+        ...response,
+        positiveEntries: response.positiveEntries.map(withPage),
+    };
+    if (response.needsReview) result.needsReview = response.needsReview.map(withPage);
+    if (response.transactions) result.transactions = response.transactions.map(withPage);
+    if (response.pageBalances) {
+        result.pageBalances = response.pageBalances
+            .map(balance => ({ ...balance, page: mapPage(balance.page)! }))
+            .filter(balance => balance.page !== undefined);
+    }
+    return result;
+};
+
+/** Página dentro do arquivo do lote, para a pré-visualização (que abre o arquivo do lote). */
+export const toChunkPage = (sessionFile: SessionFile, page: number | undefined): number | undefined =>
+    page !== undefined && sessionFile.chunk ? page - sessionFile.chunk.pageStart + 1 : page;
+
+const fingerprintLine = (line: { date: string; amount: number }): string => `${line.date}|${Math.round(line.amount * 100)}`;
+
+const fingerprintReview = (item: ReviewItem): string => `${item.raw.date}|${item.raw.amount}|${item.raw.description}`;
+
+/**
+ * Descarta o que um lote repete de outro anterior do mesmo PDF: nas páginas já lidas (a página
+ * repetida entre lotes, ou uma página reanalisada sozinha), só entra o que os arquivos anteriores
+ * não trouxeram, comparando data e valor. Lançamentos iguais na mesma página contam cada um.
+ */
+export const removeOverlapDuplicates = (files: SessionFile[]): SessionFile[] => {
+    const coveredPages = new Set<string>();
+    // Por lista, documento e página: quantas vezes cada lançamento já apareceu
+    const seen = new Map<string, Map<string, number>>();
+
+    return files.map(file => {
+        const { chunk, result } = file;
+        if (!chunk || file.status !== 'done' || !result) return file;
+        const pageKey = (page: number) => `${chunk.documentId}:${page}`;
+
+        const keepNew = <T extends { page?: number }>(list: string, lines: T[], fingerprint: (line: T) => string): T[] => {
+            const used = new Map<string, number>();
+            const kept = lines.filter(line => {
+                if (line.page === undefined || !coveredPages.has(pageKey(line.page))) return true;
+                const key = fingerprint(line);
+                const previous = seen.get(`${list}:${pageKey(line.page)}`)?.get(key) || 0;
+                const matched = used.get(key) || 0;
+                if (matched >= previous) return true;
+                used.set(key, matched + 1);
+                return false;
+            });
+            kept.forEach(line => {
+                if (line.page === undefined) return;
+                const poolKey = `${list}:${pageKey(line.page)}`;
+                const pool = seen.get(poolKey) || new Map<string, number>();
+                pool.set(fingerprint(line), (pool.get(fingerprint(line)) || 0) + 1);
+                seen.set(poolKey, pool);
+            });
+            return kept;
+        };
+
+        const deduped: GeminiResponse = { ...result, positiveEntries: keepNew<PositiveEntry>('entries', result.positiveEntries, fingerprintLine) };
+        if (result.transactions) deduped.transactions = keepNew<Transaction>('transactions', result.transactions, fingerprintLine);
+        if (result.needsReview) deduped.needsReview = keepNew<ReviewItem>('review', result.needsReview, fingerprintReview);
+        if (result.pageBalances) deduped.pageBalances = result.pageBalances.filter(balance => !coveredPages.has(pageKey(balance.page)));
+        for (let page = chunk.pageStart; page <= chunk.pageEnd; page++) coveredPages.add(pageKey(page));
+        return { ...file, result: deduped };
+    });
+};
+
+/**
+ * Junta os lotes de um PDF num resultado só (já sem as repetições), com o saldo inicial do primeiro
+ * lote e o final do último. `null` quando falta algum lote para cobrir todas as páginas.
+ */
+export const stitchChunkResults = (chunkFiles: SessionFile[]): GeminiResponse | null => {
+    const done = chunkFiles.filter(file => file.status === 'done' && file.result && file.chunk);
+    if (done.length === 0) return null;
+    const pageCount = done[0].chunk!.pageCount;
+    const covered = new Set<number>();
+    done.forEach(({ chunk }) => {
+        for (let page = chunk!.pageStart; page <= chunk!.pageEnd; page++) covered.add(page);
+    });
+    if (covered.size < pageCount) return null;
+
+    const ordered = [...done].sort((a, b) => a.chunk!.pageStart - b.chunk!.pageStart);
+    const first = ordered[0].result!;
+    const last = [...ordered].sort((a, b) => a.chunk!.pageEnd - b.chunk!.pageEnd).pop()!.result!;
+    // A ordem das linhas importa para a conferência linha a linha: página, depois a ordem no lote
+    const byPage = <T extends { page?: number }>(pick: (file: SessionFile) => T[] | undefined): T[] =>
+        ordered
+            .flatMap(file => (pick(file) || []).map(line => ({ line, page: line.page ?? file.chunk!.pageStart })))
+            .sort((a, b) => a.page - b.page)
+            .map(({ line }) => line);
+
+    return {
+        clientName: ordered.map(file => file.result!.clientName).find(Boolean) || '',
+        statement: ordered.map(file => file.result!.statement).find(Boolean),
+        positiveEntries: byPage(file => file.result!.positiveEntries),
+        needsReview: byPage(file => file.result!.needsReview),
+        transactions: byPage(file => file.result!.transactions),
+        openingBalance: first.openingBalance ?? null,
+        closingBalance: last.closingBalance ?? null,
+        pageBalances: ordered.flatMap(file => file.result!.pageBalances || []).sort((a, b) => a.page - b.page),
+    };
+};
+
+/**
+ * Páginas já analisadas de cada PDF em que nenhum arquivo encontrou lançamentos (nem linhas para
+ * revisão). No modo só de créditos, uma página só com débitos também aparece aqui.
+ */
+export const findEmptyPages = (files: SessionFile[]): EmptyPages[] => {
+    const documents = new Map<string, { documentName: string; covered: Set<number>; withLines: Set<number> }>();
+    files.forEach(({ chunk, result, status }) => {
+        if (!chunk || status !== 'done' || !result) return;
+        const document = documents.get(chunk.documentId) || { documentName: chunk.documentName, covered: new Set<number>(), withLines: new Set<number>() };
+        const lines: { page?: number }[] = [...result.positiveEntries, ...(result.transactions || []), ...(result.needsReview || [])];
+        for (let page = chunk.pageStart; page <= chunk.pageEnd; page++) document.covered.add(page);
+        // Sem a página de alguma linha, não dá para saber qual página ficou vazia
+        if (lines.some(line => line.page === undefined)) {
+            for (let page = chunk.pageStart; page <= chunk.pageEnd; page++) document.withLines.add(page);
+        }
+        lines.forEach(line => line.page !== undefined && document.withLines.add(line.page));
+        documents.set(chunk.documentId, document);
+    });
+    return Array.from(documents, ([documentId, { documentName, covered, withLines }]) => ({
+        documentId,
+        documentName,
+        pages: Array.from(covered).filter(page => !withLines.has(page)).sort((a, b) => a - b),
+    })).filter(document => document.pages.length > 0);
+};
@@ -0,0 +1,89 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextLine } from './parsers/textLineParser';
+// @ts-ignore - import de asset resolvido pelo Vite
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export type PdfDocument = pdfjsLib.PDFDocumentProxy;
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const loadPdf = (data: Uint8Array | ArrayBuffer): Promise<PdfDocument> =>
+    // O pdf.js transfere o buffer para o worker; uma cópia evita invalidar o array de quem chamou
+    pdfjsLib.getDocument({ data: new Uint8Array(data).slice() }).promise;
+
+/**
+ * Lê a camada de texto de cada página, remontando as linhas pela posição vertical dos trechos.
+ * PDFs digitalizados (só imagem) retornam páginas vazias.
+ */
+export const extractPdfText = async (data: Uint8Array | ArrayBuffer): Promise<TextLine[][]> => {
+    const pdf = await loadPdf(data);
+    const pages: TextLine[][] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const { width: pageWidth, height: pageHeight } = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+        const rows = new Map<number, { x: number; width: number; height: number; text: string }[]>();
+        content.items.forEach((item: any) => {
+            if (!item.str || !item.str.trim()) return;
+            const [, , , , x, y] = item.transform;
+            // Trechos com até 2pt de diferença vertical pertencem à mesma linha
+            const key = Array.from(rows.keys()).find(existing => Math.abs(existing - y) <= 2) ?? y;
+            rows.set(key, [...(rows.get(key) || []), { x, width: item.width, height: item.height, text: item.str }]);
+        });
+        pages.push(
+            Array.from(rows.entries())
+                .sort((a, b) => b[0] - a[0])
+                .map(([y, parts]) => {
+                    parts.sort((a, b) => a.x - b.x);
+                    const left = parts[0].x;
+                    const right = Math.max(...parts.map(part => part.x + part.width));
+                    const height = Math.max(...parts.map(part => part.height)) || 10;
+                    // O PDF mede y de baixo para cima; a região usa origem no topo
+                    return {
+                        text: parts.map(part => part.text.trim()).join('  '),
+                        boundingBox: {
+                            x: left / pageWidth,
+                            y: Math.max(pageHeight - y - height, 0) / pageHeight,
+                            width: (right - left) / pageWidth,
+                            height: height / pageHeight,
+                        },
+                        confidence: 1,
+                    };
+                })
+        );
+    }
+    await pdf.destroy();
+    return pages;
+};
+
+export const renderPdfPage = async (pdf: PdfDocument, pageNumber: number, canvas: HTMLCanvasElement, scale: number): Promise<void> => {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Não foi possível criar o contexto de desenho do PDF.");
+    await page.render({ canvasContext: context, viewport }).promise;
+};
+
+/** Rasteriza todas as páginas em PNG (data URL), para OCR ou modelos que só aceitam imagens. */
+export const renderPdfPagesToImages = async (data: Uint8Array | ArrayBuffer, scale = 2): Promise<string[]> => {
+    const pdf = await loadPdf(data);
+    const images: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const canvas = document.createElement('canvas');
+        await renderPdfPage(pdf, pageNumber, canvas, scale);
+        images.push(canvas.toDataURL('image/png'));
+    }
+    await pdf.destroy();
+    return images;
+};
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { UserOptions } from 'jspdf-autotable';
+import type { ExcludedEntry, PositiveEntry, ReportTemplate } from '../types';
+import { buildPdfReport } from './pdfReport';
+import { DEFAULT_REPORT_TEMPLATE } from './reportTemplates';
+
+// As tabelas são conferidas pelo que o relatório pede ao jspdf-autotable, sem ler o PDF gerado
+const tables = vi.hoisted(() => [] as { head?: unknown; body?: unknown; foot?: unknown }[]);
+vi.mock('jspdf-autotable', () => ({
+    default: (doc: { lastAutoTable?: { finalY: number } }, options: UserOptions) => {
+        tables.push({ head: options.head, body: options.body, foot: options.foot });
+        doc.lastAutoTable = { finalY: ((options.startY as number) || 0) + 20 };
+    },
+}));
+
+const entries: PositiveEntry[] = [
+    { id: 'e1', description: 'SALARIO EMPRESA', amount: 3000, date: '2024-01-05', category: 'salario' },
+    { id: 'e2', description: 'PIX CLIENTE', amount: 500, date: '2024-01-20', category: 'vendas' },
+    { id: 'e3', description: 'SALARIO EMPRESA', amount: 3000, date: '2024-02-05', category: 'salario' },
+];
+
+const excluded: ExcludedEntry[] = [
+    { entry: { description: 'TED MESMA TITULARIDADE', amount: 800, date: '2024-02-10' }, ruleId: 'default-mesma-titularidade', ruleName: 'Transferência de mesma titularidade' },
+    { entry: { description: 'RESGATE CDB', amount: 200, date: '2024-01-15' }, ruleId: 'default-resgate-aplicacao', ruleName: 'Resgate de aplicação financeira' },
+];
+
+const onlySections = (...sections: (keyof ReportTemplate['sections'])[]): ReportTemplate => ({
+    ...DEFAULT_REPORT_TEMPLATE,
+    sections: Object.fromEntries(Object.keys(DEFAULT_REPORT_TEMPLATE.sections).map(id => [id, sections.includes(id as keyof ReportTemplate['sections'])])) as ReportTemplate['sections'],
+});
+
+const headOf = (table: { head?: unknown }) => (table.head as string[][])[0][0];
+
+// Espaço duro que o Intl usa entre "R$" e o valor
+const brl = (value: string) => `R$ ${value}`;
+
+describe('buildPdfReport', () => {
+    beforeEach(() => {
+        tables.length = 0;
+    });
+
+    it('monta a análise mensal com os totais por mês e o total geral', () => {
+        buildPdfReport({ entries, clientName: 'MARIA', generatedAt: new Date('2024-03-01T12:00:00Z') }, onlySections('monthly'));
+        expect(tables).toHaveLength(1);
+        const [monthly] = tables;
+        expect(monthly.head).toEqual([['Análise Mensal por Categoria', 'Janeiro/24', 'Fevereiro/24', 'Total']]);
+        expect(monthly.foot).toEqual([['Total Mensal', brl('3.500,00'), brl('3.000,00'), brl('6.500,00')]]);
+        // Cada categoria vem seguida das suas descrições
+        expect(monthly.body).toEqual([
+            ['Salário e benefícios', brl('3.000,00'), brl('3.000,00'), brl('6.000,00')],
+            ['SALARIO EMPRESA', brl('3.000,00'), brl('3.000,00'), brl('6.000,00')],
+            ['Vendas / maquininha', brl('500,00'), '-', brl('500,00')],
+            ['PIX CLIENTE', brl('500,00'), '-', brl('500,00')],
+        ]);
+    });
+
+    it('lista os créditos excluídos em ordem de data, com o motivo e o total excluído', () => {
+        buildPdfReport({ entries, clientName: 'MARIA', excluded }, onlySections('exclusions'));
+        expect(tables).toHaveLength(1);
+        const [exclusions] = tables;
+        expect(exclusions.body).toEqual([
+            ['15/01/2024', 'RESGATE CDB', 'Resgate de aplicação financeira', { content: brl('200,00'), styles: { halign: 'right' } }],
+            ['10/02/2024', 'TED MESMA TITULARIDADE', 'Transferência de mesma titularidade', { content: brl('800,00'), styles: { halign: 'right' } }],
+        ]);
+        expect(exclusions.foot).toEqual([['', 'Total excluído', '', { content: brl('1.000,00'), styles: { halign: 'right' } }]]);
+    });
+
+    it('inclui só as seções ligadas no modelo, na ordem do relatório', () => {
+        buildPdfReport({ entries, clientName: 'MARIA', excluded }, onlySections('entries', 'exclusions', 'stability'));
+        expect(tables.map(headOf)).toEqual(['Indicador', 'Data', 'Data']);
+        expect((tables[1].body as unknown[][]).map(row => row[1])).toEqual(['SALARIO EMPRESA', 'PIX CLIENTE', 'SALARIO EMPRESA']);
+    });
+
+    it('deixa de fora as seções sem dados', () => {
+        buildPdfReport({ entries, clientName: 'MARIA' }, onlySections('exclusions', 'reconciliation', 'coverage', 'audit'));
+        expect(tables).toEqual([]);
+    });
+
+    it('gera um PDF com o título do modelo e uma página por seção de página inteira', () => {
+        const doc = buildPdfReport({ entries, clientName: 'MARIA' }, { ...onlySections('summary'), title: 'Relatorio da Agencia Centro' });
+        expect(doc.getNumberOfPages()).toBe(1);
+        expect(doc.output()).toContain('Relatorio da Agencia Centro');
+    });
+});
@@ -0,0 +1,502 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { AuditEvent, ExcludedEntry, PositiveEntry, ReconciliationReport, ReportDetails, ReportTemplate, StatementCoverage } from '../types';
+import { getCategoryLabel } from './categorization';
+import { analyzePayers, CONCENTRATION_LABELS, PAYER_RECURRENCE_LABELS } from './payerAnalysis';
+import { computeIncomeStability } from './incomeStability';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, AUDIT_SOURCE_LABELS, formatAuditValue, isManualCorrection } from './auditTrail';
+import { buildMonthlyPivot, type MonthlyAmounts } from './monthlyPivot';
+import { buildDashboardData, hexToRgb, tintColor } from './chartData';
+import { drawDashboardCharts } from './pdfCharts';
+import { DEFAULT_REPORT_TEMPLATE, EMPTY_REPORT_DETAILS } from './reportTemplates';
+
+// Relatório PDF da análise. Não depende da tela: recebe os dados, o modelo (identidade visual
+// e seções ligadas) e os dados do caso, e devolve o documento pronto para salvar.
+
+export interface PdfReportData {
+    entries: PositiveEntry[];
+    clientName: string;
+    reconciliation?: ReconciliationReport[];
+    auditTrail?: AuditEvent[];
+    excluded?: ExcludedEntry[];
+    // Período coberto pelos extratos: meses sem crédito viram colunas zeradas
+    coverage?: StatementCoverage;
+    generatedAt?: Date;
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+    }).format(value);
+};
+
+const monthNames: { [key: string]: string } = {
+    '01': 'Janeiro', '02': 'Fevereiro', '03': 'Março', '04': 'Abril',
+    '05': 'Maio', '06': 'Junho', '07': 'Julho', '08': 'Agosto',
+    '09': 'Setembro', '10': 'Outubro', '11': 'Novembro', '12': 'Dezembro'
+};
+
+const scopeLabels = { statement: 'Extrato', page: 'Página', month: 'Mês', line: 'Linha' };
+
+const monthLabel = (monthYear: string) => {
+    const [year, month] = monthYear.split('-');
+    return `${monthNames[month]}/${year.slice(2)}`;
+};
+
+const formatDay = (date: string) => date.split('-').reverse().join('/');
+
+const formatDate = (dateString: string) => {
+    if (!dateString || !dateString.includes('-')) return 'N/A';
+    const [year, month, day] = dateString.split('-');
+    return `${day}/${month}/${year}`;
+};
+
+// Altura máxima do logotipo no cabeçalho, em milímetros; a largura segue a proporção da imagem
+const LOGO_HEIGHT = 16;
+const LOGO_MAX_WIDTH = 45;
+
+export const buildPdfReport = (data: PdfReportData, template: ReportTemplate = DEFAULT_REPORT_TEMPLATE, details: ReportDetails = EMPTY_REPORT_DETAILS): jsPDF => {
+    const { entries, clientName, reconciliation = [], auditTrail = [], excluded = [], coverage } = data;
+    const show = template.sections;
+    const primary = hexToRgb(template.primaryColor);
+    const accent = hexToRgb(template.accentColor);
+    const tableHeader = hexToRgb(template.tableHeaderColor);
+
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const generationDate = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'long', timeStyle: 'short' }).format(data.generatedAt || new Date());
+
+    // --- Calculations for Summary ---
+    const coverageMonths = coverage?.months || [];
+    const pivot = buildMonthlyPivot(entries, coverageMonths);
+    const { months: sortedMonths, monthlyTotals, grandTotal } = pivot;
+    const transactionCount = entries.length;
+    const numberOfMonths = sortedMonths.length;
+    const monthlyAverage = numberOfMonths > 0 ? grandTotal / numberOfMonths : 0;
+
+    const [bestMonthYear, bestMonthValue] = Object.entries(monthlyTotals).reduce((best, current) => {
+        return current[1] > best[1] ? current : best;
+    }, ['', 0]);
+    const bestMonthFormatted = bestMonthYear ? monthLabel(bestMonthYear) : 'N/A';
+
+    const firstMonth = sortedMonths.length ? monthLabel(sortedMonths[0]) : '';
+    const lastMonth = sortedMonths.length ? monthLabel(sortedMonths[sortedMonths.length - 1]) : '';
+    const period = coverage?.start && coverage.end
+      ? `${formatDay(coverage.start)} a ${formatDay(coverage.end)}`
+      : firstMonth && lastMonth ? (firstMonth === lastMonth ? firstMonth : `${firstMonth} a ${lastMonth}`) : 'N/A';
+    const emptyMonthCount = sortedMonths.filter(monthYear => !monthlyTotals[monthYear]).length;
+
+    // Próxima posição livre na página; cada seção começa 15 mm abaixo da anterior
+    let cursorY = 55;
+    const afterTable = () => {
+        cursorY = (doc as any).lastAutoTable.finalY + 15;
+    };
+    const drawHeading = (title: string, minSpace = 50) => {
+        if (cursorY > pageHeight - minSpace) {
+            doc.addPage();
+            cursorY = 20;
+        }
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(16);
+        doc.setTextColor(...primary);
+        doc.text(title, 14, cursorY);
+    };
+    const tableHeadStyles = { fillColor: tableHeader, textColor: 255, fontStyle: 'bold' as const };
+
+    // --- PDF Header ---
+    let titleX = 14;
+    if (template.logoDataUrl) {
+        const { width, height } = doc.getImageProperties(template.logoDataUrl);
+        const logoWidth = Math.min(LOGO_HEIGHT * (width / height), LOGO_MAX_WIDTH);
+        const logoHeight = logoWidth * (height / width);
+        doc.addImage(template.logoDataUrl, 14, 8 + (LOGO_HEIGHT - logoHeight) / 2, logoWidth, logoHeight);
+        titleX += logoWidth + 5;
+    }
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(20);
+    doc.setTextColor(...primary);
+    doc.text(template.title || DEFAULT_REPORT_TEMPLATE.title, titleX, 20);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(100, 116, 139); // slate-500
+    if (template.subtitle.trim()) {
+        doc.text(template.subtitle.trim(), titleX, 26);
+    }
+    if (details.caseNumber.trim()) {
+        doc.text(`Caso nº ${details.caseNumber.trim()}`, pageWidth - 14, 20, { align: 'right' });
+    }
+    if (details.analystName.trim()) {
+        doc.text(`Analista: ${details.analystName.trim()}`, pageWidth - 14, 26, { align: 'right' });
+    }
+
+    doc.setFontSize(11);
+    doc.setTextColor(48, 59, 72); // slate-700
+    if (clientName.trim()) {
+      doc.text(`Cliente: ${clientName.trim()}`, 14, 35);
+    }
+    doc.text(`Período Analisado: ${period}`, 14, 41);
+    doc.text(`Gerado em: ${generationDate}`, pageWidth - 14, 35, { align: 'right' });
+
+    const reconciliationMismatches = reconciliation.reduce((sum, report) => sum + report.checks.filter(check => !check.ok).length, 0);
+    const hasReconciliationChecks = reconciliation.some(report => report.checks.length > 0);
+    if (hasReconciliationChecks) {
+      if (reconciliationMismatches > 0) {
+        doc.setTextColor(185, 28, 28); // red-700
+        doc.text(`Conciliação de saldos: ${reconciliationMismatches} divergência(s)`, pageWidth - 14, 41, { align: 'right' });
+      } else {
+        doc.setTextColor(4, 120, 87); // emerald-700
+        doc.text('Conciliação de saldos: OK', pageWidth - 14, 41, { align: 'right' });
+      }
+      doc.setTextColor(48, 59, 72); // slate-700
+    }
+
+    const coverageWarnings = [
+      coverage?.gaps.length ? `${coverage.gaps.length} lacuna(s) de datas entre os extratos` : '',
+      emptyMonthCount > 0 ? `${emptyMonthCount} mês(es) sem crédito, contados com total zero na média` : '',
+    ].filter(Boolean);
+    if (coverageWarnings.length > 0) {
+      doc.setFontSize(9);
+      doc.setTextColor(180, 83, 9); // amber-700
+      doc.text(`Atenção: ${coverageWarnings.join(' · ')}.`, 14, 46);
+      doc.setTextColor(48, 59, 72); // slate-700
+    }
+
+    doc.setLineWidth(0.2);
+    doc.setDrawColor(226, 232, 240); // slate-200
+    doc.line(14, 48, pageWidth - 14, 48);
+
+    // --- Summary Section ---
+    if (show.summary) {
+      const summaryStartY = cursorY;
+      const boxWidth = (pageWidth - 28 - 30) / 4; // 28 for margins, 30 for gaps
+      const boxHeight = 25;
+
+      const drawSummaryBox = (x: number, title: string, value: string) => {
+          doc.setFillColor(248, 250, 252); // slate-50
+          doc.setDrawColor(226, 232, 240); // slate-200
+          doc.roundedRect(x, summaryStartY, boxWidth, boxHeight, 3, 3, 'FD');
+          doc.setFontSize(9);
+          doc.setFont('helvetica', 'bold');
+          doc.setTextColor(100, 116, 139); // slate-500
+          doc.text(title.toUpperCase(), x + 8, summaryStartY + 7);
+          doc.setFontSize(14);
+          doc.setFont('helvetica', 'bold');
+          doc.setTextColor(...primary);
+          doc.text(value, x + 8, summaryStartY + 18);
+      };
+
+      drawSummaryBox(14, "Total de Créditos", formatCurrency(grandTotal));
+      drawSummaryBox(14 + boxWidth + 10, "Nº de Transações", transactionCount.toString());
+      drawSummaryBox(14 + (boxWidth + 10) * 2, "Média Mensal", formatCurrency(monthlyAverage));
+      drawSummaryBox(14 + (boxWidth + 10) * 3, "Mês de Maior Receita", `${bestMonthFormatted}`);
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(100, 116, 139); // slate-500
+      doc.text(`(${formatCurrency(bestMonthValue)})`, 14 + (boxWidth + 10) * 3 + 8, summaryStartY + 23);
+      cursorY = summaryStartY + boxHeight + 15;
+    }
+
+    // --- Monthly Analysis Table ---
+    if (show.monthly) {
+      const monthlyTableHead = ['Análise Mensal por Categoria', ...sortedMonths.map(monthLabel), 'Total'];
+      const formatMonthlyRow = (label: string, amounts: MonthlyAmounts) => [
+        label,
+        ...sortedMonths.map(monthYear => amounts[monthYear] ? formatCurrency(amounts[monthYear]) : '-'),
+        formatCurrency(amounts.total)
+      ];
+      // Cada categoria é seguida pelas suas descrições (detalhamento)
+      const categoryRowIndexes = new Set<number>();
+      const monthlyTableBody: string[][] = [];
+      pivot.categories.forEach(category => {
+        categoryRowIndexes.add(monthlyTableBody.length);
+        monthlyTableBody.push(formatMonthlyRow(getCategoryLabel(category), pivot.byCategory[category]));
+        pivot.descriptions[category].forEach(description => {
+          monthlyTableBody.push(formatMonthlyRow(description, pivot.byDescription[category][description]));
+        });
+      });
+      const monthlyTableFoot = [['Total Mensal', ...sortedMonths.map(monthYear => formatCurrency(monthlyTotals[monthYear])), formatCurrency(grandTotal)]];
+
+      autoTable(doc, {
+        startY: cursorY,
+        head: [monthlyTableHead],
+        body: monthlyTableBody,
+        foot: monthlyTableFoot,
+        theme: 'grid',
+        headStyles: { fillColor: accent, textColor: 255, fontStyle: 'bold' },
+        footStyles: { fillColor: [241, 245, 249], textColor: primary, fontStyle: 'bold', lineWidth: 0.2 },
+        didParseCell: (data: any) => {
+          if (data.section !== 'body') return;
+          if (categoryRowIndexes.has(data.row.index)) {
+            data.cell.styles.fontStyle = 'bold';
+            data.cell.styles.fillColor = tintColor(template.accentColor, 0.1);
+            data.cell.styles.textColor = primary;
+          } else {
+            data.cell.styles.fontSize = 8;
+            data.cell.styles.textColor = [71, 85, 105]; // slate-600
+            if (data.column.index === 0) data.cell.styles.cellPadding = { top: 1.5, right: 2, bottom: 1.5, left: 7 };
+          }
+        },
+      });
+      afterTable();
+    }
+
+    // --- Charts Page ---
+    const dashboard = buildDashboardData(entries, coverageMonths);
+    if (show.charts && dashboard.months.length > 0) {
+      doc.addPage();
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(16);
+      doc.setTextColor(...primary);
+      doc.text("Painel de Receitas", 14, 20);
+      drawDashboardCharts(doc, { x: 14, y: 28, width: pageWidth - 28, height: pageHeight - 28 - 18 }, dashboard);
+      // A página dos gráficos fica só para eles: a próxima seção começa em página nova
+      cursorY = pageHeight;
+    }
+
+    // --- Income Stability Section ---
+    if (show.stability) {
+      const stability = computeIncomeStability(entries, coverageMonths);
+      drawHeading("Estabilidade e Renda Presumida");
+      autoTable(doc, {
+        startY: cursorY + 7,
+        head: [['Indicador', 'Valor', 'Como foi calculado']],
+        body: stability.metrics.map(metric => [metric.label, metric.display, metric.explanation]),
+        theme: 'striped',
+        headStyles: tableHeadStyles,
+        columnStyles: { 0: { cellWidth: 50, fontStyle: 'bold' }, 1: { cellWidth: 40, halign: 'right' } },
+        didParseCell: (data: any) => {
+          if (data.section === 'body' && stability.metrics[data.row.index]?.id === 'presumed') {
+            data.cell.styles.fillColor = tintColor(template.accentColor, 0.1);
+            data.cell.styles.textColor = primary;
+            if (data.column.index < 2) data.cell.styles.fontStyle = 'bold';
+          }
+        },
+      });
+      afterTable();
+    }
+
+    // --- Payer Analysis Section ---
+    const payerAnalysis = analyzePayers(entries);
+    if (show.payers && payerAnalysis.payers.length > 0) {
+      drawHeading("Análise de Pagadores");
+
+      const formatShare = (value: number) => `${(value * 100).toFixed(1).replace('.', ',')}%`;
+      const recurringCount = payerAnalysis.payers.filter(payer => payer.recurrence === 'recurring').length;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(71, 85, 105); // slate-600
+      doc.text(
+        `${payerAnalysis.payers.length} pagador(es), ${recurringCount} recorrente(s) · Maior pagador: ${formatShare(payerAnalysis.topPayerShare)} · 3 maiores: ${formatShare(payerAnalysis.top3Share)} · ` +
+        `Concentração (HHI): ${Math.round(payerAnalysis.concentrationIndex).toLocaleString('pt-BR')} (${CONCENTRATION_LABELS[payerAnalysis.concentrationLevel]})`,
+        14, cursorY + 6
+      );
+
+      const payerTableBody = payerAnalysis.payers.slice(0, 15).map(payer => [
+        [payer.name, payer.document, payer.bank].filter(Boolean).join(' · '),
+        PAYER_RECURRENCE_LABELS[payer.recurrence],
+        `${payer.months.length} de ${payerAnalysis.monthCount}`,
+        payer.count.toString(),
+        formatCurrency(payer.total),
+        formatShare(payer.share),
+      ]);
+      if (payerAnalysis.unidentifiedCount > 0) {
+        payerTableBody.push(['Pagador não identificado', '-', '-', payerAnalysis.unidentifiedCount.toString(), formatCurrency(payerAnalysis.unidentifiedTotal), formatShare(payerAnalysis.unidentifiedTotal / payerAnalysis.totalIncome)]);
+      }
+
+      autoTable(doc, {
+        startY: cursorY + 10,
+        head: [['Pagador', 'Perfil', 'Meses', 'Créditos', 'Total', 'Participação']],
+        body: payerTableBody,
+        theme: 'striped',
+        headStyles: tableHeadStyles,
+        columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } },
+      });
+      afterTable();
+    }
+
+    // --- Statement Coverage Section ---
+    if (show.coverage && coverage && coverage.periods.length > 0) {
+      drawHeading("Cobertura dos Extratos");
+
+      const coverageBody = [
+        ...coverage.periods.map(item => ({
+          start: item.start,
+          row: [
+            item.sourceFile,
+            [item.bankName, item.agency && `Ag. ${item.agency}`, item.accountNumber && `C/C ${item.accountNumber}`].filter(Boolean).join(' · ') || '-',
+            formatDay(item.start),
+            formatDay(item.end),
+            item.declared ? 'Período impresso no extrato' : 'Deduzido das datas dos lançamentos',
+          ],
+        })),
+        ...coverage.gaps.map(gap => ({
+          start: gap.start,
+          row: ['LACUNA — nenhum extrato cobre estes dias', '-', formatDay(gap.start), formatDay(gap.end), `${gap.days} dia(s)`],
+        })),
+      ].sort((a, b) => a.start.localeCompare(b.start)).map(item => item.row);
+
+      autoTable(doc, {
+        startY: cursorY + 7,
+        head: [['Extrato', 'Conta', 'Início', 'Fim', 'Origem do período']],
+        body: coverageBody,
+        theme: 'striped',
+        headStyles: tableHeadStyles,
+        didParseCell: (data: any) => {
+          if (data.section === 'body' && String(data.row.raw[0]).startsWith('LACUNA')) {
+            data.cell.styles.textColor = [180, 83, 9]; // amber-700
+            data.cell.styles.fontStyle = 'bold';
+          }
+        },
+      });
+      afterTable();
+    }
+
+    // --- Detailed Transactions Table ---
+    if (show.entries) {
+      drawHeading("Extrato Detalhado de Créditos", 40);
+      const sortedEntries = [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+      autoTable(doc, {
+        startY: cursorY + 7,
+        head: [['Data', 'Descrição', 'Categoria', 'Valor (R$)']],
+        body: sortedEntries.map(entry => [
+          formatDate(entry.date),
+          entry.description,
+          getCategoryLabel(entry.category),
+          { content: formatCurrency(entry.amount), styles: { halign: 'right' } },
+        ]),
+        theme: 'striped',
+        headStyles: tableHeadStyles,
+        columnStyles: { 3: { halign: 'right' } },
+      });
+      afterTable();
+    }
+
+    // --- Excluded Credits Section ---
+    if (show.exclusions && excluded.length > 0) {
+      drawHeading("Créditos Excluídos da Receita", 40);
+      const sortedExcluded = [...excluded].sort((a, b) => (a.entry.date || '').localeCompare(b.entry.date || ''));
+      autoTable(doc, {
+        startY: cursorY + 7,
+        head: [['Data', 'Descrição', 'Motivo da exclusão', 'Valor (R$)']],
+        body: sortedExcluded.map(item => [
+          formatDate(item.entry.date),
+          item.entry.description,
+          item.ruleName,
+          { content: formatCurrency(item.entry.amount), styles: { halign: 'right' } },
+        ]),
+        foot: [['', 'Total excluído', '', { content: formatCurrency(excluded.reduce((sum, item) => sum + item.entry.amount, 0)), styles: { halign: 'right' } }]],
+        theme: 'striped',
+        headStyles: tableHeadStyles,
+        footStyles: { fillColor: [241, 245, 249], textColor: primary, fontStyle: 'bold' },
+        columnStyles: { 3: { halign: 'right' } },
+      });
+      afterTable();
+    }
+
+    // --- Reconciliation Section ---
+    if (show.reconciliation && hasReconciliationChecks) {
+      drawHeading("Conciliação de Saldos", 40);
+
+      const reconciliationBody = reconciliation.flatMap(report => report.checks.map(check => [
+        report.sourceFile,
+        `${scopeLabels[check.scope]}: ${check.label}`,
+        formatCurrency(check.openingBalance),
+        formatCurrency(check.credits),
+        formatCurrency(check.debits),
+        formatCurrency(check.expectedClosing),
+        formatCurrency(check.actualClosing),
+        check.ok ? 'OK' : `ERRO ${formatCurrency(check.difference)}`,
+      ]));
+
+      autoTable(doc, {
+        startY: cursorY + 7,
+        head: [['Arquivo', 'Escopo', 'Saldo Inicial', 'Créditos', 'Débitos', 'Saldo Esperado', 'Saldo no Extrato', 'Resultado']],
+        body: reconciliationBody,
+        theme: 'striped',
+        headStyles: tableHeadStyles,
+        columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' }, 7: { halign: 'right' } },
+        didParseCell: (data: any) => {
+          if (data.section === 'body' && String(data.row.raw[7]).startsWith('ERRO')) {
+            data.cell.styles.textColor = [185, 28, 28]; // red-700
+            data.cell.styles.fontStyle = 'bold';
+          }
+        },
+      });
+      afterTable();
+    }
+
+    // --- Analyst Observations ---
+    const observations = details.observations.trim();
+    if (show.observations && observations) {
+      drawHeading("Parecer do Analista", 40);
+      cursorY += 8;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(48, 59, 72); // slate-700
+      const lineHeight = 5;
+      doc.splitTextToSize(observations, pageWidth - 28).forEach((line: string) => {
+        if (cursorY > pageHeight - 20) {
+          doc.addPage();
+          cursorY = 20;
+        }
+        doc.text(line, 14, cursorY);
+        cursorY += lineHeight;
+      });
+      if (details.analystName.trim()) {
+        doc.setFont('helvetica', 'bold');
+        doc.text(`${details.analystName.trim()}${details.caseNumber.trim() ? ` · Caso nº ${details.caseNumber.trim()}` : ''}`, 14, cursorY + 4);
+        cursorY += lineHeight;
+      }
+    }
+
+    // --- Appendix: Manual Corrections ---
+    const manualCorrections = auditTrail.filter(isManualCorrection);
+    if (show.audit && manualCorrections.length > 0) {
+      doc.addPage();
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(16);
+      doc.setTextColor(...primary);
+      doc.text("Apêndice — Correções Manuais", 14, 20);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(100, 116, 139);
+      doc.text("Alterações feitas pelo analista sobre os valores extraídos dos extratos, em ordem cronológica.", 14, 26);
+
+      const timestampFormatter = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'short', timeStyle: 'medium' });
+      autoTable(doc, {
+        startY: 32,
+        head: [['Data/Hora', 'Origem', 'Alteração', 'Lançamento', 'Antes', 'Depois']],
+        body: manualCorrections.map(event => [
+          timestampFormatter.format(new Date(event.at)),
+          AUDIT_SOURCE_LABELS[event.source],
+          `${AUDIT_ACTION_LABELS[event.action]}${event.field ? ` · ${AUDIT_FIELD_LABELS[event.field]}` : ''}`,
+          [event.entryLabel, event.sourceFile].filter(Boolean).join(' · ') || '-',
+          formatAuditValue(event.field || 'amount', event.before),
+          formatAuditValue(event.field || 'amount', event.after),
+        ]),
+        theme: 'striped',
+        headStyles: tableHeadStyles,
+        styles: { fontSize: 8 },
+        columnStyles: { 0: { cellWidth: 32 }, 1: { cellWidth: 22 }, 2: { cellWidth: 38 } },
+      });
+    }
+
+    // --- Add Page Footers ---
+    const pageCount = (doc as any).internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(150);
+      doc.text(`Página ${i} de ${pageCount}`, 14, pageHeight - 8);
+      if (template.footerText.trim()) {
+        doc.text(template.footerText.trim(), pageWidth - 14, pageHeight - 8, { align: 'right' });
+      }
+    }
+
+    return doc;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { GeminiResponse, SessionFile } from '../types';
+import { reconcileResponse, reconcileSession } from './reconciliation';
+
+const response = (changes: Partial<GeminiResponse>): GeminiResponse => ({ clientName: '', positiveEntries: [], ...changes });
+
+describe('reconcileResponse', () => {
+    it('confere o extrato inteiro e cada mês, levando o saldo de um mês para o seguinte', () => {
+        const report = reconcileResponse(response({
+            openingBalance: 100,
+            closingBalance: 250,
+            transactions: [
+                { description: 'SALARIO', amount: 200, date: '2024-01-05', balance: 300 },
+                { description: 'ALUGUEL', amount: -100, date: '2024-01-10', balance: 200 },
+                { description: 'PIX', amount: 50, date: '2024-02-03' },
+            ],
+        }), 'extrato.csv');
+        expect(report.status).toBe('ok');
+        expect(report.checks.map(check => [check.scope, check.label, check.expectedClosing])).toEqual([
+            ['statement', 'Extrato completo', 250],
+            ['month', 'Janeiro/2024', 200],
+            ['month', 'Fevereiro/2024', 250],
+        ]);
+    });
+
+    it('deduz o saldo inicial da primeira linha e aponta a linha que não fecha', () => {
+        const report = reconcileResponse(response({
+            transactions: [
+                { description: 'SALARIO', amount: 200, date: '2024-01-05', balance: 300 },
+                { description: 'PIX', amount: 50, date: '2024-01-06', balance: 360 },
+            ],
+        }), 'extrato.pdf');
+        expect(report.status).toBe('mismatch');
+        const line = report.checks.find(check => check.scope === 'line');
+        expect(line).toMatchObject({ label: '06/01/2024 — PIX', openingBalance: 300, expectedClosing: 350, actualClosing: 360, difference: 10, ok: false });
+    });
+
+    it('fica indisponível sem transações ou sem saldos', () => {
+        expect(reconcileResponse(response({}), 'a.pdf')).toEqual({ sourceFile: 'a.pdf', status: 'unavailable', checks: [] });
+        expect(reconcileResponse(response({ transactions: [{ description: 'PIX', amount: 10, date: '2024-01-01' }] }), 'a.pdf').status).toBe('unavailable');
+    });
+});
+
+describe('reconcileSession', () => {
+    const chunkFile = (id: string, pageStart: number, pageEnd: number, result: GeminiResponse): SessionFile => ({
+        id,
+        file: new File([], `${id}.pdf`),
+        name: `extrato.pdf (págs. ${pageStart}-${pageEnd})`,
+        status: 'done',
+        chunk: { documentId: 'doc', documentName: 'extrato.pdf', pageStart, pageEnd, pageCount: 3 },
+        result,
+    });
+
+    it('confere os lotes de um PDF juntos, sem contar duas vezes a página repetida', () => {
+        const shared = { description: 'PIX', amount: 50, date: '2024-01-06', balance: 350, page: 2 };
+        const files = [
+            chunkFile('a', 1, 2, response({ openingBalance: 100, transactions: [{ description: 'SALARIO', amount: 200, date: '2024-01-05', balance: 300, page: 1 }, shared] })),
+            chunkFile('b', 2, 3, response({ closingBalance: 330, transactions: [shared, { description: 'TARIFA', amount: -20, date: '2024-01-07', balance: 330, page: 3 }] })),
+        ];
+        const reports = reconcileSession(files);
+        expect(reports).toHaveLength(1);
+        expect(reports[0].sourceFile).toBe('extrato.pdf');
+        expect(reports[0].status).toBe('ok');
+    });
+
+    it('confere cada lote sozinho enquanto falta alguma página', () => {
+        const files = [chunkFile('a', 1, 2, response({ openingBalance: 0, closingBalance: 10, transactions: [{ description: 'PIX', amount: 10, date: '2024-01-01', page: 1 }] }))];
+        expect(reconcileSession(files).map(report => [report.sourceFile, report.status])).toEqual([['extrato.pdf (págs. 1-2)', 'ok']]);
+    });
+});
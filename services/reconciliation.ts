@@ -0,0 +1,133 @@
+import type { GeminiResponse, ReconciliationCheck, ReconciliationReport, ReconciliationScope, SessionFile, Transaction } from '../types';
+import { removeOverlapDuplicates, stitchChunkResults } from './pdfChunking';
+
+// Diferenças abaixo de um centavo são arredondamento
+const TOLERANCE = 0.01;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const monthNames: { [key: string]: string } = {
+  '01': 'Janeiro', '02': 'Fevereiro', '03': 'Março', '04': 'Abril',
+  '05': 'Maio', '06': 'Junho', '07': 'Julho', '08': 'Agosto',
+  '09': 'Setembro', '10': 'Outubro', '11': 'Novembro', '12': 'Dezembro'
+};
+
+const buildCheck = (
+    scope: ReconciliationScope,
+    label: string,
+    openingBalance: number,
+    transactions: Transaction[],
+    actualClosing: number
+): ReconciliationCheck => {
+    const credits = roundCents(transactions.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0));
+    const debits = roundCents(transactions.filter(t => t.amount < 0).reduce((sum, t) => sum - t.amount, 0));
+    const expectedClosing = roundCents(openingBalance + credits - debits);
+    const difference = roundCents(actualClosing - expectedClosing);
+    return {
+        scope,
+        label,
+        openingBalance: roundCents(openingBalance),
+        credits,
+        debits,
+        expectedClosing,
+        actualClosing: roundCents(actualClosing),
+        difference,
+        ok: Math.abs(difference) < TOLERANCE,
+    };
+};
+
+const hasBalance = (transaction: Transaction): transaction is Transaction & { balance: number } =>
+    typeof transaction.balance === 'number' && Number.isFinite(transaction.balance);
+
+/**
+ * Confere se saldo inicial + créditos − débitos = saldo final no extrato inteiro, em cada página,
+ * em cada mês e entre linhas consecutivas que tenham saldo impresso.
+ * Quando o saldo inicial não é informado, ele é deduzido do saldo da primeira linha.
+ */
+export const reconcileResponse = (response: GeminiResponse, sourceFile: string): ReconciliationReport => {
+    const transactions = response.transactions || [];
+    const checks: ReconciliationCheck[] = [];
+    if (transactions.length === 0) {
+        return { sourceFile, status: 'unavailable', checks };
+    }
+
+    const first = transactions[0];
+    const lastWithBalance = [...transactions].reverse().find(hasBalance);
+    const openingBalance = response.openingBalance ?? (hasBalance(first) ? first.balance - first.amount : null);
+    const closingBalance = response.closingBalance ?? (lastWithBalance === transactions[transactions.length - 1] ? lastWithBalance.balance : null);
+
+    // Extrato inteiro
+    if (openingBalance !== null && closingBalance !== null) {
+        checks.push(buildCheck('statement', 'Extrato completo', openingBalance, transactions, closingBalance));
+    }
+
+    // Por página
+    (response.pageBalances || []).forEach(({ page, openingBalance: pageOpening, closingBalance: pageClosing }) => {
+        if (pageOpening === null || pageClosing === null) return;
+        const pageTransactions = transactions.filter(t => t.page === page);
+        checks.push(buildCheck('page', `Página ${page}`, pageOpening, pageTransactions, pageClosing));
+    });
+
+    // Por mês: o saldo final de um mês é o inicial do seguinte
+    if (openingBalance !== null) {
+        const months = Array.from(new Set(transactions.map(t => t.date.slice(0, 7)))).sort();
+        let runningOpening = openingBalance;
+        months.forEach((monthYear, index) => {
+            const monthTransactions = transactions.filter(t => t.date.startsWith(monthYear));
+            const lastTransaction = monthTransactions[monthTransactions.length - 1];
+            const isLastMonth = index === months.length - 1;
+            const actual = hasBalance(lastTransaction) ? lastTransaction.balance : (isLastMonth ? closingBalance : null);
+            const [year, month] = monthYear.split('-');
+            const label = `${monthNames[month] || month}/${year}`;
+
+            if (actual !== null) {
+                checks.push(buildCheck('month', label, runningOpening, monthTransactions, actual));
+                runningOpening = actual;
+            } else {
+                runningOpening = buildCheck('month', label, runningOpening, monthTransactions, 0).expectedClosing;
+            }
+        });
+    }
+
+    // Linha a linha: muitos bancos só imprimem o saldo no fim do dia, então soma desde o último saldo conhecido
+    let lastKnownBalance = openingBalance;
+    let pending: Transaction[] = [];
+    transactions.forEach(transaction => {
+        pending.push(transaction);
+        if (!hasBalance(transaction)) return;
+        if (lastKnownBalance !== null) {
+            const check = buildCheck('line', `${transaction.date.split('-').reverse().join('/')} — ${transaction.description}`, lastKnownBalance, pending, transaction.balance);
+            // Só as divergências interessam no nível de linha
+            if (!check.ok) checks.push(check);
+        }
+        lastKnownBalance = transaction.balance;
+        pending = [];
+    });
+
+    const status = checks.length === 0 ? 'unavailable' : checks.every(check => check.ok) ? 'ok' : 'mismatch';
+    return { sourceFile, status, checks };
+};
+
+/**
+ * Um relatório por extrato. Os lotes de um PDF dividido são conferidos juntos quando todas as
+ * páginas já foram analisadas; antes disso, cada lote é conferido sozinho.
+ */
+export const reconcileSession = (files: SessionFile[]): ReconciliationReport[] => {
+    const reports: ReconciliationReport[] = [];
+    const stitchedDocuments = new Set<string>();
+    const doneFiles = removeOverlapDuplicates(files).filter(file => file.status === 'done' && file.result);
+    doneFiles.forEach(file => {
+        const { chunk } = file;
+        if (chunk) {
+            if (stitchedDocuments.has(chunk.documentId)) return;
+            const stitched = stitchChunkResults(doneFiles.filter(other => other.chunk?.documentId === chunk.documentId));
+            if (stitched) {
+                stitchedDocuments.add(chunk.documentId);
+                if (stitched.transactions?.length) reports.push(reconcileResponse(stitched, chunk.documentName));
+                return;
+            }
+        }
+        if (file.result!.transactions?.length) reports.push(reconcileResponse(file.result!, file.name));
+    });
+    return reports;
+};
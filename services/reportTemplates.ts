@@ -0,0 +1,115 @@
+import type { ReportDetails, ReportSectionId, ReportTemplate } from '../types';
+import { createId, readFileAsBase64 } from './analysisSession';
+
+// Modelos do relatório PDF: cada unidade de negócio guarda a sua identidade visual
+// (logotipo, cores, textos) e escolhe quais seções entram no relatório.
+
+const TEMPLATES_STORAGE_KEY = 'analisador.reportTemplates';
+
+// O logotipo fica no localStorage junto com os modelos, que tem poucos megabytes
+const MAX_LOGO_BYTES = 300 * 1024;
+
+export const REPORT_SECTIONS: { id: ReportSectionId; label: string }[] = [
+    { id: 'summary', label: 'Quadros de resumo' },
+    { id: 'monthly', label: 'Análise mensal por categoria' },
+    { id: 'charts', label: 'Painel de gráficos' },
+    { id: 'stability', label: 'Estabilidade e renda presumida' },
+    { id: 'payers', label: 'Análise de pagadores' },
+    { id: 'coverage', label: 'Cobertura dos extratos' },
+    { id: 'entries', label: 'Extrato detalhado' },
+    { id: 'exclusions', label: 'Créditos excluídos da receita' },
+    { id: 'reconciliation', label: 'Conciliação de saldos' },
+    { id: 'observations', label: 'Parecer do analista' },
+    { id: 'audit', label: 'Apêndice de correções manuais' },
+];
+
+const ALL_SECTIONS = Object.fromEntries(REPORT_SECTIONS.map(section => [section.id, true])) as ReportTemplate['sections'];
+
+// O layout que o relatório sempre teve; não pode ser apagado
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+    id: 'padrao',
+    name: 'Padrão',
+    title: 'Relatório de Análise de Créditos',
+    subtitle: 'Gerado pelo Analisador de Extratos com IA',
+    footerText: 'Relatório gerado pelo Analisador de Extratos com IA',
+    primaryColor: '#0f172a',
+    accentColor: '#22c55e',
+    tableHeaderColor: '#475569',
+    sections: ALL_SECTIONS,
+};
+
+export const EMPTY_REPORT_DETAILS: ReportDetails = { analystName: '', caseNumber: '', observations: '' };
+
+export interface ReportTemplateStore {
+    activeId: string;
+    templates: ReportTemplate[];
+}
+
+export const createReportTemplate = (base: ReportTemplate, name: string): ReportTemplate => ({
+    ...base,
+    sections: { ...base.sections },
+    id: createId('template'),
+    name,
+});
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+/** Confere um modelo vindo do armazenamento local; campos ausentes ou inválidos voltam ao padrão. */
+const sanitizeReportTemplate = (value: any): ReportTemplate | null => {
+    if (!value || typeof value !== 'object' || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+    const text = (field: unknown, fallback: string) => (typeof field === 'string' ? field : fallback);
+    const sections = { ...ALL_SECTIONS };
+    REPORT_SECTIONS.forEach(({ id }) => {
+        if (typeof value.sections?.[id] === 'boolean') sections[id] = value.sections[id];
+    });
+    return {
+        id: value.id,
+        name: value.name,
+        title: text(value.title, DEFAULT_REPORT_TEMPLATE.title),
+        subtitle: text(value.subtitle, DEFAULT_REPORT_TEMPLATE.subtitle),
+        footerText: text(value.footerText, DEFAULT_REPORT_TEMPLATE.footerText),
+        logoDataUrl: typeof value.logoDataUrl === 'string' && value.logoDataUrl.startsWith('data:image/') ? value.logoDataUrl : undefined,
+        primaryColor: isHexColor(value.primaryColor) ? value.primaryColor : DEFAULT_REPORT_TEMPLATE.primaryColor,
+        accentColor: isHexColor(value.accentColor) ? value.accentColor : DEFAULT_REPORT_TEMPLATE.accentColor,
+        tableHeaderColor: isHexColor(value.tableHeaderColor) ? value.tableHeaderColor : DEFAULT_REPORT_TEMPLATE.tableHeaderColor,
+        sections,
+    };
+};
+
+export const loadReportTemplates = (): ReportTemplateStore => {
+    const fallback = { activeId: DEFAULT_REPORT_TEMPLATE.id, templates: [DEFAULT_REPORT_TEMPLATE] };
+    try {
+        const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+        if (!stored) return fallback;
+        const parsed = JSON.parse(stored);
+        const templates = (Array.isArray(parsed?.templates) ? parsed.templates : [])
+            .map(sanitizeReportTemplate)
+            .filter((template: ReportTemplate | null): template is ReportTemplate => template !== null);
+        if (!templates.some((template: ReportTemplate) => template.id === DEFAULT_REPORT_TEMPLATE.id)) {
+            templates.unshift(DEFAULT_REPORT_TEMPLATE);
+        }
+        const activeId = templates.some((template: ReportTemplate) => template.id === parsed.activeId) ? parsed.activeId : DEFAULT_REPORT_TEMPLATE.id;
+        return { activeId, templates };
+    } catch {
+        return fallback;
+    }
+};
+
+export const saveReportTemplates = (store: ReportTemplateStore): void => {
+    try {
+        localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(store));
+    } catch (error) {
+        console.warn("Não foi possível salvar os modelos de relatório.", error);
+    }
+};
+
+/** Lê o arquivo do logotipo como data URL, aceitando só PNG e JPEG (os formatos que o jsPDF desenha). */
+export const readLogoFile = async (file: File): Promise<string> => {
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+        throw new Error("O logotipo precisa ser uma imagem PNG ou JPEG.");
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+        throw new Error(`O logotipo deve ter no máximo ${Math.round(MAX_LOGO_BYTES / 1024)} KB.`);
+    }
+    return `data:${file.type};base64,${await readFileAsBase64(file)}`;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { EXTRACTION_PROMPT_VERSION } from './extractionPrompt';
+import { buildResponseCacheKey } from './responseCache';
+
+describe('buildResponseCacheKey', () => {
+    it('combina o hash, o modo, a versão do prompt e o backend', () => {
+        expect(buildResponseCacheKey('abc123', 'credits', 'gemini:modelo')).toBe(`abc123|credits|v${EXTRACTION_PROMPT_VERSION}|gemini:modelo`);
+    });
+
+    it('separa modos, backends e lotes diferentes do mesmo arquivo', () => {
+        const keys = [
+            buildResponseCacheKey('abc123', 'credits', 'gemini:modelo'),
+            buildResponseCacheKey('abc123', 'full', 'gemini:modelo'),
+            buildResponseCacheKey('abc123', 'credits', 'openai-compatible:http://localhost:11434/v1:llava'),
+            buildResponseCacheKey('abc123', 'credits', 'gemini:modelo', { pageStart: 1, pageEnd: 5, pageCount: 10 }),
+            buildResponseCacheKey('abc123', 'credits', 'gemini:modelo', { pageStart: 6, pageEnd: 10, pageCount: 10 }),
+        ];
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('inclui o nome do cliente e o período do contexto do lote', () => {
+        const base = { pageStart: 6, pageEnd: 10, pageCount: 10 };
+        const withClient = buildResponseCacheKey('abc123', 'full', 'gemini:modelo', { ...base, clientName: 'MARIA SOUZA' });
+        const withPeriod = buildResponseCacheKey('abc123', 'full', 'gemini:modelo', { ...base, statement: { periodStart: '2024-01-01', periodEnd: '2024-01-31' } });
+        expect(withClient).toBe(`abc123|full|v${EXTRACTION_PROMPT_VERSION}|gemini:modelo|ctx:6:10:10:MARIA SOUZA::`);
+        expect(withPeriod).toBe(`abc123|full|v${EXTRACTION_PROMPT_VERSION}|gemini:modelo|ctx:6:10:10::2024-01-01:2024-01-31`);
+    });
+});
@@ -0,0 +1,101 @@
+import type { ExtractionContext, ExtractionMode, GeminiResponse } from '../types';
+import { EXTRACTION_PROMPT_VERSION, extractionContextKey } from './extractionPrompt';
+
+// Cache das respostas da IA no IndexedDB do navegador, endereçado pelo conteúdo: o mesmo arquivo,
+// no mesmo modo, com a mesma versão do prompt e o mesmo modelo, não é cobrado de novo.
+const DB_NAME = 'analisador-cache';
+const DB_VERSION = 1;
+const RESPONSES_STORE = 'responses';
+
+// Depois disso a resposta é descartada e o arquivo volta para a IA
+export const RESPONSE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CachedResponse {
+    key: string;
+    response: GeminiResponse;
+    createdAt: string;
+    expiresAt: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB indisponível."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+                    db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(new Error("Não foi possível abrir o cache de respostas."));
+        }).catch(error => {
+            // Permite tentar de novo na próxima chamada
+            databasePromise = null;
+            throw error;
+        });
+    }
+    return databasePromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(RESPONSES_STORE, mode);
+        const request = action(transaction.objectStore(RESPONSES_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(new Error("Não foi possível acessar o cache de respostas."));
+    });
+};
+
+/** Chave do cache: hash do arquivo, modo de extração, versão do prompt, backend/modelo e, nos lotes de PDFs divididos, o contexto. */
+export const buildResponseCacheKey = (fileHash: string, mode: ExtractionMode, extractorKey: string, context?: ExtractionContext): string =>
+    [fileHash, mode, `v${EXTRACTION_PROMPT_VERSION}`, extractorKey, extractionContextKey(context)].filter(Boolean).join('|');
+
+// O cache é só economia: falhas ao ler ou gravar nunca impedem a análise
+export const getCachedResponse = async (key: string): Promise<GeminiResponse | null> => {
+    try {
+        const cached = await runRequest<CachedResponse | undefined>('readonly', store => store.get(key));
+        if (!cached) return null;
+        if (cached.expiresAt <= Date.now()) {
+            await runRequest('readwrite', store => store.delete(key));
+            return null;
+        }
+        return cached.response;
+    } catch (error) {
+        console.warn("Não foi possível ler o cache de respostas.", error);
+        return null;
+    }
+};
+
+export const saveCachedResponse = async (key: string, response: GeminiResponse): Promise<void> => {
+    const cached: CachedResponse = {
+        key,
+        response,
+        createdAt: new Date().toISOString(),
+        expiresAt: Date.now() + RESPONSE_CACHE_TTL_MS,
+    };
+    try {
+        await runRequest('readwrite', store => store.put(cached));
+    } catch (error) {
+        console.warn("Não foi possível gravar no cache de respostas.", error);
+    }
+};
+
+export const countCachedResponses = async (): Promise<number> => {
+    try {
+        return await runRequest<number>('readonly', store => store.count());
+    } catch {
+        return 0;
+    }
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+    await runRequest('readwrite', store => store.clear());
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { box2dToBoundingBox, validateExtractorResponse, validatePositiveEntries, validateTransactions } from './responseValidation';
+
+// Frações de 1000 não são exatas em ponto flutuante
+const box = (x: number, y: number, width: number, height: number) =>
+    ({ x: expect.closeTo(x), y: expect.closeTo(y), width: expect.closeTo(width), height: expect.closeTo(height) });
+
+describe('box2dToBoundingBox', () => {
+    it('converte [ymin, xmin, ymax, xmax] de 0 a 1000 em uma região de 0 a 1, limitada à página', () => {
+        expect(box2dToBoundingBox([100, 200, 300, 600])).toEqual(box(0.2, 0.1, 0.4, 0.2));
+        expect(box2dToBoundingBox([-50, 900, 200, 1500])).toEqual(box(0.9, 0, 0.1, 0.2));
+    });
+
+    it('descarta caixas invertidas, vazias ou mal formadas', () => {
+        expect(box2dToBoundingBox([300, 200, 100, 600])).toBeUndefined();
+        expect(box2dToBoundingBox([100, 200, 100, 600])).toBeUndefined();
+        expect(box2dToBoundingBox([100, 200, 300])).toBeUndefined();
+        expect(box2dToBoundingBox([100, '200', 300, 600])).toBeUndefined();
+        expect(box2dToBoundingBox(null)).toBeUndefined();
+    });
+});
+
+describe('validatePositiveEntries', () => {
+    it('converte datas e valores no formato brasileiro e normaliza a procedência', () => {
+        const { valid, needsReview } = validatePositiveEntries([
+            { description: '  PIX   RECEBIDO ', amount: '1.234,56', date: '05/03/2024', page: 2, box2d: [0, 0, 500, 1000], confidence: 1.7, counterpartyName: 'JOAO', counterpartyDocument: '***.456.789-**' },
+        ]);
+        expect(needsReview).toEqual([]);
+        expect(valid).toEqual([{
+            description: 'PIX RECEBIDO',
+            amount: 1234.56,
+            date: '2024-03-05',
+            page: 2,
+            boundingBox: { x: 0, y: 0, width: 1, height: 0.5 },
+            confidence: 1,
+            counterparty: { name: 'JOAO', document: '***.456.789-**' },
+        }]);
+    });
+
+    it('manda para revisão o que não tem conserto, com todos os motivos', () => {
+        const { valid, needsReview } = validatePositiveEntries([
+            { description: 'PIX', amount: 10, date: '31/02/2024' },
+            { description: 'PIX', amount: 'ilegível', date: '2024-03-01' },
+            { description: 'PIX', amount: 0, date: '2024-03-01' },
+            { description: 'ESTORNO', amount: -50, date: '2024-03-01', page: 3, box2d: [10, 10, 20, 20] },
+            { description: '   ', amount: 10, date: null },
+            'linha solta',
+        ]);
+        expect(valid).toEqual([]);
+        expect(needsReview.map(item => item.reasons)).toEqual([
+            ['invalid-date'],
+            ['invalid-amount'],
+            ['invalid-amount'],
+            ['negative-amount'],
+            ['empty-description', 'invalid-date'],
+            ['malformed'],
+        ]);
+        // A linha em revisão guarda o texto como veio e onde está no documento
+        expect(needsReview[3]).toEqual({
+            id: 'review-3',
+            reasons: ['negative-amount'],
+            raw: { description: 'ESTORNO', amount: '-50', date: '2024-03-01' },
+            page: 3,
+            boundingBox: box(0.01, 0.01, 0.01, 0.01),
+        });
+        expect(needsReview[5].raw).toEqual({ description: 'linha solta', amount: '', date: '' });
+    });
+});
+
+describe('validateTransactions', () => {
+    it('aceita débitos e lê o saldo da linha', () => {
+        const { valid } = validateTransactions([{ description: 'TARIFA', amount: -12.9, date: '2024-03-01', balance: '1.000,00' }]);
+        expect(valid).toEqual([{ description: 'TARIFA', amount: -12.9, date: '2024-03-01', balance: 1000 }]);
+    });
+
+    it('deixa fora da revisão os débitos ilegíveis, que não afetam a receita', () => {
+        const { needsReview } = validateTransactions([
+            { description: '', amount: -30, date: '2024-03-01' },
+            { description: '', amount: 30, date: '2024-03-01' },
+            { description: 'PIX', amount: '??', date: '2024-03-01' },
+        ]);
+        expect(needsReview.map(item => item.raw.amount)).toEqual(['30', '??']);
+    });
+});
+
+describe('validateExtractorResponse', () => {
+    it('lê a extração simples e o cabeçalho do extrato', () => {
+        const response = validateExtractorResponse({
+            clientName: ' MARIA ',
+            statementPeriodStart: '01/03/2024',
+            statementPeriodEnd: '31/03/2024',
+            bankName: 'Banco X',
+            positiveEntries: [{ description: 'PIX', amount: 10, date: '2024-03-05' }],
+        }, 'credits');
+        expect(response).toEqual({
+            clientName: 'MARIA',
+            statement: { periodStart: '2024-03-01', periodEnd: '2024-03-31', bankName: 'Banco X' },
+            positiveEntries: [{ description: 'PIX', amount: 10, date: '2024-03-05' }],
+            needsReview: [],
+        });
+    });
+
+    it('descarta o período com o fim antes do início', () => {
+        const response = validateExtractorResponse({
+            clientName: '',
+            statement: { periodStart: '2024-03-31', periodEnd: '2024-03-01', agency: '1234' },
+            positiveEntries: [],
+        }, 'credits');
+        expect(response.statement).toEqual({ agency: '1234' });
+    });
+
+    it('deriva os créditos das transações na extração completa', () => {
+        const response = validateExtractorResponse({
+            clientName: 'MARIA',
+            openingBalance: 100,
+            closingBalance: '90,00',
+            pageBalances: [{ page: 1, openingBalance: 100, closingBalance: 90 }, { openingBalance: 1 }],
+            transactions: [
+                { description: 'PIX', amount: 20, date: '2024-03-05' },
+                { description: 'TARIFA', amount: -30, date: '2024-03-06' },
+            ],
+        }, 'full');
+        expect(response.positiveEntries).toEqual([{ description: 'PIX', amount: 20, date: '2024-03-05' }]);
+        expect(response.transactions).toHaveLength(2);
+        expect(response.closingBalance).toBe(90);
+        expect(response.pageBalances).toEqual([{ page: 1, openingBalance: 100, closingBalance: 90 }]);
+    });
+
+    it('recusa respostas sem a estrutura esperada', () => {
+        expect(() => validateExtractorResponse(null, 'credits')).toThrow("A resposta da IA não continha a estrutura esperada (clientName).");
+        expect(() => validateExtractorResponse({ clientName: 'X' }, 'credits')).toThrow("A resposta da IA não continha a estrutura esperada (clientName e positiveEntries).");
+        expect(() => validateExtractorResponse({ clientName: 'X', positiveEntries: [] }, 'full')).toThrow("A resposta da IA não continha a lista de transações esperada na extração completa.");
+    });
+});
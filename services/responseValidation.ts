@@ -0,0 +1,220 @@
+import type { BoundingBox, Counterparty, ExtractionMode, GeminiResponse, PageBalance, PositiveEntry, ReviewItem, ReviewReason, StatementInfo, Transaction } from '../types';
+import { parseBrazilianAmount, parseStatementDate, toPositiveEntries } from './parsers/parseUtils';
+import { isRecord, withoutUndefined } from './typeGuards';
+
+/** Converte o `box2d` do modelo ([ymin, xmin, ymax, xmax] de 0 a 1000) em uma região normalizada de 0 a 1. */
+export const box2dToBoundingBox = (box: unknown): BoundingBox | undefined => {
+    if (!Array.isArray(box) || box.length !== 4 || !box.every(value => typeof value === 'number' && Number.isFinite(value))) {
+        return undefined;
+    }
+    const [ymin, xmin, ymax, xmax] = box.map(value => Math.min(Math.max(value, 0), 1000) / 1000);
+    if (ymax <= ymin || xmax <= xmin) return undefined;
+    return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+const cleanString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+const finiteNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+// Junta os campos planos da contraparte (formato do schema) em um objeto `counterparty`
+const toCounterparty = (item: Record<string, unknown>): Counterparty | undefined => {
+    const name = cleanString(item.counterpartyName);
+    const document = cleanString(item.counterpartyDocument);
+    const bank = cleanString(item.counterpartyBank);
+    if (!name && !document) return undefined;
+    const counterparty: Counterparty = { name: name || '' };
+    if (document) counterparty.document = document;
+    if (bank) counterparty.bank = bank;
+    return counterparty;
+};
+
+// Contraparte já agrupada (parsers locais, respostas antigas em cache)
+const parseCounterparty = (value: unknown): Counterparty | undefined => {
+    if (!isRecord(value) || typeof value.name !== 'string') return undefined;
+    return withoutUndefined<Counterparty>({ name: value.name, document: cleanString(value.document), bank: cleanString(value.bank) });
+};
+
+const parseBoundingBox = (value: unknown): BoundingBox | undefined => {
+    if (!isRecord(value)) return undefined;
+    const [x, y, width, height] = [value.x, value.y, value.width, value.height].map(finiteNumber);
+    return x === undefined || y === undefined || width === undefined || height === undefined ? undefined : { x, y, width, height };
+};
+
+interface Provenance {
+    page?: number;
+    boundingBox?: BoundingBox;
+    confidence?: number;
+    counterparty?: Counterparty;
+}
+
+// Troca o `box2d` cru pelo `boundingBox`, limita a confiança ao intervalo 0–1 e agrupa a contraparte
+const normalizeProvenance = (item: Record<string, unknown>): Provenance => {
+    const confidence = finiteNumber(item.confidence);
+    return withoutUndefined<Provenance>({
+        page: finiteNumber(item.page),
+        boundingBox: parseBoundingBox(item.boundingBox) || box2dToBoundingBox(item.box2d),
+        confidence: confidence === undefined ? undefined : Math.min(Math.max(confidence, 0), 1),
+        counterparty: parseCounterparty(item.counterparty) || toCounterparty(item),
+    });
+};
+
+// Junta os campos planos do cabeçalho (formato do schema) em um objeto `statement`.
+// Um período com o fim antes do início foi mal lido e é descartado.
+const toStatementInfo = (parsedJson: Record<string, unknown>): StatementInfo | undefined => {
+    const date = (value: unknown) => (typeof value === 'string' ? parseStatementDate(value) || undefined : undefined);
+    const statement = isRecord(parsedJson.statement) ? parsedJson.statement : {};
+    let periodStart = date(parsedJson.statementPeriodStart) || date(statement.periodStart);
+    let periodEnd = date(parsedJson.statementPeriodEnd) || date(statement.periodEnd);
+    if (periodStart && periodEnd && periodEnd < periodStart) {
+        periodStart = undefined;
+        periodEnd = undefined;
+    }
+    const fields = withoutUndefined<StatementInfo>({
+        periodStart,
+        periodEnd,
+        bankName: cleanString(parsedJson.bankName) || cleanString(statement.bankName),
+        agency: cleanString(parsedJson.agency) || cleanString(statement.agency),
+        accountNumber: cleanString(parsedJson.accountNumber) || cleanString(statement.accountNumber),
+    });
+    return Object.keys(fields).length > 0 ? fields : undefined;
+};
+
+// --- Validação dos lançamentos: o que dá para corrigir é corrigido, o resto vai para revisão manual ---
+
+export const REVIEW_REASON_LABELS: { [key in ReviewReason]: string } = {
+    'invalid-date': 'Data inválida',
+    'invalid-amount': 'Valor ilegível',
+    'negative-amount': 'Valor negativo em lista de créditos',
+    'empty-description': 'Descrição vazia',
+    malformed: 'Linha sem estrutura reconhecível',
+};
+
+export interface ValidationResult<T> {
+    valid: T[];
+    needsReview: ReviewItem[];
+}
+
+// Saldo em número ou texto ("1.234,56"); ausente ou ilegível vira `null`
+const parseBalance = (value: unknown): number | null =>
+    typeof value === 'number' || typeof value === 'string' ? parseBrazilianAmount(value) : null;
+
+const toDisplayText = (value: unknown): string =>
+    value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Linha conferida, com a procedência; débitos e o saldo da linha só aparecem na extração completa
+type ValidatedLine = Transaction;
+
+type LineValidation =
+    | { ok: true; line: ValidatedLine }
+    | { ok: false; review: ReviewItem };
+
+/**
+ * Confere um lançamento devolvido pela extração. Datas em formato brasileiro ("05/03/2024") e valores
+ * em texto ("1.234,56") são convertidos; datas inexistentes, valores ilegíveis e descrições vazias
+ * não têm conserto automático e viram itens de revisão.
+ */
+const validateLine = (item: unknown, index: number, allowNegative: boolean): LineValidation => {
+    if (!isRecord(item)) {
+        return { ok: false, review: { id: `review-${index}`, reasons: ['malformed'], raw: { description: toDisplayText(item), amount: '', date: '' } } };
+    }
+    const provenance = normalizeProvenance(item);
+    const rawAmount = item.amount;
+    const description = typeof item.description === 'string' ? item.description.replace(/\s+/g, ' ').trim() : '';
+    const amount = typeof rawAmount === 'number' || typeof rawAmount === 'string' ? parseBrazilianAmount(rawAmount) : null;
+    const date = typeof item.date === 'string' ? parseStatementDate(item.date) : null;
+
+    const reasons: ReviewReason[] = [];
+    if (!description) reasons.push('empty-description');
+    if (amount === null || amount === 0) reasons.push('invalid-amount');
+    else if (amount < 0 && !allowNegative) reasons.push('negative-amount');
+    if (!date) reasons.push('invalid-date');
+
+    if (reasons.length > 0) {
+        const review: ReviewItem = {
+            id: `review-${index}`,
+            reasons,
+            raw: { description: toDisplayText(item.description), amount: toDisplayText(rawAmount), date: toDisplayText(item.date) },
+        };
+        if (provenance.page !== undefined) review.page = provenance.page;
+        if (provenance.boundingBox) review.boundingBox = provenance.boundingBox;
+        return { ok: false, review };
+    }
+    const line: ValidatedLine = { description, amount: amount!, date: date!, ...provenance };
+    if (item.balance !== undefined) line.balance = parseBalance(item.balance);
+    return { ok: true, line };
+};
+
+const validateLines = (items: unknown[], allowNegative: boolean): ValidationResult<ValidatedLine> => {
+    const result: ValidationResult<ValidatedLine> = { valid: [], needsReview: [] };
+    items.forEach((item, index) => {
+        const validation = validateLine(item, index, allowNegative);
+        if (validation.ok === true) result.valid.push(validation.line);
+        else result.needsReview.push(validation.review);
+    });
+    return result;
+};
+
+/** Créditos da extração simples: só valores positivos são aceitos. */
+export const validatePositiveEntries = (items: unknown[]): ValidationResult<PositiveEntry> => {
+    const { valid, needsReview } = validateLines(items, false);
+    // Na extração simples não há saldo por linha
+    return { valid: valid.map(({ balance: _balance, ...entry }) => entry), needsReview };
+};
+
+/**
+ * Transações da extração completa. Débitos com data ou descrição ilegível não entram na revisão:
+ * não afetam a receita, só a conciliação, que já aponta a diferença.
+ */
+export const validateTransactions = (items: unknown[]): ValidationResult<Transaction> => {
+    const result = validateLines(items, true);
+    return {
+        valid: result.valid,
+        needsReview: result.needsReview.filter(review => {
+            const amount = parseBrazilianAmount(review.raw.amount);
+            return amount === null || amount > 0;
+        }),
+    };
+};
+
+// Saldos por página: entradas sem número de página são ignoradas
+const validatePageBalances = (value: unknown): PageBalance[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value.filter(isRecord).flatMap(item => {
+        const page = finiteNumber(item.page);
+        return page === undefined ? [] : [{ page, openingBalance: parseBalance(item.openingBalance), closingBalance: parseBalance(item.closingBalance) }];
+    });
+};
+
+/**
+ * Contrato comum a todos os backends de extração: confere a estrutura da resposta, normaliza
+ * cada lançamento e, na extração completa, deriva os lançamentos positivos a partir das transações.
+ */
+export const validateExtractorResponse = (parsedJson: unknown, mode: ExtractionMode): GeminiResponse => {
+    if (!isRecord(parsedJson) || typeof parsedJson.clientName === 'undefined') {
+        throw new Error("A resposta da IA não continha a estrutura esperada (clientName).");
+    }
+    const clientName = typeof parsedJson.clientName === 'string' ? parsedJson.clientName.trim() : '';
+    const statement = toStatementInfo(parsedJson);
+
+    if (mode === 'full') {
+        if (!Array.isArray(parsedJson.transactions)) {
+            throw new Error("A resposta da IA não continha a lista de transações esperada na extração completa.");
+        }
+        const { valid: transactions, needsReview } = validateTransactions(parsedJson.transactions);
+        return withoutUndefined<GeminiResponse>({
+            clientName,
+            statement,
+            openingBalance: parseBalance(parsedJson.openingBalance),
+            closingBalance: parseBalance(parsedJson.closingBalance),
+            pageBalances: validatePageBalances(parsedJson.pageBalances),
+            transactions,
+            positiveEntries: toPositiveEntries(transactions),
+            needsReview,
+        });
+    }
+
+    if (!Array.isArray(parsedJson.positiveEntries)) {
+        throw new Error("A resposta da IA não continha a estrutura esperada (clientName e positiveEntries).");
+    }
+    const { valid: positiveEntries, needsReview } = validatePositiveEntries(parsedJson.positiveEntries);
+    return withoutUndefined<GeminiResponse>({ clientName, statement, positiveEntries, needsReview });
+};
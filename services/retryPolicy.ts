@@ -0,0 +1,24 @@
+// Política de novas tentativas para falhas transitórias da IA (servidor ocupado, limite de requisições).
+// Usada na CLI, ao chamar o Gemini direto, e no navegador, ao chamar o proxy.
+
+export const MAX_ATTEMPTS = 5;
+
+// Backoff exponencial: 2s, 4s, 8s, 16s
+export const retryDelay = (attempt: number): number => 2000 * Math.pow(2, attempt - 1);
+
+/** Espera `ms`; com `signal`, é interrompida no cancelamento e rejeita com o motivo do cancelamento. */
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,175 @@
+import type { PositiveEntry } from '../types';
+import { DEFAULT_CATEGORY, getCategoryLabel } from './categorization';
+import { monthRange } from './statementCoverage';
+import { buildXlsx, cellRef, sheetRef, type XlsxCell, type XlsxSheet } from './xlsxWriter';
+
+// Exportação para planilhas: XLSX com fórmulas reais e CSV no padrão do Excel em português
+// (";" como separador e vírgula decimal).
+
+const SUMMARY_SHEET = 'Resumo';
+const PIVOT_SHEET = 'Receita por Descrição';
+const ENTRIES_SHEET = 'Lançamentos';
+
+const monthNames: { [key: string]: string } = {
+    '01': 'Janeiro', '02': 'Fevereiro', '03': 'Março', '04': 'Abril',
+    '05': 'Maio', '06': 'Junho', '07': 'Julho', '08': 'Agosto',
+    '09': 'Setembro', '10': 'Outubro', '11': 'Novembro', '12': 'Dezembro',
+};
+
+const monthLabel = (monthYear: string) => {
+    const [year, month] = monthYear.split('-');
+    return `${monthNames[month]}/${year.slice(2)}`;
+};
+
+/** Nome do arquivo do relatório a partir do nome do cliente, igual para PDF, XLSX e CSV. */
+export const buildReportFileName = (clientName: string, extension: string): string => {
+    const safeFileName = clientName.trim().toLowerCase().replace(/[^a-z0-9]/g, '_').replace(/_{2,}/g, '_');
+    return safeFileName ? `relatorio_creditos_${safeFileName}.${extension}` : `relatorio_analise_creditos.${extension}`;
+};
+
+interface PivotRow {
+    category: string;
+    description: string;
+    amounts: { [monthYear: string]: number };
+    total: number;
+}
+
+/**
+ * Pivô descrição × mês, agrupado por categoria na mesma ordem da tela (maiores totais primeiro).
+ * Meses sem crédito dentro do período coberto aparecem como colunas zeradas.
+ */
+const buildDescriptionPivot = (entries: PositiveEntry[], coverageMonths: string[]): { months: string[]; rows: PivotRow[] } => {
+    const rowsByKey = new Map<string, PivotRow>();
+    const categoryTotals = new Map<string, number>();
+    const months = new Set<string>();
+    entries.forEach(entry => {
+        if (!entry.date || !entry.description) return;
+        const monthYear = entry.date.slice(0, 7);
+        const category = entry.category || DEFAULT_CATEGORY;
+        const key = `${category}\u0000${entry.description}`;
+        const row = rowsByKey.get(key) || { category, description: entry.description, amounts: {}, total: 0 };
+        row.amounts[monthYear] = (row.amounts[monthYear] || 0) + entry.amount;
+        row.total += entry.amount;
+        rowsByKey.set(key, row);
+        categoryTotals.set(category, (categoryTotals.get(category) || 0) + entry.amount);
+        months.add(monthYear);
+    });
+    const rows = Array.from(rowsByKey.values()).sort((a, b) =>
+        a.category === b.category
+            ? b.total - a.total
+            : (categoryTotals.get(b.category) || 0) - (categoryTotals.get(a.category) || 0) || a.category.localeCompare(b.category)
+    );
+    return { months: monthRange([...months, ...coverageMonths]), rows };
+};
+
+export const buildWorkbook = (entries: PositiveEntry[], clientName: string, coverageMonths: string[] = []): Blob => {
+    const { months, rows } = buildDescriptionPivot(entries, coverageMonths);
+    const firstMonthColumn = 2;
+    const lastMonthColumn = firstMonthColumn + months.length - 1;
+    const firstDataRow = 1;
+    const lastDataRow = rows.length; // linha 0 é o cabeçalho
+    const totalsRow = lastDataRow + 1;
+
+    // --- Pivô com fórmulas de total por linha e por coluna ---
+    const pivotRows: XlsxCell[][] = [
+        [{ value: 'Categoria', style: 'bold' }, { value: 'Descrição', style: 'bold' }, ...months.map(month => ({ value: monthLabel(month), style: 'bold' as const })), { value: 'Total', style: 'bold' }],
+    ];
+    rows.forEach((row, index) => {
+        const rowIndex = firstDataRow + index;
+        pivotRows.push([
+            getCategoryLabel(row.category),
+            row.description,
+            ...months.map(month => (row.amounts[month] ? { value: row.amounts[month], style: 'currency' as const } : null)),
+            { formula: `SUM(${cellRef(rowIndex, firstMonthColumn)}:${cellRef(rowIndex, lastMonthColumn)})`, value: row.total, style: 'boldCurrency' },
+        ]);
+    });
+    const monthTotals = months.map(month => rows.reduce((sum, row) => sum + (row.amounts[month] || 0), 0));
+    const grandTotal = monthTotals.reduce((sum, total) => sum + total, 0);
+    pivotRows.push([
+        { value: 'Total Mensal', style: 'bold' },
+        null,
+        ...[...monthTotals, grandTotal].map((total, index) => ({
+            formula: `SUM(${cellRef(firstDataRow, firstMonthColumn + index)}:${cellRef(lastDataRow, firstMonthColumn + index)})`,
+            value: total,
+            style: 'boldCurrency' as const,
+        })),
+    ]);
+
+    // --- Resumo: os totais mensais apontam para a linha de totais do pivô ---
+    const summaryMonthStart = 6;
+    const summaryMonthEnd = summaryMonthStart + months.length - 1;
+    const generationDate = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'long', timeStyle: 'short' }).format(new Date());
+    const summaryRows: XlsxCell[][] = [
+        [{ value: 'Relatório de Análise de Créditos', style: 'bold' }],
+        ['Cliente', clientName || 'Não identificado'],
+        ['Período', months.length ? `${monthLabel(months[0])} a ${monthLabel(months[months.length - 1])}` : 'N/A'],
+        ['Gerado em', generationDate],
+        [],
+        [{ value: 'Mês', style: 'bold' }, { value: 'Total de Créditos', style: 'bold' }],
+        ...months.map((month, index): XlsxCell[] => [
+            monthLabel(month),
+            { formula: `${sheetRef(PIVOT_SHEET)}!${cellRef(totalsRow, firstMonthColumn + index)}`, value: monthTotals[index], style: 'currency' },
+        ]),
+        [],
+    ];
+    const monthCells = `B${summaryMonthStart + 1}:B${summaryMonthEnd + 1}`;
+    summaryRows.push(
+        [{ value: 'Total Geral', style: 'bold' }, { formula: months.length ? `SUM(${monthCells})` : '0', value: grandTotal, style: 'boldCurrency' }],
+        ['Média Mensal', { formula: months.length ? `AVERAGE(${monthCells})` : '0', value: months.length ? grandTotal / months.length : 0, style: 'currency' }],
+        ['Maior Mês', { formula: months.length ? `MAX(${monthCells})` : '0', value: months.length ? Math.max(...monthTotals) : 0, style: 'currency' }],
+        ['Lançamentos', { formula: `COUNT(${sheetRef(ENTRIES_SHEET)}!D:D)`, value: entries.length }],
+    );
+
+    // --- Lançamentos detalhados, com data e valor como células numéricas ---
+    const sortedEntries = [...entries].sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+    const entryRows: XlsxCell[][] = [
+        ['Data', 'Descrição', 'Categoria', 'Valor', 'Pagador', 'Documento', 'Banco', 'Arquivo', 'Etiquetas', 'Editado manualmente'].map(value => ({ value, style: 'bold' as const })),
+        ...sortedEntries.map((entry): XlsxCell[] => [
+            entry.date ? { date: entry.date } : null,
+            entry.description,
+            getCategoryLabel(entry.category || DEFAULT_CATEGORY),
+            { value: entry.amount, style: 'currency' },
+            entry.counterparty?.name || null,
+            entry.counterparty?.document || null,
+            entry.counterparty?.bank || null,
+            entry.sourceFile || null,
+            entry.tags?.join(', ') || null,
+            entry.manuallyEdited ? 'Sim' : null,
+        ]),
+    ];
+
+    const sheets: XlsxSheet[] = [
+        { name: SUMMARY_SHEET, rows: summaryRows, columnWidths: [24, 40] },
+        { name: PIVOT_SHEET, rows: pivotRows, columnWidths: [16, 48, ...months.map(() => 15), 16], frozenRows: 1 },
+        { name: ENTRIES_SHEET, rows: entryRows, columnWidths: [12, 48, 16, 15, 32, 20, 16, 28, 20, 12], frozenRows: 1 },
+    ];
+    return buildXlsx(sheets);
+};
+
+const formatCsvNumber = (value: number) => value.toFixed(2).replace('.', ',');
+
+const formatCsvDate = (date: string) => {
+    const [year, month, day] = date.split('-');
+    return day ? `${day}/${month}/${year}` : date;
+};
+
+const escapeCsv = (value: string) => (/[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** Lançamentos detalhados em CSV UTF-8 com BOM, que o Excel em português abre sem assistente de importação. */
+export const buildEntriesCsv = (entries: PositiveEntry[]): Blob => {
+    const header = ['Data', 'Descrição', 'Categoria', 'Valor', 'Pagador', 'Documento', 'Banco', 'Arquivo'];
+    const lines = [...entries]
+        .sort((a, b) => (a.date || '').localeCompare(b.date || ''))
+        .map(entry => [
+            entry.date ? formatCsvDate(entry.date) : '',
+            entry.description,
+            getCategoryLabel(entry.category || DEFAULT_CATEGORY),
+            formatCsvNumber(entry.amount),
+            entry.counterparty?.name || '',
+            entry.counterparty?.document || '',
+            entry.counterparty?.bank || '',
+            entry.sourceFile || '',
+        ]);
+    const content = [header, ...lines].map(line => line.map(escapeCsv).join(';')).join('\r\n');
+    return new Blob(['\uFEFF' + content + '\r\n'], { type: 'text/csv;charset=utf-8' });
+};
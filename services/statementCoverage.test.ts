@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { PositiveEntry, SessionFile, StatementInfo } from '../types';
+import { computeStatementCoverage, monthRange } from './statementCoverage';
+
+const entry = (date: string, sourceFile?: string): PositiveEntry => ({ id: `${sourceFile}-${date}`, description: 'PIX RECEBIDO', amount: 100, date, sourceFile });
+
+const file = (name: string, dates: string[], statement?: StatementInfo): SessionFile => ({
+    id: name,
+    file: new File([''], name),
+    name,
+    status: 'done',
+    result: { clientName: '', positiveEntries: dates.map(date => entry(date, name)), statement },
+});
+
+describe('monthRange', () => {
+    it('preenche os meses intermediários, atravessando a virada do ano', () => {
+        expect(monthRange(['2024-02', '2023-11'])).toEqual(['2023-11', '2023-12', '2024-01', '2024-02']);
+        expect(monthRange(['2024-05'])).toEqual(['2024-05']);
+        expect(monthRange([])).toEqual([]);
+    });
+});
+
+describe('computeStatementCoverage', () => {
+    it('usa o período impresso e aponta o extrato que faltou como lacuna', () => {
+        const coverage = computeStatementCoverage([
+            file('janeiro.pdf', ['2024-01-10'], { periodStart: '2024-01-01', periodEnd: '2024-01-31', bankName: 'Itaú' }),
+            file('marco.pdf', ['2024-03-05'], { periodStart: '2024-03-01', periodEnd: '2024-03-31' }),
+        ], []);
+        expect(coverage).toMatchObject({ start: '2024-01-01', end: '2024-03-31', months: ['2024-01', '2024-02', '2024-03'] });
+        expect(coverage.gaps).toEqual([{ start: '2024-02-01', end: '2024-02-29', days: 29 }]);
+        expect(coverage.partialMonths).toEqual(['2024-02']);
+        expect(coverage.periods[0]).toEqual({ sourceFile: 'janeiro.pdf', start: '2024-01-01', end: '2024-01-31', declared: true, bankName: 'Itaú' });
+    });
+
+    it('marca como parciais os meses em que o período impresso começa ou termina no meio', () => {
+        const coverage = computeStatementCoverage([file('extrato.pdf', ['2024-01-20'], { periodStart: '2024-01-15', periodEnd: '2024-02-10' })], []);
+        expect(coverage.gaps).toEqual([]);
+        expect(coverage.partialMonths).toEqual(['2024-01', '2024-02']);
+    });
+
+    it('tolera poucos dias sem movimento entre períodos deduzidos dos lançamentos', () => {
+        const coverage = computeStatementCoverage([
+            file('a.csv', ['2024-01-02', '2024-01-29']),
+            file('b.csv', ['2024-02-02', '2024-02-27']),
+            file('c.csv', ['2024-03-15', '2024-03-28']),
+        ], []);
+        expect(coverage.periods.every(period => !period.declared)).toBe(true);
+        expect(coverage.gaps).toEqual([{ start: '2024-02-28', end: '2024-03-14', days: 16 }]);
+        // Pontas deduzidas não dizem que o mês foi coberto em parte; só a lacuna diz
+        expect(coverage.partialMonths).toEqual(['2024-02', '2024-03']);
+    });
+
+    it('junta os lotes de um PDF dividido em um só extrato', () => {
+        const coverage = computeStatementCoverage([
+            file('extrato (págs. 1-5).pdf', ['2024-01-05'], { periodStart: '2024-01-01' }),
+            file('extrato (págs. 6-8).pdf', ['2024-02-20'], { periodEnd: '2024-02-29' }),
+        ], []);
+        expect(coverage.periods).toEqual([{ sourceFile: 'extrato.pdf', start: '2024-01-01', end: '2024-02-29', declared: true }]);
+    });
+
+    it('sem arquivos, deduz os períodos das datas dos lançamentos', () => {
+        const coverage = computeStatementCoverage([], [entry('2024-04-03', 'abril.ofx'), entry('2024-04-25', 'abril.ofx')]);
+        expect(coverage.periods).toEqual([{ sourceFile: 'abril.ofx', start: '2024-04-03', end: '2024-04-25', declared: false }]);
+        expect(computeStatementCoverage([], [])).toEqual({ start: null, end: null, months: [], periods: [], gaps: [], partialMonths: [] });
+    });
+});
@@ -0,0 +1,166 @@
+import type { CoverageGap, CoveragePeriod, PositiveEntry, SessionFile, StatementCoverage, StatementInfo } from '../types';
+
+// Cobertura de datas dos extratos enviados. O período analisado não é só "do primeiro ao último
+// mês com crédito": um mês sem nenhum crédito, ou um extrato que faltou, muda a média mensal.
+
+// Entre períodos deduzidos das datas dos lançamentos, alguns dias sem movimento (fim de semana, feriado) são normais
+const INFERRED_GAP_TOLERANCE_DAYS = 4;
+
+const DAY_MS = 86400000;
+
+const toDayNumber = (date: string): number => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const fromDayNumber = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const isValidDate = (date: string | undefined): date is string => !!date && /^\d{4}-\d{2}-\d{2}$/.test(date);
+
+/** Todos os meses (AAAA-MM) entre o menor e o maior mês informado, inclusive os intermediários. */
+export const monthRange = (months: string[]): string[] => {
+    if (months.length === 0) return [];
+    const sorted = [...months].sort();
+    let [year, month] = sorted[0].split('-').map(Number);
+    const [endYear, endMonth] = sorted[sorted.length - 1].split('-').map(Number);
+    const result: string[] = [];
+    while (year < endYear || (year === endYear && month <= endMonth)) {
+        result.push(`${year}-${String(month).padStart(2, '0')}`);
+        month++;
+        if (month > 12) {
+            month = 1;
+            year++;
+        }
+    }
+    return result;
+};
+
+// Lotes e páginas de um PDF dividido ("extrato (págs. 1-5).pdf", "extrato (pág. 2).pdf") pertencem ao mesmo extrato
+const statementKey = (fileName: string): string => fileName.replace(/ \(págs?\. \d+(?:-\d+)?\)(?=\.pdf$)/i, '');
+
+interface StatementGroup {
+    sourceFile: string;
+    dates: string[];
+    info: StatementInfo;
+}
+
+// Período de um extrato, lembrando se cada ponta foi impressa pelo banco ou deduzida dos lançamentos
+interface ResolvedPeriod extends CoveragePeriod {
+    startDeclared: boolean;
+    endDeclared: boolean;
+}
+
+const mergeInfo = (current: StatementInfo, next: StatementInfo | undefined): StatementInfo => {
+    if (!next) return current;
+    const earliest = [current.periodStart, next.periodStart].filter(isValidDate).sort()[0];
+    const latest = [current.periodEnd, next.periodEnd].filter(isValidDate).sort().pop();
+    return {
+        periodStart: earliest,
+        periodEnd: latest,
+        bankName: current.bankName || next.bankName,
+        agency: current.agency || next.agency,
+        accountNumber: current.accountNumber || next.accountNumber,
+    };
+};
+
+const resolvePeriod = ({ sourceFile, dates, info }: StatementGroup): ResolvedPeriod | null => {
+    const sorted = dates.filter(isValidDate).sort();
+    const startDeclared = isValidDate(info.periodStart);
+    const endDeclared = isValidDate(info.periodEnd);
+    const start = startDeclared ? info.periodStart! : sorted[0];
+    const end = endDeclared ? info.periodEnd! : sorted[sorted.length - 1];
+    if (!start || !end || end < start) return null;
+    const period: ResolvedPeriod = { sourceFile, start, end, declared: startDeclared && endDeclared, startDeclared, endDeclared };
+    if (info.bankName) period.bankName = info.bankName;
+    if (info.agency) period.agency = info.agency;
+    if (info.accountNumber) period.accountNumber = info.accountNumber;
+    return period;
+};
+
+const groupSessionFiles = (files: SessionFile[]): StatementGroup[] => {
+    const groups = new Map<string, StatementGroup>();
+    files
+        .filter(file => file.status === 'done' && file.result)
+        .forEach(file => {
+            const key = file.chunk?.documentName || statementKey(file.name);
+            const group = groups.get(key) || { sourceFile: key, dates: [], info: {} };
+            const lines = file.result!.transactions?.length ? file.result!.transactions : file.result!.positiveEntries;
+            group.dates.push(...lines.map(line => line.date));
+            group.info = mergeInfo(group.info, file.result!.statement);
+            groups.set(key, group);
+        });
+    return Array.from(groups.values());
+};
+
+// Sem os arquivos (análise importada), cada arquivo de origem dos lançamentos vira um período deduzido
+const groupEntries = (entries: PositiveEntry[]): StatementGroup[] => {
+    const groups = new Map<string, StatementGroup>();
+    entries.forEach(entry => {
+        const key = entry.sourceFile ? statementKey(entry.sourceFile) : 'Lançamentos';
+        const group = groups.get(key) || { sourceFile: key, dates: [], info: {} };
+        group.dates.push(entry.date);
+        groups.set(key, group);
+    });
+    return Array.from(groups.values());
+};
+
+const lastDayOfMonth = (month: string): string => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return fromDayNumber(Date.UTC(year, monthNumber, 0) / DAY_MS);
+};
+
+/**
+ * Período realmente coberto pelos extratos: usa o período impresso no cabeçalho quando a extração
+ * o encontrou e, na falta dele, as datas dos lançamentos. Dias que nenhum extrato cobre viram lacunas.
+ */
+export const computeStatementCoverage = (files: SessionFile[], entries: PositiveEntry[]): StatementCoverage => {
+    const fileGroups = groupSessionFiles(files);
+    const groups = fileGroups.length > 0 ? fileGroups : groupEntries(entries);
+    const periods = groups
+        .map(resolvePeriod)
+        .filter((period): period is ResolvedPeriod => period !== null)
+        .sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+
+    if (periods.length === 0) {
+        return { start: null, end: null, months: [], periods: [], gaps: [], partialMonths: [] };
+    }
+
+    const gaps: CoverageGap[] = [];
+    let coveredUntil = periods[0].end;
+    let coveredUntilDeclared = periods[0].endDeclared;
+    periods.slice(1).forEach(period => {
+        const missingDays = toDayNumber(period.start) - toDayNumber(coveredUntil) - 1;
+        const tolerance = coveredUntilDeclared && period.startDeclared ? 0 : INFERRED_GAP_TOLERANCE_DAYS;
+        if (missingDays > tolerance) {
+            gaps.push({
+                start: fromDayNumber(toDayNumber(coveredUntil) + 1),
+                end: fromDayNumber(toDayNumber(period.start) - 1),
+                days: missingDays,
+            });
+        }
+        if (period.end > coveredUntil) {
+            coveredUntil = period.end;
+            coveredUntilDeclared = period.endDeclared;
+        }
+    });
+
+    const first = periods[0];
+    const start = first.start;
+    const end = coveredUntil;
+    const months = monthRange([start.slice(0, 7), end.slice(0, 7)]);
+
+    // Só as pontas impressas pelo banco dizem com certeza que o mês foi coberto em parte
+    const partialMonths = new Set<string>();
+    if (first.startDeclared && !start.endsWith('-01')) partialMonths.add(start.slice(0, 7));
+    if (coveredUntilDeclared && end !== lastDayOfMonth(end.slice(0, 7))) partialMonths.add(end.slice(0, 7));
+    gaps.forEach(gap => monthRange([gap.start.slice(0, 7), gap.end.slice(0, 7)]).forEach(month => partialMonths.add(month)));
+
+    return {
+        start,
+        end,
+        months,
+        periods: periods.map(({ startDeclared, endDeclared, ...period }) => period),
+        gaps,
+        partialMonths: months.filter(month => partialMonths.has(month)),
+    };
+};
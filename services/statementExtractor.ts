@@ -0,0 +1,53 @@
+import type { ExtractorBackend, ExtractorSettings, StatementExtractor } from '../types';
+import { createGeminiExtractor } from './extractors/geminiExtractor';
+import { createLocalOcrExtractor } from './extractors/localOcrExtractor';
+import { createOpenAiCompatibleExtractor } from './extractors/openAiCompatibleExtractor';
+import { DEFAULT_TIMEOUT_SECONDS } from './analysisSession';
+
+const SETTINGS_STORAGE_KEY = 'analisador.extractorSettings';
+
+export const EXTRACTOR_BACKENDS: { id: ExtractorBackend; label: string; description: string }[] = [
+    { id: 'gemini', label: 'Google Gemini', description: 'Envia o documento ao servidor de análise, que consulta o Gemini. Maior precisão em imagens e PDFs digitalizados.' },
+    { id: 'local-ocr', label: 'OCR local (offline)', description: 'Lê o texto do PDF ou faz OCR no próprio navegador. Nenhum dado sai do computador.' },
+    { id: 'openai-compatible', label: 'Endpoint compatível com OpenAI', description: 'Usa um modelo próprio (Ollama, LM Studio, vLLM) pela API /v1/chat/completions.' },
+];
+
+export const DEFAULT_EXTRACTOR_SETTINGS: ExtractorSettings = {
+    backend: 'gemini',
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiModel: '',
+    openAiApiKey: '',
+    ocrLanguage: 'por',
+    ocrAssetsPath: '',
+    timeoutSeconds: DEFAULT_TIMEOUT_SECONDS,
+    preprocessImages: true,
+};
+
+export const loadExtractorSettings = (): ExtractorSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_EXTRACTOR_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXTRACTOR_SETTINGS;
+    } catch {
+        return DEFAULT_EXTRACTOR_SETTINGS;
+    }
+};
+
+export const saveExtractorSettings = (settings: ExtractorSettings): void => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn("Não foi possível salvar as configurações de extração.", error);
+    }
+};
+
+export const createStatementExtractor = (settings: ExtractorSettings): StatementExtractor => {
+    switch (settings.backend) {
+        case 'local-ocr':
+            return createLocalOcrExtractor(settings);
+        case 'openai-compatible':
+            return createOpenAiCompatibleExtractor(settings);
+        case 'gemini':
+        default:
+            return createGeminiExtractor();
+    }
+};
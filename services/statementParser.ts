@@ -0,0 +1,57 @@
+import type { GeminiResponse, StatementFormat } from '../types';
+import { decodeStatementBytes } from './parsers/parseUtils';
+import { isOfxContent, parseOfx } from './parsers/ofxParser';
+import { isCsvContent, parseCsv } from './parsers/csvParser';
+import { detectCnabLayout, parseCnab240, parseCnab400 } from './parsers/cnabParser';
+
+// Extensões processadas localmente, sem chamada à IA
+export const LOCAL_STATEMENT_EXTENSIONS = ['.ofx', '.csv', '.txt', '.ret', '.rem'];
+
+const getExtension = (fileName: string): string => {
+    const dotIndex = fileName.lastIndexOf('.');
+    return dotIndex >= 0 ? fileName.slice(dotIndex).toLowerCase() : '';
+};
+
+export const isLocalStatementFile = (file: File): boolean =>
+    LOCAL_STATEMENT_EXTENSIONS.includes(getExtension(file.name))
+    || file.type === 'text/csv'
+    || file.type === 'application/x-ofx';
+
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat | null => {
+    const extension = getExtension(fileName);
+    if (extension === '.ofx' || isOfxContent(text)) return 'ofx';
+
+    const cnabLayout = detectCnabLayout(text);
+    if (cnabLayout) return cnabLayout;
+
+    if (extension === '.csv' || isCsvContent(text)) return 'csv';
+    return null;
+};
+
+export const parseStatementText = (text: string, fileName: string): GeminiResponse => {
+    const format = detectStatementFormat(fileName, text);
+    switch (format) {
+        case 'ofx':
+            return parseOfx(text);
+        case 'cnab240':
+            return parseCnab240(text);
+        case 'cnab400':
+            return parseCnab400(text);
+        case 'csv':
+            return parseCsv(text);
+        default:
+            throw new Error(`Formato do arquivo "${fileName}" não reconhecido. Envie um OFX, CSV ou arquivo de retorno CNAB 240/400.`);
+    }
+};
+
+export const parseStatementFile = async (file: File): Promise<GeminiResponse> => {
+    const text = decodeStatementBytes(await file.arrayBuffer());
+    return parseStatementText(text, file.name);
+};
+
+/** Junta o resultado de vários arquivos em um só, mantendo o primeiro nome de cliente encontrado. */
+export const mergeResponses = (responses: GeminiResponse[]): GeminiResponse => ({
+    clientName: responses.find(response => response.clientName.trim())?.clientName || '',
+    positiveEntries: responses.flatMap(response => response.positiveEntries),
+    needsReview: responses.flatMap(response => response.needsReview || []),
+});
@@ -0,0 +1,9 @@
+// Verificações de tipo para dados vindos de fora (JSON importado, armazenamento local, resposta da IA)
+
+/** Objeto simples com campos a conferir; listas e `null` não contam. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Cópia sem os campos `undefined`, para o objeto importado não ganhar chaves vazias. */
+export const withoutUndefined = <T extends object>(value: T): T =>
+    Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildXlsx, cellRef, columnLetter, sheetRef } from './xlsxWriter';
+
+const unzip = async (blob: Blob) => unzipSync(new Uint8Array(await blob.arrayBuffer()));
+
+describe('referências de células', () => {
+    it('convertem índices em letras e referências A1', () => {
+        expect([0, 25, 26, 701, 702].map(columnLetter)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA']);
+        expect(cellRef(0, 0)).toBe('A1');
+        expect(cellRef(9, 27)).toBe('AB10');
+        expect(sheetRef("Receita d'água")).toBe("'Receita d''água'");
+    });
+});
+
+describe('buildXlsx', () => {
+    it('monta o pacote com uma planilha por aba e os nomes aceitos pelo Excel', async () => {
+        const files = await unzip(buildXlsx([
+            { name: 'Resumo', rows: [['Total']] },
+            { name: 'Créditos: jan/fev [2024] com um nome longo demais', rows: [] },
+        ]));
+        expect(Object.keys(files).sort()).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/_rels/workbook.xml.rels',
+            'xl/styles.xml',
+            'xl/workbook.xml',
+            'xl/worksheets/sheet1.xml',
+            'xl/worksheets/sheet2.xml',
+        ]);
+        const workbook = strFromU8(files['xl/workbook.xml']);
+        expect(workbook).toContain('<sheet name="Resumo" sheetId="1" r:id="rId1"/>');
+        expect(workbook).toContain('<sheet name="Créditos  jan fev  2024  com um" sheetId="2" r:id="rId2"/>');
+    });
+
+    it('grava texto, números, datas, fórmulas e estilos', async () => {
+        const files = await unzip(buildXlsx([{
+            name: 'Lançamentos',
+            frozenRows: 1,
+            columnWidths: [12, 30],
+            rows: [
+                [{ value: 'Data', style: 'bold' }, 'Descrição <PIX> & "TED"', { value: 'Valor', style: 'bold' }],
+                [{ date: '2024-03-10' }, 'SALARIO', { value: 1500.5, style: 'currency' }],
+                [{ date: 'sem data' }, null, { formula: 'SUM(C2:C2)', value: 1500.5, style: 'boldCurrency' }],
+            ],
+        }]));
+        const sheet = strFromU8(files['xl/worksheets/sheet1.xml']);
+        expect(sheet).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+        expect(sheet).toContain('<col min="2" max="2" width="30" customWidth="1"/>');
+        expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Data</t></is></c>');
+        expect(sheet).toContain('<t xml:space="preserve">Descrição &lt;PIX&gt; &amp; &quot;TED&quot;</t>');
+        // 10/03/2024 é o dia 45361 contado a partir de 30/12/1899
+        expect(sheet).toContain('<c r="A2" s="4"><v>45361</v></c>');
+        expect(sheet).toContain('<c r="C2" s="2"><v>1500.5</v></c>');
+        expect(sheet).toContain('<c r="A3" t="inlineStr"><is><t>sem data</t></is></c>');
+        expect(sheet).toContain('<c r="C3" s="3"><f>SUM(C2:C2)</f><v>1500.5</v></c>');
+        expect(sheet).not.toContain('r="B3"');
+    });
+
+    it('exige ao menos uma aba', () => {
+        expect(() => buildXlsx([])).toThrow("A planilha precisa ter ao menos uma aba.");
+    });
+});
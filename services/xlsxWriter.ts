@@ -0,0 +1,164 @@
+import { strToU8, zipSync } from 'fflate';
+
+// Gerador mínimo de planilhas XLSX (Office Open XML): texto, números, datas e fórmulas,
+// com alguns estilos fixos. Suficiente para os relatórios, sem depender de uma biblioteca de planilhas.
+
+export type XlsxStyle = 'bold' | 'currency' | 'boldCurrency' | 'date' | 'percent';
+
+export type XlsxCell =
+    | string
+    | number
+    | null
+    | {
+          value?: string | number;
+          // Data AAAA-MM-DD, gravada como número de série do Excel
+          date?: string;
+          // Fórmula sem o "=" inicial; `value` é o resultado já calculado, exibido antes do recálculo
+          formula?: string;
+          style?: XlsxStyle;
+      };
+
+export interface XlsxSheet {
+    name: string;
+    rows: XlsxCell[][];
+    // Largura de cada coluna, em caracteres
+    columnWidths?: number[];
+    // Mantém as primeiras linhas visíveis ao rolar
+    frozenRows?: number;
+}
+
+// Índices em cellXfs de styles.xml
+const STYLE_INDEX: { [key in XlsxStyle]: number } = {
+    bold: 1,
+    currency: 2,
+    boldCurrency: 3,
+    date: 4,
+    percent: 5,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;R$&quot;\\ #,##0.00"/><numFmt numFmtId="165" formatCode="dd/mm/yyyy"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Caracteres de controle são inválidos em XML
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/** Letra da coluna a partir do índice (0 → A, 26 → AA). */
+export const columnLetter = (index: number): string => {
+    let letter = '';
+    let current = index + 1;
+    while (current > 0) {
+        const remainder = (current - 1) % 26;
+        letter = String.fromCharCode(65 + remainder) + letter;
+        current = Math.floor((current - 1) / 26);
+    }
+    return letter;
+};
+
+/** Referência A1 a partir de linha e coluna começando em zero. */
+export const cellRef = (row: number, column: number): string => `${columnLetter(column)}${row + 1}`;
+
+/** Nome da aba pronto para uso em fórmulas de outras abas: 'Minha aba'!A1 */
+export const sheetRef = (sheetName: string): string => `'${sheetName.replace(/'/g, "''")}'`;
+
+// Número de série do Excel: dias desde 30/12/1899
+const toExcelDate = (date: string): number | null => {
+    const match = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return null;
+    const [, year, month, day] = match.map(Number);
+    return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const cellXml = (cell: XlsxCell, ref: string): string => {
+    if (cell === null || cell === undefined || cell === '') return '';
+    if (typeof cell === 'number') return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : '';
+    if (typeof cell === 'string') return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+
+    const style = cell.style ? ` s="${STYLE_INDEX[cell.style]}"` : '';
+    if (cell.formula) {
+        const cached = typeof cell.value === 'number' ? `<v>${cell.value}</v>` : '';
+        return `<c r="${ref}"${style}><f>${escapeXml(cell.formula)}</f>${cached}</c>`;
+    }
+    if (cell.date) {
+        const serial = toExcelDate(cell.date);
+        if (serial === null) return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(cell.date)}</t></is></c>`;
+        return `<c r="${ref}" s="${STYLE_INDEX[cell.style || 'date']}"><v>${serial}</v></c>`;
+    }
+    if (typeof cell.value === 'number') return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+    if (cell.value === undefined || cell.value === '') return style ? `<c r="${ref}"${style}/>` : '';
+    return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheet): string => {
+    const views = sheet.frozenRows
+        ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="${sheet.frozenRows}" topLeftCell="A${sheet.frozenRows + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+        : '';
+    const columns = sheet.columnWidths?.length
+        ? `<cols>${sheet.columnWidths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+        : '';
+    const rows = sheet.rows
+        .map((row, rowIndex) => `<row r="${rowIndex + 1}">${row.map((cell, columnIndex) => cellXml(cell, cellRef(rowIndex, columnIndex))).join('')}</row>`)
+        .join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${views}${columns}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+// O Excel limita o nome da aba a 31 caracteres e não aceita : \ / ? * [ ]
+const sanitizeSheetName = (name: string): string => name.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31) || 'Planilha';
+
+export const buildXlsx = (sheets: XlsxSheet[]): Blob => {
+    if (sheets.length === 0) {
+        throw new Error("A planilha precisa ter ao menos uma aba.");
+    }
+    const names = sheets.map(sheet => sanitizeSheetName(sheet.name));
+
+    const files: { [path: string]: Uint8Array } = {
+        '[Content_Types].xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${names.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`),
+        '_rels/.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`),
+        'xl/workbook.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>
+<calcPr calcId="191029" fullCalcOnLoad="1"/>
+</workbook>`),
+        'xl/_rels/workbook.xml.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${names.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`),
+        'xl/styles.xml': strToU8(STYLES_XML),
+    };
+    sheets.forEach((sheet, index) => {
+        files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(sheetXml({ ...sheet, name: names[index] }));
+    });
+
+    return new Blob([zipSync(files)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
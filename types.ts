@@ -1,10 +1,580 @@
+// Posição da linha na página, normalizada de 0 a 1 (origem no canto superior esquerdo)
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Quem enviou o crédito, quando a descrição (ou o documento) permite identificar
+export interface Counterparty {
+  name: string;
+  // Fragmento de CPF/CNPJ como impresso (muitas vezes mascarado, ex.: ***.456.789-**)
+  document?: string;
+  bank?: string;
+}
+
 export interface PositiveEntry {
   description: string;
   amount: number;
   date: string;
+  id?: string;
+  sourceFile?: string;
+  sourceFileId?: string;
+  // Procedência no documento de origem: página (1-based), região da linha e confiança da extração (0 a 1)
+  page?: number;
+  boundingBox?: BoundingBox;
+  confidence?: number;
+  counterparty?: Counterparty;
+  // Marcado quando o usuário confirma que o lançamento não é duplicado (ou já foi fundido)
+  reviewedDuplicate?: boolean;
+  // Etiquetas atribuídas pelas regras de receita
+  tags?: string[];
+  // Categoria de receita (id de INCOME_CATEGORIES ou nome livre definido por regra) e quem a atribuiu
+  category?: string;
+  categorySource?: CategorySource;
+  // O usuário restaurou o lançamento depois de uma regra de exclusão removê-lo
+  exclusionOverridden?: boolean;
+  // Algum campo foi alterado (ou o lançamento foi incluído) manualmente; o detalhe fica na trilha de auditoria
+  manuallyEdited?: boolean;
+}
+
+export type CategorySource = 'keyword' | 'override' | 'rule' | 'ai' | 'manual';
+
+export interface Transaction {
+  description: string;
+  // Positivo para créditos, negativo para débitos
+  amount: number;
+  date: string;
+  // Saldo impresso na linha do extrato, quando houver
+  balance?: number | null;
+  page?: number;
+  boundingBox?: BoundingBox;
+  confidence?: number;
+  counterparty?: Counterparty;
+}
+
+export interface PageBalance {
+  page: number;
+  openingBalance: number | null;
+  closingBalance: number | null;
+}
+
+export type ExtractionMode = 'credits' | 'full';
+
+export type ReviewReason = 'invalid-date' | 'invalid-amount' | 'negative-amount' | 'empty-description' | 'malformed';
+
+// Linha devolvida pela extração que não pôde ser aproveitada automaticamente e aguarda revisão manual
+export interface ReviewItem {
+  id: string;
+  reasons: ReviewReason[];
+  // Valores como vieram da extração, convertidos em texto para exibição
+  raw: { description: string; amount: string; date: string };
+  sourceFile?: string;
+  sourceFileId?: string;
+  page?: number;
+  boundingBox?: BoundingBox;
+}
+
+// Cabeçalho do extrato: período declarado pelo banco e a conta a que ele se refere
+export interface StatementInfo {
+  // AAAA-MM-DD
+  periodStart?: string;
+  periodEnd?: string;
+  bankName?: string;
+  agency?: string;
+  accountNumber?: string;
 }
 
 export interface GeminiResponse {
     positiveEntries: PositiveEntry[];
     clientName: string;
-}
\ No newline at end of file
+    statement?: StatementInfo;
+    // Lançamentos com data, valor ou descrição irrecuperáveis
+    needsReview?: ReviewItem[];
+    // Preenchidos na extração completa (e pelos parsers locais quando o arquivo traz essas informações)
+    transactions?: Transaction[];
+    openingBalance?: number | null;
+    closingBalance?: number | null;
+    pageBalances?: PageBalance[];
+}
+
+export type StatementFormat = 'ofx' | 'csv' | 'cnab240' | 'cnab400';
+
+export type SessionFileStatus = 'pending' | 'processing' | 'done' | 'error';
+
+// Lote de páginas de um PDF longo, dividido para a análise (ou uma página reanalisada sozinha)
+export interface PdfChunk {
+  // Liga os lotes do mesmo PDF
+  documentId: string;
+  documentName: string;
+  // Páginas do PDF original (1-based, inclusivas) contidas no lote
+  pageStart: number;
+  pageEnd: number;
+  pageCount: number;
+}
+
+export interface SessionFile {
+  id: string;
+  file: File;
+  // Lotes de PDFs divididos recebem o sufixo "(págs. N-M)" (ou "(pág. N)") no nome do arquivo
+  name: string;
+  // Páginas do PDF original; os lançamentos do arquivo usam a numeração do PDF original
+  chunk?: PdfChunk;
+  status: SessionFileStatus;
+  error?: string;
+  result?: GeminiResponse;
+  // Novas tentativas feitas pela extração (servidor ocupado, limite de requisições)
+  retries?: number;
+  // Etapa atual enquanto o arquivo está em análise
+  progress?: FileProgress;
+  // Tipo do erro, para a tela sugerir como resolver
+  errorKind?: AnalysisErrorKind;
+  // Resposta reaproveitada do cache (do navegador ou do servidor), sem nova chamada à IA
+  cached?: boolean;
+  // Marcado por "Reanalisar": a próxima análise do arquivo ignora o cache
+  bypassCache?: boolean;
+  // Foto tratada antes da análise; `file` é a imagem tratada
+  preprocessing?: ImagePreprocessing;
+}
+
+// Ponto em coordenadas relativas (0 a 1) da foto já girada
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+// Giro no sentido horário aplicado à foto, depois da orientação EXIF
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+export interface ImagePreprocessing {
+  // A foto como foi enviada, para refazer o tratamento com outro recorte
+  originalFile: File;
+  rotation: ImageRotation;
+  // Cantos do documento: superior esquerdo, superior direito, inferior direito e inferior esquerdo
+  corners: NormalizedPoint[];
+  // Inclinação corrigida, em graus
+  skewAngle: number;
+  // Recorte ou giro escolhido pelo usuário em vez do detectado
+  manual?: boolean;
+}
+
+export interface DuplicateCluster {
+  id: string;
+  entryIds: string[];
+  // Menor similaridade de descrição entre os pares do grupo (0 a 1)
+  similarity: number;
+}
+
+export type DuplicateResolution = 'keep' | 'merge' | 'discard';
+
+export type ReconciliationScope = 'statement' | 'page' | 'month' | 'line';
+
+export interface ReconciliationCheck {
+  scope: ReconciliationScope;
+  label: string;
+  openingBalance: number;
+  credits: number;
+  debits: number;
+  expectedClosing: number;
+  actualClosing: number;
+  difference: number;
+  ok: boolean;
+}
+
+export interface ReconciliationReport {
+  sourceFile: string;
+  // 'unavailable' quando o extrato não traz saldos suficientes para conferir
+  status: 'ok' | 'mismatch' | 'unavailable';
+  checks: ReconciliationCheck[];
+}
+
+export type IncomeRuleAction = 'exclude' | 'tag' | 'recategorize';
+
+// Regra declarativa aplicada aos créditos depois da extração; todas as condições preenchidas precisam ser atendidas
+export interface IncomeRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Expressão regular testada contra a descrição normalizada (maiúsculas, sem acentos)
+  descriptionPattern?: string;
+  // Nome da contraparte que deve aparecer na descrição
+  counterparty?: string;
+  // A contraparte é o próprio titular da conta (transferência de mesma titularidade)
+  matchClientName?: boolean;
+  minAmount?: number;
+  maxAmount?: number;
+  // Janela de datas (AAAA-MM-DD, inclusiva)
+  startDate?: string;
+  endDate?: string;
+  action: IncomeRuleAction;
+  // Etiqueta ('tag') ou categoria ('recategorize') aplicada
+  value?: string;
+}
+
+export interface ExcludedEntry {
+  entry: PositiveEntry;
+  ruleId: string;
+  ruleName: string;
+}
+
+// Filtros do extrato detalhado. Campos vazios não filtram; valores e datas ficam como digitados
+export interface EntryFilter {
+  query: string;
+  // AAAA-MM-DD, inclusivos
+  dateFrom: string;
+  dateTo: string;
+  minAmount: string;
+  maxAmount: string;
+  // AAAA-MM escolhido no painel de gráficos
+  month: string | null;
+}
+
+export type EntrySortKey = 'date' | 'description' | 'amount' | 'category' | 'sourceFile';
+
+export interface EntrySort {
+  key: EntrySortKey;
+  direction: 'asc' | 'desc';
+}
+
+export type PayerRecurrence = 'recurring' | 'occasional' | 'one-off';
+
+export interface PayerSummary {
+  key: string;
+  name: string;
+  document?: string;
+  bank?: string;
+  total: number;
+  // Participação no total de créditos (0 a 1)
+  share: number;
+  count: number;
+  months: string[];
+  recurrence: PayerRecurrence;
+}
+
+export interface PayerAnalysis {
+  payers: PayerSummary[];
+  totalIncome: number;
+  // Créditos cuja descrição não permite identificar o pagador
+  unidentifiedTotal: number;
+  unidentifiedCount: number;
+  monthCount: number;
+  topPayerShare: number;
+  top3Share: number;
+  // Índice Herfindahl-Hirschman (0 a 10.000) sobre a participação de cada pagador
+  concentrationIndex: number;
+  concentrationLevel: 'low' | 'moderate' | 'high';
+}
+
+export interface IncomeMetric {
+  id: string;
+  label: string;
+  value: number;
+  // Valor formatado para exibição e a explicação de como foi calculado
+  display: string;
+  explanation: string;
+}
+
+export interface RecurringIncome {
+  key: string;
+  payer: string;
+  typicalAmount: number;
+  // Dia do mês em que o pagamento costuma cair
+  typicalDay: number;
+  months: string[];
+  entryIds: string[];
+  isSalary: boolean;
+  // Pagou nos últimos meses do período; só as fontes ativas entram na renda presumida
+  active: boolean;
+}
+
+export interface IncomeStabilityReport {
+  metrics: IncomeMetric[];
+  recurringIncomes: RecurringIncome[];
+  // Total de cada mês do período (AAAA-MM), inclusive meses sem crédito
+  monthlySeries: { month: string; total: number }[];
+  presumedIncome: number;
+}
+
+// Intervalo de datas coberto por um extrato (arquivos de páginas do mesmo PDF formam um só extrato)
+export interface CoveragePeriod {
+  sourceFile: string;
+  start: string;
+  end: string;
+  // false quando o período foi deduzido das datas dos lançamentos, por falta do período impresso
+  declared: boolean;
+  bankName?: string;
+  agency?: string;
+  accountNumber?: string;
+}
+
+// Dias seguidos que nenhum extrato enviado cobre
+export interface CoverageGap {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface StatementCoverage {
+  start: string | null;
+  end: string | null;
+  // Todos os meses (AAAA-MM) entre o início e o fim da cobertura, inclusive os sem crédito
+  months: string[];
+  periods: CoveragePeriod[];
+  gaps: CoverageGap[];
+  // Meses cobertos só em parte (início ou fim no meio do mês, ou cortados por uma lacuna)
+  partialMonths: string[];
+}
+
+// Quem provocou a alteração: o analista, uma regra de receita, a IA, ou desfazer/refazer
+export type AuditSource = 'manual' | 'rule' | 'ai' | 'undo' | 'redo';
+
+export type AuditAction = 'added' | 'deleted' | 'changed';
+
+export type AuditField = 'description' | 'date' | 'amount' | 'category' | 'clientName';
+
+export interface AuditEvent {
+  id: string;
+  // ISO 8601
+  at: string;
+  source: AuditSource;
+  action: AuditAction;
+  entryId?: string;
+  // Descrição e data do lançamento no momento da alteração, para leitura humana
+  entryLabel?: string;
+  // Arquivo de origem do lançamento, para saber de onde veio o que foi removido
+  sourceFile?: string;
+  field?: AuditField;
+  before?: string | number;
+  after?: string | number;
+}
+
+// Estado que pode ser desfeito e refeito
+export interface EditSnapshot {
+  positiveEntries: PositiveEntry[];
+  excludedEntries: ExcludedEntry[];
+  needsReview: ReviewItem[];
+  clientName: string;
+}
+
+// Metadados de um arquivo de origem na análise exportada; o conteúdo do arquivo não é incluído
+export interface AnalysisSourceFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // SHA-256 em hexadecimal, para conferir se o extrato é o mesmo que foi analisado
+  sha256?: string;
+  status: SessionFileStatus;
+  error?: string;
+}
+
+export interface MonthlyTotal {
+  // AAAA-MM
+  month: string;
+  total: number;
+  count: number;
+}
+
+// Documento JSON de intercâmbio de uma análise (formato 'analisador-analise')
+export interface AnalysisDocument {
+  format: 'analisador-analise';
+  version: number;
+  exportedAt: string;
+  clientName: string;
+  sourceFiles: AnalysisSourceFile[];
+  entries: PositiveEntry[];
+  excluded: ExcludedEntry[];
+  auditTrail: AuditEvent[];
+  // Calculados a partir de `entries`; servem a quem consome o arquivo sem recalcular
+  monthlyTotals: MonthlyTotal[];
+  totalIncome: number;
+}
+
+export type CaseEventType =
+  | 'analyzed'
+  | 'renamed'
+  | 'entries-edited'
+  | 'category-changed'
+  | 'rules-applied'
+  | 'entry-restored'
+  | 'files-removed'
+  | 'report-generated'
+  | 'duplicated'
+  | 'imported';
+
+export interface CaseEvent {
+  type: CaseEventType;
+  // ISO 8601
+  at: string;
+  description: string;
+}
+
+export interface CaseReport {
+  id: string;
+  fileName: string;
+  generatedAt: string;
+  blob: Blob;
+}
+
+// Caso de análise salvo no IndexedDB: os arquivos originais, o resultado da extração e tudo o que foi feito depois
+export interface AnalysisCase {
+  id: string;
+  clientName: string;
+  createdAt: string;
+  updatedAt: string;
+  files: SessionFile[];
+  positiveEntries: PositiveEntry[];
+  excludedEntries: ExcludedEntry[];
+  history: CaseEvent[];
+  auditTrail: AuditEvent[];
+  needsReview: ReviewItem[];
+  reports: CaseReport[];
+}
+
+export interface CaseSummary {
+  id: string;
+  clientName: string;
+  createdAt: string;
+  updatedAt: string;
+  fileNames: string[];
+  entryCount: number;
+  totalIncome: number;
+  reports: Omit<CaseReport, 'blob'>[];
+}
+
+export type ExtractorBackend = 'gemini' | 'local-ocr' | 'openai-compatible';
+
+export interface ExtractorSettings {
+  backend: ExtractorBackend;
+  // Endpoint compatível com a API da OpenAI (ex.: Ollama, LM Studio, vLLM)
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey: string;
+  // Idioma do Tesseract e, opcionalmente, caminhos locais dos arquivos do OCR para uso offline
+  ocrLanguage: string;
+  ocrAssetsPath: string;
+  // Tempo máximo de análise de cada arquivo, incluindo as novas tentativas
+  timeoutSeconds: number;
+  // Trata as fotos (giro, recorte, contraste) antes de mandá-las à extração
+  preprocessImages: boolean;
+}
+
+export type AnalysisStage = 'reading' | 'uploading' | 'waiting' | 'retrying' | 'validating';
+
+export interface FileProgress {
+  stage: AnalysisStage;
+  // Envio do documento, de 0 a 100, quando o navegador informa
+  uploadPercent?: number;
+  // Momento da próxima tentativa (epoch em ms), para a contagem regressiva
+  retryAt?: number;
+}
+
+export type AnalysisErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'overloaded'
+  | 'safety'
+  | 'parse'
+  | 'unsupported'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+// Aviso de nova tentativa após uma falha transitória da IA
+export interface ExtractionRetry {
+  // Tentativa que falhou, a partir de 1
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+}
+
+// Contexto de um lote de páginas: onde ele fica no PDF original e o cabeçalho lido no primeiro lote
+export interface ExtractionContext {
+  pageStart: number;
+  pageEnd: number;
+  pageCount: number;
+  clientName?: string;
+  statement?: StatementInfo;
+}
+
+// Páginas de um PDF em que a extração não encontrou nenhum lançamento
+export interface EmptyPages {
+  documentId: string;
+  documentName: string;
+  pages: number[];
+}
+
+export interface ExtractOptions {
+  // A etapa 'retrying' é avisada só por aqui, junto com a espera até a próxima tentativa
+  onRetry?: (retry: ExtractionRetry) => void;
+  onStage?: (stage: AnalysisStage, uploadPercent?: number) => void;
+  // Cancelamento pelo usuário ou tempo limite; o motivo (signal.reason) é o erro lançado
+  signal?: AbortSignal;
+  // Ignora respostas em cache (opção "Reanalisar")
+  bypassCache?: boolean;
+  // Avisado quando o servidor devolve uma resposta do cache dele
+  onCacheHit?: () => void;
+  // Presente quando o arquivo é um lote de um PDF dividido
+  context?: ExtractionContext;
+}
+
+export interface StatementExtractor {
+  backend: ExtractorBackend;
+  // Backend e modelo, para a chave do cache de respostas; sem ele, as respostas não vão para o cache
+  cacheKey?: string;
+  extract: (base64Data: string, mimeType: string, mode: ExtractionMode, options?: ExtractOptions) => Promise<GeminiResponse>;
+}
+
+// Corpos das requisições ao proxy da IA (server/), que guarda a chave do Gemini
+export interface ExtractRequest {
+  base64Data: string;
+  mimeType: string;
+  mode: ExtractionMode;
+  bypassCache?: boolean;
+  context?: ExtractionContext;
+}
+
+export interface CategorizeRequest {
+  descriptions: string[];
+  categories: { id: string; label: string }[];
+}
+
+export type ReportSectionId =
+  | 'summary'
+  | 'monthly'
+  | 'charts'
+  | 'stability'
+  | 'payers'
+  | 'coverage'
+  | 'entries'
+  | 'exclusions'
+  | 'reconciliation'
+  | 'observations'
+  | 'audit';
+
+// Modelo do relatório PDF (identidade visual e seções), salvo como predefinição no navegador
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  title: string;
+  subtitle: string;
+  footerText: string;
+  // Logotipo em data URL (PNG ou JPEG), desenhado no cabeçalho da primeira página
+  logoDataUrl?: string;
+  // Cores em hexadecimal: títulos, destaque (tabela mensal) e cabeçalho das demais tabelas
+  primaryColor: string;
+  accentColor: string;
+  tableHeaderColor: string;
+  sections: { [section in ReportSectionId]: boolean };
+}
+
+// Dados do relatório que mudam a cada caso e não fazem parte do modelo
+export interface ReportDetails {
+  analystName: string;
+  caseNumber: string;
+  // Parecer do analista em texto livre
+  observations: string;
+}
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Build da CLI de processamento em lote (cli/analisador.ts) como um único arquivo para Node
+export default defineConfig({
+    build: {
+        ssr: 'cli/analisador.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        emptyOutDir: true,
+        rollupOptions: {
+            output: {
+                entryFileNames: 'analisador.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+    ssr: {
+        target: 'node',
+        noExternal: true,
+    },
+});
@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Proxy da IA rodando localmente (npm run server ou npm run server:mock)
+          '/api': `http://localhost:${env.ANALISADOR_API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Só o endereço do proxy vai para o bundle; a chave do Gemini fica no servidor
+        'process.env.ANALISADOR_API_URL': JSON.stringify(env.ANALISADOR_API_URL || '')
       },
       resolve: {
         alias: {
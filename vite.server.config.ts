@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// Build do proxy da IA (server/index.ts) como um único arquivo para Node
+export default defineConfig({
+    build: {
+        ssr: 'server/index.ts',
+        outDir: 'dist-server',
+        target: 'node20',
+        emptyOutDir: true,
+        rollupOptions: {
+            output: {
+                entryFileNames: 'server.js',
+            },
+        },
+    },
+    ssr: {
+        target: 'node',
+        noExternal: true,
+    },
+});